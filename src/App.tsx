@@ -3,38 +3,92 @@ import Header from './components/header'
 import Sidebar from './components/sidebar'
 import MainContent from './components/main-content'
 import { ErrorBoundary, FeatureErrorBoundary } from './components/error-boundary'
+import { SearchOverlay } from './components/search-overlay'
+import { BackupDialog } from './components/backup-dialog'
+import { ImportDialog } from './components/import-dialog'
+import { TaskDetailPanel } from './components/task-detail-panel'
+import { SyncConflictDialog } from './components/sync-conflict-dialog'
 import { ToastProvider } from './lib/toast'
+import { AppStoreProvider } from './store/AppStoreProvider'
 import { useState } from 'react'
+import { useSelectedTaskUrl } from './hooks/useSelectedTaskUrl'
+import { useDataChanges } from './hooks/useDataChanges'
+import type { SearchTarget } from './types/search'
 
 function App() {
-  const [refreshKey, setRefreshKey] = useState(0);
   const [selectedListId, setSelectedListId] = useState<string | null>(null);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [isBackupOpen, setIsBackupOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [searchTarget, setSearchTarget] = useState<SearchTarget | null>(null);
+  // Selected task is kept in the URL so the detail panel can be linked to
+  const [selectedTaskId, setSelectedTaskId] = useSelectedTaskUrl();
 
-  const handleDataChange = () => {
-    // Increment key to trigger refresh in both sidebar and main content
-    setRefreshKey(prev => prev + 1);
-  };
+  // Components keep themselves current from change events; only selection needs fixing up here
+  useDataChanges(event => {
+    if (event.type === 'list_deleted') {
+      // Fall back to all tasks when the open list goes away
+      setSelectedListId(prev => prev === event.listId ? null : prev);
+    }
+  });
 
   const handleListSelect = (listId: string) => {
     // Toggle: if clicking same item, deselect (show all)
     setSelectedListId(prev => prev === listId ? null : listId);
   };
 
+  const handleSearchSelect = (target: SearchTarget) => {
+    // Open the list holding the result, then let main content jump to it
+    setSelectedListId(target.listId);
+    setSearchTarget(target);
+    if (target.type === 'task') {
+      setSelectedTaskId(target.id);
+    }
+  };
+
   return (
     <ErrorBoundary>
-      <div className='flex flex-col bg-background text-foreground h-screen'>
-        <Header />
-        <div className='flex flex-1 overflow-hidden'>
-          <FeatureErrorBoundary featureName="sidebar">
-            <Sidebar refreshKey={refreshKey} onListSelect={handleListSelect} />
-          </FeatureErrorBoundary>
-          <FeatureErrorBoundary featureName="main content">
-            <main role="main" aria-label="Task content" className="flex-1 overflow-hidden">
-              <MainContent refreshKey={refreshKey} selectedListId={selectedListId} onDataChange={handleDataChange} />
-            </main>
-          </FeatureErrorBoundary>
+      <AppStoreProvider>
+        <div className='flex flex-col bg-background text-foreground h-screen'>
+          <Header onSearchClick={() => setIsSearchOpen(true)} onSettingsClick={() => setIsBackupOpen(true)} onTaskSelect={setSelectedTaskId} />
+          <div className='flex flex-1 overflow-hidden'>
+            <FeatureErrorBoundary featureName="sidebar">
+              <Sidebar selectedListId={selectedListId} onListSelect={handleListSelect} />
+            </FeatureErrorBoundary>
+            <FeatureErrorBoundary featureName="main content">
+              <main role="main" aria-label="Task content" className="flex-1 overflow-hidden">
+                <MainContent
+                  selectedListId={selectedListId}
+                  searchTarget={searchTarget}
+                  selectedTaskId={selectedTaskId}
+                  onTaskSelect={setSelectedTaskId}
+                />
+              </main>
+            </FeatureErrorBoundary>
+            {selectedTaskId && (
+              <FeatureErrorBoundary featureName="task details">
+                <TaskDetailPanel
+                  key={selectedTaskId}
+                  taskId={selectedTaskId}
+                  onClose={() => setSelectedTaskId(null)}
+                />
+              </FeatureErrorBoundary>
+            )}
+          </div>
         </div>
-      </div>
+        <SearchOverlay
+          isOpen={isSearchOpen}
+          onClose={() => setIsSearchOpen(false)}
+          onSelect={handleSearchSelect}
+        />
+        <BackupDialog
+          isOpen={isBackupOpen}
+          onClose={() => setIsBackupOpen(false)}
+          onImportFromApp={() => setIsImportOpen(true)}
+        />
+        <ImportDialog isOpen={isImportOpen} onClose={() => setIsImportOpen(false)} />
+        <SyncConflictDialog />
+      </AppStoreProvider>
       <ToastProvider />
     </ErrorBoundary>
   )
@@ -0,0 +1,237 @@
+import { useState } from 'react'
+import { CalendarDays, Download, Upload } from 'lucide-react'
+import { format } from 'date-fns'
+import Modal from './modal'
+import { dataService } from '../services/dataService'
+import { showError, showSuccess } from '../lib/toastUtils'
+import { ValidationError } from '../types/errors'
+import type { WorkspaceBackup, ImportMode } from '../types/backup'
+import { getBackupFileName, parseBackup } from '../utils/backup'
+import { downloadFile } from '../utils/download'
+import { exportToICalendar, getCalendarFileName } from '../utils/icalendar'
+import { useAppStore } from '../hooks/useAppStore'
+
+interface BackupDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  onImportFromApp?: () => void // Opens the todo.txt / Todoist / Things importer
+}
+
+type PendingImport = {
+  fileName: string
+  backup: WorkspaceBackup
+}
+
+const IMPORT_MODES: { mode: ImportMode; label: string; detail: string }[] = [
+  { mode: 'merge', label: 'Merge', detail: 'Add what is missing; where both have a copy, the newer one wins.' },
+  { mode: 'replace', label: 'Replace', detail: 'Discard everything here and use the backup instead.' },
+]
+
+/**
+ * Counts what a backup holds, for the import preview
+ */
+function summarize(backup: WorkspaceBackup) {
+  const lists = [...backup.sidebar.areas, ...backup.sidebar.projects]
+  return {
+    lists: lists.length,
+    notes: lists.reduce((sum, list) => sum + (list.sections?.length ?? 0) + (list.journal?.length ?? 0), 0),
+    tasks: backup.tasks.length,
+  }
+}
+
+/**
+ * Exports the whole workspace as a JSON backup and imports one back, and exports due dates as a calendar
+ * Opened from the header Settings button
+ */
+export function BackupDialog({ isOpen, onClose, onImportFromApp }: BackupDialogProps) {
+  const [pending, setPending] = useState<PendingImport | null>(null)
+  const [fileErrors, setFileErrors] = useState<string[]>([])
+  const [mode, setMode] = useState<ImportMode>('merge')
+  const [isBusy, setIsBusy] = useState(false)
+  const { state: { tasks, sidebar } } = useAppStore()
+
+  const handleClose = () => {
+    setPending(null)
+    setFileErrors([])
+    setMode('merge')
+    onClose()
+  }
+
+  const handleExport = async () => {
+    setIsBusy(true)
+    try {
+      const backup = await dataService.exportBackup()
+      downloadFile(getBackupFileName(backup), JSON.stringify(backup, null, 2), 'application/json')
+      showSuccess('Backup downloaded')
+    } catch (error) {
+      showError(error, 'Failed to export backup')
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleCalendarExport = () => {
+    downloadFile(getCalendarFileName(), exportToICalendar(tasks, sidebar), 'text/calendar')
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    setPending(null)
+    setFileErrors([])
+    try {
+      setPending({ fileName: file.name, backup: parseBackup(await file.text()) })
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        const details = Object.entries(error.validationErrors ?? {}).map(([path, messages]) => `${path}: ${messages.join(', ')}`)
+        setFileErrors([error.message, ...details])
+      } else {
+        showError(error, 'Failed to read the backup file')
+      }
+    }
+  }
+
+  const handleImport = async () => {
+    if (!pending) return
+
+    setIsBusy(true)
+    try {
+      await dataService.importBackup(pending.backup, mode)
+      showSuccess(mode === 'merge' ? 'Backup merged' : 'Backup restored')
+      handleClose()
+    } catch (error) {
+      showError(error, 'Failed to import backup')
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const summary = pending ? summarize(pending.backup) : null
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Import and export">
+      <section className="space-y-2">
+        <h3 className="text-sm font-medium">Export</h3>
+        <p className="text-sm text-muted-foreground">
+          Download every list, note, journal entry and task as a JSON file.
+        </p>
+        <button
+          type="button"
+          onClick={handleExport}
+          disabled={isBusy}
+          className="flex items-center gap-2 px-4 py-2 text-sm border border-border rounded-md
+                     hover:bg-accent/10 transition-colors disabled:opacity-50"
+        >
+          <Download className="w-4 h-4" aria-hidden="true" />
+          Export backup
+        </button>
+      </section>
+
+      <section className="space-y-2 mt-6">
+        <h3 className="text-sm font-medium">Import</h3>
+        <label className="flex items-center gap-2 w-fit px-4 py-2 text-sm border border-border rounded-md
+                          hover:bg-accent/10 transition-colors cursor-pointer">
+          <Upload className="w-4 h-4" aria-hidden="true" />
+          Choose backup file
+          <input type="file" accept="application/json,.json" onChange={handleFileChange} className="sr-only" />
+        </label>
+
+        {fileErrors.length > 0 && (
+          <ul role="alert" className="text-sm text-priority-high space-y-1 max-h-32 overflow-y-auto">
+            {fileErrors.map(message => <li key={message}>{message}</li>)}
+          </ul>
+        )}
+
+        {pending && summary && (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              <span className="text-card-foreground">{pending.fileName}</span>, exported {format(new Date(pending.backup.exportedAt), 'PPp')}:
+              {' '}{summary.lists} lists, {summary.notes} notes and journal entries, {summary.tasks} tasks.
+            </p>
+
+            <fieldset>
+              <legend className="block text-sm font-medium mb-2">How should it be imported?</legend>
+              <div className="space-y-1">
+                {IMPORT_MODES.map(option => (
+                  <label
+                    key={option.mode}
+                    className="flex items-start gap-2 p-2 rounded-md hover:bg-accent/10 transition-colors cursor-pointer text-sm"
+                  >
+                    <input
+                      type="radio"
+                      name="backup-import-mode"
+                      value={option.mode}
+                      checked={mode === option.mode}
+                      onChange={() => setMode(option.mode)}
+                      className="accent-accent mt-1"
+                    />
+                    <span>
+                      <span className="block">{option.label}</span>
+                      <span className="block text-xs text-muted-foreground">{option.detail}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
+            <div className="flex gap-2 justify-end">
+              <button
+                type="button"
+                onClick={() => setPending(null)}
+                className="px-4 py-2 text-sm border border-border rounded-md hover:bg-accent/10 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleImport}
+                disabled={isBusy}
+                className={`px-4 py-2 text-sm text-background rounded-md transition-colors disabled:opacity-50
+                            ${mode === 'replace' ? 'bg-priority-high hover:bg-priority-high/90' : 'bg-accent hover:bg-accent/90'}`}
+              >
+                Import
+              </button>
+            </div>
+          </div>
+        )}
+      </section>
+
+      <section className="space-y-2 mt-6">
+        <h3 className="text-sm font-medium">Calendar</h3>
+        <p className="text-sm text-muted-foreground">
+          Download tasks and projects with a due date as an .ics file for your calendar app.
+        </p>
+        <button
+          type="button"
+          onClick={handleCalendarExport}
+          className="flex items-center gap-2 px-4 py-2 text-sm border border-border rounded-md
+                     hover:bg-accent/10 transition-colors"
+        >
+          <CalendarDays className="w-4 h-4" aria-hidden="true" />
+          Export calendar
+        </button>
+      </section>
+
+      {onImportFromApp && (
+        <section className="space-y-2 mt-6">
+          <h3 className="text-sm font-medium">Other apps</h3>
+          <p className="text-sm text-muted-foreground">
+            Bring in tasks from todo.txt, Todoist, Things or a calendar (.ics) file.
+          </p>
+          <button
+            type="button"
+            onClick={() => {
+              handleClose()
+              onImportFromApp()
+            }}
+            className="px-4 py-2 text-sm border border-border rounded-md hover:bg-accent/10 transition-colors"
+          >
+            Import from another app
+          </button>
+        </section>
+      )}
+    </Modal>
+  )
+}
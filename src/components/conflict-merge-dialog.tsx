@@ -0,0 +1,127 @@
+import { useState } from 'react'
+import Modal from './modal'
+import type { ConflictError } from '../types/errors'
+import { formatMergeValue, getConflictingFields, resolveConflict, type MergeChoice, type MergeField } from '../utils/conflictMerge'
+
+interface ConflictMergeDialogProps<T extends object> {
+  conflict: ConflictError<T>
+  fields: MergeField<T>[]
+  onResolve: (updates: Partial<T>) => void | Promise<void>
+  onClose: () => void
+}
+
+/**
+ * Shows your edit next to the newer remote copy and lets you pick a side per field
+ * Mount it only while there is a conflict, so choices start fresh each time.
+ * The parent closes it from onResolve, which may also open a new conflict if saving the merge races again.
+ */
+export function ConflictMergeDialog<T extends object>({ conflict, fields, onResolve, onClose }: ConflictMergeDialogProps<T>) {
+  const [choices, setChoices] = useState<Partial<Record<string, MergeChoice>>>({})
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const conflictingFields = getConflictingFields(conflict.localChanges, conflict.remote, fields)
+  // Your edit wins unless you pick theirs
+  const getChoice = (key: string): MergeChoice => choices[key] ?? 'local'
+
+  const setAll = (choice: MergeChoice) => {
+    setChoices(Object.fromEntries(conflictingFields.map(field => [field.key, choice])))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const resolved = Object.fromEntries(conflictingFields.map(field => [field.key, getChoice(field.key)]))
+
+    setIsSubmitting(true)
+    try {
+      await onResolve(resolveConflict(conflict.localChanges, conflict.remote, fields, resolved))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Modal isOpen onClose={onClose} title="Resolve conflicting changes">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <p className="text-sm text-muted-foreground">{conflict.getUserMessage()}</p>
+
+        {conflictingFields.length === 0 ? (
+          <p className="text-sm">Your changes already match the latest version.</p>
+        ) : (
+          <>
+            <div className="flex gap-2 text-xs">
+              <button type="button" onClick={() => setAll('local')} className="text-accent hover:underline">
+                Keep all mine
+              </button>
+              <span className="text-muted-foreground" aria-hidden="true">·</span>
+              <button type="button" onClick={() => setAll('remote')} className="text-accent hover:underline">
+                Keep all theirs
+              </button>
+            </div>
+
+            <div className="max-h-80 overflow-y-auto space-y-3">
+              {conflictingFields.map(field => {
+                const format = field.format ?? formatMergeValue
+                const options: { choice: MergeChoice; label: string; value: unknown }[] = [
+                  { choice: 'local', label: 'Yours', value: conflict.localChanges[field.key] },
+                  { choice: 'remote', label: 'Theirs', value: conflict.remote[field.key] },
+                ]
+
+                return (
+                  <fieldset key={field.key} className="border border-border rounded-md p-3">
+                    <legend className="px-1 text-sm font-medium">{field.label}</legend>
+                    <div className="grid grid-cols-2 gap-2">
+                      {options.map(option => {
+                        const isChosen = getChoice(field.key) === option.choice
+                        return (
+                          <label
+                            key={option.choice}
+                            className={`flex flex-col gap-1 p-2 rounded-md border cursor-pointer transition-colors
+                                        ${isChosen ? 'border-accent bg-accent/10' : 'border-border hover:bg-accent/5'}`}
+                          >
+                            <span className="flex items-center gap-2 text-xs text-muted-foreground">
+                              <input
+                                type="radio"
+                                name={`merge-${field.key}`}
+                                checked={isChosen}
+                                onChange={() => setChoices(prev => ({ ...prev, [field.key]: option.choice }))}
+                                className="accent-accent"
+                              />
+                              {option.label}
+                            </span>
+                            <span className="text-sm break-words whitespace-pre-wrap">{format(option.value)}</span>
+                          </label>
+                        )
+                      })}
+                    </div>
+                  </fieldset>
+                )
+              })}
+            </div>
+          </>
+        )}
+
+        <div className="flex justify-end gap-2 pt-2">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isSubmitting}
+            className="px-4 py-2 text-sm border border-border rounded-md
+                       hover:bg-accent/10 transition-colors disabled:opacity-50
+                       disabled:cursor-not-allowed"
+          >
+            Discard mine
+          </button>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="px-4 py-2 text-sm bg-accent text-background rounded-md
+                       hover:bg-accent/90 transition-colors disabled:opacity-50
+                       disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? 'Saving...' : 'Save merged'}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  )
+}
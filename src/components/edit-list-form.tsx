@@ -0,0 +1,194 @@
+/**
+ * EditListForm Component
+ *
+ * Modal-agnostic form for changing an existing Area or Project:
+ * name, description, icon, priority and (for projects) due date.
+ */
+
+import { Calendar as CalendarIcon } from 'lucide-react';
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Calendar } from '@/components/ui/calendar';
+import { iconMap, type IconName } from '../utils/iconMapper';
+import { parseDate } from '../utils/taskFilters';
+import type { Priority, SidebarItemData, UpdateListInput } from '../types/sidebar';
+
+const ICON_NAMES = Object.keys(iconMap) as IconName[];
+const PRIORITIES: Priority[] = ['low', 'medium', 'high'];
+
+interface EditListFormProps {
+  list: SidebarItemData;
+  type: 'area' | 'project';
+  onSubmit: (updates: UpdateListInput) => void;
+  onCancel: () => void;
+}
+
+export default function EditListForm({ list, type, onSubmit, onCancel }: EditListFormProps) {
+  const [title, setTitle] = useState(list.title);
+  const [description, setDescription] = useState(list.description ?? '');
+  const [iconName, setIconName] = useState<IconName>(list.iconName);
+  const [priority, setPriority] = useState<Priority>(list.priority);
+  const [dueDate, setDueDate] = useState<Date | undefined>(list.dueDate ? parseDate(list.dueDate) : undefined);
+  const [showCalendar, setShowCalendar] = useState(false);
+
+  const label = type === 'area' ? 'Area' : 'Project';
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim()) return;
+
+    const updates: UpdateListInput = {
+      title: title.trim(),
+      description: description.trim(),
+      iconName,
+      priority,
+    };
+    if (type === 'project') {
+      // Format date to ISO string (YYYY-MM-DD); undefined clears it
+      updates.dueDate = dueDate ? format(dueDate, 'yyyy-MM-dd') : undefined;
+    }
+    onSubmit(updates);
+  };
+
+  const toggleButtonClass = (isSelected: boolean) =>
+    `p-2 rounded-md border transition-colors ${isSelected
+      ? 'bg-accent text-background border-accent'
+      : 'border-border hover:bg-accent/10'}`;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label htmlFor="edit-list-title" className="block text-sm font-medium mb-2">
+          {label} Name
+        </label>
+        <input
+          id="edit-list-title"
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onFocus={() => setShowCalendar(false)}
+          autoFocus
+          className="w-full px-3 py-2 bg-background border border-border rounded-md
+                     focus:outline-none focus:ring-2 focus:ring-accent focus:border-transparent
+                     placeholder:text-muted-foreground"
+        />
+      </div>
+      <div>
+        <label htmlFor="edit-list-description" className="block text-sm font-medium mb-2">
+          {label} Description (optional)
+        </label>
+        <textarea
+          id="edit-list-description"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          onFocus={() => setShowCalendar(false)}
+          rows={3}
+          className="w-full px-3 py-2 bg-background border border-border rounded-md
+                     focus:outline-none focus:ring-2 focus:ring-accent focus:border-transparent
+                     placeholder:text-muted-foreground resize-none"
+        />
+      </div>
+      <fieldset>
+        <legend className="block text-sm font-medium mb-2">Icon</legend>
+        <div className="flex flex-wrap gap-1">
+          {ICON_NAMES.map(name => {
+            const Icon = iconMap[name];
+            return (
+              <button
+                key={name}
+                type="button"
+                onClick={() => setIconName(name)}
+                aria-label={name}
+                aria-pressed={iconName === name}
+                className={toggleButtonClass(iconName === name)}
+              >
+                <Icon className="w-4 h-4" aria-hidden="true" />
+              </button>
+            );
+          })}
+        </div>
+      </fieldset>
+      <fieldset>
+        <legend className="block text-sm font-medium mb-2">Priority</legend>
+        <div className="flex gap-1">
+          {PRIORITIES.map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setPriority(option)}
+              aria-pressed={priority === option}
+              className={`flex-1 text-sm capitalize ${toggleButtonClass(priority === option)}`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </fieldset>
+      {type === 'project' && (
+        <div>
+          <label className="block text-sm font-medium mb-2">
+            Due Date (optional)
+          </label>
+          <div
+            onClick={() => setShowCalendar(!showCalendar)}
+            tabIndex={0}
+            role="button"
+            aria-label="Select due date"
+            className="w-full flex items-center gap-2 p-3 border border-border rounded-md bg-background hover:bg-accent/10 transition-colors cursor-pointer focus:outline-none focus:ring-2 focus:ring-accent focus:border-transparent"
+          >
+            <CalendarIcon className="size-4 text-muted-foreground" />
+            <span className="text-sm flex-1">
+              {dueDate ? format(dueDate, 'PPP') : 'Pick a date'}
+            </span>
+            {dueDate && (
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setDueDate(undefined);
+                }}
+                className="text-xs text-muted-foreground hover:text-foreground transition-colors"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+          {showCalendar && (
+            <div className="mt-2 h-[350px] overflow-hidden flex justify-center">
+              <Calendar
+                mode="single"
+                selected={dueDate}
+                onSelect={(date) => {
+                  setDueDate(date);
+                  setShowCalendar(false);
+                }}
+                className="rounded-md border border-border"
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Actions */}
+      <div className="flex gap-2 justify-end">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-sm border border-border rounded-md
+                     hover:bg-accent/10 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={!title.trim()}
+          className="px-4 py-2 text-sm bg-accent text-background rounded-md
+                     hover:bg-accent/90 transition-colors disabled:opacity-50
+                     disabled:cursor-not-allowed"
+        >
+          Save
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -1,11 +1,18 @@
 import { useState, useEffect } from 'react'
 import { format } from 'date-fns'
 import { Calendar as CalendarIcon } from 'lucide-react'
-import { showError, showSuccess } from '../lib/toastUtils'
+import { showSuccess } from '../lib/toastUtils'
+import { requestNotificationPermission } from '../services/ReminderScheduler'
 import { Calendar } from '@/components/ui/calendar'
 import Modal from './modal'
-import type { TaskData, UpdateTaskInput, TaskPriority, TaskStatus } from '../types/task'
+import { RepeatPicker } from './repeat-picker'
+import { TagInput } from './tag-input'
+import type { TaskData, UpdateTaskInput, TaskPriority, TaskStatus, RecurrenceRule } from '../types/task'
 import type { SidebarItemData } from '../types/sidebar'
+import type { TagData } from '../types/tags'
+import { parseDate } from '../utils/taskFilters'
+import { parseTagInput } from '../utils/tags'
+import { fromDateTimeInputValue, toDateTimeInputValue } from '../utils/reminders'
 
 interface EditTaskModalProps {
   task: TaskData
@@ -15,6 +22,7 @@ interface EditTaskModalProps {
   onArchive: (taskId: string) => Promise<void>
   areas: SidebarItemData[]
   projects: SidebarItemData[]
+  tags: TagData[] // Every tag, for autocomplete
 }
 
 export function EditTaskModal({
@@ -24,7 +32,8 @@ export function EditTaskModal({
   onSave,
   onArchive,
   areas,
-  projects
+  projects,
+  tags: allTags
 }: EditTaskModalProps) {
   // Form state initialized from task
   const [title, setTitle] = useState(task.title)
@@ -35,8 +44,14 @@ export function EditTaskModal({
   const [dueDate, setDueDate] = useState<Date | undefined>(
     task.dueDate ? new Date(task.dueDate) : undefined
   )
+  const [startDate, setStartDate] = useState<Date | undefined>(
+    task.startDate ? parseDate(task.startDate) : undefined
+  )
   const [listId, setListId] = useState<string | undefined>(task.listId)
-  const [showCalendar, setShowCalendar] = useState(false)
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | undefined>(task.recurrence)
+  const [someday, setSomeday] = useState(!!task.someday)
+  const [reminder, setReminder] = useState(toDateTimeInputValue(task.reminderAt))
+  const [openCalendar, setOpenCalendar] = useState<'start' | 'due' | null>(null)
   const [isSubmitting, setIsSubmitting] = useState(false)
 
   // Reset form when task changes
@@ -47,8 +62,12 @@ export function EditTaskModal({
     setPriority(task.priority)
     setStatus(task.status)
     setDueDate(task.dueDate ? new Date(task.dueDate) : undefined)
+    setStartDate(task.startDate ? parseDate(task.startDate) : undefined)
     setListId(task.listId)
-    setShowCalendar(false)
+    setRecurrence(task.recurrence)
+    setSomeday(!!task.someday)
+    setReminder(toDateTimeInputValue(task.reminderAt))
+    setOpenCalendar(null)
     setIsSubmitting(false)
   }, [task])
 
@@ -87,10 +106,7 @@ export function EditTaskModal({
       }
 
       // Parse tags
-      const parsedTags = tags
-        .split(',')
-        .map(tag => tag.trim())
-        .filter(tag => tag.length > 0)
+      const parsedTags = parseTagInput(tags)
       const currentTags = task.tags || []
       if (JSON.stringify(parsedTags) !== JSON.stringify(currentTags)) {
         updates.tags = parsedTags.length > 0 ? parsedTags : undefined
@@ -102,10 +118,28 @@ export function EditTaskModal({
         updates.dueDate = formattedDueDate
       }
 
+      const formattedStartDate = startDate ? format(startDate, 'yyyy-MM-dd') : undefined
+      if (formattedStartDate !== task.startDate) {
+        updates.startDate = formattedStartDate
+      }
+
+      // Unchanged at minute precision keeps the saved reminder as is
+      if (reminder !== toDateTimeInputValue(task.reminderAt)) {
+        updates.reminderAt = fromDateTimeInputValue(reminder)
+      }
+
       if (listId !== task.listId) {
         updates.listId = listId
       }
 
+      if (JSON.stringify(recurrence) !== JSON.stringify(task.recurrence)) {
+        updates.recurrence = recurrence
+      }
+
+      if (someday !== !!task.someday) {
+        updates.someday = someday
+      }
+
       // Only call onSave if there are changes
       if (Object.keys(updates).length > 0) {
         await onSave(updates)
@@ -113,8 +147,8 @@ export function EditTaskModal({
       }
 
       onClose()
-    } catch (error) {
-      showError(error)
+    } catch {
+      // onSave and onArchive report their own errors (the store shows a toast when it rolls back)
       setIsSubmitting(false)
     }
   }
@@ -127,10 +161,8 @@ export function EditTaskModal({
 
     try {
       await onArchive(task.id)
-      showSuccess('Task archived')
       onClose()
-    } catch (error) {
-      showError(error)
+    } catch {
       setIsSubmitting(false)
     }
   }
@@ -179,7 +211,7 @@ export function EditTaskModal({
             id="edit-task-description"
             value={description}
             onChange={(e) => setDescription(e.target.value)}
-            onFocus={() => setShowCalendar(false)}
+            onFocus={() => setOpenCalendar(null)}
             placeholder="Add more details..."
             rows={3}
             className="w-full px-3 py-2 bg-background border border-border rounded-md
@@ -198,7 +230,7 @@ export function EditTaskModal({
             id="edit-task-list"
             value={listId || ''}
             onChange={(e) => setListId(e.target.value || undefined)}
-            onFocus={() => setShowCalendar(false)}
+            onFocus={() => setOpenCalendar(null)}
             className="w-full px-3 py-2 bg-background border border-border rounded-md
                        focus:outline-none focus:ring-2 focus:ring-accent focus:border-transparent
                        text-sm"
@@ -231,13 +263,12 @@ export function EditTaskModal({
           <label htmlFor="edit-task-tags" className="block text-sm font-medium mb-1">
             Tags (optional, comma-separated)
           </label>
-          <input
+          <TagInput
             id="edit-task-tags"
-            type="text"
             value={tags}
-            onChange={(e) => setTags(e.target.value)}
-            onFocus={() => setShowCalendar(false)}
-            placeholder="work, urgent, ideas"
+            onChange={setTags}
+            tags={allTags}
+            onFocus={() => setOpenCalendar(null)}
             className="w-full px-3 py-2 bg-background border border-border rounded-md
                        focus:outline-none focus:ring-2 focus:ring-accent focus:border-transparent
                        placeholder:text-muted-foreground"
@@ -257,7 +288,7 @@ export function EditTaskModal({
                 value="low"
                 checked={priority === 'low'}
                 onChange={(e) => setPriority(e.target.value as TaskPriority)}
-                onClick={() => setShowCalendar(false)}
+                onClick={() => setOpenCalendar(null)}
                 className="mr-2"
                 disabled={isSubmitting}
               />
@@ -269,7 +300,7 @@ export function EditTaskModal({
                 value="medium"
                 checked={priority === 'medium'}
                 onChange={(e) => setPriority(e.target.value as TaskPriority)}
-                onClick={() => setShowCalendar(false)}
+                onClick={() => setOpenCalendar(null)}
                 className="mr-2"
                 disabled={isSubmitting}
               />
@@ -281,7 +312,7 @@ export function EditTaskModal({
                 value="high"
                 checked={priority === 'high'}
                 onChange={(e) => setPriority(e.target.value as TaskPriority)}
-                onClick={() => setShowCalendar(false)}
+                onClick={() => setOpenCalendar(null)}
                 className="mr-2"
                 disabled={isSubmitting}
               />
@@ -302,7 +333,7 @@ export function EditTaskModal({
                 value="active"
                 checked={status === 'active'}
                 onChange={(e) => setStatus(e.target.value as TaskStatus)}
-                onClick={() => setShowCalendar(false)}
+                onClick={() => setOpenCalendar(null)}
                 className="mr-2"
                 disabled={isSubmitting}
               />
@@ -314,7 +345,7 @@ export function EditTaskModal({
                 value="completed"
                 checked={status === 'completed'}
                 onChange={(e) => setStatus(e.target.value as TaskStatus)}
-                onClick={() => setShowCalendar(false)}
+                onClick={() => setOpenCalendar(null)}
                 className="mr-2"
                 disabled={isSubmitting}
               />
@@ -326,7 +357,7 @@ export function EditTaskModal({
                 value="archived"
                 checked={status === 'archived'}
                 onChange={(e) => setStatus(e.target.value as TaskStatus)}
-                onClick={() => setShowCalendar(false)}
+                onClick={() => setOpenCalendar(null)}
                 className="mr-2"
                 disabled={isSubmitting}
               />
@@ -335,14 +366,74 @@ export function EditTaskModal({
           </div>
         </div>
 
+        {/* Someday */}
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={someday}
+            onChange={(e) => setSomeday(e.target.checked)}
+            onClick={() => setOpenCalendar(null)}
+            disabled={isSubmitting}
+          />
+          <span className="text-sm">Someday (keep out of Anytime until you pick it up)</span>
+        </label>
+
+        {/* Start Date Picker */}
+        <div>
+          <label className="block text-sm font-medium mb-2">
+            Start Date (optional)
+          </label>
+          <div
+            onClick={() => setOpenCalendar(openCalendar === 'start' ? null : 'start')}
+            onFocus={() => setOpenCalendar('start')}
+            tabIndex={0}
+            role="button"
+            aria-label="Select start date"
+            className="w-full flex items-center gap-2 p-3 border border-border rounded-md
+                       bg-background hover:bg-accent/10
+                       transition-colors cursor-pointer focus:outline-none focus:ring-2 focus:ring-accent focus:border-transparent"
+          >
+            <CalendarIcon className="size-4 text-muted-foreground" />
+            <span className="text-sm flex-1">
+              {startDate ? format(startDate, 'PPP') : 'Pick a date'}
+            </span>
+            {startDate && (
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  setStartDate(undefined)
+                }}
+                className="text-xs text-muted-foreground hover:text-foreground transition-colors"
+                disabled={isSubmitting}
+              >
+                Clear
+              </button>
+            )}
+          </div>
+          {openCalendar === 'start' && (
+            <div className="mt-2 h-[350px] overflow-hidden flex justify-center">
+              <Calendar
+                mode="single"
+                selected={startDate}
+                onSelect={(date) => {
+                  setStartDate(date)
+                  setOpenCalendar(null)
+                }}
+                className="rounded-md border border-border"
+              />
+            </div>
+          )}
+        </div>
+
         {/* Due Date Picker */}
         <div>
           <label className="block text-sm font-medium mb-2">
             Due Date (optional)
           </label>
           <div
-            onClick={() => setShowCalendar(!showCalendar)}
-            onFocus={() => setShowCalendar(true)}
+            onClick={() => setOpenCalendar(openCalendar === 'due' ? null : 'due')}
+            onFocus={() => setOpenCalendar('due')}
             tabIndex={0}
             role="button"
             aria-label="Select due date"
@@ -368,14 +459,14 @@ export function EditTaskModal({
               </button>
             )}
           </div>
-          {showCalendar && (
+          {openCalendar === 'due' && (
             <div className="mt-2 h-[350px] overflow-hidden flex justify-center">
               <Calendar
                 mode="single"
                 selected={dueDate}
                 onSelect={(date) => {
                   setDueDate(date)
-                  setShowCalendar(false)
+                  setOpenCalendar(null)
                 }}
                 className="rounded-md border border-border"
               />
@@ -383,6 +474,37 @@ export function EditTaskModal({
           )}
         </div>
 
+        {/* Reminder */}
+        <div>
+          <label htmlFor="edit-task-reminder" className="block text-sm font-medium mb-1">
+            Reminder (optional)
+          </label>
+          <input
+            id="edit-task-reminder"
+            type="datetime-local"
+            value={reminder}
+            onChange={(e) => {
+              setReminder(e.target.value)
+              if (e.target.value) requestNotificationPermission()
+            }}
+            onFocus={() => setOpenCalendar(null)}
+            className="w-full px-3 py-2 bg-background border border-border rounded-md
+                       focus:outline-none focus:ring-2 focus:ring-accent focus:border-transparent
+                       text-sm"
+            disabled={isSubmitting}
+          />
+        </div>
+
+        {/* Repeat Picker */}
+        <RepeatPicker
+          idPrefix="edit-task"
+          value={recurrence}
+          onChange={setRecurrence}
+          referenceDate={dueDate}
+          onFocus={() => setOpenCalendar(null)}
+          disabled={isSubmitting}
+        />
+
         {/* Action Buttons */}
         <div className="flex gap-2 justify-between pt-2">
           <button
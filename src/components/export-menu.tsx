@@ -0,0 +1,60 @@
+import { useEffect, useRef, type RefObject } from 'react'
+import { TASK_EXPORT_FORMATS, type TaskExportFormat } from '../utils/taskExport'
+
+const EXPORT_FORMATS = Object.keys(TASK_EXPORT_FORMATS) as TaskExportFormat[]
+
+interface ExportMenuProps {
+  taskCount: number
+  onExport: (format: TaskExportFormat) => void
+  onClose: () => void
+  anchorRef?: RefObject<HTMLElement | null> // Clicks here (e.g. the toggle button) don't count as outside
+}
+
+/**
+ * Export format popover opened from the export button
+ */
+export function ExportMenu({ taskCount, onExport, onClose, anchorRef }: ExportMenuProps) {
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  // Close on Escape or on clicks outside the menu
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    const handleMouseDown = (e: MouseEvent) => {
+      const target = e.target as Node
+      if (menuRef.current?.contains(target) || anchorRef?.current?.contains(target)) return
+      onClose()
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    document.addEventListener('mousedown', handleMouseDown)
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown)
+      document.removeEventListener('mousedown', handleMouseDown)
+    }
+  }, [onClose, anchorRef])
+
+  return (
+    <div
+      ref={menuRef}
+      role="dialog"
+      aria-label="Export tasks"
+      className="absolute right-0 top-full mt-2 z-20 w-56 p-2 bg-card border border-border rounded-lg shadow-glow-emerald text-sm text-card-foreground"
+    >
+      {EXPORT_FORMATS.map(format => (
+        <button
+          key={format}
+          type="button"
+          onClick={() => onExport(format)}
+          className="w-full text-left px-2 py-1.5 rounded-md hover:bg-accent/10 transition-colors"
+        >
+          {TASK_EXPORT_FORMATS[format].label}
+        </button>
+      ))}
+      <p className="px-2 pt-2 mt-1 border-t border-border text-xs text-muted-foreground">
+        Exports the {taskCount} task{taskCount === 1 ? '' : 's'} shown, with the current filters.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,354 @@
+import { useEffect, useRef, useState, type RefObject } from 'react'
+import { X } from 'lucide-react'
+import { format } from 'date-fns'
+import { dataService } from '../services/dataService'
+import type { DueDateWindow, TaskFilterCriteria, TaskPriority, TaskStatus } from '../types/task'
+import type { SidebarItemData } from '../types/sidebar'
+import { parseDate } from '../utils/taskFilters'
+
+const PRIORITIES: TaskPriority[] = ['high', 'medium', 'low']
+const STATUSES: TaskStatus[] = ['active', 'completed', 'archived']
+const DUE_WINDOWS: { value: Exclude<DueDateWindow, 'custom'>; label: string }[] = [
+  { value: 'overdue', label: 'Overdue' },
+  { value: 'today', label: 'Today' },
+  { value: 'next_7_days', label: 'Next 7 days' },
+  { value: 'next_30_days', label: 'Next 30 days' },
+  { value: 'no_date', label: 'No date' },
+]
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1)
+
+/**
+ * Toggle a value in an optional array, dropping the array once it's empty
+ */
+function toggleValue<T>(values: T[] | undefined, value: T): T[] | undefined {
+  const current = values ?? []
+  const next = current.includes(value) ? current.filter(v => v !== value) : [...current, value]
+  return next.length > 0 ? next : undefined
+}
+
+/**
+ * Remove a value from an optional array, dropping the array once it's empty
+ */
+function removeValue<T>(values: T[] | undefined, value: T): T[] | undefined {
+  const next = (values ?? []).filter(v => v !== value)
+  return next.length > 0 ? next : undefined
+}
+
+/**
+ * Describe a due date filter for display in chips
+ */
+function describeDueDate(filter: NonNullable<TaskFilterCriteria['dueDate']>): string {
+  if (filter.window !== 'custom') {
+    return DUE_WINDOWS.find(w => w.value === filter.window)?.label ?? filter.window
+  }
+  const from = filter.from ? format(parseDate(filter.from), 'MMM d') : '…'
+  const to = filter.to ? format(parseDate(filter.to), 'MMM d') : '…'
+  return `${from} – ${to}`
+}
+
+/**
+ * Find the title of an area or project
+ */
+function getListTitle(lists: SidebarItemData[], key: string): string {
+  return lists.find(list => list.key === key)?.title ?? key
+}
+
+interface FilterPanelProps {
+  filters: TaskFilterCriteria
+  onChange: (filters: TaskFilterCriteria) => void
+  onClose: () => void
+  anchorRef?: RefObject<HTMLElement | null> // Clicks here (e.g. the toggle button) don't count as outside
+}
+
+/**
+ * Filter builder popover opened from the Funnel button
+ */
+export function FilterPanel({ filters, onChange, onClose, anchorRef }: FilterPanelProps) {
+  const panelRef = useRef<HTMLDivElement>(null)
+  const [availableTags, setAvailableTags] = useState<string[]>([])
+  const config = dataService.getLocalSidebarConfig()
+  const lists = [...config.areas, ...config.projects]
+
+  // Collect every tag in use so they can be picked
+  useEffect(() => {
+    const loadTags = async () => {
+      try {
+        const tasks = await dataService.getTasks()
+        const tags = new Set(tasks.flatMap(task => task.tags ?? []))
+        setAvailableTags([...tags].sort((a, b) => a.localeCompare(b)))
+      } catch (error) {
+        console.error('Failed to load tags:', error)
+      }
+    }
+
+    loadTags()
+  }, [])
+
+  // Close on Escape or on clicks outside the panel
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    const handleMouseDown = (e: MouseEvent) => {
+      const target = e.target as Node
+      if (panelRef.current?.contains(target) || anchorRef?.current?.contains(target)) return
+      onClose()
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    document.addEventListener('mousedown', handleMouseDown)
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown)
+      document.removeEventListener('mousedown', handleMouseDown)
+    }
+  }, [onClose, anchorRef])
+
+  const update = (changes: Partial<TaskFilterCriteria>) => {
+    onChange({ ...filters, ...changes })
+  }
+
+  const toggleButtonClass = (isSelected: boolean) =>
+    `px-2 py-1 text-xs rounded-md border transition-colors ${isSelected
+      ? 'bg-accent text-background border-accent'
+      : 'border-border text-muted-foreground hover:bg-accent/10'}`
+
+  return (
+    <div
+      ref={panelRef}
+      role="dialog"
+      aria-label="Filter tasks"
+      className="absolute right-0 top-full mt-2 z-20 w-80 p-4 space-y-4 bg-card border border-border rounded-lg shadow-glow-emerald text-sm text-card-foreground"
+    >
+      {/* Text */}
+      <div>
+        <label htmlFor="filter-text" className="block font-medium mb-1">Text</label>
+        <input
+          id="filter-text"
+          type="text"
+          value={filters.text ?? ''}
+          onChange={(e) => update({ text: e.target.value || undefined })}
+          placeholder="Title, description or tag..."
+          className="w-full px-3 py-2 bg-background border border-border rounded-md
+                     focus:outline-none focus:ring-2 focus:ring-accent focus:border-transparent
+                     placeholder:text-muted-foreground"
+          autoFocus
+        />
+      </div>
+
+      {/* Priority */}
+      <div>
+        <span className="block font-medium mb-1">Priority</span>
+        <div className="flex gap-1" role="group" aria-label="Priority">
+          {PRIORITIES.map(priority => (
+            <button
+              key={priority}
+              type="button"
+              onClick={() => update({ priorities: toggleValue(filters.priorities, priority) })}
+              aria-pressed={filters.priorities?.includes(priority) ?? false}
+              className={toggleButtonClass(filters.priorities?.includes(priority) ?? false)}
+            >
+              {capitalize(priority)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Status */}
+      <div>
+        <span className="block font-medium mb-1">Status</span>
+        <div className="flex gap-1" role="group" aria-label="Status">
+          {STATUSES.map(status => (
+            <button
+              key={status}
+              type="button"
+              onClick={() => update({ statuses: toggleValue(filters.statuses, status) })}
+              aria-pressed={filters.statuses?.includes(status) ?? false}
+              className={toggleButtonClass(filters.statuses?.includes(status) ?? false)}
+            >
+              {capitalize(status)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Due date */}
+      <div>
+        <span className="block font-medium mb-1">Due date</span>
+        <div className="flex flex-wrap gap-1" role="group" aria-label="Due date">
+          {DUE_WINDOWS.map(dueWindow => (
+            <button
+              key={dueWindow.value}
+              type="button"
+              onClick={() => update({ dueDate: filters.dueDate?.window === dueWindow.value ? undefined : { window: dueWindow.value } })}
+              aria-pressed={filters.dueDate?.window === dueWindow.value}
+              className={toggleButtonClass(filters.dueDate?.window === dueWindow.value)}
+            >
+              {dueWindow.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2 mt-2">
+          <input
+            type="date"
+            aria-label="Due from"
+            value={filters.dueDate?.window === 'custom' ? filters.dueDate.from ?? '' : ''}
+            onChange={(e) => update({
+              dueDate: { window: 'custom', from: e.target.value || undefined, to: filters.dueDate?.window === 'custom' ? filters.dueDate.to : undefined }
+            })}
+            className="flex-1 px-2 py-1 bg-background border border-border rounded-md"
+          />
+          <span className="text-muted-foreground">to</span>
+          <input
+            type="date"
+            aria-label="Due to"
+            value={filters.dueDate?.window === 'custom' ? filters.dueDate.to ?? '' : ''}
+            onChange={(e) => update({
+              dueDate: { window: 'custom', from: filters.dueDate?.window === 'custom' ? filters.dueDate.from : undefined, to: e.target.value || undefined }
+            })}
+            className="flex-1 px-2 py-1 bg-background border border-border rounded-md"
+          />
+        </div>
+      </div>
+
+      {/* Tags */}
+      {availableTags.length > 0 && (
+        <div>
+          <span className="block font-medium mb-1">Tags</span>
+          <div className="flex flex-wrap gap-1 max-h-24 overflow-y-auto" role="group" aria-label="Tags">
+            {availableTags.map(tag => (
+              <button
+                key={tag}
+                type="button"
+                onClick={() => update({ tags: toggleValue(filters.tags, tag) })}
+                aria-pressed={filters.tags?.includes(tag) ?? false}
+                className={toggleButtonClass(filters.tags?.includes(tag) ?? false)}
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Lists */}
+      {lists.length > 0 && (
+        <div>
+          <span className="block font-medium mb-1">Area/Project</span>
+          <div className="space-y-1 max-h-32 overflow-y-auto">
+            {lists.map(list => (
+              <label key={list.key} className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={filters.listIds?.includes(list.key) ?? false}
+                  onChange={() => update({ listIds: toggleValue(filters.listIds, list.key) })}
+                />
+                <span>{list.title}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Actions */}
+      <div className="flex justify-between pt-2 border-t border-border">
+        <button
+          type="button"
+          onClick={() => onChange({})}
+          className="px-3 py-1 text-muted-foreground hover:text-foreground transition-colors"
+        >
+          Clear all
+        </button>
+        <button
+          type="button"
+          onClick={onClose}
+          className="px-3 py-1 bg-accent text-background rounded-md hover:bg-accent/90 transition-colors"
+        >
+          Done
+        </button>
+      </div>
+    </div>
+  )
+}
+
+interface FilterChipsProps {
+  filters: TaskFilterCriteria
+  onChange: (filters: TaskFilterCriteria) => void
+  saveLabel?: string // Label of the button that saves the filters as a smart list
+  onSave?: () => void
+}
+
+/**
+ * Removable chips summarizing the active filters
+ */
+export function FilterChips({ filters, onChange, saveLabel = 'Save as smart list', onSave }: FilterChipsProps) {
+  const config = dataService.getLocalSidebarConfig()
+  const lists = [...config.areas, ...config.projects]
+
+  const chips: { key: string; label: string; onRemove: () => void }[] = []
+
+  if (filters.text?.trim()) {
+    chips.push({ key: 'text', label: `Text: "${filters.text.trim()}"`, onRemove: () => onChange({ ...filters, text: undefined }) })
+  }
+  filters.priorities?.forEach(priority => chips.push({
+    key: `priority-${priority}`,
+    label: `Priority: ${capitalize(priority)}`,
+    onRemove: () => onChange({ ...filters, priorities: removeValue(filters.priorities, priority) })
+  }))
+  filters.statuses?.forEach(status => chips.push({
+    key: `status-${status}`,
+    label: `Status: ${capitalize(status)}`,
+    onRemove: () => onChange({ ...filters, statuses: removeValue(filters.statuses, status) })
+  }))
+  if (filters.dueDate) {
+    chips.push({ key: 'due', label: `Due: ${describeDueDate(filters.dueDate)}`, onRemove: () => onChange({ ...filters, dueDate: undefined }) })
+  }
+  filters.tags?.forEach(tag => chips.push({
+    key: `tag-${tag}`,
+    label: `#${tag}`,
+    onRemove: () => onChange({ ...filters, tags: removeValue(filters.tags, tag) })
+  }))
+  filters.listIds?.forEach(listId => chips.push({
+    key: `list-${listId}`,
+    label: `List: ${getListTitle(lists, listId)}`,
+    onRemove: () => onChange({ ...filters, listIds: removeValue(filters.listIds, listId) })
+  }))
+
+  if (chips.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-3" role="list" aria-label="Active filters">
+      {chips.map(chip => (
+        <span key={chip.key} role="listitem" className="flex items-center gap-1 pl-2 pr-1 py-0.5 text-xs rounded-2xl bg-glow-emerald text-emerald">
+          {chip.label}
+          <button
+            type="button"
+            onClick={chip.onRemove}
+            className="p-0.5 rounded-full hover:bg-background/40 transition-colors"
+            aria-label={`Remove filter ${chip.label}`}
+          >
+            <X className="w-3 h-3" aria-hidden="true" />
+          </button>
+        </span>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange({})}
+        className="text-xs text-muted-foreground hover:text-foreground transition-colors"
+      >
+        Clear all
+      </button>
+      {onSave && (
+        <button
+          type="button"
+          onClick={onSave}
+          className="text-xs text-accent hover:text-accent/80 transition-colors"
+        >
+          {saveLabel}
+        </button>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,22 @@
+import { useCallback, useRef, useState } from 'react'
 import { CircleCheckBig, Search, Bell, Settings } from 'lucide-react'
+import { RemindersPanel } from './reminders-panel'
+import { useReminders } from '../hooks/useReminders'
 
-export default function Header() {
+interface HeaderProps {
+  onSearchClick?: () => void
+  onSettingsClick?: () => void
+  onTaskSelect?: (id: string) => void // Opens a task from its reminder
+}
+
+export default function Header({ onSearchClick, onSettingsClick, onTaskSelect }: HeaderProps) {
+  const [isRemindersOpen, setIsRemindersOpen] = useState(false)
+  const bellButtonRef = useRef<HTMLButtonElement>(null)
+  const { past, upcoming } = useReminders(onTaskSelect)
+
+  const handleCloseReminders = useCallback(() => {
+    setIsRemindersOpen(false)
+  }, [])
 
   return (
     <header className='flex flex-row justify-between bg-background text-foreground pl-4 pr-4 pt-3 pb-3 border-b border-gray-700'>
@@ -16,20 +32,42 @@ export default function Header() {
           className='p-2 rounded-md text-muted-foreground hover:bg-muted-background'
           aria-label="Search tasks"
           type="button"
+          onClick={onSearchClick}
         >
           <Search className="w-6 h-6" aria-hidden="true" />
         </button>
-        <button
-          className='p-2 rounded-md text-muted-foreground hover:bg-muted-background'
-          aria-label="View notifications"
-          type="button"
-        >
-          <Bell className="w-6 h-6" aria-hidden="true" />
-        </button>
+        <div className="relative">
+          <button
+            ref={bellButtonRef}
+            className='relative p-2 rounded-md text-muted-foreground hover:bg-muted-background'
+            aria-label={past.length > 0 ? `View reminders (${past.length} past)` : 'View reminders'}
+            aria-expanded={isRemindersOpen}
+            aria-haspopup="dialog"
+            type="button"
+            onClick={() => setIsRemindersOpen(prev => !prev)}
+          >
+            <Bell className="w-6 h-6" aria-hidden="true" />
+            {past.length > 0 && (
+              <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 text-[10px] leading-4 rounded-full bg-accent text-background" aria-hidden="true">
+                {past.length}
+              </span>
+            )}
+          </button>
+          {isRemindersOpen && (
+            <RemindersPanel
+              past={past}
+              upcoming={upcoming}
+              onClose={handleCloseReminders}
+              onTaskSelect={onTaskSelect}
+              anchorRef={bellButtonRef}
+            />
+          )}
+        </div>
         <button
           className='p-2 rounded-md text-muted-foreground hover:bg-muted-background'
           aria-label="Open settings"
           type="button"
+          onClick={onSettingsClick}
         >
           <Settings className="w-6 h-6" aria-hidden="true" />
         </button>
@@ -0,0 +1,229 @@
+import { useMemo, useState } from 'react'
+import { Upload } from 'lucide-react'
+import Modal from './modal'
+import { dataService } from '../services/dataService'
+import { showError, showSuccess } from '../lib/toastUtils'
+import { ValidationError } from '../types/errors'
+import type { ImportFieldMapping, ImportFormat, ImportSource, ImportTargetField } from '../types/import'
+import { IMPORT_FORMATS, parseImportFile } from '../utils/importFormats'
+import { applyImportPlan, buildImportPlan, countPlannedTasks, IMPORT_TARGET_LABELS } from '../utils/taskImport'
+
+const FORMATS = Object.keys(IMPORT_FORMATS) as ImportFormat[]
+const TARGET_FIELDS = Object.keys(IMPORT_TARGET_LABELS) as ImportTargetField[]
+const PREVIEW_LIMIT = 20
+
+interface ImportDialogProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+type Step = 'choose' | 'map' | 'preview'
+
+/**
+ * First non-empty value of a field, to show next to it while mapping
+ */
+function getSample(source: ImportSource, key: string): string {
+  return source.records.find(record => record.values[key]?.trim())?.values[key] ?? ''
+}
+
+/**
+ * Imports tasks from todo.txt, Todoist, Things and iCalendar (.ics) files
+ * Pick a format and file, map its fields onto task fields, check the preview, then import.
+ */
+export function ImportDialog({ isOpen, onClose }: ImportDialogProps) {
+  const [step, setStep] = useState<Step>('choose')
+  const [format, setFormat] = useState<ImportFormat>('todotxt')
+  const [source, setSource] = useState<ImportSource | null>(null)
+  const [mapping, setMapping] = useState<ImportFieldMapping>({})
+  const [fileError, setFileError] = useState<string | null>(null)
+  const [isImporting, setIsImporting] = useState(false)
+
+  const plan = useMemo(() => source ? buildImportPlan(source, mapping) : null, [source, mapping])
+  const hasTitle = Object.values(mapping).includes('title')
+
+  const handleClose = () => {
+    setStep('choose')
+    setSource(null)
+    setMapping({})
+    setFileError(null)
+    onClose()
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    setFileError(null)
+    try {
+      const parsed = parseImportFile(format, await file.text(), file.name)
+      if (parsed.records.length === 0) {
+        setFileError('No tasks were found in this file.')
+        return
+      }
+      setSource(parsed)
+      setMapping(parsed.mapping)
+      setStep('map')
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        setFileError(error.message)
+      } else {
+        showError(error, 'Failed to read the file')
+      }
+    }
+  }
+
+  const handleImport = async () => {
+    if (!plan) return
+
+    setIsImporting(true)
+    try {
+      const { listsCreated, tasksCreated } = await applyImportPlan(plan, dataService)
+      showSuccess(`Imported ${tasksCreated} task${tasksCreated === 1 ? '' : 's'}` +
+        (listsCreated > 0 ? ` into ${listsCreated} new list${listsCreated === 1 ? '' : 's'}` : ''))
+      handleClose()
+    } catch (error) {
+      // Whatever was created before the failure stays; the store already shows it
+      showError(error, 'The import stopped part way through')
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const secondaryButtonClass = 'px-4 py-2 text-sm border border-border rounded-md hover:bg-accent/10 transition-colors'
+  const primaryButtonClass = 'px-4 py-2 text-sm text-background bg-accent rounded-md hover:bg-accent/90 transition-colors disabled:opacity-50'
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Import from another app">
+      {step === 'choose' && (
+        <div className="space-y-4">
+          <fieldset>
+            <legend className="block text-sm font-medium mb-2">File format</legend>
+            <div className="space-y-1">
+              {FORMATS.map(option => (
+                <label
+                  key={option}
+                  className="flex items-center gap-2 p-2 rounded-md hover:bg-accent/10 transition-colors cursor-pointer text-sm"
+                >
+                  <input
+                    type="radio"
+                    name="import-format"
+                    value={option}
+                    checked={format === option}
+                    onChange={() => setFormat(option)}
+                    className="accent-accent"
+                  />
+                  {IMPORT_FORMATS[option].label}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <label className={`flex items-center gap-2 w-fit cursor-pointer ${secondaryButtonClass}`}>
+            <Upload className="w-4 h-4" aria-hidden="true" />
+            Choose file
+            <input type="file" accept={IMPORT_FORMATS[format].accept} onChange={handleFileChange} className="sr-only" />
+          </label>
+
+          {fileError && <p role="alert" className="text-sm text-priority-high">{fileError}</p>}
+        </div>
+      )}
+
+      {step === 'map' && source && (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">Choose where each field from the file goes.</p>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-muted-foreground">
+                <th className="font-medium pb-1">Field in file</th>
+                <th className="font-medium pb-1">Imports as</th>
+              </tr>
+            </thead>
+            <tbody>
+              {source.fields.map(field => {
+                const sample = getSample(source, field.key)
+                return (
+                  <tr key={field.key}>
+                    <td className="py-1 pr-2 align-top">
+                      <span className="block">{field.label}</span>
+                      {sample && <span className="block text-xs text-muted-foreground truncate max-w-48">e.g. {sample}</span>}
+                    </td>
+                    <td className="py-1 align-top">
+                      <select
+                        value={mapping[field.key] ?? 'ignore'}
+                        onChange={(e) => setMapping(prev => ({ ...prev, [field.key]: e.target.value as ImportTargetField }))}
+                        aria-label={`Import ${field.label} as`}
+                        className="w-full px-2 py-1 bg-background border border-border rounded-md
+                                   focus:outline-none focus:ring-2 focus:ring-accent"
+                      >
+                        {TARGET_FIELDS.map(target => (
+                          <option key={target} value={target}>{IMPORT_TARGET_LABELS[target]}</option>
+                        ))}
+                      </select>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+
+          {!hasTitle && <p role="alert" className="text-sm text-priority-high">Map at least one field to Title.</p>}
+
+          <div className="flex gap-2 justify-end">
+            <button type="button" onClick={() => setStep('choose')} className={secondaryButtonClass}>
+              Back
+            </button>
+            <button type="button" onClick={() => setStep('preview')} disabled={!hasTitle} className={primaryButtonClass}>
+              Preview
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'preview' && plan && (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {countPlannedTasks(plan)} tasks will be imported
+            {plan.lists.length > 0 && ` into ${plan.lists.length} areas and projects (existing ones with the same name are reused)`}.
+            {plan.skipped > 0 && ` ${plan.skipped} without a title will be skipped.`}
+          </p>
+
+          <ul className="max-h-64 overflow-y-auto divide-y divide-border text-sm" aria-label="Tasks to import">
+            {plan.tasks.slice(0, PREVIEW_LIMIT).map((task, index) => (
+              <li key={index} className="py-1.5">
+                <span className="block truncate">{task.input.title}</span>
+                <span className="block text-xs text-muted-foreground truncate">
+                  {[
+                    task.listTitle,
+                    task.input.status !== 'active' && task.input.status,
+                    task.input.priority !== 'medium' && `${task.input.priority} priority`,
+                    task.input.dueDate && `due ${task.input.dueDate}`,
+                    ...(task.input.tags ?? []).map(tag => `#${tag}`),
+                    task.subtasks.length > 0 && `${task.subtasks.length} subtasks`,
+                  ].filter(Boolean).join(' · ')}
+                </span>
+              </li>
+            ))}
+          </ul>
+          {plan.tasks.length > PREVIEW_LIMIT && (
+            <p className="text-xs text-muted-foreground">…and {plan.tasks.length - PREVIEW_LIMIT} more</p>
+          )}
+
+          <div className="flex gap-2 justify-end">
+            <button type="button" onClick={() => setStep('map')} className={secondaryButtonClass}>
+              Back
+            </button>
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={isImporting || plan.tasks.length === 0}
+              className={primaryButtonClass}
+            >
+              {isImporting ? 'Importing...' : 'Import'}
+            </button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  )
+}
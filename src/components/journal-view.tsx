@@ -1,38 +1,52 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { ArrowLeft, Plus, Pencil, Trash2, Check, X } from 'lucide-react'
 import { format } from 'date-fns'
-import { dataService } from '../services/dataService'
 import type { JournalEntry } from '../types/notes'
+import type { SearchTarget } from '../types/search'
+import { useAppStore } from '../hooks/useAppStore'
 
 interface JournalViewProps {
   listId: string
   listTitle: string
+  searchTarget?: SearchTarget | null
   onBack: () => void
 }
 
-export function JournalView({ listId, listTitle, onBack }: JournalViewProps) {
-  const [entries, setEntries] = useState<JournalEntry[]>([])
-  const [isLoading, setIsLoading] = useState(true)
+const NO_ENTRIES: JournalEntry[] = []
+
+export function JournalView({ listId, listTitle, searchTarget = null, onBack }: JournalViewProps) {
+  const { state, loadJournal, createJournalEntry, updateJournalEntry, deleteJournalEntry } = useAppStore()
+  const loadedEntries = state.journal[listId]
+  const entries = loadedEntries ?? NO_ENTRIES
+  const isLoading = loadedEntries === undefined
   const [isAddingEntry, setIsAddingEntry] = useState(false)
   const [newEntryContent, setNewEntryContent] = useState('')
   const [editingEntryId, setEditingEntryId] = useState<string | null>(null)
   const [editContent, setEditContent] = useState('')
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [highlightedEntryId, setHighlightedEntryId] = useState<string | null>(null)
+  const handledSearchTargetRef = useRef<SearchTarget | null>(null)
 
-  const loadEntries = useCallback(async () => {
-    try {
-      const data = await dataService.getJournalEntries(listId)
-      setEntries(data)
-    } catch (error) {
-      console.error('Failed to load journal entries:', error)
-    } finally {
-      setIsLoading(false)
-    }
-  }, [listId])
+  // Load entries; the store keeps them current afterwards
+  useEffect(() => {
+    loadJournal(listId)
+  }, [listId, loadJournal])
+
+  // Highlight an entry picked in search
+  useEffect(() => {
+    if (searchTarget?.type !== 'journal' || handledSearchTargetRef.current === searchTarget) return
+    if (!entries.some(entry => entry.id === searchTarget.id)) return
+
+    handledSearchTargetRef.current = searchTarget
+    setHighlightedEntryId(searchTarget.id)
+  }, [searchTarget, entries])
 
   useEffect(() => {
-    loadEntries()
-  }, [loadEntries])
+    if (!highlightedEntryId) return
+    document.getElementById(`journal-entry-${highlightedEntryId}`)?.scrollIntoView({ block: 'center', behavior: 'smooth' })
+    const timer = setTimeout(() => setHighlightedEntryId(null), 2000)
+    return () => clearTimeout(timer)
+  }, [highlightedEntryId])
 
   const handleAddEntry = async () => {
     const trimmed = newEntryContent.trim()
@@ -40,10 +54,9 @@ export function JournalView({ listId, listTitle, onBack }: JournalViewProps) {
 
     setIsSubmitting(true)
     try {
-      await dataService.createJournalEntry(listId, { content: trimmed })
+      await createJournalEntry(listId, { content: trimmed })
       setNewEntryContent('')
       setIsAddingEntry(false)
-      await loadEntries()
     } catch (error) {
       console.error('Failed to create entry:', error)
     } finally {
@@ -64,10 +77,9 @@ export function JournalView({ listId, listTitle, onBack }: JournalViewProps) {
 
     setIsSubmitting(true)
     try {
-      await dataService.updateJournalEntry(listId, editingEntryId, { content: trimmed })
+      await updateJournalEntry(listId, editingEntryId, { content: trimmed })
       setEditingEntryId(null)
       setEditContent('')
-      await loadEntries()
     } catch (error) {
       console.error('Failed to update entry:', error)
     } finally {
@@ -85,8 +97,7 @@ export function JournalView({ listId, listTitle, onBack }: JournalViewProps) {
 
     setIsSubmitting(true)
     try {
-      await dataService.deleteJournalEntry(listId, entryId)
-      await loadEntries()
+      await deleteJournalEntry(listId, entryId)
     } catch (error) {
       console.error('Failed to delete entry:', error)
     } finally {
@@ -183,7 +194,8 @@ export function JournalView({ listId, listTitle, onBack }: JournalViewProps) {
           {entries.map(entry => (
             <div
               key={entry.id}
-              className="border border-border rounded-md bg-card/50 overflow-hidden"
+              id={`journal-entry-${entry.id}`}
+              className={`border rounded-md bg-card/50 overflow-hidden ${highlightedEntryId === entry.id ? 'border-accent ring-2 ring-accent' : 'border-border'}`}
             >
               {/* Entry header */}
               <div className="flex items-center justify-between px-3 py-2 bg-card/30 border-b border-border">
@@ -0,0 +1,89 @@
+import { useEffect, useRef } from 'react'
+import { Archive, ArchiveRestore, Pencil, Trash2, type LucideIcon } from 'lucide-react'
+import type { SidebarItemData } from '../types/sidebar'
+
+interface ListContextMenuProps {
+  list: SidebarItemData
+  position: { x: number; y: number }
+  onEdit: () => void
+  onArchive?: () => void // Omitted for lists that can't be archived (smart lists)
+  onRestore?: () => void
+  onDelete: () => void
+  onClose: () => void
+}
+
+/**
+ * Actions for an area, project or user-defined smart list, opened by right-clicking it in the sidebar
+ * (or with the context menu key / Shift+F10)
+ */
+export function ListContextMenu({ list, position, onEdit, onArchive, onRestore, onDelete, onClose }: ListContextMenuProps) {
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  const actions: { label: string; icon: LucideIcon; onSelect: () => void; isDestructive?: boolean }[] = [
+    { label: 'Edit…', icon: Pencil, onSelect: onEdit },
+    ...(list.archived
+      ? onRestore ? [{ label: 'Restore', icon: ArchiveRestore, onSelect: onRestore }] : []
+      : onArchive ? [{ label: 'Archive…', icon: Archive, onSelect: onArchive }] : []),
+    { label: 'Delete…', icon: Trash2, onSelect: onDelete, isDestructive: true },
+  ]
+
+  // Focus the first action so the menu works from the keyboard
+  useEffect(() => {
+    menuRef.current?.querySelector<HTMLButtonElement>('[role="menuitem"]')?.focus()
+  }, [])
+
+  // Close on Escape or on clicks outside the menu
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    const handleMouseDown = (e: MouseEvent) => {
+      if (menuRef.current?.contains(e.target as Node)) return
+      onClose()
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    document.addEventListener('mousedown', handleMouseDown)
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown)
+      document.removeEventListener('mousedown', handleMouseDown)
+    }
+  }, [onClose])
+
+  const handleMenuKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key !== 'ArrowDown' && e.key !== 'ArrowUp') return
+    e.preventDefault()
+    const items = Array.from(menuRef.current?.querySelectorAll<HTMLButtonElement>('[role="menuitem"]') ?? [])
+    const currentIndex = items.indexOf(document.activeElement as HTMLButtonElement)
+    const step = e.key === 'ArrowDown' ? 1 : -1
+    items[(currentIndex + step + items.length) % items.length]?.focus()
+  }
+
+  return (
+    <div
+      ref={menuRef}
+      role="menu"
+      aria-label={`${list.title} actions`}
+      onKeyDown={handleMenuKeyDown}
+      style={{ left: position.x, top: position.y }}
+      className="fixed z-50 w-44 p-1 bg-card border border-border rounded-lg shadow-glow-emerald text-sm text-card-foreground"
+    >
+      {actions.map(({ label, icon: Icon, onSelect, isDestructive }) => (
+        <button
+          key={label}
+          type="button"
+          role="menuitem"
+          onClick={() => {
+            onClose()
+            onSelect()
+          }}
+          className={`w-full flex items-center gap-2 px-2 py-1.5 rounded-md hover:bg-accent/10 focus:bg-accent/10 focus:outline-none transition-colors
+                      ${isDestructive ? 'text-priority-high' : ''}`}
+        >
+          <Icon className="w-4 h-4" aria-hidden="true" />
+          {label}
+        </button>
+      ))}
+    </div>
+  )
+}
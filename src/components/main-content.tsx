@@ -1,83 +1,251 @@
-import { useState, useEffect, useCallback } from 'react';
-import {Funnel, ArrowUpNarrowWide} from 'lucide-react'
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import {Funnel, ArrowUpNarrowWide, ArrowDownWideNarrow, Download} from 'lucide-react'
 import TaskList from './task-list';
-import { dataService } from '../services/dataService';
-import type { TaskCounts, TaskData } from '../types/task';
-import { filterTasksByList } from '../utils/taskFilters';
+import type { TaskCounts, TaskFilterCriteria, TaskSort } from '../types/task';
+import { TaskFilterCriteriaSchema, TaskSortSchema } from '../schemas';
+import { filterTasksByList, applyTaskFilters, countActiveFilters, getStatusForFilterKey, EMPTY_FILTERS } from '../utils/taskFilters';
+import { DEFAULT_SORT, describeSort, sortTasks } from '../utils/taskSort';
+import { orderLogbookTasks } from '../utils/logbook';
+import { exportTasksToCsv, exportTasksToMarkdown, getExportFileName, resolveListTitle, TASK_EXPORT_FORMATS, type TaskExportFormat } from '../utils/taskExport';
+import { downloadFile } from '../utils/download';
+import { getTagDescendants, replaceFilterTag } from '../utils/tags';
 import { NotesPanel } from './notes-panel';
 import { JournalView } from './journal-view';
+import { FilterPanel, FilterChips } from './filter-panel';
+import { SortMenu } from './sort-menu';
+import { ExportMenu } from './export-menu';
+import Modal from './modal';
+import SmartListForm from './smart-list-form';
+import { TagBrowser } from './tag-browser';
+import { dataService } from '../services/dataService';
+import { showError, showSuccess } from '../lib/toastUtils';
+import type { IconName } from '../utils/iconMapper';
+import type { SearchTarget } from '../types/search';
+import { useAppStore } from '../hooks/useAppStore';
+import { useDataChanges } from '../hooks/useDataChanges';
+
+const FILTERS_STORAGE_KEY = 'task-filters';
+const SORT_STORAGE_KEY = 'task-sort';
+
+/**
+ * Loads the saved per-list filters, dropping any that no longer validate
+ */
+const loadStoredFilters = (): Record<string, TaskFilterCriteria> => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(FILTERS_STORAGE_KEY) || '{}');
+        const filters: Record<string, TaskFilterCriteria> = {};
+        for (const [listKey, criteria] of Object.entries(stored)) {
+            const result = TaskFilterCriteriaSchema.safeParse(criteria);
+            if (result.success) filters[listKey] = result.data;
+        }
+        return filters;
+    } catch {
+        return {};
+    }
+};
+
+/**
+ * Loads the saved per-list sort modes, dropping any that no longer validate
+ */
+const loadStoredSorts = (): Record<string, TaskSort> => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(SORT_STORAGE_KEY) || '{}');
+        const sorts: Record<string, TaskSort> = {};
+        for (const [listKey, sort] of Object.entries(stored)) {
+            const result = TaskSortSchema.safeParse(sort);
+            if (result.success) sorts[listKey] = result.data;
+        }
+        return sorts;
+    } catch {
+        return {};
+    }
+};
 
 interface MainContentProps {
-    refreshKey?: number;
     selectedListId?: string | null;
-    onDataChange?: () => void;
+    searchTarget?: SearchTarget | null;
+    selectedTaskId?: string | null;
+    onTaskSelect?: (id: string) => void;
 }
 
-export default function MainContent({ refreshKey, selectedListId = null, onDataChange }: MainContentProps) {
+export default function MainContent({ selectedListId = null, searchTarget = null, selectedTaskId = null, onTaskSelect }: MainContentProps) {
     const [selectedFilterKey, setSelectedFilterKey] = useState<number>(1);
-    const [counts, setCounts] = useState<TaskCounts>({ all: 0, active: 0, completed: 0, archived: 0 });
     const [viewMode, setViewMode] = useState<'tasks' | 'journal'>('tasks');
-    const [selectedListTitle, setSelectedListTitle] = useState<string>('');
+    const { state: { tasks: allTasks, sidebar } } = useAppStore();
+    const [isFilterPanelOpen, setIsFilterPanelOpen] = useState(false);
+    const filterButtonRef = useRef<HTMLButtonElement>(null);
+    // Filters are kept per selected list ('all' when nothing is selected)
+    const [filtersByList, setFiltersByList] = useState<Record<string, TaskFilterCriteria>>(loadStoredFilters);
+    const [isSortMenuOpen, setIsSortMenuOpen] = useState(false);
+    const sortButtonRef = useRef<HTMLButtonElement>(null);
+    // Sort modes are kept per selected list too
+    const [sortByList, setSortByList] = useState<Record<string, TaskSort>>(loadStoredSorts);
+    const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+    const exportButtonRef = useRef<HTMLButtonElement>(null);
+    const [isSmartListFormOpen, setIsSmartListFormOpen] = useState(false);
+    const [selectedTag, setSelectedTag] = useState<string | null>(null);
+
+    const filterListKey = selectedListId || 'all';
+    const filters = filtersByList[filterListKey] || EMPTY_FILTERS;
+    const activeFilterCount = countActiveFilters(filters);
+    const tags = useMemo(() => sidebar?.tags ?? [], [sidebar]);
+
+    // In the Tags view, the tag picked in the browser narrows the list to it and the tags nested under it
+    const listFilters = useMemo((): TaskFilterCriteria => {
+        if (selectedListId !== 'tags' || !selectedTag) return filters;
+        return { ...filters, tags: [selectedTag, ...getTagDescendants(tags, selectedTag)] };
+    }, [selectedListId, selectedTag, filters, tags]);
+    const sort = sortByList[filterListKey] || DEFAULT_SORT;
 
     // Check if selected list is an area or project (not a smart list)
     const isAreaOrProject = selectedListId && !['inbox', 'today', 'upcoming', 'past_due', 'tags', 'anytime', 'someday', 'logbook'].includes(selectedListId);
 
-    const loadCounts = useCallback(async () => {
-        try {
-            // If a smart list or area/project is selected, calculate counts from filtered tasks
-            if (selectedListId) {
-                // Fetch all tasks and filter them based on selected list
-                const allTasks = await dataService.getTasks();
-                const filteredTasks = filterTasksByList(allTasks, selectedListId);
-
-                // Calculate counts from filtered tasks
-                const taskCounts: TaskCounts = {
-                    all: filteredTasks.length,
-                    active: filteredTasks.filter((t: TaskData) => t.status === 'active').length,
-                    completed: filteredTasks.filter((t: TaskData) => t.status === 'completed').length,
-                    archived: filteredTasks.filter((t: TaskData) => t.status === 'archived').length,
-                };
-                setCounts(taskCounts);
-            } else {
-                // No filter selected, get global counts
-                const fetchedCounts = await dataService.getTaskCounts();
-                setCounts(fetchedCounts);
-            }
-        } catch (error) {
-            console.error('Failed to load task counts:', error);
-        }
-    }, [selectedListId]);
+    // The tasks shown in the list (status tab applied), which is what gets exported
+    const visibleTasks = useMemo(() => {
+        const status = getStatusForFilterKey(selectedFilterKey);
+        const filteredTasks = applyTaskFilters(filterTasksByList(allTasks, selectedListId, sidebar?.smartLists), listFilters)
+            .filter(task => !status || task.status === status);
+        // The Logbook shows its tasks grouped by completion day
+        return selectedListId === 'logbook' ? orderLogbookTasks(filteredTasks, sort) : sortTasks(filteredTasks, sort);
+    }, [allTasks, selectedFilterKey, selectedListId, sidebar, listFilters, sort]);
+
+    // Count the top-level tasks matching the selected list and filters (status tabs aren't applied)
+    const counts = useMemo((): TaskCounts => {
+        const filteredTasks = applyTaskFilters(filterTasksByList(allTasks, selectedListId, sidebar?.smartLists), listFilters);
+        return {
+            all: filteredTasks.length,
+            active: filteredTasks.filter(t => t.status === 'active').length,
+            completed: filteredTasks.filter(t => t.status === 'completed').length,
+            archived: filteredTasks.filter(t => t.status === 'archived').length,
+        };
+    }, [allTasks, selectedListId, sidebar, listFilters]);
 
-    // Load counts on mount and when refreshKey or selectedListId changes
+    // The open list's title follows renames
+    const selectedList = selectedListId
+        ? sidebar?.areas.find(a => a.key === selectedListId) || sidebar?.projects.find(p => p.key === selectedListId)
+        : undefined;
+    const selectedListTitle = selectedList?.title || '';
+
+    // A user-defined smart list, whose saved filter the current filters can be saved into
+    const selectedSmartList = sidebar?.smartLists.find(item => item.key === selectedListId && item.filter);
+
+    // Saved per-list filters (and the tag picked in the Tags view) follow a renamed, merged or deleted tag
+    useDataChanges(event => {
+        if (event.type !== 'tag_replaced') return;
+        const { name, replacement } = event;
+        setFiltersByList(prev => Object.fromEntries(Object.entries(prev)
+            .map(([listKey, criteria]) => [listKey, replaceFilterTag(criteria, name, replacement)] as const)
+            .filter(([, criteria]) => countActiveFilters(criteria) > 0)));
+        setSelectedTag(prev => prev === name ? replacement ?? null : prev);
+    });
+
+    // Persist per-list filters
+    useEffect(() => {
+        localStorage.setItem(FILTERS_STORAGE_KEY, JSON.stringify(filtersByList));
+    }, [filtersByList]);
+
+    // Persist per-list sort modes
     useEffect(() => {
-        loadCounts();
-    }, [refreshKey, loadCounts]);
+        localStorage.setItem(SORT_STORAGE_KEY, JSON.stringify(sortByList));
+    }, [sortByList]);
 
-    // Load selected list title and reset view mode when list changes
+    // Reset view mode when list changes
     useEffect(() => {
         setViewMode('tasks');
-        if (selectedListId) {
-            const config = dataService.getLocalSidebarConfig();
-            const area = config.areas.find(a => a.key === selectedListId);
-            const project = config.projects.find(p => p.key === selectedListId);
-            setSelectedListTitle(area?.title || project?.title || '');
-        } else {
-            setSelectedListTitle('');
-        }
+        setIsFilterPanelOpen(false);
+        setIsSortMenuOpen(false);
+        setIsExportMenuOpen(false);
+        setSelectedTag(null);
     }, [selectedListId]);
 
-    const handleCountsChange = async () => {
-        await loadCounts();
-        // Notify parent to refresh sidebar
-        if (onDataChange) {
-            onDataChange();
+    // Show the view holding a picked search result (runs after the list reset above)
+    useEffect(() => {
+        if (!searchTarget) return;
+        if (searchTarget.type === 'journal') {
+            setViewMode('journal');
+        } else {
+            setViewMode('tasks');
+            // Make sure the task isn't hidden by the status filter
+            if (searchTarget.type === 'task') setSelectedFilterKey(1);
         }
-    };
+    }, [searchTarget]);
 
     const handleFilterChange = (key: number) => {
         setSelectedFilterKey(key);
     };
 
+    const handleFiltersChange = (criteria: TaskFilterCriteria) => {
+        setFiltersByList(prev => {
+            const next = { ...prev };
+            if (countActiveFilters(criteria) > 0) {
+                next[filterListKey] = criteria;
+            } else {
+                delete next[filterListKey];
+            }
+            return next;
+        });
+    };
+
+    const handleCreateSmartList = async (title: string, iconName: IconName) => {
+        try {
+            const smartList = await dataService.addSmartList(title, filters, iconName);
+            // The filters now live in the smart list
+            handleFiltersChange({});
+            setIsSmartListFormOpen(false);
+            showSuccess(`Smart list "${smartList.title}" created`);
+        } catch (error) {
+            console.error('Failed to create smart list:', error);
+            showError(error, 'Failed to create smart list. Please try again.');
+        }
+    };
+
+    const handleUpdateSmartList = async () => {
+        if (!selectedSmartList) return;
+        try {
+            // Filters set here replace the matching parts of the saved filter
+            const filter = { ...selectedSmartList.filter, ...filters };
+            await dataService.updateSmartList(selectedSmartList.key, { filter });
+            handleFiltersChange({});
+            showSuccess(`"${selectedSmartList.title}" updated`);
+        } catch (error) {
+            console.error('Failed to update smart list:', error);
+            showError(error, 'Failed to update smart list. Please try again.');
+        }
+    };
+
+    const handleCloseFilterPanel = useCallback(() => {
+        setIsFilterPanelOpen(false);
+    }, []);
+
+    const handleSortChange = (newSort: TaskSort) => {
+        setSortByList(prev => {
+            const next = { ...prev };
+            if (newSort.field !== 'manual') {
+                next[filterListKey] = newSort;
+            } else {
+                delete next[filterListKey];
+            }
+            return next;
+        });
+    };
+
+    const handleCloseSortMenu = useCallback(() => {
+        setIsSortMenuOpen(false);
+    }, []);
+
+    const handleExport = (format: TaskExportFormat) => {
+        const title = resolveListTitle(sidebar, selectedListId) || 'All tasks';
+        const content = format === 'csv'
+            ? exportTasksToCsv(visibleTasks, sidebar)
+            : exportTasksToMarkdown(title, visibleTasks, allTasks, sidebar);
+        downloadFile(getExportFileName(title, format), content, TASK_EXPORT_FORMATS[format].mimeType);
+        setIsExportMenuOpen(false);
+    };
+
+    const handleCloseExportMenu = useCallback(() => {
+        setIsExportMenuOpen(false);
+    }, []);
+
   return (
     <div className='h-full px-4 py-4 flex flex-col overflow-hidden'>
         {/* Journal View */}
@@ -85,6 +253,7 @@ export default function MainContent({ refreshKey, selectedListId = null, onDataC
             <JournalView
                 listId={selectedListId}
                 listTitle={selectedListTitle}
+                searchTarget={searchTarget}
                 onBack={() => setViewMode('tasks')}
             />
         )}
@@ -97,10 +266,21 @@ export default function MainContent({ refreshKey, selectedListId = null, onDataC
                     <NotesPanel
                         listId={selectedListId}
                         listTitle={selectedListTitle}
+                        searchTarget={searchTarget}
                         onOpenJournal={() => setViewMode('journal')}
                     />
                 )}
 
+                {/* Tag browser - only show in the Tags view */}
+                {selectedListId === 'tags' && (
+                    <TagBrowser
+                        tags={tags}
+                        tasks={allTasks}
+                        selectedTag={selectedTag}
+                        onSelectTag={setSelectedTag}
+                    />
+                )}
+
                 <div className="flex flex-row text-muted-foreground text-xl" role="toolbar" aria-label="Task filters and actions">
                     <div className="flex items-center gap-3" role="group" aria-label="Status filters">
                         <button
@@ -135,27 +315,102 @@ export default function MainContent({ refreshKey, selectedListId = null, onDataC
                         </button>
                     </div>
                     <div className="justify-end flex flex-1 gap-4" role="group" aria-label="Task actions">
-                        <button
-                            type="button"
-                            className='p-2 rounded-md text-muted-foreground hover:bg-muted hover:text-accent'
-                            aria-label="Filter tasks"
-                        >
-                            <Funnel className="w-6 h-6" aria-hidden="true" />
-                        </button>
-                        <button
-                            type="button"
-                            className='p-2 rounded-md text-muted-foreground hover:bg-muted hover:text-accent'
-                            aria-label="Sort tasks"
-                        >
-                            <ArrowUpNarrowWide className="w-6 h-6" aria-hidden="true" />
-                        </button>
+                        <div className="relative">
+                            <button
+                                ref={filterButtonRef}
+                                type="button"
+                                className={`relative p-2 rounded-md hover:bg-muted hover:text-accent ${activeFilterCount > 0 ? 'text-accent' : 'text-muted-foreground'}`}
+                                onClick={() => setIsFilterPanelOpen(prev => !prev)}
+                                aria-label={activeFilterCount > 0 ? `Filter tasks (${activeFilterCount} active)` : 'Filter tasks'}
+                                aria-expanded={isFilterPanelOpen}
+                                aria-haspopup="dialog"
+                            >
+                                <Funnel className="w-6 h-6" aria-hidden="true" />
+                                {activeFilterCount > 0 && (
+                                    <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 text-[10px] leading-4 rounded-full bg-accent text-background" aria-hidden="true">
+                                        {activeFilterCount}
+                                    </span>
+                                )}
+                            </button>
+                            {isFilterPanelOpen && (
+                                <FilterPanel
+                                    filters={filters}
+                                    onChange={handleFiltersChange}
+                                    onClose={handleCloseFilterPanel}
+                                    anchorRef={filterButtonRef}
+                                />
+                            )}
+                        </div>
+                        <div className="relative">
+                            <button
+                                ref={sortButtonRef}
+                                type="button"
+                                className={`p-2 rounded-md hover:bg-muted hover:text-accent ${sort.field !== 'manual' ? 'text-accent' : 'text-muted-foreground'}`}
+                                onClick={() => setIsSortMenuOpen(prev => !prev)}
+                                aria-label={`Sort tasks (${describeSort(sort)})`}
+                                aria-expanded={isSortMenuOpen}
+                                aria-haspopup="dialog"
+                            >
+                                {sort.field !== 'manual' && sort.direction === 'desc'
+                                    ? <ArrowDownWideNarrow className="w-6 h-6" aria-hidden="true" />
+                                    : <ArrowUpNarrowWide className="w-6 h-6" aria-hidden="true" />}
+                            </button>
+                            {isSortMenuOpen && (
+                                <SortMenu
+                                    sort={sort}
+                                    onChange={handleSortChange}
+                                    onClose={handleCloseSortMenu}
+                                    anchorRef={sortButtonRef}
+                                />
+                            )}
+                        </div>
+                        <div className="relative">
+                            <button
+                                ref={exportButtonRef}
+                                type="button"
+                                className="p-2 rounded-md text-muted-foreground hover:bg-muted hover:text-accent"
+                                onClick={() => setIsExportMenuOpen(prev => !prev)}
+                                aria-label="Export tasks"
+                                aria-expanded={isExportMenuOpen}
+                                aria-haspopup="dialog"
+                            >
+                                <Download className="w-6 h-6" aria-hidden="true" />
+                            </button>
+                            {isExportMenuOpen && (
+                                <ExportMenu
+                                    taskCount={visibleTasks.length}
+                                    onExport={handleExport}
+                                    onClose={handleCloseExportMenu}
+                                    anchorRef={exportButtonRef}
+                                />
+                            )}
+                        </div>
                     </div>
                 </div>
+                <FilterChips
+                    filters={filters}
+                    onChange={handleFiltersChange}
+                    saveLabel={selectedSmartList ? `Save to "${selectedSmartList.title}"` : undefined}
+                    onSave={selectedSmartList ? handleUpdateSmartList : () => setIsSmartListFormOpen(true)}
+                />
                 <div className='flex-1 overflow-y-auto px-4 space-y-2 min-h-0' role="region" aria-label="Task list">
-                    <TaskList filterKey={selectedFilterKey} selectedListId={selectedListId || null} refreshKey={refreshKey} onCountsChange={handleCountsChange} />
+                    <TaskList filterKey={selectedFilterKey} selectedListId={selectedListId || null} filters={listFilters} sort={sort} searchTarget={searchTarget} selectedTaskId={selectedTaskId} onTaskSelect={onTaskSelect} />
                 </div>
             </>
         )}
+
+        {/* Modal for saving the current filters as a smart list */}
+        <Modal
+            isOpen={isSmartListFormOpen}
+            onClose={() => setIsSmartListFormOpen(false)}
+            title="New Smart List"
+        >
+            <SmartListForm
+                filter={filters}
+                onSubmit={handleCreateSmartList}
+                onCancel={() => setIsSmartListFormOpen(false)}
+            />
+        </Modal>
     </div>
   )
 }
@@ -1,17 +1,27 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { ChevronDown, ChevronRight, Plus, BookOpen } from 'lucide-react'
 import { NoteSection } from './note-section'
-import { dataService } from '../services/dataService'
+import { ConflictMergeDialog } from './conflict-merge-dialog'
 import type { NoteSection as NoteSectionType } from '../types/notes'
+import type { SearchTarget } from '../types/search'
+import { ConflictError } from '../types/errors'
+import { SECTION_MERGE_FIELDS } from '../utils/conflictMerge'
+import { useAppStore } from '../hooks/useAppStore'
 
 interface NotesPanelProps {
   listId: string
   listTitle: string
+  searchTarget?: SearchTarget | null
   onOpenJournal: () => void
 }
 
-export function NotesPanel({ listId, listTitle: _listTitle, onOpenJournal }: NotesPanelProps) {
-  const [sections, setSections] = useState<NoteSectionType[]>([])
+const NO_SECTIONS: NoteSectionType[] = []
+
+export function NotesPanel({ listId, listTitle: _listTitle, searchTarget = null, onOpenJournal }: NotesPanelProps) {
+  const { state, loadSections, createSection, updateSection, deleteSection } = useAppStore()
+  const loadedSections = state.sections[listId]
+  const sections = loadedSections ?? NO_SECTIONS
+  const isLoading = loadedSections === undefined
   const [isCollapsed, setIsCollapsed] = useState(() => {
     const stored = localStorage.getItem(`notes-collapsed-${listId}`)
     return stored === 'true'
@@ -26,23 +36,14 @@ export function NotesPanel({ listId, listTitle: _listTitle, onOpenJournal }: Not
   })
   const [isAddingSection, setIsAddingSection] = useState(false)
   const [newSectionTitle, setNewSectionTitle] = useState('')
-  const [isLoading, setIsLoading] = useState(true)
-
-  // Load sections
-  const loadSections = useCallback(async () => {
-    try {
-      const data = await dataService.getSections(listId)
-      setSections(data)
-    } catch (error) {
-      console.error('Failed to load sections:', error)
-    } finally {
-      setIsLoading(false)
-    }
-  }, [listId])
+  const [highlightedSectionId, setHighlightedSectionId] = useState<string | null>(null)
+  const [conflict, setConflict] = useState<ConflictError<NoteSectionType> | null>(null)
+  const handledSearchTargetRef = useRef<SearchTarget | null>(null)
 
+  // Load sections; the store keeps them current afterwards
   useEffect(() => {
-    loadSections()
-  }, [loadSections])
+    loadSections(listId)
+  }, [listId, loadSections])
 
   // Persist collapse state
   useEffect(() => {
@@ -55,7 +56,6 @@ export function NotesPanel({ listId, listTitle: _listTitle, onOpenJournal }: Not
 
   // Reset state when listId changes
   useEffect(() => {
-    setIsLoading(true)
     setIsAddingSection(false)
     setNewSectionTitle('')
     const stored = localStorage.getItem(`notes-collapsed-${listId}`)
@@ -68,6 +68,28 @@ export function NotesPanel({ listId, listTitle: _listTitle, onOpenJournal }: Not
     }
   }, [listId])
 
+  // Expand and highlight a section picked in search
+  useEffect(() => {
+    if (searchTarget?.type !== 'section' || handledSearchTargetRef.current === searchTarget || isLoading) return
+    if (!sections.some(section => section.id === searchTarget.id)) return
+
+    handledSearchTargetRef.current = searchTarget
+    setIsCollapsed(false)
+    setCollapsedSections(prev => {
+      const next = new Set(prev)
+      next.delete(searchTarget.id)
+      return next
+    })
+    setHighlightedSectionId(searchTarget.id)
+  }, [searchTarget, sections, isLoading])
+
+  useEffect(() => {
+    if (!highlightedSectionId) return
+    document.getElementById(`note-section-${highlightedSectionId}`)?.scrollIntoView({ block: 'center', behavior: 'smooth' })
+    const timer = setTimeout(() => setHighlightedSectionId(null), 2000)
+    return () => clearTimeout(timer)
+  }, [highlightedSectionId])
+
   const handleToggleCollapse = () => {
     setIsCollapsed(!isCollapsed)
   }
@@ -89,10 +111,9 @@ export function NotesPanel({ listId, listTitle: _listTitle, onOpenJournal }: Not
     if (!trimmed) return
 
     try {
-      await dataService.createSection(listId, { title: trimmed })
+      await createSection(listId, { title: trimmed })
       setNewSectionTitle('')
       setIsAddingSection(false)
-      await loadSections()
     } catch (error) {
       console.error('Failed to create section:', error)
     }
@@ -100,18 +121,33 @@ export function NotesPanel({ listId, listTitle: _listTitle, onOpenJournal }: Not
 
   const handleUpdateSection = async (sectionId: string, updates: { title?: string; content?: string }) => {
     try {
-      await dataService.updateSection(listId, sectionId, updates)
-      await loadSections()
+      await updateSection(listId, sectionId, updates)
     } catch (error) {
+      // Someone else edited this section; the store reloads the newer copy, so ask how to merge
+      if (error instanceof ConflictError) {
+        setConflict(error as unknown as ConflictError<NoteSectionType>)
+        return
+      }
       console.error('Failed to update section:', error)
       throw error
     }
   }
 
+  const handleResolveConflict = async (updates: Partial<NoteSectionType>) => {
+    if (!conflict) return
+    setConflict(null)
+    if (Object.keys(updates).length === 0) return
+
+    try {
+      await handleUpdateSection(conflict.resourceId, updates)
+    } catch {
+      // Already reported by the store
+    }
+  }
+
   const handleDeleteSection = async (sectionId: string) => {
     try {
-      await dataService.deleteSection(listId, sectionId)
-      await loadSections()
+      await deleteSection(listId, sectionId)
     } catch (error) {
       console.error('Failed to delete section:', error)
       throw error
@@ -170,14 +206,21 @@ export function NotesPanel({ listId, listTitle: _listTitle, onOpenJournal }: Not
         <div className="space-y-2">
           {/* Sections */}
           {sections.map(section => (
-            <NoteSection
+            <div
               key={section.id}
-              section={section}
-              isCollapsed={collapsedSections.has(section.id)}
-              onToggleCollapse={() => handleToggleSectionCollapse(section.id)}
-              onUpdate={(updates) => handleUpdateSection(section.id, updates)}
-              onDelete={() => handleDeleteSection(section.id)}
-            />
+              id={`note-section-${section.id}`}
+              className={highlightedSectionId === section.id ? 'rounded-md ring-2 ring-accent' : undefined}
+            >
+              <NoteSection
+                // Remount on remote changes (e.g. after a merge) so edit drafts start from the saved copy
+                key={section.updatedAt}
+                section={section}
+                isCollapsed={collapsedSections.has(section.id)}
+                onToggleCollapse={() => handleToggleSectionCollapse(section.id)}
+                onUpdate={(updates) => handleUpdateSection(section.id, updates)}
+                onDelete={() => handleDeleteSection(section.id)}
+              />
+            </div>
           ))}
 
           {/* Add section form */}
@@ -231,6 +274,15 @@ export function NotesPanel({ listId, listTitle: _listTitle, onOpenJournal }: Not
           )}
         </div>
       )}
+
+      {conflict && (
+        <ConflictMergeDialog
+          conflict={conflict}
+          fields={SECTION_MERGE_FIELDS}
+          onResolve={handleResolveConflict}
+          onClose={() => setConflict(null)}
+        />
+      )}
     </div>
   )
 }
@@ -8,7 +8,12 @@ import * as toastUtils from '../lib/toastUtils'
 // Mock the data service
 vi.mock('../services/dataService', () => ({
   dataService: {
-    createTask: vi.fn()
+    createTask: vi.fn(),
+    getLocalSidebarConfig: vi.fn(() => ({
+      smartLists: [],
+      areas: [],
+      projects: [{ key: 'website', iconName: 'Globe', title: 'Website', count: 0, priority: 'high' }]
+    }))
   }
 }))
 
@@ -325,6 +330,111 @@ describe('QuickAddTask', () => {
         })
       })
     })
+
+    it('should defer tasks added in the "someday" smart list', async () => {
+      const mockTask = {
+        id: '123',
+        title: 'Learn the cello',
+        priority: 'low' as const,
+        status: 'active' as const,
+        someday: true,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      }
+
+      vi.mocked(dataServiceModule.dataService.createTask).mockResolvedValue(mockTask)
+
+      render(<QuickAddTask selectedListId="someday" onTaskCreated={mockOnTaskCreated} />)
+
+      const input = screen.getByPlaceholderText(/add task to someday/i)
+      await user.type(input, 'Learn the cello')
+      await user.keyboard('{Enter}')
+
+      await waitFor(() => {
+        expect(dataServiceModule.dataService.createTask).toHaveBeenCalledWith({
+          title: 'Learn the cello',
+          priority: 'low',
+          status: 'active',
+          someday: true
+        })
+      })
+    })
+  })
+
+  describe('Natural Language Parsing', () => {
+    it('should create a task from parsed tags, priority and list', async () => {
+      render(<QuickAddTask selectedListId={null} onTaskCreated={mockOnTaskCreated} />)
+
+      const input = screen.getByPlaceholderText(/add a task/i)
+      await user.type(input, 'Update copy #content !high @Website')
+      await user.keyboard('{Enter}')
+
+      await waitFor(() => {
+        expect(dataServiceModule.dataService.createTask).toHaveBeenCalledWith({
+          title: 'Update copy',
+          priority: 'high',
+          status: 'active',
+          tags: ['content'],
+          listId: 'website'
+        })
+      })
+    })
+
+    it('should prefer a parsed date over the contextual one', async () => {
+      render(<QuickAddTask selectedListId="today" onTaskCreated={mockOnTaskCreated} />)
+
+      const input = screen.getByPlaceholderText(/add task for today/i)
+      await user.type(input, 'Call Sam tomorrow')
+      await user.keyboard('{Enter}')
+
+      const tomorrow = new Date()
+      tomorrow.setDate(tomorrow.getDate() + 1)
+      const expectedDate = `${tomorrow.getFullYear()}-${String(tomorrow.getMonth() + 1).padStart(2, '0')}-${String(tomorrow.getDate()).padStart(2, '0')}`
+
+      await waitFor(() => {
+        expect(dataServiceModule.dataService.createTask).toHaveBeenCalledWith({
+          title: 'Call Sam',
+          priority: 'low',
+          status: 'active',
+          dueDate: expectedDate
+        })
+      })
+    })
+
+    it('should show parsed attributes as chips while typing', async () => {
+      render(<QuickAddTask selectedListId={null} onTaskCreated={mockOnTaskCreated} />)
+
+      const input = screen.getByPlaceholderText(/add a task/i)
+      await user.type(input, 'Update copy #content * @Website')
+
+      const chips = screen.getByRole('list', { name: /parsed task attributes/i })
+      expect(chips.textContent).toContain('#content')
+      expect(chips.textContent).toContain('High priority')
+      expect(chips.textContent).toContain('Website')
+    })
+
+    it('should not create a task when only tokens are typed', async () => {
+      render(<QuickAddTask selectedListId={null} onTaskCreated={mockOnTaskCreated} />)
+
+      const input = screen.getByPlaceholderText(/add a task/i)
+      await user.type(input, '#content !high')
+      await user.keyboard('{Enter}')
+
+      expect(dataServiceModule.dataService.createTask).not.toHaveBeenCalled()
+    })
+
+    it('should pre-fill the expanded form from parsed tokens', async () => {
+      render(<QuickAddTask selectedListId={null} onTaskCreated={mockOnTaskCreated} />)
+
+      const input = screen.getByPlaceholderText(/add a task/i)
+      await user.type(input, 'Update copy #content #web !medium @Website')
+      await user.keyboard('{Meta>}{Enter}{/Meta}')
+
+      expect((screen.getByLabelText(/title/i) as HTMLInputElement).value).toBe('Update copy')
+      expect((screen.getByLabelText(/tags/i) as HTMLInputElement).value).toBe('content, web')
+      expect((screen.getByDisplayValue('medium') as HTMLInputElement).checked).toBe(true)
+      expect(screen.getByText(/adding to website/i)).toBeDefined()
+    })
   })
 
   describe('Error Handling', () => {
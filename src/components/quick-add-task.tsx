@@ -1,19 +1,31 @@
 import { useState, useRef, useEffect, type KeyboardEvent } from 'react'
 import { format } from 'date-fns'
-import { Calendar as CalendarIcon } from 'lucide-react'
+import { Calendar as CalendarIcon, Flag, Folder, Hash } from 'lucide-react'
 import { dataService } from '../services/dataService'
 import { showError } from '../lib/toastUtils'
 import { Calendar } from '@/components/ui/calendar'
 import Modal from './modal'
-import type { CreateTaskInput, TaskPriority } from '../types/task'
+import { RepeatPicker } from './repeat-picker'
+import { TagInput } from './tag-input'
+import type { CreateTaskInput, TaskPriority, RecurrenceRule } from '../types/task'
+import { parseQuickAdd, type QuickAddList, type QuickAddToken } from '../utils/quickAddParser'
+import { parseDate } from '../utils/taskFilters'
+import { parseTagInput } from '../utils/tags'
 
 interface QuickAddTaskProps {
   selectedListId: string | null
-  onTaskCreated: () => void
+  onTaskCreated?: () => void // The list itself picks up the new task from change events
 }
 
 const SMART_LISTS = ['inbox', 'today', 'upcoming', 'past_due', 'tags', 'anytime', 'someday', 'logbook']
 
+const TOKEN_ICONS = {
+  date: CalendarIcon,
+  tag: Hash,
+  priority: Flag,
+  list: Folder,
+}
+
 export function QuickAddTask({ selectedListId, onTaskCreated }: QuickAddTaskProps) {
   const [title, setTitle] = useState('')
   const [isModalOpen, setIsModalOpen] = useState(false)
@@ -21,6 +33,8 @@ export function QuickAddTask({ selectedListId, onTaskCreated }: QuickAddTaskProp
   const [tags, setTags] = useState('')
   const [priority, setPriority] = useState<TaskPriority>('low')
   const [dueDate, setDueDate] = useState<Date | undefined>()
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | undefined>()
+  const [listId, setListId] = useState<string | undefined>() // From an @mention, carried into the modal
   const [showCalendar, setShowCalendar] = useState(false)
 
   // Ref to track modal state for use in event handlers (avoids stale closure)
@@ -60,6 +74,29 @@ export function QuickAddTask({ selectedListId, onTaskCreated }: QuickAddTaskProp
     return `Add task to ${displayName}...`
   }
 
+  // Areas and projects that @mentions can resolve to (archived ones are left out), and tags to suggest
+  const config = dataService.getLocalSidebarConfig()
+  const mentionableLists: QuickAddList[] = [...config.areas, ...config.projects].filter(list => !list.archived)
+
+  // Live parse of the quick input for the attribute chips
+  const parsed = parseQuickAdd(title, { lists: mentionableLists })
+
+  /**
+   * Describe a parsed token for its chip
+   */
+  const getTokenLabel = (token: QuickAddToken): string => {
+    switch (token.type) {
+      case 'date':
+        return format(parseDate(token.value), 'EEE, MMM d')
+      case 'tag':
+        return `#${token.value}`
+      case 'priority':
+        return `${token.value.charAt(0).toUpperCase()}${token.value.slice(1)} priority`
+      case 'list':
+        return mentionableLists.find(list => list.key === token.value)?.title ?? token.value
+    }
+  }
+
   /**
    * Format date in YYYY-MM-DD using local timezone
    */
@@ -106,7 +143,8 @@ export function QuickAddTask({ selectedListId, onTaskCreated }: QuickAddTaskProp
    * Create task with context-aware defaults or modal form values
    */
   const createTask = async () => {
-    const trimmedTitle = title.trim()
+    // Quick mode strips parsed tokens from the title; the modal was pre-filled from them already
+    const trimmedTitle = isModalOpen ? title.trim() : parsed.input.title
 
     // Validate: empty title
     if (!trimmedTitle) {
@@ -117,7 +155,7 @@ export function QuickAddTask({ selectedListId, onTaskCreated }: QuickAddTaskProp
       // Build task input with context-aware defaults or modal form values
       const taskInput: CreateTaskInput = {
         title: trimmedTitle,
-        priority: isModalOpen ? priority : 'low',
+        priority: isModalOpen ? priority : (parsed.input.priority ?? 'low'),
         status: 'active'
       }
 
@@ -128,24 +166,35 @@ export function QuickAddTask({ selectedListId, onTaskCreated }: QuickAddTaskProp
 
       // Add tags if in modal mode
       if (isModalOpen && tags.trim()) {
-        // Split by commas and trim each tag
-        taskInput.tags = tags.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0)
+        taskInput.tags = parseTagInput(tags)
+      } else if (!isModalOpen && parsed.input.tags) {
+        taskInput.tags = parsed.input.tags
       }
 
       // Add dueDate - use modal form value if set, otherwise use contextual
       if (isModalOpen && dueDate) {
         taskInput.dueDate = format(dueDate, 'yyyy-MM-dd')
       } else if (!isModalOpen) {
-        const contextualDueDate = getContextualDueDate()
+        const contextualDueDate = parsed.input.dueDate ?? getContextualDueDate()
         if (contextualDueDate) {
           taskInput.dueDate = contextualDueDate
         }
       }
 
-      // Add contextual listId if applicable
-      const listId = getContextualListId()
-      if (listId) {
-        taskInput.listId = listId
+      // Add repeat rule if in modal mode
+      if (isModalOpen && recurrence) {
+        taskInput.recurrence = recurrence
+      }
+
+      // Add the @mentioned list, or the contextual listId if applicable
+      const targetListId = (isModalOpen ? listId : parsed.input.listId) ?? getContextualListId()
+      if (targetListId) {
+        taskInput.listId = targetListId
+      }
+
+      // Tasks added in Someday start out deferred
+      if (selectedListId === 'someday') {
+        taskInput.someday = true
       }
 
       // Create task via data service
@@ -154,8 +203,7 @@ export function QuickAddTask({ selectedListId, onTaskCreated }: QuickAddTaskProp
       // Reset form on success
       resetForm()
 
-      // Trigger refresh cascade
-      onTaskCreated()
+      onTaskCreated?.()
     } catch (error) {
       // Show error toast but preserve user input
       showError(error)
@@ -172,9 +220,24 @@ export function QuickAddTask({ selectedListId, onTaskCreated }: QuickAddTaskProp
     setTags('')
     setPriority('low')
     setDueDate(undefined)
+    setRecurrence(undefined)
+    setListId(undefined)
     setShowCalendar(false)
   }
 
+  /**
+   * Open the modal pre-filled with whatever the quick input parsed
+   */
+  const openModal = () => {
+    const { input } = parsed
+    setTitle(input.title)
+    if (input.tags) setTags(input.tags.join(', '))
+    if (input.priority) setPriority(input.priority)
+    if (input.dueDate) setDueDate(parseDate(input.dueDate))
+    setListId(input.listId)
+    setIsModalOpen(true)
+  }
+
   /**
    * Handle keyboard events for title input
    * Enter: Quick creation
@@ -185,7 +248,7 @@ export function QuickAddTask({ selectedListId, onTaskCreated }: QuickAddTaskProp
     // Cmd+Enter (Mac) or Ctrl+Enter (Windows) - Open modal
     if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
       e.preventDefault()
-      setIsModalOpen(true)
+      openModal()
       return
     }
 
@@ -213,6 +276,8 @@ export function QuickAddTask({ selectedListId, onTaskCreated }: QuickAddTaskProp
     setTags('')
     setPriority('low')
     setDueDate(undefined)
+    setRecurrence(undefined)
+    setListId(undefined)
     setShowCalendar(false)
   }
 
@@ -241,6 +306,25 @@ export function QuickAddTask({ selectedListId, onTaskCreated }: QuickAddTaskProp
         />
       )}
 
+      {/* Live chips for parsed attributes */}
+      {!isModalOpen && parsed.tokens.length > 0 && (
+        <ul className="flex flex-wrap gap-2 mt-2" aria-label="Parsed task attributes" aria-live="polite">
+          {parsed.tokens.map(token => {
+            const Icon = TOKEN_ICONS[token.type]
+            return (
+              <li
+                key={`${token.type}-${token.value}`}
+                className="flex items-center gap-1 px-2 py-0.5 text-xs rounded-2xl bg-glow-emerald text-emerald"
+                title={token.text}
+              >
+                <Icon className="w-3 h-3" aria-hidden="true" />
+                {getTokenLabel(token)}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
       {/* Modal for detailed task creation */}
       <Modal
         isOpen={isModalOpen}
@@ -264,6 +348,19 @@ export function QuickAddTask({ selectedListId, onTaskCreated }: QuickAddTaskProp
                          placeholder:text-muted-foreground"
               autoFocus
             />
+            {listId && (
+              <p className="flex items-center gap-1 mt-1 text-xs text-muted-foreground">
+                <Folder className="w-3 h-3" aria-hidden="true" />
+                Adding to {mentionableLists.find(list => list.key === listId)?.title ?? listId}
+                <button
+                  type="button"
+                  onClick={() => setListId(undefined)}
+                  className="ml-1 hover:text-foreground transition-colors"
+                >
+                  Clear
+                </button>
+              </p>
+            )}
           </div>
 
           {/* Description Field */}
@@ -289,13 +386,12 @@ export function QuickAddTask({ selectedListId, onTaskCreated }: QuickAddTaskProp
             <label htmlFor="task-tags" className="block text-sm font-medium mb-1">
               Tags (optional, comma-separated)
             </label>
-            <input
+            <TagInput
               id="task-tags"
-              type="text"
               value={tags}
-              onChange={(e) => setTags(e.target.value)}
+              onChange={setTags}
+              tags={config.tags ?? []}
               onFocus={() => setShowCalendar(false)}
-              placeholder="work, urgent, ideas"
               className="w-full px-3 py-2 bg-background border border-border rounded-md
                          focus:outline-none focus:ring-2 focus:ring-accent focus:border-transparent
                          placeholder:text-muted-foreground"
@@ -391,6 +487,15 @@ export function QuickAddTask({ selectedListId, onTaskCreated }: QuickAddTaskProp
             )}
           </div>
 
+          {/* Repeat Picker */}
+          <RepeatPicker
+            idPrefix="task"
+            value={recurrence}
+            onChange={setRecurrence}
+            referenceDate={dueDate}
+            onFocus={() => setShowCalendar(false)}
+          />
+
           {/* Action Buttons */}
           <div className="flex gap-2 justify-end pt-2">
             <button
@@ -0,0 +1,166 @@
+import { useEffect, useRef, useState, type RefObject } from 'react'
+import { BellRing, Clock, X } from 'lucide-react'
+import { useAppStore } from '../hooks/useAppStore'
+import { showError } from '../lib/toastUtils'
+import { getNotificationPermission, requestNotificationPermission } from '../services/ReminderScheduler'
+import type { TaskData } from '../types/task'
+import { SNOOZE_OPTIONS, formatReminder } from '../utils/reminders'
+
+interface RemindersPanelProps {
+  past: TaskData[] // Reminders that have gone off, latest first
+  upcoming: TaskData[] // Soonest first
+  onClose: () => void
+  onTaskSelect?: (id: string) => void
+  anchorRef?: RefObject<HTMLElement | null> // Clicks here (e.g. the Bell button) don't count as outside
+}
+
+/**
+ * Reminders popover opened from the Bell button
+ * Reminders that have gone off can be snoozed or dismissed; upcoming ones can be cleared.
+ */
+export function RemindersPanel({ past, upcoming, onClose, onTaskSelect, anchorRef }: RemindersPanelProps) {
+  const panelRef = useRef<HTMLDivElement>(null)
+  const { updateTask } = useAppStore()
+  const [permission, setPermission] = useState(getNotificationPermission)
+  const [snoozingId, setSnoozingId] = useState<string | null>(null)
+
+  // Close on Escape or on clicks outside the panel
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    const handleMouseDown = (e: MouseEvent) => {
+      const target = e.target as Node
+      if (panelRef.current?.contains(target) || anchorRef?.current?.contains(target)) return
+      onClose()
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    document.addEventListener('mousedown', handleMouseDown)
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown)
+      document.removeEventListener('mousedown', handleMouseDown)
+    }
+  }, [onClose, anchorRef])
+
+  const setReminder = async (task: TaskData, reminderAt: string | undefined) => {
+    try {
+      await updateTask(task.id, { reminderAt })
+    } catch (error) {
+      console.error('Failed to update reminder:', error)
+      showError(error, 'Failed to update reminder. Please try again.')
+    }
+  }
+
+  const handleSnooze = (task: TaskData, getTime: (now: Date) => Date) => {
+    setSnoozingId(null)
+    setReminder(task, getTime(new Date()).toISOString())
+  }
+
+  const handleEnableNotifications = async () => {
+    setPermission(await requestNotificationPermission())
+  }
+
+  const handleOpen = (task: TaskData) => {
+    onTaskSelect?.(task.id)
+    onClose()
+  }
+
+  const actionClass = 'p-1 rounded text-muted-foreground hover:text-accent hover:bg-accent/10'
+
+  const renderReminder = (task: TaskData, isPast: boolean) => (
+    <li key={task.id} className="px-2 py-1.5 rounded-md hover:bg-accent/5">
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => handleOpen(task)}
+          className="flex-1 min-w-0 text-left"
+        >
+          <span className="block truncate">{task.title}</span>
+          <span className={`block text-xs ${isPast ? 'text-accent' : 'text-muted-foreground'}`}>
+            {formatReminder(task.reminderAt!)}
+          </span>
+        </button>
+        {isPast && (
+          <button
+            type="button"
+            onClick={() => setSnoozingId(prev => prev === task.id ? null : task.id)}
+            aria-label={`Snooze reminder for ${task.title}`}
+            aria-expanded={snoozingId === task.id}
+            className={actionClass}
+          >
+            <Clock className="w-4 h-4" aria-hidden="true" />
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => setReminder(task, undefined)}
+          aria-label={`${isPast ? 'Dismiss' : 'Clear'} reminder for ${task.title}`}
+          className={actionClass}
+        >
+          <X className="w-4 h-4" aria-hidden="true" />
+        </button>
+      </div>
+      {snoozingId === task.id && (
+        <div className="flex gap-1 mt-1" role="group" aria-label="Snooze for">
+          {SNOOZE_OPTIONS.map(option => (
+            <button
+              key={option.label}
+              type="button"
+              onClick={() => handleSnooze(task, option.getTime)}
+              className="flex-1 px-2 py-1 text-xs rounded-md border border-border text-muted-foreground hover:bg-accent/10 transition-colors"
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </li>
+  )
+
+  return (
+    <div
+      ref={panelRef}
+      role="dialog"
+      aria-label="Reminders"
+      className="absolute right-0 top-full mt-2 z-30 w-80 p-2 bg-card border border-border rounded-lg shadow-glow-emerald text-sm text-card-foreground"
+    >
+      {permission === 'default' && (
+        <button
+          type="button"
+          onClick={handleEnableNotifications}
+          className="w-full flex items-center gap-2 px-2 py-1.5 mb-1 rounded-md text-accent hover:bg-accent/10 transition-colors"
+        >
+          <BellRing className="w-4 h-4" aria-hidden="true" />
+          Enable desktop notifications
+        </button>
+      )}
+      {permission === 'denied' && (
+        <p className="px-2 pb-2 text-xs text-muted-foreground">
+          Desktop notifications are blocked, so reminders show inside the app.
+        </p>
+      )}
+
+      {past.length === 0 && upcoming.length === 0 ? (
+        <p className="px-2 py-4 text-center text-muted-foreground">
+          No reminders. Set one from a task's details.
+        </p>
+      ) : (
+        <div className="max-h-96 overflow-y-auto space-y-2">
+          {past.length > 0 && (
+            <section aria-label="Past reminders">
+              <h3 className="px-2 py-1 text-xs font-medium text-muted-foreground uppercase">Past</h3>
+              <ul>{past.map(task => renderReminder(task, true))}</ul>
+            </section>
+          )}
+          {upcoming.length > 0 && (
+            <section aria-label="Upcoming reminders">
+              <h3 className="px-2 py-1 text-xs font-medium text-muted-foreground uppercase">Upcoming</h3>
+              <ul>{upcoming.map(task => renderReminder(task, false))}</ul>
+            </section>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,89 @@
+/**
+ * RemoveListForm Component
+ *
+ * Confirms archiving or deleting an Area or Project and asks what should happen to its tasks.
+ */
+
+import { useState } from 'react';
+import type { ListTaskAction, SidebarItemData } from '../types/sidebar';
+
+interface RemoveListFormProps {
+  list: SidebarItemData;
+  mode: 'archive' | 'delete';
+  onSubmit: (taskAction: ListTaskAction) => void;
+  onCancel: () => void;
+}
+
+const TASK_ACTION_LABELS: Record<'archive' | 'delete', { action: ListTaskAction; label: string }[]> = {
+  archive: [
+    { action: 'archive', label: 'Archive them with the list' },
+    { action: 'move_to_inbox', label: 'Move them to the Inbox' },
+    { action: 'delete', label: 'Delete them' },
+  ],
+  delete: [
+    { action: 'move_to_inbox', label: 'Move them to the Inbox' },
+    { action: 'archive', label: 'Archive them' },
+    { action: 'delete', label: 'Delete them' },
+  ],
+};
+
+export default function RemoveListForm({ list, mode, onSubmit, onCancel }: RemoveListFormProps) {
+  const options = TASK_ACTION_LABELS[mode];
+  const [taskAction, setTaskAction] = useState<ListTaskAction>(options[0].action);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(taskAction);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        {mode === 'archive'
+          ? `"${list.title}" will move to the Archived section of the sidebar. You can restore it later.`
+          : `"${list.title}" and its notes will be deleted. This can't be undone.`}
+      </p>
+
+      <fieldset>
+        <legend className="block text-sm font-medium mb-2">What should happen to its tasks?</legend>
+        <div className="space-y-1">
+          {options.map(option => (
+            <label
+              key={option.action}
+              className="flex items-center gap-2 p-2 rounded-md hover:bg-accent/10 transition-colors cursor-pointer text-sm"
+            >
+              <input
+                type="radio"
+                name="list-task-action"
+                value={option.action}
+                checked={taskAction === option.action}
+                onChange={() => setTaskAction(option.action)}
+                className="accent-accent"
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      {/* Actions */}
+      <div className="flex gap-2 justify-end">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-sm border border-border rounded-md
+                     hover:bg-accent/10 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          className={`px-4 py-2 text-sm text-background rounded-md transition-colors
+                      ${mode === 'delete' ? 'bg-priority-high hover:bg-priority-high/90' : 'bg-accent hover:bg-accent/90'}`}
+        >
+          {mode === 'archive' ? 'Archive' : 'Delete'}
+        </button>
+      </div>
+    </form>
+  );
+}
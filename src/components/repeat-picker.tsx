@@ -0,0 +1,141 @@
+import { Repeat } from 'lucide-react'
+import type { RecurrenceFrequency, RecurrenceRule } from '../types/task'
+import { WEEKDAY_LABELS, describeRecurrence } from '../utils/recurrence'
+
+interface RepeatPickerProps {
+  value?: RecurrenceRule
+  onChange: (value: RecurrenceRule | undefined) => void
+  referenceDate?: Date // Used to pick sensible defaults (weekday, day of month)
+  idPrefix: string
+  disabled?: boolean
+  onFocus?: () => void
+}
+
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, string> = {
+  daily: 'day(s)',
+  weekly: 'week(s)',
+  monthly: 'month(s)',
+  after_completion: 'day(s) after completion',
+}
+
+/**
+ * Repeat rule picker shared by the task creation and edit forms
+ */
+export function RepeatPicker({ value, onChange, referenceDate, idPrefix, disabled = false, onFocus }: RepeatPickerProps) {
+  const reference = referenceDate ?? new Date()
+
+  const handleFrequencyChange = (frequency: RecurrenceFrequency | '') => {
+    if (!frequency) {
+      onChange(undefined)
+      return
+    }
+
+    onChange({
+      frequency,
+      interval: value?.interval ?? 1,
+      weekdays: frequency === 'weekly' ? (value?.weekdays ?? [reference.getDay()]) : undefined,
+      dayOfMonth: frequency === 'monthly' ? (value?.dayOfMonth ?? reference.getDate()) : undefined,
+    })
+  }
+
+  const handleToggleWeekday = (day: number) => {
+    if (!value) return
+    const weekdays = value.weekdays ?? []
+    const next = weekdays.includes(day) ? weekdays.filter(d => d !== day) : [...weekdays, day].sort((a, b) => a - b)
+    // Keep at least one weekday selected
+    if (next.length > 0) {
+      onChange({ ...value, weekdays: next })
+    }
+  }
+
+  return (
+    <div>
+      <label htmlFor={`${idPrefix}-repeat`} className="block text-sm font-medium mb-1">
+        Repeat
+      </label>
+      <div className="flex items-center gap-2">
+        <Repeat className="size-4 text-muted-foreground" aria-hidden="true" />
+        <select
+          id={`${idPrefix}-repeat`}
+          value={value?.frequency ?? ''}
+          onChange={(e) => handleFrequencyChange(e.target.value as RecurrenceFrequency | '')}
+          onFocus={onFocus}
+          className="flex-1 px-3 py-2 bg-background border border-border rounded-md
+                     focus:outline-none focus:ring-2 focus:ring-accent focus:border-transparent
+                     text-sm"
+          disabled={disabled}
+        >
+          <option value="">Does not repeat</option>
+          <option value="daily">Daily</option>
+          <option value="weekly">Weekly</option>
+          <option value="monthly">Monthly</option>
+          <option value="after_completion">After completion</option>
+        </select>
+      </div>
+
+      {value && (
+        <div className="mt-2 space-y-2">
+          <div className="flex items-center gap-2 text-sm">
+            <label htmlFor={`${idPrefix}-repeat-interval`}>
+              {value.frequency === 'after_completion' ? 'Repeat' : 'Every'}
+            </label>
+            <input
+              id={`${idPrefix}-repeat-interval`}
+              type="number"
+              min={1}
+              value={value.interval}
+              onChange={(e) => onChange({ ...value, interval: Math.max(1, Number(e.target.value) || 1) })}
+              onFocus={onFocus}
+              className="w-16 px-2 py-1 bg-background border border-border rounded-md
+                         focus:outline-none focus:ring-2 focus:ring-accent focus:border-transparent"
+              disabled={disabled}
+            />
+            <span className="text-muted-foreground">{FREQUENCY_UNITS[value.frequency]}</span>
+          </div>
+
+          {value.frequency === 'weekly' && (
+            <div className="flex gap-1" role="group" aria-label="Repeat on weekdays">
+              {WEEKDAY_LABELS.map((label, day) => {
+                const isSelected = value.weekdays?.includes(day) ?? false
+                return (
+                  <button
+                    key={label}
+                    type="button"
+                    onClick={() => handleToggleWeekday(day)}
+                    aria-pressed={isSelected}
+                    className={`px-2 py-1 text-xs rounded-md border transition-colors ${isSelected
+                      ? 'bg-accent text-background border-accent'
+                      : 'border-border text-muted-foreground hover:bg-accent/10'}`}
+                    disabled={disabled}
+                  >
+                    {label}
+                  </button>
+                )
+              })}
+            </div>
+          )}
+
+          {value.frequency === 'monthly' && (
+            <div className="flex items-center gap-2 text-sm">
+              <label htmlFor={`${idPrefix}-repeat-day`}>On day</label>
+              <input
+                id={`${idPrefix}-repeat-day`}
+                type="number"
+                min={1}
+                max={31}
+                value={value.dayOfMonth ?? reference.getDate()}
+                onChange={(e) => onChange({ ...value, dayOfMonth: Math.min(31, Math.max(1, Number(e.target.value) || 1)) })}
+                onFocus={onFocus}
+                className="w-16 px-2 py-1 bg-background border border-border rounded-md
+                           focus:outline-none focus:ring-2 focus:ring-accent focus:border-transparent"
+                disabled={disabled}
+              />
+            </div>
+          )}
+
+          <p className="text-xs text-muted-foreground">{describeRecurrence(value)}</p>
+        </div>
+      )}
+    </div>
+  )
+}
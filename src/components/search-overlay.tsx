@@ -0,0 +1,197 @@
+import { useEffect, useState } from 'react'
+import { BookOpen, CircleCheckBig, FileText, Search } from 'lucide-react'
+import { format } from 'date-fns'
+import Modal from './modal'
+import { dataService } from '../services/dataService'
+import type { SearchResults, SearchTarget } from '../types/search'
+import { EMPTY_SEARCH_RESULTS, getSearchSnippet } from '../utils/search'
+
+const SEARCH_DEBOUNCE_MS = 200
+
+interface SearchOverlayProps {
+  isOpen: boolean
+  onClose: () => void
+  onSelect: (target: SearchTarget) => void
+}
+
+type ResultItem = {
+  key: string
+  target: SearchTarget
+  title: string
+  detail?: string
+}
+
+type ResultGroup = {
+  label: string
+  icon: typeof Search
+  items: ResultItem[]
+}
+
+/**
+ * Turn grouped search results into labelled groups of selectable items
+ */
+function buildGroups(results: SearchResults, query: string): ResultGroup[] {
+  const groups: ResultGroup[] = [
+    {
+      label: 'Tasks',
+      icon: CircleCheckBig,
+      items: results.tasks.map(task => ({
+        key: `task-${task.id}`,
+        // Subtasks are shown inside their parent, so jump there
+        target: { type: 'task', id: task.parentId ?? task.id, listId: task.listId ?? null },
+        title: task.title,
+        detail: task.description ? getSearchSnippet(task.description, query) : task.tags?.map(tag => `#${tag}`).join(' '),
+      })),
+    },
+    {
+      label: 'Notes',
+      icon: FileText,
+      items: results.sections.map(({ listId, listTitle, section }) => ({
+        key: `section-${section.id}`,
+        target: { type: 'section', id: section.id, listId },
+        title: `${listTitle} › ${section.title}`,
+        detail: section.content ? getSearchSnippet(section.content, query) : undefined,
+      })),
+    },
+    {
+      label: 'Journal',
+      icon: BookOpen,
+      items: results.journalEntries.map(({ listId, listTitle, entry }) => ({
+        key: `journal-${entry.id}`,
+        target: { type: 'journal', id: entry.id, listId },
+        title: `${listTitle} › ${format(new Date(entry.createdAt), 'PPP')}`,
+        detail: getSearchSnippet(entry.content, query),
+      })),
+    },
+  ]
+
+  return groups.filter(group => group.items.length > 0)
+}
+
+/**
+ * Global search across tasks, note sections and journal entries
+ * Opened from the header Search button
+ */
+export function SearchOverlay({ isOpen, onClose, onSelect }: SearchOverlayProps) {
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<SearchResults>(EMPTY_SEARCH_RESULTS)
+  const [isSearching, setIsSearching] = useState(false)
+  const [activeIndex, setActiveIndex] = useState(0)
+
+  // Debounced search; stale responses are ignored
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults(EMPTY_SEARCH_RESULTS)
+      setIsSearching(false)
+      return
+    }
+
+    let isCancelled = false
+    setIsSearching(true)
+    const timer = setTimeout(async () => {
+      try {
+        const data = await dataService.search(query)
+        if (!isCancelled) {
+          setResults(data)
+          setActiveIndex(0)
+        }
+      } catch (error) {
+        console.error('Failed to search:', error)
+      } finally {
+        if (!isCancelled) setIsSearching(false)
+      }
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      isCancelled = true
+      clearTimeout(timer)
+    }
+  }, [query])
+
+  const groups = buildGroups(results, query)
+  const items = groups.flatMap(group => group.items)
+
+  const handleClose = () => {
+    setQuery('')
+    setResults(EMPTY_SEARCH_RESULTS)
+    setActiveIndex(0)
+    onClose()
+  }
+
+  const handleSelect = (item: ResultItem) => {
+    onSelect(item.target)
+    handleClose()
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (items.length === 0) return
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setActiveIndex(prev => (prev + 1) % items.length)
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setActiveIndex(prev => (prev - 1 + items.length) % items.length)
+    } else if (e.key === 'Enter') {
+      e.preventDefault()
+      handleSelect(items[activeIndex] ?? items[0])
+    }
+  }
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Search">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" aria-hidden="true" />
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search tasks, notes and journal..."
+          className="w-full pl-9 pr-3 py-2 bg-background border border-border rounded-md
+                     focus:outline-none focus:ring-2 focus:ring-accent focus:border-transparent
+                     placeholder:text-muted-foreground"
+          aria-label="Search query"
+          aria-controls="search-results"
+          aria-activedescendant={items[activeIndex] ? `search-result-${items[activeIndex].key}` : undefined}
+          autoFocus
+        />
+      </div>
+
+      <div id="search-results" className="mt-4 max-h-96 overflow-y-auto" role="listbox" aria-label="Search results">
+        {query.trim() && !isSearching && items.length === 0 && (
+          <p className="text-sm text-muted-foreground py-4 text-center">No results for "{query.trim()}"</p>
+        )}
+
+        {groups.map(group => (
+          <div key={group.label} role="group" aria-label={group.label} className="mb-3">
+            <h3 className="flex items-center gap-2 px-2 mb-1 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+              <group.icon className="w-3 h-3" aria-hidden="true" />
+              {group.label} ({group.items.length})
+            </h3>
+            {group.items.map(item => {
+              const isActive = items[activeIndex]?.key === item.key
+              return (
+                <button
+                  key={item.key}
+                  id={`search-result-${item.key}`}
+                  type="button"
+                  role="option"
+                  aria-selected={isActive}
+                  onClick={() => handleSelect(item)}
+                  onMouseEnter={() => setActiveIndex(items.indexOf(item))}
+                  className={`w-full text-left px-2 py-1.5 rounded-md transition-colors ${isActive ? 'bg-accent/10' : ''}`}
+                >
+                  <span className="block text-sm truncate">{item.title}</span>
+                  {item.detail && (
+                    <span className="block text-xs text-muted-foreground truncate">{item.detail}</span>
+                  )}
+                </button>
+              )
+            })}
+          </div>
+        ))}
+      </div>
+    </Modal>
+  )
+}
@@ -11,10 +11,28 @@ type SidebarItemProps = {
     showCount?: boolean;
     onClick?: (key: string) => void;
     onKeyDown?: (e: React.KeyboardEvent<HTMLButtonElement>) => void;
+    onContextMenu?: (key: string, position: { x: number; y: number }) => void;
 };
 
 const SidebarItem = forwardRef<HTMLButtonElement, SidebarItemProps>(
-    ({ itemKey, icon: Icon, title, count = 0, selected, priority = 'low', showCount = true, onClick, onKeyDown }, ref) => {
+    ({ itemKey, icon: Icon, title, count = 0, selected, priority = 'low', showCount = true, onClick, onKeyDown, onContextMenu }, ref) => {
+        const handleContextMenu = (e: React.MouseEvent<HTMLButtonElement>) => {
+            if (!onContextMenu) return;
+            e.preventDefault();
+            onContextMenu(itemKey, { x: e.clientX, y: e.clientY });
+        };
+
+        const handleKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>) => {
+            // Keyboard equivalents of a right-click open the menu below the item
+            if (onContextMenu && (e.key === 'ContextMenu' || (e.shiftKey && e.key === 'F10'))) {
+                e.preventDefault();
+                const rect = e.currentTarget.getBoundingClientRect();
+                onContextMenu(itemKey, { x: rect.left, y: rect.bottom });
+                return;
+            }
+            onKeyDown?.(e);
+        };
+
         return (
             <button
                 ref={ref}
@@ -23,7 +41,9 @@ const SidebarItem = forwardRef<HTMLButtonElement, SidebarItemProps>(
                  'bg-task-selected shadow-glow-emerald' :
                  'hover:bg-task-hover hover:translate-x-1'}`}
                 onClick={() => onClick?.(itemKey)}
-                onKeyDown={onKeyDown}
+                onKeyDown={handleKeyDown}
+                onContextMenu={handleContextMenu}
+                aria-haspopup={onContextMenu ? 'menu' : undefined}
                 aria-label={`${title}${showCount ? `, ${count} tasks` : ''}`}
                 aria-current={selected ? 'page' : undefined}
             >
@@ -6,6 +6,7 @@ import { useEffect, useRef } from 'react';
 type ListProps = {
     title: string;
     onItemClick?: (key: string) => void;
+    onItemContextMenu?: (key: string, position: { x: number; y: number }) => void;
     items: {
         key: string;
         icon: ComponentType<{ className?: string }>;
@@ -19,7 +20,7 @@ type ListProps = {
     }[];
 }
 
-export default function List({ title, items, onItemClick }: ListProps) {
+export default function List({ title, items, onItemClick, onItemContextMenu }: ListProps) {
     const itemRefs = useRef<Map<string, HTMLButtonElement>>(new Map());
 
     const handleKeyDown = (e: React.KeyboardEvent, currentIndex: number) => {
@@ -89,6 +90,7 @@ export default function List({ title, items, onItemClick }: ListProps) {
             showCount={item.showCount}
             onClick={() => onItemClick?.(item.key)}
             onKeyDown={(e) => handleKeyDown(e, index)}
+            onContextMenu={onItemContextMenu}
             ref={(el) => setItemRef(item.key, el)}
         />
     </li>
@@ -1,30 +1,35 @@
 import { Plus } from 'lucide-react'
 import List from './sidebar-list'
-import { useState, useEffect, useRef } from 'react'
+import { useState, useRef } from 'react'
 import { dataService } from '../services/dataService'
-import { getIcon } from '../utils/iconMapper'
-import type { SidebarItemData, SidebarConfigData } from '../types/sidebar'
+import { getIcon, type IconName } from '../utils/iconMapper'
+import type { SidebarItemData, UpdateListInput, ListTaskAction } from '../types/sidebar'
 import Modal from './modal'
 import NewListForm from './new-list-form'
+import EditListForm from './edit-list-form'
+import RemoveListForm from './remove-list-form'
+import SmartListForm from './smart-list-form'
+import { ListContextMenu } from './list-context-menu'
 import { showError, showSuccess } from '../lib/toastUtils'
+import { useAppStore } from '../hooks/useAppStore'
 
 interface SidebarProps {
-    refreshKey?: number;
+    selectedListId?: string | null;
     onListSelect?: (listId: string) => void;
 }
 
-export default function Sidebar({ refreshKey, onListSelect }: SidebarProps) {
-    const [selectedId, setSelectedId] = useState<string | null>(null);
+type ListModal = { key: string; mode: 'edit' | 'archive' | 'delete' };
+
+export default function Sidebar({ selectedListId = null, onListSelect }: SidebarProps) {
     const [isNewListModalOpen, setIsNewListModalOpen] = useState(false);
-    const [sidebarData, setSidebarData] = useState<SidebarConfigData | null>(null);
-    const [isLoading, setIsLoading] = useState(true);
+    const { state: { sidebar: sidebarData }, updateList, archiveList, deleteList } = useAppStore();
+    const [contextMenu, setContextMenu] = useState<{ key: string; position: { x: number; y: number } } | null>(null);
+    const [listModal, setListModal] = useState<ListModal | null>(null);
+    const [editingSmartListKey, setEditingSmartListKey] = useState<string | null>(null);
     const newListButtonRef = useRef<HTMLButtonElement>(null);
 
     const handleItemClick = (key: string) => {
-        // Toggle: if clicking same item, deselect
-        const newSelectedId = selectedId === key ? null : key;
-        setSelectedId(newSelectedId);
-
+        // Selection is owned by the parent (which toggles on repeat clicks) so search can change it too
         if (onListSelect) {
             onListSelect(key);
         }
@@ -44,10 +49,6 @@ export default function Sidebar({ refreshKey, onListSelect }: SidebarProps) {
                 showSuccess(`Project "${title}" created successfully`);
             }
 
-            // Reload sidebar data to reflect the new item
-            const updatedData = await dataService.getSidebarConfig();
-            setSidebarData(updatedData);
-
             // Close modal on success
             setIsNewListModalOpen(false);
 
@@ -61,6 +62,92 @@ export default function Sidebar({ refreshKey, onListSelect }: SidebarProps) {
         }
     }
 
+    // Finds an area or project, and which of the two it is
+    const findList = (key: string): { list: SidebarItemData; type: 'area' | 'project' } | null => {
+        const area = sidebarData?.areas.find(item => item.key === key);
+        if (area) return { list: area, type: 'area' };
+        const project = sidebarData?.projects.find(item => item.key === key);
+        return project ? { list: project, type: 'project' } : null;
+    };
+
+    // Finds a user-defined smart list (built-in ones have no saved filter and can't be changed)
+    const findSmartList = (key: string): SidebarItemData | undefined => {
+        return sidebarData?.smartLists.find(item => item.key === key && item.filter);
+    };
+
+    const handleItemContextMenu = (key: string, position: { x: number; y: number }) => {
+        setContextMenu({ key, position });
+    };
+
+    const handleSmartListContextMenu = (key: string, position: { x: number; y: number }) => {
+        if (findSmartList(key)) {
+            setContextMenu({ key, position });
+        }
+    };
+
+    const handleSmartListEditSubmit = async (title: string, iconName: IconName) => {
+        if (!editingSmartListKey) return;
+        try {
+            const smartList = await dataService.updateSmartList(editingSmartListKey, { title, iconName });
+            showSuccess(`"${smartList.title}" updated`);
+            setEditingSmartListKey(null);
+        } catch (error) {
+            console.error('Failed to update smart list:', error);
+            showError(error, 'Failed to update smart list. Please try again.');
+        }
+    };
+
+    const handleSmartListDelete = async (key: string) => {
+        const smartList = findSmartList(key);
+        if (!smartList || !window.confirm(`Delete the smart list "${smartList.title}"? Its tasks are not affected.`)) return;
+        try {
+            await dataService.deleteSmartList(key);
+            showSuccess(`"${smartList.title}" deleted`);
+        } catch (error) {
+            console.error('Failed to delete smart list:', error);
+            showError(error, 'Failed to delete smart list. Please try again.');
+        }
+    };
+
+    const handleEditSubmit = async (updates: UpdateListInput) => {
+        if (!listModal) return;
+        try {
+            const list = await updateList(listModal.key, updates);
+            showSuccess(`"${list.title}" updated`);
+            setListModal(null);
+        } catch (error) {
+            // The store has rolled the change back and shown the error
+            console.error('Failed to update list:', error);
+        }
+    };
+
+    const handleRemoveSubmit = async (taskAction: ListTaskAction) => {
+        if (!listModal || listModal.mode === 'edit') return;
+        const { key, mode } = listModal;
+        const title = findList(key)?.list.title ?? 'List';
+        try {
+            if (mode === 'archive') {
+                // The store offers an undo toast
+                await archiveList(key, taskAction);
+            } else {
+                await deleteList(key, taskAction);
+                showSuccess(`"${title}" deleted`);
+            }
+            setListModal(null);
+        } catch (error) {
+            console.error(`Failed to ${mode} list:`, error);
+        }
+    };
+
+    const handleRestore = async (key: string) => {
+        try {
+            const list = await updateList(key, { archived: false });
+            showSuccess(`"${list.title}" restored`);
+        } catch (error) {
+            console.error('Failed to restore list:', error);
+        }
+    };
+
     const handleModalClose = () => {
         setIsNewListModalOpen(false);
         // Return focus to "New List" button after modal closes
@@ -69,37 +156,23 @@ export default function Sidebar({ refreshKey, onListSelect }: SidebarProps) {
         }, 100);
     }
 
-    // Load sidebar data on component mount and when refreshKey changes
-    useEffect(() => {
-        const loadSidebarData = async () => {
-            try {
-                setIsLoading(true);
-                const data = await dataService.getSidebarConfig();
-                setSidebarData(data);
-            } catch (error) {
-                showError(error, 'Failed to load sidebar data');
-                console.error('Failed to load sidebar data:', error);
-                // Fallback to local data on error
-                setSidebarData(dataService.getLocalSidebarConfig());
-            } finally {
-                setIsLoading(false);
-            }
-        };
-
-        loadSidebarData();
-    }, [refreshKey]);
-
     // Helper function to map API data to component props with icons and selection state
     const mapToListItems = (items: SidebarItemData[]) => {
         return items.map(item => ({
             ...item,
             icon: getIcon(item.iconName),
-            selected: selectedId === item.key
+            selected: selectedListId === item.key
         }));
     };
 
-    // Show loading state
-    if (isLoading || !sidebarData) {
+    const archivedLists = [...sidebarData?.areas ?? [], ...sidebarData?.projects ?? []].filter(item => item.archived);
+    const contextMenuList = contextMenu ? findList(contextMenu.key)?.list : undefined;
+    const contextMenuSmartList = contextMenu ? findSmartList(contextMenu.key) : undefined;
+    const editingSmartList = editingSmartListKey ? findSmartList(editingSmartListKey) : undefined;
+    const modalList = listModal ? findList(listModal.key) : null;
+
+    // Show loading state until the first load (the store keeps showing the old data while refreshing)
+    if (!sidebarData) {
         return (
             <aside className='flex flex-col w-64 bg-background border-r border-border h-full'>
                 <div className='flex items-center justify-center h-full'>
@@ -115,11 +188,15 @@ export default function Sidebar({ refreshKey, onListSelect }: SidebarProps) {
             <div className='flex-1 overflow-y-auto'>
                 <div className='p-4'>
                     {/* Smart Lists */}
-                    <List title="Smart Lists" onItemClick={handleItemClick} items={mapToListItems(sidebarData.smartLists)} />
+                    <List title="Smart Lists" onItemClick={handleItemClick} onItemContextMenu={handleSmartListContextMenu} items={mapToListItems(sidebarData.smartLists)} />
                     {/* Areas */}
-                    <List title="Areas" onItemClick={handleItemClick} items={mapToListItems(sidebarData.areas)} />
+                    <List title="Areas" onItemClick={handleItemClick} onItemContextMenu={handleItemContextMenu} items={mapToListItems(sidebarData.areas.filter(item => !item.archived))} />
                     {/* Projects */}
-                    <List title="Projects" onItemClick={handleItemClick} items={mapToListItems(sidebarData.projects)} />
+                    <List title="Projects" onItemClick={handleItemClick} onItemContextMenu={handleItemContextMenu} items={mapToListItems(sidebarData.projects.filter(item => !item.archived))} />
+                    {/* Archived areas and projects, only shown once something is archived */}
+                    {archivedLists.length > 0 && (
+                        <List title="Archived" onItemClick={handleItemClick} onItemContextMenu={handleItemContextMenu} items={mapToListItems(archivedLists)} />
+                    )}
                     <div className='h-10'>&nbsp;</div>
                 </div>
             </div>
@@ -154,6 +231,69 @@ export default function Sidebar({ refreshKey, onListSelect }: SidebarProps) {
                     onCancel={handleModalClose}
                 />
             </Modal>
+
+            {contextMenu && contextMenuList && (
+                <ListContextMenu
+                    list={contextMenuList}
+                    position={contextMenu.position}
+                    onEdit={() => setListModal({ key: contextMenu.key, mode: 'edit' })}
+                    onArchive={() => setListModal({ key: contextMenu.key, mode: 'archive' })}
+                    onRestore={() => handleRestore(contextMenu.key)}
+                    onDelete={() => setListModal({ key: contextMenu.key, mode: 'delete' })}
+                    onClose={() => setContextMenu(null)}
+                />
+            )}
+
+            {contextMenu && contextMenuSmartList && (
+                <ListContextMenu
+                    list={contextMenuSmartList}
+                    position={contextMenu.position}
+                    onEdit={() => setEditingSmartListKey(contextMenu.key)}
+                    onDelete={() => handleSmartListDelete(contextMenu.key)}
+                    onClose={() => setContextMenu(null)}
+                />
+            )}
+
+            {/* Modal for renaming or re-iconing a user-defined smart list */}
+            {editingSmartList?.filter && (
+                <Modal
+                    isOpen
+                    onClose={() => setEditingSmartListKey(null)}
+                    title="Edit Smart List"
+                >
+                    <SmartListForm
+                        list={editingSmartList}
+                        filter={editingSmartList.filter}
+                        onSubmit={handleSmartListEditSubmit}
+                        onCancel={() => setEditingSmartListKey(null)}
+                    />
+                </Modal>
+            )}
+
+            {/* Modal for editing, archiving or deleting an area or project */}
+            {listModal && modalList && (
+                <Modal
+                    isOpen
+                    onClose={() => setListModal(null)}
+                    title={`${listModal.mode === 'edit' ? 'Edit' : listModal.mode === 'archive' ? 'Archive' : 'Delete'} ${modalList.type === 'area' ? 'Area' : 'Project'}`}
+                >
+                    {listModal.mode === 'edit' ? (
+                        <EditListForm
+                            list={modalList.list}
+                            type={modalList.type}
+                            onSubmit={handleEditSubmit}
+                            onCancel={() => setListModal(null)}
+                        />
+                    ) : (
+                        <RemoveListForm
+                            list={modalList.list}
+                            mode={listModal.mode}
+                            onSubmit={handleRemoveSubmit}
+                            onCancel={() => setListModal(null)}
+                        />
+                    )}
+                </Modal>
+            )}
         </aside>
     )
 }
\ No newline at end of file
@@ -0,0 +1,103 @@
+/**
+ * SmartListForm Component
+ *
+ * Modal-agnostic form for naming a saved filter as a smart list and picking its icon.
+ * Used both to create a smart list from the current filters and to edit an existing one.
+ */
+
+import { useState } from 'react';
+import { iconMap, type IconName } from '../utils/iconMapper';
+import { countActiveFilters } from '../utils/taskFilters';
+import type { SidebarItemData } from '../types/sidebar';
+import type { TaskFilterCriteria } from '../types/task';
+
+const ICON_NAMES = Object.keys(iconMap) as IconName[];
+
+interface SmartListFormProps {
+  list?: SidebarItemData; // The smart list being edited; omitted when creating one
+  filter: TaskFilterCriteria;
+  onSubmit: (title: string, iconName: IconName) => void;
+  onCancel: () => void;
+}
+
+export default function SmartListForm({ list, filter, onSubmit, onCancel }: SmartListFormProps) {
+  const [title, setTitle] = useState(list?.title ?? '');
+  const [iconName, setIconName] = useState<IconName>(list?.iconName ?? 'Layers');
+  const filterCount = countActiveFilters(filter);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim()) return;
+    onSubmit(title.trim(), iconName);
+  };
+
+  const toggleButtonClass = (isSelected: boolean) =>
+    `p-2 rounded-md border transition-colors ${isSelected
+      ? 'bg-accent text-background border-accent'
+      : 'border-border hover:bg-accent/10'}`;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label htmlFor="smart-list-title" className="block text-sm font-medium mb-2">
+          Smart List Name
+        </label>
+        <input
+          id="smart-list-title"
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="e.g. Urgent work"
+          autoFocus
+          className="w-full px-3 py-2 bg-background border border-border rounded-md
+                     focus:outline-none focus:ring-2 focus:ring-accent focus:border-transparent
+                     placeholder:text-muted-foreground"
+        />
+        <p className="mt-2 text-xs text-muted-foreground">
+          Shows the tasks matching {filterCount} {filterCount === 1 ? 'filter' : 'filters'}.
+        </p>
+      </div>
+      <fieldset>
+        <legend className="block text-sm font-medium mb-2">Icon</legend>
+        <div className="flex flex-wrap gap-1">
+          {ICON_NAMES.map(name => {
+            const Icon = iconMap[name];
+            return (
+              <button
+                key={name}
+                type="button"
+                onClick={() => setIconName(name)}
+                aria-label={name}
+                aria-pressed={iconName === name}
+                className={toggleButtonClass(iconName === name)}
+              >
+                <Icon className="w-4 h-4" aria-hidden="true" />
+              </button>
+            );
+          })}
+        </div>
+      </fieldset>
+
+      {/* Actions */}
+      <div className="flex gap-2 justify-end">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-sm border border-border rounded-md
+                     hover:bg-accent/10 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={!title.trim()}
+          className="px-4 py-2 text-sm bg-accent text-background rounded-md
+                     hover:bg-accent/90 transition-colors disabled:opacity-50
+                     disabled:cursor-not-allowed"
+        >
+          Save
+        </button>
+      </div>
+    </form>
+  );
+}
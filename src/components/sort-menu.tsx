@@ -0,0 +1,92 @@
+import { useEffect, useRef, type RefObject } from 'react'
+import { Check } from 'lucide-react'
+import type { TaskSort, TaskSortField } from '../types/task'
+import { SORT_FIELD_LABELS, SORT_DIRECTION_LABELS } from '../utils/taskSort'
+
+const SORT_FIELDS = Object.keys(SORT_FIELD_LABELS) as TaskSortField[]
+
+interface SortMenuProps {
+  sort: TaskSort
+  onChange: (sort: TaskSort) => void
+  onClose: () => void
+  anchorRef?: RefObject<HTMLElement | null> // Clicks here (e.g. the toggle button) don't count as outside
+}
+
+/**
+ * Sort mode popover opened from the sort button
+ */
+export function SortMenu({ sort, onChange, onClose, anchorRef }: SortMenuProps) {
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  // Close on Escape or on clicks outside the menu
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    const handleMouseDown = (e: MouseEvent) => {
+      const target = e.target as Node
+      if (menuRef.current?.contains(target) || anchorRef?.current?.contains(target)) return
+      onClose()
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    document.addEventListener('mousedown', handleMouseDown)
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown)
+      document.removeEventListener('mousedown', handleMouseDown)
+    }
+  }, [onClose, anchorRef])
+
+  // Manual order has no direction to pick
+  const directionLabels = sort.field === 'manual' ? null : SORT_DIRECTION_LABELS[sort.field]
+
+  const toggleButtonClass = (isSelected: boolean) =>
+    `flex-1 px-2 py-1 text-xs rounded-md border transition-colors ${isSelected
+      ? 'bg-accent text-background border-accent'
+      : 'border-border text-muted-foreground hover:bg-accent/10'}`
+
+  return (
+    <div
+      ref={menuRef}
+      role="dialog"
+      aria-label="Sort tasks"
+      className="absolute right-0 top-full mt-2 z-20 w-56 p-2 bg-card border border-border rounded-lg shadow-glow-emerald text-sm text-card-foreground"
+    >
+      <div role="radiogroup" aria-label="Sort by">
+        {SORT_FIELDS.map(field => (
+          <button
+            key={field}
+            type="button"
+            role="radio"
+            aria-checked={sort.field === field}
+            onClick={() => onChange({ ...sort, field })}
+            className="w-full flex items-center justify-between px-2 py-1.5 rounded-md hover:bg-accent/10 transition-colors"
+          >
+            {SORT_FIELD_LABELS[field]}
+            {sort.field === field && <Check className="w-4 h-4 text-accent" aria-hidden="true" />}
+          </button>
+        ))}
+      </div>
+
+      {!directionLabels ? (
+        <p className="px-2 pt-2 mt-1 border-t border-border text-xs text-muted-foreground">
+          Drag tasks to reorder them.
+        </p>
+      ) : (
+        <div className="flex gap-1 pt-2 mt-1 border-t border-border" role="group" aria-label="Sort direction">
+          {(['asc', 'desc'] as const).map(direction => (
+            <button
+              key={direction}
+              type="button"
+              onClick={() => onChange({ ...sort, direction })}
+              aria-pressed={sort.direction === direction}
+              className={toggleButtonClass(sort.direction === direction)}
+            >
+              {directionLabels[direction]}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -4,8 +4,12 @@ import { GripVertical } from 'lucide-react';
 import Task from './task';
 import type { TaskProps } from './task';
 
-export default function SortableTask({id, title, description, dueDate, assignee, tags, completed, selected, onclick, onToggleComplete}: TaskProps) {
-    const {attributes, listeners, setNodeRef, transform, transition, isDragging} = useSortable({id});
+type SortableTaskProps = TaskProps & {
+    dragDisabled?: boolean; // Hides the drag handle, e.g. when the list isn't in manual sort order
+};
+
+export default function SortableTask({id, title, description, dueDate, startDate, recurrence, assignee, tags, completed, selected, pendingSync, onclick, onToggleComplete, subtasks, onToggleSubtask, onReorderSubtasks, onAddSubtask, dragDisabled = false}: SortableTaskProps) {
+    const {attributes, listeners, setNodeRef, transform, transition, isDragging} = useSortable({id, disabled: dragDisabled});
 
     const style = {
         transform: CSS.Transform.toString(transform),
@@ -32,13 +36,20 @@ export default function SortableTask({id, title, description, dueDate, assignee,
                 title={title}
                 description={description}
                 dueDate={dueDate}
+                startDate={startDate}
+                recurrence={recurrence}
                 assignee={assignee}
                 tags={tags}
                 completed={completed}
                 selected={selected}
+                pendingSync={pendingSync}
                 onclick={onclick}
                 onToggleComplete={onToggleComplete}
-                dragHandle={dragHandleButton}
+                dragHandle={dragDisabled ? undefined : dragHandleButton}
+                subtasks={subtasks}
+                onToggleSubtask={onToggleSubtask}
+                onReorderSubtasks={onReorderSubtasks}
+                onAddSubtask={onAddSubtask}
             />
         </div>
     );
@@ -0,0 +1,155 @@
+import { useState } from 'react'
+import { DndContext, PointerSensor, KeyboardSensor, useSensor, useSensors } from '@dnd-kit/core'
+import type { DragEndEvent } from '@dnd-kit/core'
+import { SortableContext, arrayMove, useSortable, verticalListSortingStrategy } from '@dnd-kit/sortable'
+import { CSS } from '@dnd-kit/utilities'
+import { Circle, CircleCheckBig, GripVertical, Plus } from 'lucide-react'
+
+export type SubtaskItem = {
+  id: string
+  title: string
+  completed: boolean
+}
+
+interface SubtaskListProps {
+  parentTitle: string
+  subtasks: SubtaskItem[]
+  onToggle?: (id: string) => void
+  onReorder?: (subtaskIds: string[]) => void
+  onAdd?: (title: string) => Promise<void>
+}
+
+interface SortableSubtaskProps {
+  subtask: SubtaskItem
+  onToggle?: (id: string) => void
+}
+
+function SortableSubtask({ subtask, onToggle }: SortableSubtaskProps) {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id: subtask.id })
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+  }
+
+  return (
+    <li ref={setNodeRef} style={style} className={`flex items-center gap-2 py-1 ${isDragging ? 'opacity-50' : ''}`}>
+      <button
+        {...attributes}
+        {...listeners}
+        className="cursor-grab active:cursor-grabbing text-muted-foreground hover:text-foreground transition-colors"
+        aria-label={`Drag to reorder subtask: ${subtask.title}`}
+        type="button"
+      >
+        <GripVertical className="w-4 h-4" aria-hidden="true" />
+      </button>
+      <button
+        type="button"
+        onClick={() => onToggle?.(subtask.id)}
+        className="hover:scale-110 transition-transform"
+        aria-label={subtask.completed ? `Mark subtask "${subtask.title}" as incomplete` : `Mark subtask "${subtask.title}" as complete`}
+      >
+        {subtask.completed
+          ? <CircleCheckBig className="w-4 h-4 text-accent" aria-hidden="true" />
+          : <Circle className="w-4 h-4" aria-hidden="true" />}
+      </button>
+      <span className={`text-sm ${subtask.completed ? 'line-through text-muted-foreground' : ''}`}>
+        {subtask.title}
+      </span>
+    </li>
+  )
+}
+
+/**
+ * Checklist of subtasks rendered inside a task card
+ * Subtasks have their own completion toggles and drag-reorder
+ */
+export function SubtaskList({ parentTitle, subtasks, onToggle, onReorder, onAdd }: SubtaskListProps) {
+  const [isAdding, setIsAdding] = useState(false)
+  const [newTitle, setNewTitle] = useState('')
+
+  const sensors = useSensors(
+    useSensor(PointerSensor),
+    useSensor(KeyboardSensor)
+  )
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event
+
+    if (!over || active.id === over.id) {
+      return
+    }
+
+    const oldIndex = subtasks.findIndex(subtask => subtask.id === active.id)
+    const newIndex = subtasks.findIndex(subtask => subtask.id === over.id)
+    const reordered = arrayMove(subtasks, oldIndex, newIndex)
+    onReorder?.(reordered.map(subtask => subtask.id))
+  }
+
+  const handleAdd = async () => {
+    const trimmed = newTitle.trim()
+    if (!trimmed || !onAdd) return
+
+    try {
+      await onAdd(trimmed)
+      setNewTitle('')
+    } catch {
+      // Keep the typed title so the user can retry
+    }
+  }
+
+  return (
+    // Keep clicks and key presses from selecting the parent task
+    <div
+      className="mt-3"
+      onClick={(e) => e.stopPropagation()}
+      onKeyDown={(e) => e.stopPropagation()}
+    >
+      <DndContext sensors={sensors} onDragEnd={handleDragEnd}>
+        <SortableContext items={subtasks.map(subtask => subtask.id)} strategy={verticalListSortingStrategy}>
+          <ul role="list" aria-label={`Subtasks of ${parentTitle}`}>
+            {subtasks.map(subtask => (
+              <SortableSubtask key={subtask.id} subtask={subtask} onToggle={onToggle} />
+            ))}
+          </ul>
+        </SortableContext>
+      </DndContext>
+
+      {onAdd && (isAdding ? (
+        <input
+          type="text"
+          value={newTitle}
+          onChange={(e) => setNewTitle(e.target.value)}
+          onBlur={() => {
+            if (!newTitle.trim()) setIsAdding(false)
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault()
+              handleAdd()
+            }
+            if (e.key === 'Escape') {
+              setIsAdding(false)
+              setNewTitle('')
+            }
+          }}
+          placeholder="Add a step..."
+          className="w-full mt-1 px-2 py-1 text-sm bg-background border border-border rounded
+                     focus:outline-none focus:ring-2 focus:ring-accent focus:border-transparent
+                     placeholder:text-muted-foreground"
+          aria-label={`Add subtask to ${parentTitle}`}
+          autoFocus
+        />
+      ) : (
+        <button
+          type="button"
+          onClick={() => setIsAdding(true)}
+          className="flex items-center gap-1 mt-1 text-xs text-muted-foreground hover:text-accent transition-colors"
+        >
+          <Plus className="w-3 h-3" aria-hidden="true" />
+          Add step
+        </button>
+      ))}
+    </div>
+  )
+}
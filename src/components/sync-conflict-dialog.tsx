@@ -0,0 +1,57 @@
+import { useRef, useState } from 'react'
+import { ConflictMergeDialog } from './conflict-merge-dialog'
+import { useAppStore } from '../hooks/useAppStore'
+import { useDataChanges } from '../hooks/useDataChanges'
+import { ConflictError } from '../types/errors'
+import type { TaskData } from '../types/task'
+import { TASK_MERGE_FIELDS } from '../utils/conflictMerge'
+
+/**
+ * Asks how to merge offline task changes that clashed with newer server copies once synced
+ * Conflicts are shown one at a time, oldest first.
+ */
+export function SyncConflictDialog() {
+  const { updateTask } = useAppStore()
+  // Numbered so each conflict mounts a fresh dialog, even for the same task
+  const [conflicts, setConflicts] = useState<{ id: number; conflict: ConflictError<TaskData> }[]>([])
+  const nextId = useRef(0)
+
+  const add = (conflict: ConflictError<TaskData>, first = false) => {
+    const item = { id: nextId.current++, conflict }
+    setConflicts(prev => first ? [item, ...prev] : [...prev, item])
+  }
+
+  useDataChanges(event => {
+    if (event.type === 'sync_conflict') add(event.conflict)
+  })
+
+  const current = conflicts[0]
+  if (!current) return null
+  const { conflict } = current
+
+  const dismiss = () => setConflicts(prev => prev.filter(item => item !== current))
+
+  const handleResolve = async (updates: Partial<TaskData>) => {
+    dismiss()
+    if (Object.keys(updates).length === 0) return
+
+    try {
+      await updateTask(conflict.resourceId, updates)
+    } catch (error) {
+      // Changed again while merging: ask again against the newest copy (other errors are reported by the store)
+      if (error instanceof ConflictError) {
+        add(error, true)
+      }
+    }
+  }
+
+  return (
+    <ConflictMergeDialog
+      key={current.id}
+      conflict={conflict}
+      fields={TASK_MERGE_FIELDS}
+      onResolve={handleResolve}
+      onClose={dismiss}
+    />
+  )
+}
@@ -0,0 +1,207 @@
+import { useState } from 'react'
+import { Merge, Pencil, Plus, Trash2 } from 'lucide-react'
+import { dataService } from '../services/dataService'
+import { showError, showSuccess } from '../lib/toastUtils'
+import Modal from './modal'
+import TagForm from './tag-form'
+import type { TaskData } from '../types/task'
+import type { TagColor, TagData } from '../types/tags'
+import { TAG_COLOR_CLASSES, flattenTagTree, getTagDescendants } from '../utils/tags'
+
+interface TagBrowserProps {
+  tags: TagData[]
+  tasks: TaskData[]
+  selectedTag: string | null
+  onSelectTag: (name: string | null) => void
+}
+
+type TagDialog =
+  | { mode: 'create' }
+  | { mode: 'edit'; tag: TagData }
+  | { mode: 'merge'; tag: TagData }
+
+/**
+ * Tag tree for the Tags view: picking a tag shows its tasks (and those of tags nested under it)
+ * Tags can be created, edited, merged into another tag or deleted from here.
+ */
+export function TagBrowser({ tags, tasks, selectedTag, onSelectTag }: TagBrowserProps) {
+  const [dialog, setDialog] = useState<TagDialog | null>(null)
+  const [mergeTarget, setMergeTarget] = useState('')
+
+  // Active tasks under each tag, counting the tags nested under it
+  const countTasks = (name: string) => {
+    const names = [name, ...getTagDescendants(tags, name)]
+    return tasks.filter(task => task.status === 'active' && task.tags?.some(tag => names.includes(tag))).length
+  }
+
+  const handleSubmit = async (name: string, color: TagColor, parent: string | undefined) => {
+    if (!dialog || dialog.mode === 'merge') return
+    try {
+      if (dialog.mode === 'create') {
+        await dataService.createTag(name, color, parent)
+        showSuccess(`Tag "${name}" created`)
+      } else {
+        const updated = await dataService.updateTag(dialog.tag.name, { name, color, parent })
+        // Keep showing a renamed tag's tasks
+        if (selectedTag === dialog.tag.name) onSelectTag(updated.name)
+        showSuccess(`Tag "${updated.name}" updated`)
+      }
+      setDialog(null)
+    } catch (error) {
+      console.error('Failed to save tag:', error)
+      showError(error, 'Failed to save tag. Please try again.')
+    }
+  }
+
+  const handleMerge = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (dialog?.mode !== 'merge' || !mergeTarget) return
+    try {
+      await dataService.mergeTag(dialog.tag.name, mergeTarget)
+      if (selectedTag === dialog.tag.name) onSelectTag(mergeTarget)
+      showSuccess(`Merged "${dialog.tag.name}" into "${mergeTarget}"`)
+      setDialog(null)
+    } catch (error) {
+      console.error('Failed to merge tag:', error)
+      showError(error, 'Failed to merge tag. Please try again.')
+    }
+  }
+
+  const handleDelete = async (tag: TagData) => {
+    if (!window.confirm(`Delete the tag "${tag.name}"? It will be removed from its tasks.`)) return
+    try {
+      await dataService.deleteTag(tag.name)
+      if (selectedTag === tag.name) onSelectTag(null)
+      showSuccess(`Tag "${tag.name}" deleted`)
+    } catch (error) {
+      console.error('Failed to delete tag:', error)
+      showError(error, 'Failed to delete tag. Please try again.')
+    }
+  }
+
+  const openMerge = (tag: TagData) => {
+    setMergeTarget('')
+    setDialog({ mode: 'merge', tag })
+  }
+
+  const actionClass = 'p-1 rounded text-muted-foreground hover:text-accent hover:bg-accent/10'
+
+  return (
+    <div className="mb-4" role="region" aria-label="Tag browser">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-sm font-medium text-muted-foreground">Browse by tag</h2>
+        <button
+          type="button"
+          onClick={() => setDialog({ mode: 'create' })}
+          className="flex items-center gap-1 px-2 py-1 text-sm rounded-md text-muted-foreground hover:text-accent hover:bg-accent/10"
+        >
+          <Plus className="w-4 h-4" aria-hidden="true" />
+          New tag
+        </button>
+      </div>
+
+      {tags.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No tags yet. Add tags to tasks or create one here.</p>
+      ) : (
+        <ul className="max-h-56 overflow-y-auto space-y-0.5">
+          {flattenTagTree(tags).map(({ tag, depth }) => {
+            const isSelected = selectedTag === tag.name
+            return (
+              <li key={tag.name} className="group flex items-center gap-1" style={{ paddingLeft: `${depth * 1.25}rem` }}>
+                <button
+                  type="button"
+                  onClick={() => onSelectTag(isSelected ? null : tag.name)}
+                  aria-pressed={isSelected}
+                  className={`flex flex-1 items-center gap-2 px-2 py-1 text-sm rounded-md text-left ${isSelected ? 'bg-accent/20 text-foreground' : 'hover:bg-accent/10'}`}
+                >
+                  <span className={`w-2.5 h-2.5 rounded-full ${TAG_COLOR_CLASSES[tag.color].swatch}`} aria-hidden="true" />
+                  <span className="flex-1 truncate">{tag.name}</span>
+                  <span className="text-xs text-muted-foreground">{countTasks(tag.name)}</span>
+                </button>
+                <div className="flex opacity-0 group-hover:opacity-100 group-focus-within:opacity-100">
+                  <button type="button" onClick={() => setDialog({ mode: 'edit', tag })} aria-label={`Edit tag ${tag.name}`} className={actionClass}>
+                    <Pencil className="w-3.5 h-3.5" aria-hidden="true" />
+                  </button>
+                  <button type="button" onClick={() => openMerge(tag)} aria-label={`Merge tag ${tag.name}`} className={actionClass} disabled={tags.length < 2}>
+                    <Merge className="w-3.5 h-3.5" aria-hidden="true" />
+                  </button>
+                  <button type="button" onClick={() => handleDelete(tag)} aria-label={`Delete tag ${tag.name}`} className={actionClass}>
+                    <Trash2 className="w-3.5 h-3.5" aria-hidden="true" />
+                  </button>
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
+      {/* Modal for creating or editing a tag */}
+      <Modal
+        isOpen={dialog?.mode === 'create' || dialog?.mode === 'edit'}
+        onClose={() => setDialog(null)}
+        title={dialog?.mode === 'edit' ? 'Edit Tag' : 'New Tag'}
+      >
+        {(dialog?.mode === 'create' || dialog?.mode === 'edit') && (
+          <TagForm
+            tag={dialog.mode === 'edit' ? dialog.tag : undefined}
+            tags={tags}
+            onSubmit={handleSubmit}
+            onCancel={() => setDialog(null)}
+          />
+        )}
+      </Modal>
+
+      {/* Modal for merging a tag into another */}
+      <Modal
+        isOpen={dialog?.mode === 'merge'}
+        onClose={() => setDialog(null)}
+        title="Merge Tag"
+      >
+        {dialog?.mode === 'merge' && (
+          <form onSubmit={handleMerge} className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Tasks tagged "{dialog.tag.name}" get the tag you pick instead, and "{dialog.tag.name}" is removed.
+            </p>
+            <div>
+              <label htmlFor="tag-merge-target" className="block text-sm font-medium mb-2">
+                Merge Into
+              </label>
+              <select
+                id="tag-merge-target"
+                value={mergeTarget}
+                onChange={(e) => setMergeTarget(e.target.value)}
+                className="w-full px-3 py-2 bg-background border border-border rounded-md
+                           focus:outline-none focus:ring-2 focus:ring-accent focus:border-transparent
+                           text-sm"
+              >
+                <option value="">Pick a tag</option>
+                {tags.filter(tag => tag.name !== dialog.tag.name).map(tag => (
+                  <option key={tag.name} value={tag.name}>{tag.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex gap-2 justify-end">
+              <button
+                type="button"
+                onClick={() => setDialog(null)}
+                className="px-4 py-2 text-sm border border-border rounded-md
+                           hover:bg-accent/10 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!mergeTarget}
+                className="px-4 py-2 text-sm bg-accent text-background rounded-md
+                           hover:bg-accent/90 transition-colors disabled:opacity-50
+                           disabled:cursor-not-allowed"
+              >
+                Merge
+              </button>
+            </div>
+          </form>
+        )}
+      </Modal>
+    </div>
+  )
+}
@@ -0,0 +1,119 @@
+/**
+ * TagForm Component
+ *
+ * Modal-agnostic form for naming a tag, picking its color and nesting it under another tag.
+ * Used both to create a tag and to edit an existing one.
+ */
+
+import { useState } from 'react';
+import type { TagColor, TagData } from '../types/tags';
+import { DEFAULT_TAG_COLOR, TAG_COLORS, TAG_COLOR_CLASSES, getTagDescendants } from '../utils/tags';
+
+interface TagFormProps {
+  tag?: TagData; // The tag being edited; omitted when creating one
+  tags: TagData[]; // Every tag, for the parent picker
+  onSubmit: (name: string, color: TagColor, parent: string | undefined) => void;
+  onCancel: () => void;
+}
+
+export default function TagForm({ tag, tags, onSubmit, onCancel }: TagFormProps) {
+  const [name, setName] = useState(tag?.name ?? '');
+  const [color, setColor] = useState<TagColor>(tag?.color ?? DEFAULT_TAG_COLOR);
+  const [parent, setParent] = useState(tag?.parent ?? '');
+
+  // A tag can't be nested under itself or anything nested under it
+  const excluded = tag ? new Set([tag.name, ...getTagDescendants(tags, tag.name)]) : new Set<string>();
+  const parentOptions = tags.filter(option => !excluded.has(option.name));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSubmit(name.trim(), color, parent || undefined);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label htmlFor="tag-name" className="block text-sm font-medium mb-2">
+          Tag Name
+        </label>
+        <input
+          id="tag-name"
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g. errands"
+          autoFocus
+          className="w-full px-3 py-2 bg-background border border-border rounded-md
+                     focus:outline-none focus:ring-2 focus:ring-accent focus:border-transparent
+                     placeholder:text-muted-foreground"
+        />
+        {tag && (
+          <p className="mt-2 text-xs text-muted-foreground">
+            Renaming a tag renames it on every task.
+          </p>
+        )}
+      </div>
+
+      <fieldset>
+        <legend className="block text-sm font-medium mb-2">Color</legend>
+        <div className="flex flex-wrap gap-2">
+          {TAG_COLORS.map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setColor(option)}
+              aria-label={option}
+              aria-pressed={color === option}
+              className={`w-7 h-7 rounded-full border-2 transition-colors ${color === option
+                ? 'border-foreground'
+                : 'border-transparent hover:border-border'}`}
+            >
+              <span className={`block w-full h-full rounded-full ${TAG_COLOR_CLASSES[option].swatch}`} aria-hidden="true" />
+            </button>
+          ))}
+        </div>
+      </fieldset>
+
+      <div>
+        <label htmlFor="tag-parent" className="block text-sm font-medium mb-2">
+          Nested Under
+        </label>
+        <select
+          id="tag-parent"
+          value={parent}
+          onChange={(e) => setParent(e.target.value)}
+          className="w-full px-3 py-2 bg-background border border-border rounded-md
+                     focus:outline-none focus:ring-2 focus:ring-accent focus:border-transparent
+                     text-sm"
+        >
+          <option value="">No parent</option>
+          {parentOptions.map(option => (
+            <option key={option.name} value={option.name}>{option.name}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Actions */}
+      <div className="flex gap-2 justify-end">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-sm border border-border rounded-md
+                     hover:bg-accent/10 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={!name.trim()}
+          className="px-4 py-2 text-sm bg-accent text-background rounded-md
+                     hover:bg-accent/90 transition-colors disabled:opacity-50
+                     disabled:cursor-not-allowed"
+        >
+          Save
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,108 @@
+import { useState, type KeyboardEvent } from 'react'
+import type { TagData } from '../types/tags'
+import { TAG_COLOR_CLASSES, completeTagInput, getTagSuggestions } from '../utils/tags'
+
+interface TagInputProps {
+  id: string
+  value: string // Comma-separated tags
+  onChange: (value: string) => void
+  tags: TagData[] // Every tag, to suggest from
+  className: string
+  placeholder?: string
+  disabled?: boolean
+  onFocus?: () => void
+  onBlur?: () => void
+}
+
+/**
+ * Comma-separated tag field that suggests existing tags for the one being typed
+ * Arrow keys move through the suggestions; Enter or Tab picks one, Escape hides them.
+ */
+export function TagInput({ id, value, onChange, tags, className, placeholder = 'work, urgent, ideas', disabled = false, onFocus, onBlur }: TagInputProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [activeIndex, setActiveIndex] = useState(-1)
+  const suggestions = isOpen ? getTagSuggestions(tags, value) : []
+  const listId = `${id}-suggestions`
+
+  const handleChange = (next: string) => {
+    onChange(next)
+    setIsOpen(true)
+    setActiveIndex(-1)
+  }
+
+  const pick = (name: string) => {
+    onChange(completeTagInput(value, name))
+    setActiveIndex(-1)
+  }
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault()
+      const step = e.key === 'ArrowDown' ? 1 : -1
+      setActiveIndex(index => (index + step + suggestions.length) % suggestions.length)
+    } else if ((e.key === 'Enter' || e.key === 'Tab') && activeIndex >= 0) {
+      // Pick the suggestion instead of submitting the form or moving focus
+      e.preventDefault()
+      pick(suggestions[activeIndex].name)
+    } else if (e.key === 'Escape') {
+      // Keep the surrounding modal open
+      e.stopPropagation()
+      setIsOpen(false)
+    }
+  }
+
+  return (
+    <div className="relative">
+      <input
+        id={id}
+        type="text"
+        value={value}
+        onChange={(e) => handleChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onFocus={() => {
+          setIsOpen(true)
+          onFocus?.()
+        }}
+        onBlur={() => {
+          setIsOpen(false)
+          onBlur?.()
+        }}
+        placeholder={placeholder}
+        className={className}
+        disabled={disabled}
+        role="combobox"
+        autoComplete="off"
+        aria-autocomplete="list"
+        aria-expanded={suggestions.length > 0}
+        aria-controls={listId}
+        aria-activedescendant={activeIndex >= 0 ? `${listId}-${activeIndex}` : undefined}
+      />
+      {suggestions.length > 0 && (
+        <ul
+          id={listId}
+          role="listbox"
+          aria-label="Suggestions"
+          className="absolute z-10 mt-1 w-full max-h-48 overflow-y-auto bg-popover border border-border rounded-md shadow-md py-1"
+        >
+          {suggestions.map((tag, index) => (
+            <li
+              key={tag.name}
+              id={`${listId}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keep focus in the input so it doesn't blur before the pick
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => pick(tag.name)}
+              className={`flex items-center gap-2 px-3 py-1.5 text-sm cursor-pointer ${index === activeIndex ? 'bg-accent/20' : 'hover:bg-accent/10'}`}
+            >
+              <span className={`w-2 h-2 rounded-full ${TAG_COLOR_CLASSES[tag.color].swatch}`} aria-hidden="true" />
+              {tag.name}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
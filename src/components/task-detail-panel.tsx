@@ -0,0 +1,555 @@
+import { useState, useEffect, useCallback, useRef, type KeyboardEvent, type PointerEvent } from 'react'
+import { format, formatDistanceToNow } from 'date-fns'
+import { Archive, Circle, CircleCheckBig, Maximize2, X } from 'lucide-react'
+import { dataService } from '../services/dataService'
+import { requestNotificationPermission } from '../services/ReminderScheduler'
+import { RepeatPicker } from './repeat-picker'
+import { EditTaskModal } from './edit-task-modal'
+import { TagInput } from './tag-input'
+import { ConflictMergeDialog } from './conflict-merge-dialog'
+import type { TaskData, TaskPriority, UpdateTaskInput } from '../types/task'
+import type { SidebarItemData } from '../types/sidebar'
+import { ConflictError } from '../types/errors'
+import { parseDate } from '../utils/taskFilters'
+import { parseTagInput } from '../utils/tags'
+import { fromDateTimeInputValue, toDateTimeInputValue } from '../utils/reminders'
+import { TASK_MERGE_FIELDS } from '../utils/conflictMerge'
+import { useDataChanges } from '../hooks/useDataChanges'
+import { useAppStore } from '../hooks/useAppStore'
+
+const WIDTH_STORAGE_KEY = 'task-panel-width'
+const DEFAULT_WIDTH = 384
+const MIN_WIDTH = 280
+const MAX_WIDTH = 640
+const AUTOSAVE_DELAY_MS = 800
+
+const PRIORITIES: TaskPriority[] = ['low', 'medium', 'high']
+
+const clampWidth = (width: number) => Math.min(MAX_WIDTH, Math.max(MIN_WIDTH, width))
+
+const loadStoredWidth = (): number => {
+  const stored = Number(localStorage.getItem(WIDTH_STORAGE_KEY))
+  return stored ? clampWidth(stored) : DEFAULT_WIDTH
+}
+
+interface TaskDetailPanelProps {
+  taskId: string
+  onClose: () => void
+}
+
+type SaveState = 'idle' | 'saving' | 'saved' | 'error'
+
+/**
+ * Resizable right-hand panel showing the selected task
+ * Fields save as you edit: text fields after a short pause or on blur, other controls immediately
+ */
+export function TaskDetailPanel({ taskId, onClose }: TaskDetailPanelProps) {
+  const { state: { tasks, tasksStatus, sidebar }, updateTask } = useAppStore()
+  const task = tasks.find(t => t.id === taskId) ?? null
+  const isLoading = !task && (tasksStatus === 'idle' || tasksStatus === 'loading')
+  const [title, setTitle] = useState(task?.title || '')
+  const [description, setDescription] = useState(task?.description || '')
+  const [tags, setTags] = useState(task?.tags?.join(', ') || '')
+  const [saveState, setSaveState] = useState<SaveState>('idle')
+  const [isEditorOpen, setIsEditorOpen] = useState(false)
+  const [conflict, setConflict] = useState<ConflictError<TaskData> | null>(null)
+  const [width, setWidth] = useState(loadStoredWidth)
+  const dragStartRef = useRef<{ x: number; width: number } | null>(null)
+  const hasDraftsRef = useRef(task !== null)
+  // Text updates that just failed, so autosave doesn't retry them in a loop
+  const failedTextUpdatesRef = useRef<string | null>(null)
+
+  const config = sidebar ?? dataService.getLocalSidebarConfig()
+  // Archived lists can't be picked, unless the task is already in one
+  const isPickableList = (list: SidebarItemData) => !list.archived || list.key === task?.listId
+  const areas = config.areas.filter(isPickableList)
+  const projects = config.projects.filter(isPickableList)
+
+  // Fill the drafts once the task has loaded; later changes from elsewhere don't touch them
+  useEffect(() => {
+    if (!task || hasDraftsRef.current) return
+    hasDraftsRef.current = true
+    setTitle(task.title)
+    setDescription(task.description || '')
+    setTags(task.tags?.join(', ') || '')
+  }, [task])
+
+  // The store keeps the task current; close the panel if it's deleted
+  useDataChanges(event => {
+    if (event.type === 'task_deleted' && event.taskIds.includes(taskId)) {
+      onClose()
+    }
+  })
+
+  // Persist panel width
+  useEffect(() => {
+    localStorage.setItem(WIDTH_STORAGE_KEY, String(width))
+  }, [width])
+
+  /**
+   * Reset the text field drafts to a saved copy of the task
+   */
+  const showSavedTask = useCallback((saved: TaskData) => {
+    setTitle(saved.title)
+    setDescription(saved.description || '')
+    setTags(saved.tags?.join(', ') || '')
+  }, [])
+
+  /**
+   * Show the newer remote copy (the store already holds it) and ask how to merge
+   * Drafts are reset too, otherwise autosave would resend them over the remote changes
+   */
+  const handleConflict = useCallback((error: ConflictError<TaskData>) => {
+    showSavedTask(error.remote)
+    setConflict(error)
+    setSaveState('idle')
+  }, [showSavedTask])
+
+  const saveChanges = useCallback(async (updates: UpdateTaskInput) => {
+    if (!task || Object.keys(updates).length === 0) return
+
+    setSaveState('saving')
+    try {
+      // Shows right away; the store rolls it back and reports the error if saving fails
+      await updateTask(task.id, updates)
+      setSaveState('saved')
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        handleConflict(error)
+        return
+      }
+      setSaveState('error')
+      throw error
+    }
+  }, [task, updateTask, handleConflict])
+
+  /**
+   * Collect text field drafts that differ from the saved task
+   */
+  const getTextUpdates = useCallback((): UpdateTaskInput => {
+    if (!task) return {}
+    const updates: UpdateTaskInput = {}
+
+    const trimmedTitle = title.trim()
+    // An empty title is never saved; blur restores the last saved one
+    if (trimmedTitle && trimmedTitle !== task.title) {
+      updates.title = trimmedTitle
+    }
+
+    const trimmedDescription = description.trim()
+    if (trimmedDescription !== (task.description || '')) {
+      updates.description = trimmedDescription || undefined
+    }
+
+    const parsedTags = parseTagInput(tags)
+    if (JSON.stringify(parsedTags) !== JSON.stringify(task.tags || [])) {
+      updates.tags = parsedTags.length > 0 ? parsedTags : undefined
+    }
+
+    return updates
+  }, [task, title, description, tags])
+
+  /**
+   * Save text field drafts, remembering them if saving fails
+   */
+  const saveTextChanges = useCallback(async (updates: UpdateTaskInput) => {
+    try {
+      await saveChanges(updates)
+      failedTextUpdatesRef.current = null
+    } catch {
+      failedTextUpdatesRef.current = JSON.stringify(updates)
+    }
+  }, [saveChanges])
+
+  // Autosave text fields after a pause in typing
+  useEffect(() => {
+    const updates = getTextUpdates()
+    // A rolled-back save leaves the drafts unsaved; wait for more typing or a blur before retrying
+    if (Object.keys(updates).length === 0 || JSON.stringify(updates) === failedTextUpdatesRef.current) return
+
+    const timer = setTimeout(() => saveTextChanges(updates), AUTOSAVE_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [getTextUpdates, saveTextChanges])
+
+  const handleTextBlur = () => {
+    saveTextChanges(getTextUpdates())
+    if (task && !title.trim()) setTitle(task.title)
+  }
+
+  /**
+   * Save a change from one of the other controls; failures are already reported by the store
+   */
+  const handleFieldChange = (updates: UpdateTaskInput) => {
+    saveChanges(updates).catch(() => {})
+  }
+
+  const handleReminderChange = (value: string) => {
+    const reminderAt = fromDateTimeInputValue(value)
+    // Setting a reminder is a good moment to ask for desktop notifications
+    if (reminderAt) requestNotificationPermission()
+    handleFieldChange({ reminderAt })
+  }
+
+  const handleArchive = async () => {
+    if (!task) return
+    try {
+      // The store offers an undo toast
+      await updateTask(task.id, { status: 'archived' })
+      onClose()
+    } catch (error) {
+      console.error('Failed to archive task:', error)
+    }
+  }
+
+  const handleEditorSave = async (updates: UpdateTaskInput) => {
+    if (!task) return
+    try {
+      const updated = await updateTask(task.id, updates)
+      showSavedTask(updated)
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        handleConflict(error)
+        return
+      }
+      throw error
+    }
+  }
+
+  const handleResolveConflict = async (updates: Partial<TaskData>) => {
+    if (!task) return
+    setConflict(null)
+    if (Object.keys(updates).length === 0) {
+      return
+    }
+
+    setSaveState('saving')
+    try {
+      const updated = await updateTask(task.id, updates)
+      showSavedTask(updated)
+      setSaveState('saved')
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        handleConflict(error)
+        return
+      }
+      setSaveState('error')
+    }
+  }
+
+  const handleEditorArchive = async (id: string) => {
+    await updateTask(id, { status: 'archived' })
+    onClose()
+  }
+
+  // Resize by dragging the left edge
+  const handleResizeStart = (e: PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId)
+    dragStartRef.current = { x: e.clientX, width }
+  }
+
+  const handleResizeMove = (e: PointerEvent<HTMLDivElement>) => {
+    if (!dragStartRef.current) return
+    // Dragging left widens the panel
+    setWidth(clampWidth(dragStartRef.current.width + dragStartRef.current.x - e.clientX))
+  }
+
+  const handleResizeEnd = () => {
+    dragStartRef.current = null
+  }
+
+  const handleResizeKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'ArrowLeft') {
+      e.preventDefault()
+      setWidth(prev => clampWidth(prev + 16))
+    }
+    if (e.key === 'ArrowRight') {
+      e.preventDefault()
+      setWidth(prev => clampWidth(prev - 16))
+    }
+  }
+
+  const inputClass = `w-full px-3 py-2 bg-background border border-border rounded-md
+                      focus:outline-none focus:ring-2 focus:ring-accent focus:border-transparent
+                      placeholder:text-muted-foreground text-sm`
+
+  return (
+    <aside
+      className="relative flex flex-col h-full bg-background border-l border-border shrink-0"
+      style={{ width }}
+      aria-label="Task details"
+    >
+      {/* Resize handle */}
+      <div
+        role="separator"
+        aria-orientation="vertical"
+        aria-label="Resize task details"
+        aria-valuenow={width}
+        aria-valuemin={MIN_WIDTH}
+        aria-valuemax={MAX_WIDTH}
+        tabIndex={0}
+        onPointerDown={handleResizeStart}
+        onPointerMove={handleResizeMove}
+        onPointerUp={handleResizeEnd}
+        onKeyDown={handleResizeKeyDown}
+        className="absolute left-0 top-0 bottom-0 w-1.5 -translate-x-1/2 cursor-col-resize
+                   hover:bg-accent/40 focus:outline-none focus:bg-accent/60 transition-colors"
+      />
+
+      {/* Header */}
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-border">
+        <span className="flex-1 text-xs text-muted-foreground" aria-live="polite">
+          {saveState === 'saving' && 'Saving...'}
+          {saveState === 'saved' && 'All changes saved'}
+          {saveState === 'error' && 'Could not save changes'}
+        </span>
+        {task && (
+          <button
+            type="button"
+            onClick={() => setIsEditorOpen(true)}
+            className="p-1.5 text-muted-foreground hover:text-accent transition-colors"
+            aria-label="Open in editor"
+            title="Open in editor"
+          >
+            <Maximize2 className="w-4 h-4" aria-hidden="true" />
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1.5 text-muted-foreground hover:text-foreground transition-colors"
+          aria-label="Close task details"
+        >
+          <X className="w-4 h-4" aria-hidden="true" />
+        </button>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-y-auto px-4 py-4 space-y-4">
+        {isLoading && (
+          <div className="text-muted-foreground text-sm">Loading task...</div>
+        )}
+
+        {!isLoading && !task && (
+          <div className="text-muted-foreground text-sm">This task no longer exists.</div>
+        )}
+
+        {!isLoading && task && (
+          <>
+            {/* Title and completion */}
+            <div className="flex items-start gap-2">
+              <button
+                type="button"
+                onClick={() => handleFieldChange({ status: task.status === 'completed' ? 'active' : 'completed' })}
+                className="mt-2 hover:scale-110 transition-transform"
+                aria-label={task.status === 'completed' ? 'Mark task as incomplete' : 'Mark task as complete'}
+              >
+                {task.status === 'completed'
+                  ? <CircleCheckBig className="w-5 h-5 text-accent" aria-hidden="true" />
+                  : <Circle className="w-5 h-5" aria-hidden="true" />}
+              </button>
+              <input
+                type="text"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                onBlur={handleTextBlur}
+                className={`${inputClass} text-base font-medium`}
+                aria-label="Title"
+              />
+            </div>
+
+            {/* Description */}
+            <div>
+              <label htmlFor="task-detail-description" className="block text-sm font-medium mb-1">
+                Description
+              </label>
+              <textarea
+                id="task-detail-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                onBlur={handleTextBlur}
+                placeholder="Add more details..."
+                rows={4}
+                className={`${inputClass} resize-y`}
+              />
+            </div>
+
+            {/* Priority */}
+            <div>
+              <span className="block text-sm font-medium mb-1">Priority</span>
+              <div className="flex gap-1" role="group" aria-label="Priority">
+                {PRIORITIES.map(priority => (
+                  <button
+                    key={priority}
+                    type="button"
+                    onClick={() => priority !== task.priority && handleFieldChange({ priority })}
+                    aria-pressed={task.priority === priority}
+                    className={`flex-1 px-2 py-1 text-xs rounded-md border transition-colors ${task.priority === priority
+                      ? 'bg-accent text-background border-accent'
+                      : 'border-border text-muted-foreground hover:bg-accent/10'}`}
+                  >
+                    {priority.charAt(0).toUpperCase() + priority.slice(1)}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Start date */}
+            <div>
+              <label htmlFor="task-detail-start" className="block text-sm font-medium mb-1">
+                Start date
+              </label>
+              <input
+                id="task-detail-start"
+                type="date"
+                value={task.startDate || ''}
+                onChange={(e) => handleFieldChange({ startDate: e.target.value || undefined })}
+                className={inputClass}
+              />
+            </div>
+
+            {/* Due date */}
+            <div>
+              <label htmlFor="task-detail-due" className="block text-sm font-medium mb-1">
+                Due date
+              </label>
+              <input
+                id="task-detail-due"
+                type="date"
+                value={task.dueDate || ''}
+                onChange={(e) => handleFieldChange({ dueDate: e.target.value || undefined })}
+                className={inputClass}
+              />
+            </div>
+
+            {/* Reminder */}
+            <div>
+              <label htmlFor="task-detail-reminder" className="block text-sm font-medium mb-1">
+                Reminder
+              </label>
+              <input
+                id="task-detail-reminder"
+                type="datetime-local"
+                value={toDateTimeInputValue(task.reminderAt)}
+                onChange={(e) => handleReminderChange(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+
+            {/* Someday */}
+            <label className="flex items-center gap-2 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!!task.someday}
+                onChange={(e) => handleFieldChange({ someday: e.target.checked })}
+              />
+              Someday
+              <span className="text-xs text-muted-foreground">(kept out of Anytime until you pick it up)</span>
+            </label>
+
+            {/* Area/Project */}
+            <div>
+              <label htmlFor="task-detail-list" className="block text-sm font-medium mb-1">
+                Area/Project
+              </label>
+              <select
+                id="task-detail-list"
+                value={task.listId || ''}
+                onChange={(e) => handleFieldChange({ listId: e.target.value || undefined })}
+                className={inputClass}
+              >
+                <option value="">None (Inbox)</option>
+                {areas.length > 0 && (
+                  <optgroup label="Areas">
+                    {areas.map(area => (
+                      <option key={area.key} value={area.key}>{area.title}</option>
+                    ))}
+                  </optgroup>
+                )}
+                {projects.length > 0 && (
+                  <optgroup label="Projects">
+                    {projects.map(project => (
+                      <option key={project.key} value={project.key}>{project.title}</option>
+                    ))}
+                  </optgroup>
+                )}
+              </select>
+            </div>
+
+            {/* Tags */}
+            <div>
+              <label htmlFor="task-detail-tags" className="block text-sm font-medium mb-1">
+                Tags (comma-separated)
+              </label>
+              <TagInput
+                id="task-detail-tags"
+                value={tags}
+                onChange={setTags}
+                tags={config.tags ?? []}
+                onBlur={handleTextBlur}
+                className={inputClass}
+              />
+            </div>
+
+            {/* Repeat */}
+            <RepeatPicker
+              idPrefix="task-detail"
+              value={task.recurrence}
+              onChange={(recurrence) => handleFieldChange({ recurrence })}
+              referenceDate={task.dueDate ? parseDate(task.dueDate) : undefined}
+            />
+
+            {/* Timestamps */}
+            <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 pt-4 border-t border-border text-xs text-muted-foreground">
+              <dt>Created</dt>
+              <dd title={task.createdAt}>{format(new Date(task.createdAt), 'PPp')}</dd>
+              <dt>Updated</dt>
+              <dd title={format(new Date(task.updatedAt), 'PPp')}>
+                {formatDistanceToNow(new Date(task.updatedAt), { addSuffix: true })}
+              </dd>
+              {task.completedAt && (
+                <>
+                  <dt>Completed</dt>
+                  <dd title={task.completedAt}>{format(new Date(task.completedAt), 'PPp')}</dd>
+                </>
+              )}
+            </dl>
+
+            {task.status !== 'archived' && (
+              <button
+                type="button"
+                onClick={handleArchive}
+                className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors"
+              >
+                <Archive className="w-4 h-4" aria-hidden="true" />
+                Archive task
+              </button>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* Full editor */}
+      {task && isEditorOpen && (
+        <EditTaskModal
+          task={task}
+          isOpen={true}
+          onClose={() => setIsEditorOpen(false)}
+          onSave={handleEditorSave}
+          onArchive={handleEditorArchive}
+          areas={areas}
+          projects={projects}
+          tags={config.tags ?? []}
+        />
+      )}
+
+      {conflict && (
+        <ConflictMergeDialog
+          conflict={conflict}
+          fields={TASK_MERGE_FIELDS}
+          onResolve={handleResolveConflict}
+          onClose={() => setConflict(null)}
+        />
+      )}
+    </aside>
+  )
+}
@@ -1,29 +1,40 @@
-import { useState, useEffect } from 'react'
+import { useEffect, useRef, useMemo } from 'react'
 import { DndContext, PointerSensor, KeyboardSensor, useSensor, useSensors } from '@dnd-kit/core'
 import type { DragEndEvent } from '@dnd-kit/core'
 import { SortableContext, arrayMove, verticalListSortingStrategy } from '@dnd-kit/sortable'
 import SortableTask from './sortable-task'
 import { QuickAddTask } from './quick-add-task'
-import { dataService } from '../services/dataService'
-import type { TaskData, UpdateTaskInput } from '../types/task'
-import type { SidebarItemData } from '../types/sidebar'
-import { filterTasksByList } from '../utils/taskFilters'
-import { EditTaskModal } from './edit-task-modal'
+import type { TaskData, TaskFilterCriteria, TaskSort } from '../types/task'
+import type { SearchTarget } from '../types/search'
+import { filterTasksByList, applyTaskFilters, getSubtasks, getStatusForFilterKey, EMPTY_FILTERS } from '../utils/taskFilters'
+import { DEFAULT_SORT, sortTasks } from '../utils/taskSort'
+import { formatLogbookDate, groupTasksByCompletionDate, sortLogbookTasks } from '../utils/logbook'
+import { usePendingSyncTaskIds } from '../hooks/usePendingSync'
+import { useAppStore } from '../hooks/useAppStore'
 
 interface TaskListProps {
     filterKey: number;
     selectedListId: string | null;
-    refreshKey?: number;
-    onCountsChange?: () => void | Promise<void>;
+    filters?: TaskFilterCriteria;
+    sort?: TaskSort;
+    searchTarget?: SearchTarget | null;
+    selectedTaskId?: string | null;
+    onTaskSelect?: (id: string) => void;
 }
 
-export default function TaskList({ filterKey, selectedListId, refreshKey, onCountsChange }: TaskListProps) {
-    const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
-    const [tasks, setTasks] = useState<TaskData[]>([]);
-    const [isLoading, setIsLoading] = useState(true);
-    const [editingTask, setEditingTask] = useState<TaskData | null>(null);
-    const [areas, setAreas] = useState<SidebarItemData[]>([]);
-    const [projects, setProjects] = useState<SidebarItemData[]>([]);
+export default function TaskList({ filterKey, selectedListId, filters = EMPTY_FILTERS, sort = DEFAULT_SORT, searchTarget = null, selectedTaskId = null, onTaskSelect }: TaskListProps) {
+    // Every task comes from the store, which keeps it current; the list and subtasks are derived
+    const { state: { tasks: allTasks, tasksStatus, sidebar }, createTask, updateTask, reorderTasks } = useAppStore();
+    const isLoading = tasksStatus === 'idle' || tasksStatus === 'loading';
+    const pendingSyncTaskIds = usePendingSyncTaskIds();
+    // Task picked in search, waiting for the list to load
+    const pendingSearchTargetRef = useRef<SearchTarget | null>(null);
+
+    // The Logbook is grouped by completion date, so it has no manual order
+    const isLogbook = selectedListId === 'logbook';
+
+    // Drag-and-drop only makes sense when the list shows the manual order
+    const isManualSort = sort.field === 'manual' && !isLogbook;
 
     // Configure sensors for drag interaction
     const sensors = useSensors(
@@ -31,48 +42,40 @@ export default function TaskList({ filterKey, selectedListId, refreshKey, onCoun
         useSensor(KeyboardSensor)
     );
 
-    // Load sidebar config for areas/projects dropdown
+    // Filter by the selected list, the filter panel criteria and the status tab
+    // (status is applied last so subtasks of any status stay visible)
+    const tasks = useMemo(() => {
+        const status = getStatusForFilterKey(filterKey);
+
+        const filteredTasks = applyTaskFilters(filterTasksByList(allTasks, selectedListId, sidebar?.smartLists), filters)
+            .filter(task => !status || task.status === status);
+        return isLogbook ? sortLogbookTasks(filteredTasks, sort) : sortTasks(filteredTasks, sort);
+    }, [allTasks, filterKey, selectedListId, sidebar, filters, sort, isLogbook]);
+
+    const logbookGroups = useMemo(() => isLogbook ? groupTasksByCompletionDate(tasks) : null, [isLogbook, tasks]);
+
+    const subtasks = useMemo(() => allTasks.filter(task => task.parentId), [allTasks]);
+
+    const tagColors = useMemo(() => new Map(sidebar?.tags?.map(tag => [tag.name, tag.color])), [sidebar]);
+
+    // Scroll to a task picked in search once it's in the list
     useEffect(() => {
-        const config = dataService.getLocalSidebarConfig();
-        setAreas(config.areas || []);
-        setProjects(config.projects || []);
-    }, []);
+        if (searchTarget?.type === 'task') {
+            pendingSearchTargetRef.current = searchTarget;
+        }
+    }, [searchTarget]);
 
-    // Load tasks from service when filterKey, selectedListId, or refreshKey changes
     useEffect(() => {
-        const loadTasks = async () => {
-            try {
-                setIsLoading(true);
-
-                // Map filterKey to status parameter
-                let status: 'active' | 'completed' | undefined;
-                if (filterKey === 2) status = 'active';
-                if (filterKey === 3) status = 'completed';
-
-                // Fetch all tasks first, then filter client-side for smart lists
-                const fetchedTasks = await dataService.getTasks(undefined, status);
-
-                // Filter tasks based on selected list
-                const filteredTasks = filterTasksByList(fetchedTasks, selectedListId);
-
-                setTasks(filteredTasks);
-            } catch (error) {
-                console.error('Failed to load tasks:', error);
-            } finally {
-                setIsLoading(false);
-            }
-        };
+        const target = pendingSearchTargetRef.current;
+        if (!target || isLoading || !tasks.some(task => task.id === target.id)) return;
 
-        loadTasks();
-    }, [filterKey, selectedListId, refreshKey]);
+        pendingSearchTargetRef.current = null;
+        document.getElementById(`task-${target.id}`)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }, [searchTarget, tasks, isLoading]);
 
     const handleTaskClick = (id: string) => {
-        setSelectedTaskId(id);
-        // Open edit modal when task is clicked
-        const task = tasks.find(t => t.id === id);
-        if (task) {
-            setEditingTask(task);
-        }
+        // Selecting a task opens it in the detail panel
+        onTaskSelect?.(id);
     }
 
     const handleToggleComplete = async (id: string) => {
@@ -81,25 +84,63 @@ export default function TaskList({ filterKey, selectedListId, refreshKey, onCoun
             if (!task) return;
 
             const newStatus = task.status === 'completed' ? 'active' : 'completed';
-            const updatedTask = await dataService.updateTask(id, { status: newStatus });
-
-            setTasks(tasks.map(t =>
-                t.id === id ? updatedTask : t
-            ));
 
-            // Notify parent to refresh counts
-            if (onCountsChange) {
-                await onCountsChange();
+            // Offer to complete any open subtasks along with their parent
+            const openSubtasks = getSubtasks(subtasks, id).filter(subtask => subtask.status !== 'completed');
+            if (newStatus === 'completed' && openSubtasks.length > 0 &&
+                window.confirm(`Also complete ${openSubtasks.length} open subtask${openSubtasks.length === 1 ? '' : 's'}?`)) {
+                await Promise.all(
+                    openSubtasks.map(subtask => updateTask(subtask.id, { status: 'completed' }))
+                );
             }
+
+            await updateTask(id, { status: newStatus });
         } catch (error) {
             console.error('Failed to toggle task completion:', error);
         }
     }
 
+    const handleToggleSubtask = async (id: string) => {
+        try {
+            const subtask = subtasks.find(t => t.id === id);
+            if (!subtask) return;
+
+            const newStatus = subtask.status === 'completed' ? 'active' : 'completed';
+            await updateTask(id, { status: newStatus });
+        } catch (error) {
+            console.error('Failed to toggle subtask completion:', error);
+        }
+    }
+
+    const handleAddSubtask = async (parentId: string, title: string) => {
+        try {
+            const parent = tasks.find(t => t.id === parentId);
+            await createTask({
+                title,
+                parentId,
+                listId: parent?.listId,
+                priority: parent?.priority,
+                status: 'active'
+            });
+        } catch (error) {
+            console.error('Failed to add subtask:', error);
+            throw error;
+        }
+    }
+
+    const handleReorderSubtasks = async (parentId: string, subtaskIds: string[]) => {
+        try {
+            // The store shows the new order right away and reverts it if saving fails
+            await reorderTasks(subtaskIds);
+        } catch (error) {
+            console.error(`Failed to reorder subtasks of ${parentId}:`, error);
+        }
+    };
+
     const handleDragEnd = async (event: DragEndEvent) => {
         const { active, over } = event;
 
-        if (!over || active.id === over.id) {
+        if (!isManualSort || !over || active.id === over.id) {
             return; // No change needed
         }
 
@@ -107,51 +148,47 @@ export default function TaskList({ filterKey, selectedListId, refreshKey, onCoun
         const oldIndex = tasks.findIndex(task => task.id === active.id);
         const newIndex = tasks.findIndex(task => task.id === over.id);
 
-        // Reorder the tasks array
-        const reorderedTasks = arrayMove(tasks, oldIndex, newIndex);
-
-        // Optimistically update UI
-        setTasks(reorderedTasks);
+        // Reorder the visible tasks
+        const taskIds = arrayMove(tasks, oldIndex, newIndex).map(task => task.id);
 
         try {
-            // Persist the new order to the backend
-            const taskIds = reorderedTasks.map(task => task.id);
-            await dataService.reorderTasks(taskIds);
-
-            // Refresh counts if needed
-            if (onCountsChange) {
-                await onCountsChange();
-            }
+            // Shown right away and reverted by the store if saving fails
+            await reorderTasks(taskIds);
         } catch (error) {
             console.error('Failed to reorder tasks:', error);
-            // Revert on error
-            setTasks(tasks);
         }
     };
 
-    const handleSave = async (updates: UpdateTaskInput) => {
-        if (!editingTask) return;
-
-        await dataService.updateTask(editingTask.id, updates);
-        setEditingTask(null);
-
-        // Refresh counts and task list
-        if (onCountsChange) {
-            await onCountsChange();
-        }
-    };
-
-    const handleArchive = async (taskId: string) => {
-        await dataService.updateTask(taskId, { status: 'archived' });
-        setEditingTask(null);
-
-        // Refresh counts and task list
-        if (onCountsChange) {
-            await onCountsChange();
-        }
-    };
+    const renderTask = (task: TaskData) => (
+        <li key={task.id} id={`task-${task.id}`} className="w-full">
+            <SortableTask
+                id={task.id}
+                title={task.title}
+                description={task.description}
+                dueDate={task.dueDate}
+                startDate={task.startDate}
+                recurrence={task.recurrence}
+                tags={task.tags?.map(tag => ({ label: tag, color: tagColors.get(tag) }))}
+                completed={task.status === 'completed'}
+                selected={selectedTaskId === task.id}
+                pendingSync={pendingSyncTaskIds.has(task.id)}
+                onclick={handleTaskClick}
+                onToggleComplete={handleToggleComplete}
+                subtasks={getSubtasks(subtasks, task.id).map(subtask => ({
+                    id: subtask.id,
+                    title: subtask.title,
+                    completed: subtask.status === 'completed'
+                }))}
+                onToggleSubtask={handleToggleSubtask}
+                onReorderSubtasks={handleReorderSubtasks}
+                onAddSubtask={handleAddSubtask}
+                dragDisabled={!isManualSort}
+            />
+        </li>
+    );
 
-    if (isLoading) {
+    // Only show the placeholder on first load so refreshes (e.g. detail panel autosave) don't blank the list
+    if (isLoading && tasks.length === 0) {
         return <div className="text-muted-foreground p-4">Loading tasks...</div>;
     }
 
@@ -161,10 +198,7 @@ export default function TaskList({ filterKey, selectedListId, refreshKey, onCoun
             <div className="sticky top-0 z-10 pointer-events-none">
                 {/* QuickAddTask container */}
                 <div className='bg-background/50 backdrop-blur-sm px-4 pt-4 pb-0 pointer-events-auto'>
-                    <QuickAddTask
-                        selectedListId={selectedListId}
-                        onTaskCreated={onCountsChange || (() => {})}
-                    />
+                    <QuickAddTask selectedListId={selectedListId} />
                 </div>
                 {/* Gradient fade to soften the edge */}
                 <div className='h-4 bg-gradient-to-b from-background/50 to-transparent'></div>
@@ -172,39 +206,23 @@ export default function TaskList({ filterKey, selectedListId, refreshKey, onCoun
 
             {/* Task list */}
             <DndContext sensors={sensors} onDragEnd={handleDragEnd}>
-                <SortableContext items={tasks.map(task => task.id)} strategy={verticalListSortingStrategy}>
-                    <ul role="list" aria-label="Tasks" className="w-full">
-                        {tasks.map(task => (
-                            <li key={task.id} className="w-full">
-                                <SortableTask
-                                    id={task.id}
-                                    title={task.title}
-                                    description={task.description}
-                                    dueDate={task.dueDate}
-                                    tags={task.tags?.map(tag => ({ label: tag, theme: 'emerald' as const }))}
-                                    completed={task.status === 'completed'}
-                                    selected={selectedTaskId === task.id}
-                                    onclick={handleTaskClick}
-                                    onToggleComplete={handleToggleComplete}
-                                />
-                            </li>
-                        ))}
-                    </ul>
+                <SortableContext items={tasks.map(task => task.id)} strategy={verticalListSortingStrategy} disabled={!isManualSort}>
+                    {logbookGroups ? logbookGroups.map(group => (
+                        <section key={group.date} aria-labelledby={`logbook-${group.date}`}>
+                            <h3 id={`logbook-${group.date}`} className="px-2 pt-4 pb-1 text-sm font-medium text-muted-foreground">
+                                {formatLogbookDate(group.date)}
+                            </h3>
+                            <ul role="list" aria-label={`Tasks completed ${formatLogbookDate(group.date)}`} className="w-full">
+                                {group.tasks.map(renderTask)}
+                            </ul>
+                        </section>
+                    )) : (
+                        <ul role="list" aria-label="Tasks" className="w-full">
+                            {tasks.map(renderTask)}
+                        </ul>
+                    )}
                 </SortableContext>
             </DndContext>
-
-            {/* Edit Task Modal */}
-            {editingTask && (
-                <EditTaskModal
-                    task={editingTask}
-                    isOpen={true}
-                    onClose={() => setEditingTask(null)}
-                    onSave={handleSave}
-                    onArchive={handleArchive}
-                    areas={areas}
-                    projects={projects}
-                />
-            )}
         </>
     )
 }
\ No newline at end of file
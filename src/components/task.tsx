@@ -1,8 +1,13 @@
-import { Circle, CircleCheckBig } from "lucide-react"
+import { Circle, CircleCheckBig, CloudUpload, ListChecks, Repeat } from "lucide-react"
+import { SubtaskList, type SubtaskItem } from "./subtask-list"
+import type { RecurrenceRule } from "../types/task"
+import type { TagColor } from "../types/tags"
+import { describeRecurrence } from "../utils/recurrence"
+import { DEFAULT_TAG_COLOR, TAG_COLOR_CLASSES } from "../utils/tags"
 
     type Tag = {
         label: string;
-        theme?: 'emerald' | 'purple';
+        color?: TagColor;
     }
 
     export type TaskProps = {
@@ -10,16 +15,24 @@ import { Circle, CircleCheckBig } from "lucide-react"
         title: string;
         description?: string;
         dueDate?: string;
+        startDate?: string;
+        recurrence?: RecurrenceRule;
         assignee?: string;
         tags?: Tag[];
         completed?: boolean;
         selected?: boolean;
+        pendingSync?: boolean; // Has changes made offline that haven't reached the server yet
         onclick?: (id: string) => void;
         onToggleComplete?: (id: string) => void;
         dragHandle?: React.ReactNode;
+        subtasks?: SubtaskItem[];
+        onToggleSubtask?: (id: string) => void;
+        onReorderSubtasks?: (parentId: string, subtaskIds: string[]) => void;
+        onAddSubtask?: (parentId: string, title: string) => Promise<void>;
     }
 
-export default function Task({ id, title, description, dueDate, assignee, tags, completed, selected, onclick, onToggleComplete, dragHandle }: TaskProps) {
+export default function Task({ id, title, description, dueDate, startDate, recurrence, assignee, tags, completed, selected, pendingSync, onclick, onToggleComplete, dragHandle, subtasks = [], onToggleSubtask, onReorderSubtasks, onAddSubtask }: TaskProps) {
+    const completedSubtasks = subtasks.filter(subtask => subtask.completed).length;
 
     const handleCircleClick = (e: React.MouseEvent) => {
         e.stopPropagation(); // Prevent triggering the task selection
@@ -52,19 +65,38 @@ export default function Task({ id, title, description, dueDate, assignee, tags,
                     {completed ? <CircleCheckBig className="text-accent" aria-hidden="true" /> : <Circle aria-hidden="true" />}
                 </button>
                 <div className='flex-1'>
-                    <h4 className='font-medium'>{title}</h4>
+                    <div className='flex items-center gap-2'>
+                        <h4 className='font-medium'>{title}</h4>
+                        {pendingSync && (
+                            <span className='flex items-center gap-1 text-xs text-muted-foreground' title="Saved offline, waiting to sync">
+                                <CloudUpload className='w-3 h-3' aria-hidden="true" />
+                                Pending sync
+                            </span>
+                        )}
+                    </div>
                     {description && <p className='text-sm mt-1 text-muted-foreground'>{description}</p>}
                     <div className='flex items-center gap-4 mt-2'>
+                        {startDate && <span className='text-sm text-muted-foreground'>Starts: {startDate}</span>}
                         {dueDate && <span className='text-sm text-muted-foreground'>Due: {dueDate}</span>}
+                        {recurrence && (
+                            <span className='flex items-center gap-1 text-sm text-muted-foreground' title={describeRecurrence(recurrence)}>
+                                <Repeat className='w-4 h-4' aria-hidden="true" />
+                                <span className='sr-only'>Repeats: </span>{describeRecurrence(recurrence)}
+                            </span>
+                        )}
+                        {subtasks.length > 0 && (
+                            <span className='flex items-center gap-1 text-sm text-muted-foreground' aria-label={`${completedSubtasks} of ${subtasks.length} subtasks complete`}>
+                                <ListChecks className='w-4 h-4' aria-hidden="true" />
+                                {completedSubtasks}/{subtasks.length}
+                            </span>
+                        )}
                         {assignee && <span className='text-sm text-muted-foreground'>👤 {assignee}</span>}
                         {tags && tags.length > 0 && (
                             <div role="list" aria-label="Task tags">
                                 {tags.map(tag => {
-                                    const themeClasses = tag.theme === 'purple'
-                                        ? 'bg-tag-purple text-purpureus'
-                                        : 'bg-glow-emerald text-emerald';
+                                    const colorClasses = TAG_COLOR_CLASSES[tag.color ?? DEFAULT_TAG_COLOR].chip;
                                     return (
-                                        <span key={tag.label} className={`${themeClasses} p-1.5 rounded-2xl text-xs`} role="listitem">
+                                        <span key={tag.label} className={`${colorClasses} p-1.5 rounded-2xl text-xs`} role="listitem">
                                             {tag.label}
                                         </span>
                                     );
@@ -72,7 +104,15 @@ export default function Task({ id, title, description, dueDate, assignee, tags,
                             </div>
                         )}
                     </div>
-
+                    {(subtasks.length > 0 || selected) && (
+                        <SubtaskList
+                            parentTitle={title}
+                            subtasks={subtasks}
+                            onToggle={onToggleSubtask}
+                            onReorder={(subtaskIds) => onReorderSubtasks?.(id, subtaskIds)}
+                            onAdd={onAddSubtask ? (subtaskTitle) => onAddSubtask(id, subtaskTitle) : undefined}
+                        />
+                    )}
                 </div>
             </div>
         </article>
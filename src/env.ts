@@ -8,12 +8,14 @@ import { z } from 'zod';
 const envSchema = z.object({
   VITE_USE_API: z.string().optional().default('false'),
   VITE_API_BASE_URL: z.string().url().optional().default('http://localhost:3000/api'),
+  VITE_LOCAL_STORAGE: z.enum(['localStorage', 'indexedDB']).optional().default('localStorage'),
 });
 
 // Validate environment variables at module load time
 const parseResult = envSchema.safeParse({
   VITE_USE_API: import.meta.env.VITE_USE_API,
   VITE_API_BASE_URL: import.meta.env.VITE_API_BASE_URL,
+  VITE_LOCAL_STORAGE: import.meta.env.VITE_LOCAL_STORAGE,
 });
 
 if (!parseResult.success) {
@@ -37,6 +39,11 @@ export const ENV = {
    * Base URL for API endpoints
    */
   API_BASE_URL: env.VITE_API_BASE_URL,
+
+  /**
+   * Browser storage used in local mode
+   */
+  LOCAL_STORAGE: env.VITE_LOCAL_STORAGE,
 } as const;
 
 /**
@@ -0,0 +1,14 @@
+import { useContext } from 'react'
+import { AppStoreContext, type AppStore } from '../store/appStoreContext'
+
+/**
+ * Shared tasks, sidebar config and notes, with optimistic mutations
+ * Must be used inside AppStoreProvider.
+ */
+export function useAppStore(): AppStore {
+  const store = useContext(AppStoreContext)
+  if (!store) {
+    throw new Error('useAppStore must be used within an AppStoreProvider')
+  }
+  return store
+}
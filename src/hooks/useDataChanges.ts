@@ -0,0 +1,19 @@
+import { useEffect, useRef } from 'react'
+import { dataService } from '../services/dataService'
+import type { DataChangeListener } from '../types/dataChanges'
+
+/**
+ * Calls the listener with every change made through the data service
+ * The latest listener is always used, so it can read current state without resubscribing.
+ */
+export function useDataChanges(listener: DataChangeListener): void {
+  const listenerRef = useRef(listener)
+
+  useEffect(() => {
+    listenerRef.current = listener
+  })
+
+  useEffect(() => {
+    return dataService.subscribe(event => listenerRef.current(event))
+  }, [])
+}
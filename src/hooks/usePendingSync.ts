@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react'
+import { dataService } from '../services/dataService'
+
+/**
+ * IDs of tasks whose changes are still waiting to reach the server
+ * Updates as changes are queued offline and synced again
+ */
+export function usePendingSyncTaskIds(): Set<string> {
+  const [taskIds, setTaskIds] = useState(() => new Set(dataService.getPendingSyncTaskIds()))
+
+  useEffect(() => {
+    return dataService.onSyncStateChange(() => {
+      setTaskIds(new Set(dataService.getPendingSyncTaskIds()))
+    })
+  }, [])
+
+  return taskIds
+}
@@ -0,0 +1,42 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { ReminderScheduler } from '../services/ReminderScheduler'
+import { showInfo } from '../lib/toastUtils'
+import { groupReminders } from '../utils/reminders'
+import { useAppStore } from './useAppStore'
+import type { TaskData } from '../types/task'
+
+/**
+ * Sends task reminders while the app is open and lists them for the Bell panel
+ * Reminders show as desktop notifications when allowed, and as toasts otherwise.
+ * @param onOpenTask - Called with the task ID when a reminder notification is clicked
+ */
+export function useReminders(onOpenTask?: (taskId: string) => void): { past: TaskData[]; upcoming: TaskData[] } {
+  const { state: { tasks } } = useAppStore()
+  const [scheduler] = useState(() => new ReminderScheduler())
+  // When a reminder last went off, so it moves from upcoming to past
+  const [now, setNow] = useState(() => new Date())
+  const onOpenTaskRef = useRef(onOpenTask)
+
+  useEffect(() => {
+    onOpenTaskRef.current = onOpenTask
+  })
+
+  useEffect(() => {
+    const unsubscribe = scheduler.subscribe((task, notified) => {
+      setNow(new Date())
+      if (!notified) showInfo(`Reminder: ${task.title}`)
+    })
+    const unsubscribeClick = scheduler.onNotificationClick(task => onOpenTaskRef.current?.(task.id))
+    return () => {
+      unsubscribe()
+      unsubscribeClick()
+      scheduler.stop()
+    }
+  }, [scheduler])
+
+  useEffect(() => {
+    scheduler.schedule(tasks)
+  }, [scheduler, tasks])
+
+  return useMemo(() => groupReminders(tasks, now), [tasks, now])
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { useSelectedTaskUrl, getTaskIdFromUrl } from './useSelectedTaskUrl'
+
+describe('useSelectedTaskUrl', () => {
+  beforeEach(() => {
+    window.history.replaceState(null, '', '/')
+  })
+
+  it('should start from the task in the URL', () => {
+    window.history.replaceState(null, '', '/?task=abc')
+
+    const { result } = renderHook(() => useSelectedTaskUrl())
+
+    expect(result.current[0]).toBe('abc')
+  })
+
+  it('should write the selected task to the URL and remove it on close', () => {
+    const { result } = renderHook(() => useSelectedTaskUrl())
+
+    act(() => result.current[1]('task-1'))
+    expect(result.current[0]).toBe('task-1')
+    expect(getTaskIdFromUrl()).toBe('task-1')
+
+    act(() => result.current[1](null))
+    expect(result.current[0]).toBeNull()
+    expect(getTaskIdFromUrl()).toBeNull()
+  })
+
+  it('should follow browser navigation', () => {
+    const { result } = renderHook(() => useSelectedTaskUrl())
+
+    act(() => {
+      window.history.replaceState(null, '', '/?task=from-history')
+      window.dispatchEvent(new PopStateEvent('popstate'))
+    })
+
+    expect(result.current[0]).toBe('from-history')
+  })
+})
@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useState } from 'react'
+
+const TASK_PARAM = 'task'
+
+/**
+ * Read the selected task ID from the `?task=` query parameter
+ */
+export function getTaskIdFromUrl(): string | null {
+  return new URLSearchParams(window.location.search).get(TASK_PARAM)
+}
+
+/**
+ * Selected task ID kept in the URL so the task detail panel can be linked to
+ * Selecting a task pushes a history entry, so Back closes or switches the panel
+ */
+export function useSelectedTaskUrl(): [string | null, (taskId: string | null) => void] {
+  const [taskId, setTaskId] = useState<string | null>(getTaskIdFromUrl)
+
+  // Follow browser back/forward navigation
+  useEffect(() => {
+    const handlePopState = () => setTaskId(getTaskIdFromUrl())
+    window.addEventListener('popstate', handlePopState)
+    return () => window.removeEventListener('popstate', handlePopState)
+  }, [])
+
+  const selectTask = useCallback((nextTaskId: string | null) => {
+    if (nextTaskId === getTaskIdFromUrl()) return
+
+    const url = new URL(window.location.href)
+    if (nextTaskId) {
+      url.searchParams.set(TASK_PARAM, nextTaskId)
+    } else {
+      url.searchParams.delete(TASK_PARAM)
+    }
+    window.history.pushState(null, '', url)
+    setTaskId(nextTaskId)
+  }, [])
+
+  return [taskId, selectTask]
+}
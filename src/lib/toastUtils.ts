@@ -35,6 +35,18 @@ export function showWarning(message: string) {
   sonnerToast.warning(message);
 }
 
+/**
+ * Toast notification with an "Undo" button, for destructive actions
+ */
+export function showUndo(message: string, onUndo: () => void) {
+  sonnerToast(message, {
+    action: {
+      label: 'Undo',
+      onClick: onUndo,
+    },
+  });
+}
+
 /**
  * Loading toast notification
  * Returns a promise that resolves when the promise completes
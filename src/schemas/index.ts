@@ -12,6 +12,22 @@ export type Priority = z.infer<typeof PrioritySchema>;
 export const TaskStatusSchema = z.enum(['active', 'completed', 'archived']);
 export type TaskStatus = z.infer<typeof TaskStatusSchema>;
 
+// Repeat rule for recurring tasks
+// - daily: every `interval` days
+// - weekly: every `interval` weeks on the given `weekdays` (0 = Sunday)
+// - monthly: every `interval` months on `dayOfMonth` (clamped to the month length)
+// - after_completion: `interval` days after the task is completed
+export const RecurrenceFrequencySchema = z.enum(['daily', 'weekly', 'monthly', 'after_completion']);
+export type RecurrenceFrequency = z.infer<typeof RecurrenceFrequencySchema>;
+
+export const RecurrenceRuleSchema = z.object({
+  frequency: RecurrenceFrequencySchema,
+  interval: z.number().int().positive(),
+  weekdays: z.array(z.number().int().min(0).max(6)).optional(),
+  dayOfMonth: z.number().int().min(1).max(31).optional(),
+});
+export type RecurrenceRule = z.infer<typeof RecurrenceRuleSchema>;
+
 export const TaskDataSchema = z.object({
   id: z.string(),
   title: z.string(),
@@ -19,9 +35,15 @@ export const TaskDataSchema = z.object({
   priority: PrioritySchema,
   status: TaskStatusSchema,
   dueDate: z.string().optional(),
+  startDate: z.string().optional(),
+  reminderAt: z.string().optional(),
   order: z.number().optional(),
   listId: z.string().optional(),
+  parentId: z.string().optional(),
+  recurrence: RecurrenceRuleSchema.optional(),
   tags: z.array(z.string()).optional(),
+  someday: z.boolean().optional(),
+  completedAt: z.string().optional(),
   createdAt: z.string(),
   updatedAt: z.string(),
 });
@@ -32,9 +54,14 @@ export const CreateTaskInputSchema = z.object({
   priority: PrioritySchema.optional(),
   status: TaskStatusSchema.optional(),
   dueDate: z.string().optional(),
+  startDate: z.string().optional(),
+  reminderAt: z.string().optional(),
   order: z.number().optional(),
   listId: z.string().optional(),
+  parentId: z.string().optional(),
+  recurrence: RecurrenceRuleSchema.optional(),
   tags: z.array(z.string()).optional(),
+  someday: z.boolean().optional(),
 });
 
 export const UpdateTaskInputSchema = z.object({
@@ -43,10 +70,46 @@ export const UpdateTaskInputSchema = z.object({
   priority: PrioritySchema.optional(),
   status: TaskStatusSchema.optional(),
   dueDate: z.string().optional(),
+  startDate: z.string().optional(),
+  reminderAt: z.string().optional(),
   order: z.number().optional(),
   listId: z.string().optional(),
+  parentId: z.string().optional(),
+  recurrence: RecurrenceRuleSchema.optional(),
   tags: z.array(z.string()).optional(),
+  someday: z.boolean().optional(),
+});
+
+// Task filter criteria - categories combine with AND, values within a category with OR
+export const DueDateWindowSchema = z.enum(['overdue', 'today', 'next_7_days', 'next_30_days', 'no_date', 'custom']);
+export type DueDateWindow = z.infer<typeof DueDateWindowSchema>;
+
+export const TaskFilterCriteriaSchema = z.object({
+  text: z.string().optional(),
+  priorities: z.array(PrioritySchema).optional(),
+  statuses: z.array(TaskStatusSchema).optional(),
+  tags: z.array(z.string()).optional(),
+  listIds: z.array(z.string()).optional(),
+  dueDate: z.object({
+    window: DueDateWindowSchema,
+    from: z.string().optional(), // YYYY-MM-DD, only used by the custom window
+    to: z.string().optional(),
+  }).optional(),
+});
+export type TaskFilterCriteria = z.infer<typeof TaskFilterCriteriaSchema>;
+
+// Task list sort modes; 'manual' uses the drag-and-drop order field
+export const TaskSortFieldSchema = z.enum(['manual', 'dueDate', 'priority', 'createdAt', 'updatedAt', 'title']);
+export type TaskSortField = z.infer<typeof TaskSortFieldSchema>;
+
+export const SortDirectionSchema = z.enum(['asc', 'desc']);
+export type SortDirection = z.infer<typeof SortDirectionSchema>;
+
+export const TaskSortSchema = z.object({
+  field: TaskSortFieldSchema,
+  direction: SortDirectionSchema,
 });
+export type TaskSort = z.infer<typeof TaskSortSchema>;
 
 export const TaskCountsSchema = z.object({
   all: z.number(),
@@ -61,6 +124,8 @@ export type { IconName } from '../utils/iconMapper';
 // Zod schema for icon names - must match iconMapper.ts
 export const IconNameSchema = z.enum([
   'Activity',
+  'Archive',
+  'BookCheck',
   'Briefcase',
   'Calendar',
   'CalendarDays',
@@ -69,12 +134,30 @@ export const IconNameSchema = z.enum([
   'Globe',
   'House',
   'Inbox',
+  'Layers',
   'Megaphone',
   'Smartphone',
   'Tag',
   'TriangleAlert',
 ]);
 
+// Notes schemas
+export const NoteSectionSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  content: z.string(),
+  order: z.number(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const JournalEntrySchema = z.object({
+  id: z.string(),
+  content: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
 // Sidebar schemas
 export const SidebarItemDataSchema = z.object({
   key: z.string(),
@@ -85,13 +168,100 @@ export const SidebarItemDataSchema = z.object({
   priority: PrioritySchema,
   dueDate: z.string().optional(),
   showCount: z.boolean().optional(),
+  sections: z.array(NoteSectionSchema).optional(),
+  journal: z.array(JournalEntrySchema).optional(),
+  archived: z.boolean().optional(),
+  filter: TaskFilterCriteriaSchema.optional(),
 });
 
+// Tag schemas
+export const TagColorSchema = z.enum(['emerald', 'purple', 'blue', 'amber', 'rose', 'gray']);
+export type TagColor = z.infer<typeof TagColorSchema>;
+
+export const TagDataSchema = z.object({
+  name: z.string(),
+  color: TagColorSchema,
+  parent: z.string().optional(),
+});
+export type TagData = z.infer<typeof TagDataSchema>;
+
 export const SidebarConfigDataSchema = z.object({
   smartLists: z.array(SidebarItemDataSchema),
   areas: z.array(SidebarItemDataSchema),
   projects: z.array(SidebarItemDataSchema),
+  tags: z.array(TagDataSchema).optional(),
+});
+
+// Full-workspace backup (see utils/backup.ts for versioning)
+export const WorkspaceBackupSchema = z.object({
+  app: z.literal('front-end-poc'),
+  version: z.number().int().positive(),
+  exportedAt: z.string(),
+  sidebar: SidebarConfigDataSchema,
+  tasks: z.array(TaskDataSchema),
+});
+export type WorkspaceBackup = z.infer<typeof WorkspaceBackupSchema>;
+
+// Search results, grouped by type
+export const SearchResultsSchema = z.object({
+  tasks: z.array(TaskDataSchema),
+  sections: z.array(z.object({
+    listId: z.string(),
+    listTitle: z.string(),
+    section: NoteSectionSchema,
+  })),
+  journalEntries: z.array(z.object({
+    listId: z.string(),
+    listTitle: z.string(),
+    entry: JournalEntrySchema,
+  })),
+});
+
+// Offline outbox - task mutations recorded while offline, replayed in order once back online
+// Task IDs may be temporary client IDs until the matching create has been synced
+export const OutboxMutationSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('create'), taskId: z.string(), input: CreateTaskInputSchema }),
+  // version: the server version the change was made against, sent as If-Match (later changes to the same task
+  // leave it out and use whatever version replaying the earlier ones returned)
+  // clearRecurrence: the update completes a recurring task, whose repeat rule moved to the next occurrence
+  z.object({
+    type: z.literal('update'),
+    taskId: z.string(),
+    updates: UpdateTaskInputSchema,
+    version: z.string().optional(),
+    clearRecurrence: z.boolean().optional(),
+  }),
+  z.object({ type: z.literal('delete'), taskId: z.string() }),
+  z.object({ type: z.literal('reorder'), taskIds: z.array(z.string()) }),
+]);
+export type OutboxMutation = z.infer<typeof OutboxMutationSchema>;
+
+export const OutboxEntrySchema = z.object({
+  id: z.string(),
+  createdAt: z.string(),
+  mutation: OutboxMutationSchema,
+});
+export type OutboxEntry = z.infer<typeof OutboxEntrySchema>;
+
+// A queued change the server rejected, kept aside instead of being lost
+export const FailedOutboxEntrySchema = OutboxEntrySchema.extend({
+  error: z.string(),
+  failedAt: z.string(),
+});
+export type FailedOutboxEntry = z.infer<typeof FailedOutboxEntrySchema>;
+
+export const OutboxStateSchema = z.object({
+  entries: z.array(OutboxEntrySchema),
+  idMap: z.record(z.string(), z.string()), // Temporary client ID -> server ID
+  failed: z.array(FailedOutboxEntrySchema).default([]), // Missing in outboxes saved before failures were kept
+});
+export type OutboxState = z.infer<typeof OutboxStateSchema>;
+
+// Reminders that have already gone off, by task ID and reminder time, so a reload doesn't repeat them
+export const ReminderLogSchema = z.object({
+  sent: z.array(z.string()),
 });
+export type ReminderLog = z.infer<typeof ReminderLogSchema>;
 
 // Export type inference for TypeScript
 export type TaskData = z.infer<typeof TaskDataSchema>;
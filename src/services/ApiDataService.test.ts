@@ -3,6 +3,8 @@ import { ApiDataService } from './ApiDataService'
 import type { CreateTaskInput, UpdateTaskInput } from '../types/task'
 import type { SidebarConfigData, SidebarItemData } from '../types/sidebar'
 import { ZodError } from 'zod'
+import { ApiError, ConflictError } from '../types/errors'
+import { SyncOutbox } from './SyncOutbox'
 
 describe('ApiDataService', () => {
   let service: ApiDataService
@@ -234,6 +236,142 @@ describe('ApiDataService', () => {
     })
   })
 
+  describe('list management', () => {
+    const work: SidebarItemData = {
+      key: 'work',
+      iconName: 'Briefcase',
+      title: 'Work',
+      count: 0,
+      priority: 'medium',
+      showCount: false
+    }
+
+    it('should update a list via PATCH and cache the result', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ ...work, title: 'Job' }) })
+
+      const list = await service.updateList('work', { title: 'Job' })
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        `${baseUrl}/lists/work`,
+        expect.objectContaining({ method: 'PATCH', body: JSON.stringify({ title: 'Job' }) })
+      )
+      expect(list.title).toBe('Job')
+      expect(service.getLocalSidebarConfig().areas.find(a => a.key === 'work')?.title).toBe('Job')
+    })
+
+    it('should archive a list and apply the task action to cached tasks', async () => {
+      const task = { id: 'task-1', title: 'Report', priority: 'medium', status: 'active', listId: 'work', createdAt: '2025-01-01T00:00:00Z', updatedAt: '2025-01-01T00:00:00Z' }
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => [task] })
+      await service.getTasks()
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ ...work, archived: true }) })
+
+      const list = await service.archiveList('work', 'archive')
+
+      const callArgs = mockFetch.mock.lastCall![1] as RequestInit
+      expect(mockFetch.mock.lastCall![0]).toBe(`${baseUrl}/lists/work/archive`)
+      expect(JSON.parse(callArgs.body as string)).toEqual({ taskAction: 'archive' })
+      expect(list.archived).toBe(true)
+
+      mockFetch.mockRejectedValueOnce(new Error('Network error'))
+      expect((await service.getTask('task-1'))?.status).toBe('archived')
+    })
+
+    it('should delete a list with the task action as a query parameter', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true })
+
+      await service.deleteList('work', 'move_to_inbox')
+
+      expect(mockFetch).toHaveBeenCalledWith(`${baseUrl}/lists/work?taskAction=move_to_inbox`, { method: 'DELETE' })
+      expect(service.getLocalSidebarConfig().areas.some(a => a.key === 'work')).toBe(false)
+    })
+
+    it('should throw error on failed list update', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 404, statusText: 'Not Found' })
+
+      await expect(service.updateList('missing', { title: 'Nope' })).rejects.toThrow('API request failed: 404 Not Found')
+    })
+  })
+
+  describe('smart lists', () => {
+    const urgent: SidebarItemData = {
+      key: 'urgent',
+      iconName: 'Layers',
+      title: 'Urgent',
+      count: 2,
+      priority: 'low',
+      showCount: true,
+      filter: { priorities: ['high'] }
+    }
+
+    it('should create a smart list via POST and cache it', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => urgent })
+
+      const list = await service.addSmartList('Urgent', { priorities: ['high'] })
+
+      const callArgs = mockFetch.mock.lastCall![1] as RequestInit
+      expect(mockFetch.mock.lastCall![0]).toBe(`${baseUrl}/smart-lists`)
+      expect(callArgs.method).toBe('POST')
+      expect(JSON.parse(callArgs.body as string)).toMatchObject({ title: 'Urgent', iconName: 'Layers', filter: { priorities: ['high'] } })
+      expect(list.filter).toEqual({ priorities: ['high'] })
+      expect(service.getLocalSidebarConfig().smartLists.some(l => l.key === 'urgent')).toBe(true)
+    })
+
+    it('should delete a smart list and drop it from the cache', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => urgent })
+      await service.addSmartList('Urgent', { priorities: ['high'] })
+      mockFetch.mockResolvedValueOnce({ ok: true })
+
+      await service.deleteSmartList('urgent')
+
+      expect(mockFetch).toHaveBeenLastCalledWith(`${baseUrl}/smart-lists/urgent`, { method: 'DELETE' })
+      expect(service.getLocalSidebarConfig().smartLists.some(l => l.key === 'urgent')).toBe(false)
+    })
+  })
+
+  describe('tags', () => {
+    it('should create a tag via POST and cache it', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ name: 'chores', color: 'blue' }) })
+
+      const tag = await service.createTag('chores', 'blue')
+
+      expect(mockFetch).toHaveBeenLastCalledWith(`${baseUrl}/tags`, expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ name: 'chores', color: 'blue' })
+      }))
+      expect(tag).toEqual({ name: 'chores', color: 'blue' })
+      expect(service.getLocalSidebarConfig().tags).toContainEqual({ name: 'chores', color: 'blue' })
+    })
+
+    it('should carry a renamed tag over to cached smart list filters', async () => {
+      const smartList = { key: 'errands', iconName: 'Layers', title: 'Errands', count: 0, priority: 'medium', showCount: true, filter: { tags: ['shopping'] } }
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => smartList })
+      await service.addSmartList('Errands', { tags: ['shopping'] })
+      const listener = vi.fn()
+      service.subscribe(listener)
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ name: 'groceries', color: 'emerald' }) })
+
+      await service.updateTag('shopping', { name: 'groceries' })
+
+      const cached = service.getLocalSidebarConfig().smartLists.find(l => l.key === 'errands')
+      expect(cached?.filter).toEqual({ tags: ['groceries'] })
+      expect(listener).toHaveBeenCalledWith({ type: 'list_updated', list: expect.objectContaining({ key: 'errands' }) })
+      expect(listener).toHaveBeenCalledWith({ type: 'tag_replaced', name: 'shopping', replacement: 'groceries' })
+    })
+
+    it('should send a null parent when un-nesting a tag', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ name: 'dishes', color: 'gray', parent: 'chores' }) })
+      await service.createTag('dishes', 'gray', 'chores')
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ name: 'dishes', color: 'gray' }) })
+
+      await service.updateTag('dishes', { parent: undefined })
+
+      const [url, init] = mockFetch.mock.lastCall as [string, RequestInit]
+      expect(url).toBe(`${baseUrl}/tags/dishes`)
+      expect(init.method).toBe('PATCH')
+      expect(JSON.parse(init.body as string)).toEqual({ parent: null })
+    })
+  })
+
   describe('getTasks', () => {
     it('should fetch tasks from API', async () => {
       const mockTasks = [
@@ -272,6 +410,19 @@ describe('ApiDataService', () => {
       )
     })
 
+    it('should include sort parameters for non-manual sort modes', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => []
+      })
+
+      await service.getTasks(undefined, undefined, undefined, undefined, { field: 'dueDate', direction: 'desc' })
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        `${baseUrl}/tasks?sort=dueDate&direction=desc`
+      )
+    })
+
     it('should fallback to cached data on API failure', async () => {
       // First populate cache
       const mockTasks = [
@@ -549,6 +700,16 @@ describe('ApiDataService', () => {
       const tasks = await service.getTasks()
       expect(tasks.some(t => t.id === '123')).toBe(true)
     })
+
+    it('should reject a subtask whose parent does not exist', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 404, statusText: 'Not Found' })
+
+      await expect(
+        service.createTask({ title: 'Orphan', parentId: 'non-existent' })
+      ).rejects.toThrow('Parent task with id non-existent not found')
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      expect(mockFetch).toHaveBeenCalledWith(`${baseUrl}/tasks/non-existent`)
+    })
   })
 
   describe('updateTask', () => {
@@ -583,6 +744,24 @@ describe('ApiDataService', () => {
       expect(task.title).toBe('Updated Title')
     })
 
+    it('should send cleared fields as null so the server clears them too', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          id: '123',
+          title: 'Report',
+          priority: 'medium',
+          status: 'active',
+          createdAt: '2025-01-01T00:00:00Z',
+          updatedAt: '2025-01-02T00:00:00Z'
+        })
+      })
+
+      await service.updateTask('123', { dueDate: undefined, title: 'Report' })
+
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual({ dueDate: null, title: 'Report' })
+    })
+
     it('should update cache after update', async () => {
       // First populate cache
       const initialTask = {
@@ -627,6 +806,203 @@ describe('ApiDataService', () => {
     })
   })
 
+  describe('conflict detection', () => {
+    const cachedTask = {
+      id: '123',
+      title: 'Original',
+      priority: 'medium' as const,
+      status: 'active' as const,
+      createdAt: '2025-01-01T00:00:00Z',
+      updatedAt: '2025-01-01T00:00:00Z'
+    }
+
+    const loadCache = async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => [cachedTask] })
+      await service.getTasks()
+    }
+
+    it('should send the cached updatedAt as If-Match', async () => {
+      await loadCache()
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ ...cachedTask, title: 'Mine' }) })
+
+      await service.updateTask('123', { title: 'Mine' })
+
+      expect(mockFetch.mock.calls[1][1].headers['If-Match']).toBe('"2025-01-01T00:00:00Z"')
+    })
+
+    it('should prefer the ETag the server sent', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers({ ETag: '"v7"' }),
+        json: async () => cachedTask
+      })
+      await service.getTask('123')
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => cachedTask })
+
+      await service.updateTask('123', { title: 'Mine' })
+
+      expect(mockFetch.mock.calls[1][1].headers['If-Match']).toBe('"v7"')
+    })
+
+    it('should throw a ConflictError with the remote copy when the version is stale', async () => {
+      await loadCache()
+      const remoteTask = { ...cachedTask, title: 'Theirs', updatedAt: '2025-01-03T00:00:00Z' }
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 412, statusText: 'Precondition Failed' })
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => remoteTask })
+
+      const error = await service.updateTask('123', { title: 'Mine' }).catch(e => e)
+
+      expect(error).toBeInstanceOf(ConflictError)
+      expect(error.localChanges).toEqual({ title: 'Mine' })
+      expect(error.remote).toEqual(remoteTask)
+    })
+
+    it('should announce the remote copy when the version is stale', async () => {
+      await loadCache()
+      const listener = vi.fn()
+      service.subscribe(listener)
+      const remoteTask = { ...cachedTask, title: 'Theirs', updatedAt: '2025-01-03T00:00:00Z' }
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 412, statusText: 'Precondition Failed' })
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => remoteTask })
+
+      await service.updateTask('123', { title: 'Mine' }).catch(() => {})
+
+      expect(listener).toHaveBeenCalledWith({ type: 'task_updated', task: remoteTask })
+    })
+
+    it('should retry with the remote version after a conflict', async () => {
+      await loadCache()
+      const remoteTask = { ...cachedTask, title: 'Theirs', updatedAt: '2025-01-03T00:00:00Z' }
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 409, statusText: 'Conflict' })
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => remoteTask })
+      await service.updateTask('123', { title: 'Mine' }).catch(() => {})
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ ...remoteTask, title: 'Mine' }) })
+
+      await service.updateTask('123', { title: 'Mine' })
+
+      expect(mockFetch.mock.calls[3][1].headers['If-Match']).toBe('"2025-01-03T00:00:00Z"')
+    })
+  })
+
+  describe('recurring tasks', () => {
+    const recurringTask = {
+      id: '123',
+      title: 'Take out trash',
+      priority: 'medium' as const,
+      status: 'completed' as const,
+      dueDate: '2025-01-06',
+      listId: 'home',
+      recurrence: { frequency: 'weekly' as const, interval: 1, weekdays: [1] },
+      createdAt: '2025-01-01T00:00:00Z',
+      updatedAt: '2025-01-06T00:00:00Z'
+    }
+
+    it('should create the next occurrence after completing a recurring task', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => recurringTask
+      })
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ ...recurringTask, recurrence: undefined })
+      })
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ ...recurringTask, id: '124', status: 'active', dueDate: '2025-01-13' })
+      })
+
+      await service.updateTask('123', { status: 'completed' })
+
+      expect(mockFetch).toHaveBeenCalledTimes(3)
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        `${baseUrl}/tasks`,
+        expect.objectContaining({ method: 'POST' })
+      )
+      const body = JSON.parse(mockFetch.mock.calls[2][1].body)
+      expect(body).toMatchObject({ title: 'Take out trash', status: 'active', dueDate: '2025-01-13', listId: 'home' })
+    })
+
+    it('should hand the repeat rule over to the next occurrence along with the checklist', async () => {
+      const openTask = { ...recurringTask, status: 'active' as const }
+      const step = { id: 's1', title: 'Sort recycling', priority: 'low' as const, status: 'completed' as const, parentId: '123', order: 0, createdAt: '2025-01-01T00:00:00Z', updatedAt: '2025-01-01T00:00:00Z' }
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => [openTask, step] })
+      await service.getTasks()
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ ...recurringTask, recurrence: undefined }) })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ ...openTask, id: '124', dueDate: '2025-01-13' }) })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ ...step, id: 's2', parentId: '124', status: 'active' }) })
+
+      const task = await service.updateTask('123', { status: 'completed' })
+
+      expect(task.recurrence).toBeUndefined()
+      const [patch, next, nextStep] = mockFetch.mock.calls.slice(1).map(([, init]) => JSON.parse(init.body))
+      expect(patch).toEqual({ status: 'completed', recurrence: null })
+      expect(next).toMatchObject({ title: 'Take out trash', dueDate: '2025-01-13', recurrence: recurringTask.recurrence })
+      expect(nextStep).toEqual({ title: 'Sort recycling', listId: 'home', priority: 'low', order: 0, status: 'active', parentId: '124' })
+    })
+
+    it('should clear the repeat rule the server kept when the task was not cached', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => recurringTask })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ ...recurringTask, recurrence: undefined }) })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ ...recurringTask, id: '124', status: 'active', dueDate: '2025-01-13' }) })
+
+      const task = await service.updateTask('123', { status: 'completed' })
+
+      expect(task.recurrence).toBeUndefined()
+      const [patch, clear, next] = mockFetch.mock.calls.map(([, init]) => JSON.parse(init.body))
+      expect(patch).toEqual({ status: 'completed' })
+      expect(clear).toEqual({ recurrence: null })
+      expect(next).toMatchObject({ dueDate: '2025-01-13', recurrence: recurringTask.recurrence })
+    })
+
+    it('should not create an occurrence when the repeat rule could not be cleared', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => recurringTask })
+        .mockResolvedValueOnce({ ok: false, status: 500, statusText: 'Internal Server Error' })
+
+      const task = await service.updateTask('123', { status: 'completed' })
+
+      expect(task.status).toBe('completed')
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('should not create an occurrence for other updates', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => recurringTask
+      })
+
+      await service.updateTask('123', { title: 'Take out trash' })
+
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('should still resolve when creating the next occurrence fails', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => recurringTask
+      })
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ ...recurringTask, recurrence: undefined })
+      })
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 500,
+        statusText: 'Internal Server Error'
+      })
+
+      const task = await service.updateTask('123', { status: 'completed' })
+
+      expect(task.status).toBe('completed')
+    })
+  })
+
   describe('deleteTask', () => {
     it('should delete task via API', async () => {
       mockFetch.mockResolvedValueOnce({
@@ -682,6 +1058,29 @@ describe('ApiDataService', () => {
       const task = await service.getTask('123')
       expect(task).toBeNull()
     })
+
+    it('should remove nested subtasks from the cache at any depth', async () => {
+      const task = (id: string, parentId?: string) => ({
+        id,
+        title: id,
+        priority: 'medium' as const,
+        status: 'active' as const,
+        parentId,
+        createdAt: '2025-01-01T00:00:00Z',
+        updatedAt: '2025-01-01T00:00:00Z'
+      })
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => [task('parent'), task('child', 'parent'), task('grandchild', 'child'), task('other')]
+      })
+      await service.getTasks()
+
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({}) })
+      await service.deleteTask('parent')
+
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 500, statusText: 'Internal Server Error' })
+      expect((await service.getTasks()).map(t => t.id)).toEqual(['other'])
+    })
   })
 
   describe('reorderTasks', () => {
@@ -756,6 +1155,526 @@ describe('ApiDataService', () => {
     })
   })
 
+  describe('search', () => {
+    it('should send the query to the server and validate the results', async () => {
+      const mockResults = {
+        tasks: [
+          {
+            id: '1',
+            title: 'Write launch post',
+            priority: 'medium',
+            status: 'active',
+            createdAt: '2025-01-01T00:00:00Z',
+            updatedAt: '2025-01-01T00:00:00Z'
+          }
+        ],
+        sections: [],
+        journalEntries: [
+          {
+            listId: 'website',
+            listTitle: 'Website',
+            entry: { id: 'j1', content: 'Launch went well', createdAt: '2025-01-01T00:00:00Z', updatedAt: '2025-01-01T00:00:00Z' }
+          }
+        ]
+      }
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockResults
+      })
+
+      const results = await service.search('launch post')
+
+      expect(mockFetch).toHaveBeenCalledWith(`${baseUrl}/search?q=launch+post`)
+      expect(results).toEqual(mockResults)
+    })
+
+    it('should not call the API for an empty query', async () => {
+      const results = await service.search('   ')
+
+      expect(mockFetch).not.toHaveBeenCalled()
+      expect(results).toEqual({ tasks: [], sections: [], journalEntries: [] })
+    })
+
+    it('should search cached tasks on API failure', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => [
+          {
+            id: '1',
+            title: 'Cached Task',
+            tags: ['errands'],
+            priority: 'medium',
+            status: 'active',
+            createdAt: '2025-01-01T00:00:00Z',
+            updatedAt: '2025-01-01T00:00:00Z'
+          }
+        ]
+      })
+      await service.getTasks()
+
+      mockFetch.mockRejectedValueOnce(new Error('Network error'))
+
+      const results = await service.search('errands')
+
+      expect(results.tasks.map(t => t.id)).toEqual(['1'])
+    })
+  })
+
+  describe('backup', () => {
+    const backup = {
+      app: 'front-end-poc',
+      version: 1,
+      exportedAt: '2025-01-31T10:00:00.000Z',
+      sidebar: { smartLists: [], areas: [], projects: [] },
+      tasks: [
+        {
+          id: '1',
+          title: 'Backed up',
+          priority: 'medium',
+          status: 'active',
+          createdAt: '2025-01-01T00:00:00Z',
+          updatedAt: '2025-01-01T00:00:00Z'
+        }
+      ]
+    } as const
+
+    it('should fetch and validate the backup document', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => backup
+      })
+
+      const result = await service.exportBackup()
+
+      expect(mockFetch).toHaveBeenCalledWith(`${baseUrl}/backup`)
+      expect(result).toEqual(backup)
+    })
+
+    it('should reject a backup document that fails validation', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ ...backup, app: 'something-else' })
+      })
+
+      await expect(service.exportBackup()).rejects.toThrow(ZodError)
+    })
+
+    it('should send the backup with the import mode and announce a reload', async () => {
+      const listener = vi.fn()
+      service.subscribe(listener)
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => backup
+      })
+
+      await service.importBackup(backup, 'replace')
+
+      expect(mockFetch).toHaveBeenCalledWith(`${baseUrl}/backup/import`, expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ mode: 'replace', backup })
+      }))
+      expect(listener).toHaveBeenCalledWith({ type: 'data_reloaded' })
+    })
+
+    it('should throw when the import is rejected', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        statusText: 'Bad Request'
+      })
+
+      await expect(service.importBackup(backup, 'merge')).rejects.toThrow('API request failed: 400 Bad Request')
+    })
+  })
+
+  describe('offline outbox', () => {
+    const serverTask = (id: string, title: string) => ({
+      id,
+      title,
+      priority: 'medium' as const,
+      status: 'active' as const,
+      createdAt: '2025-01-01T00:00:00Z',
+      updatedAt: '2025-01-01T00:00:00Z'
+    })
+
+    const goOffline = () => vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false)
+    let reloadedServices: ApiDataService[] = []
+
+    // Drain every queue so a service left waiting for 'online' can't replay into the next test
+    afterEach(async () => {
+      vi.restoreAllMocks()
+      mockFetch.mockResolvedValue({ ok: false, status: 400, statusText: 'Bad Request' })
+      window.dispatchEvent(new Event('online'))
+      await vi.waitFor(() => {
+        expect([service, ...reloadedServices].flatMap(s => s.getPendingSyncTaskIds())).toEqual([])
+      })
+      mockFetch.mockReset()
+      reloadedServices = []
+      localStorage.clear()
+    })
+
+    it('should queue a create when the network is unreachable', async () => {
+      mockFetch.mockRejectedValueOnce(new TypeError('Failed to fetch'))
+
+      const task = await service.createTask({ title: 'Offline task' })
+
+      expect(task.id).toMatch(/^temp-/)
+      expect(task.title).toBe('Offline task')
+      expect(service.getPendingSyncTaskIds()).toContain(task.id)
+    })
+
+    it('should still throw server errors instead of queueing', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 400, statusText: 'Bad Request' })
+
+      await expect(service.createTask({ title: 'Rejected' })).rejects.toThrow('API request failed')
+      expect(service.getPendingSyncTaskIds()).toEqual([])
+    })
+
+    it('should serve reads from the cache while changes are pending', async () => {
+      goOffline()
+      const task = await service.createTask({ title: 'Offline task', listId: 'work' })
+      const updated = await service.updateTask(task.id, { title: 'Renamed offline' })
+      mockFetch.mockClear()
+
+      const tasks = await service.getTasks('work')
+
+      expect(updated.title).toBe('Renamed offline')
+      expect(tasks.map(t => t.title)).toEqual(['Renamed offline'])
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('should replay queued changes in order with server IDs once back online', async () => {
+      const onlineSpy = goOffline()
+      const task = await service.createTask({ title: 'Offline task' })
+      await service.updateTask(task.id, { title: 'Renamed offline' })
+      await service.deleteTask(task.id)
+      expect(mockFetch).not.toHaveBeenCalled()
+
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => serverTask('server-1', 'Offline task') })
+        .mockResolvedValueOnce({ ok: true, json: async () => serverTask('server-1', 'Renamed offline') })
+        .mockResolvedValueOnce({ ok: true, status: 204 })
+      onlineSpy.mockRestore()
+      window.dispatchEvent(new Event('online'))
+
+      await vi.waitFor(() => expect(service.getPendingSyncTaskIds()).toEqual([]))
+      expect(mockFetch.mock.calls.map(([url, init]) => `${init.method} ${url}`)).toEqual([
+        `POST ${baseUrl}/tasks`,
+        `PATCH ${baseUrl}/tasks/server-1`,
+        `DELETE ${baseUrl}/tasks/server-1`
+      ])
+    })
+
+    it('should map temporary parent IDs on queued subtasks', async () => {
+      const onlineSpy = goOffline()
+      const parent = await service.createTask({ title: 'Parent' })
+      await service.createTask({ title: 'Child', parentId: parent.id })
+
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => serverTask('server-parent', 'Parent') })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ ...serverTask('server-child', 'Child'), parentId: 'server-parent' }) })
+      onlineSpy.mockRestore()
+      window.dispatchEvent(new Event('online'))
+
+      await vi.waitFor(() => expect(service.getPendingSyncTaskIds()).toEqual([]))
+      expect(JSON.parse(mockFetch.mock.calls[1][1].body).parentId).toBe('server-parent')
+      expect(await service.getTask(parent.id)).toEqual(expect.objectContaining({ id: 'server-parent' }))
+    })
+
+    it('should send fields cleared while offline as null', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => [{ ...serverTask('task-1', 'Report'), dueDate: '2025-03-10' }] })
+      await service.getTasks()
+      const onlineSpy = goOffline()
+      await service.updateTask('task-1', { dueDate: undefined })
+
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => serverTask('task-1', 'Report') })
+      onlineSpy.mockRestore()
+      window.dispatchEvent(new Event('online'))
+
+      await vi.waitFor(() => expect(service.getPendingSyncTaskIds()).toEqual([]))
+      expect(JSON.parse(mockFetch.mock.calls[1][1].body)).toEqual({ dueDate: null })
+    })
+
+    it('should send queued updates with the version they were made against', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => [serverTask('task-1', 'Report')] })
+      await service.getTasks()
+      const onlineSpy = goOffline()
+      await service.updateTask('task-1', { title: 'Offline edit' })
+      await service.updateTask('task-1', { priority: 'high' })
+
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ ...serverTask('task-1', 'Offline edit'), updatedAt: '2025-01-02T00:00:00Z' }) })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ ...serverTask('task-1', 'Offline edit'), priority: 'high', updatedAt: '2025-01-03T00:00:00Z' }) })
+      onlineSpy.mockRestore()
+      window.dispatchEvent(new Event('online'))
+
+      await vi.waitFor(() => expect(service.getPendingSyncTaskIds()).toEqual([]))
+      // The second change follows on from the version the first one produced
+      expect(mockFetch.mock.calls.slice(1).map(([, init]) => init.headers['If-Match'])).toEqual([
+        '"2025-01-01T00:00:00Z"',
+        '"2025-01-02T00:00:00Z"'
+      ])
+    })
+
+    it('should report queued updates that conflict with a newer server copy', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => [serverTask('task-1', 'Report')] })
+      await service.getTasks()
+      const listener = vi.fn()
+      service.subscribe(listener)
+      const onlineSpy = goOffline()
+      await service.updateTask('task-1', { title: 'Offline edit' })
+
+      const remote = { ...serverTask('task-1', 'Changed remotely'), updatedAt: '2025-01-02T00:00:00Z' }
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 412, statusText: 'Precondition Failed' })
+        .mockResolvedValueOnce({ ok: true, json: async () => remote })
+      onlineSpy.mockRestore()
+      window.dispatchEvent(new Event('online'))
+
+      await vi.waitFor(() => expect(service.getPendingSyncTaskIds()).toEqual([]))
+      const event = listener.mock.calls.map(([e]) => e).find(e => e.type === 'sync_conflict')
+      expect(event.conflict).toBeInstanceOf(ConflictError)
+      expect(event.conflict.localChanges).toEqual({ title: 'Offline edit' })
+      expect(event.conflict.remote).toEqual(remote)
+      expect(await service.getTask('task-1')).toEqual(remote)
+      expect(new SyncOutbox().getFailedEntries()).toEqual([])
+    })
+
+    it('should keep changes the server rejects aside and report them', async () => {
+      const onlineSpy = goOffline()
+      const listener = vi.fn()
+      service.subscribe(listener)
+      await service.createTask({ title: 'Rejected offline' })
+
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 422, statusText: 'Unprocessable Entity' })
+      onlineSpy.mockRestore()
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      window.dispatchEvent(new Event('online'))
+
+      await vi.waitFor(() => expect(service.getPendingSyncTaskIds()).toEqual([]))
+      const failed = new SyncOutbox().getFailedEntries()
+      expect(failed).toHaveLength(1)
+      expect(failed[0]).toEqual(expect.objectContaining({
+        mutation: expect.objectContaining({ type: 'create', input: { title: 'Rejected offline' } }),
+        error: 'API request failed: 422 Unprocessable Entity'
+      }))
+      expect(listener).toHaveBeenCalledWith({ type: 'sync_failed', error: expect.any(ApiError) })
+    })
+
+    it('should retry server errors with backoff while online', async () => {
+      vi.useFakeTimers()
+      try {
+        const onlineSpy = goOffline()
+        await service.createTask({ title: 'Offline task' })
+
+        mockFetch
+          .mockResolvedValueOnce({ ok: false, status: 503, statusText: 'Service Unavailable' })
+          .mockResolvedValueOnce({ ok: true, json: async () => serverTask('server-1', 'Offline task') })
+        onlineSpy.mockRestore()
+        vi.spyOn(console, 'warn').mockImplementation(() => {})
+        window.dispatchEvent(new Event('online'))
+        await vi.advanceTimersByTimeAsync(0)
+
+        expect(mockFetch).toHaveBeenCalledTimes(1)
+        expect(service.getPendingSyncTaskIds()).not.toEqual([])
+
+        await vi.advanceTimersByTimeAsync(1300)
+
+        expect(mockFetch).toHaveBeenCalledTimes(2)
+        expect(service.getPendingSyncTaskIds()).toEqual([])
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('should keep queued changes across reloads', async () => {
+      goOffline()
+      const task = await service.createTask({ title: 'Survives reload' })
+
+      const reloaded = new ApiDataService(baseUrl)
+      reloadedServices.push(reloaded)
+
+      expect(reloaded.getPendingSyncTaskIds()).toContain(task.id)
+    })
+
+    it('should notify listeners when the sync state changes', async () => {
+      const listener = vi.fn()
+      const unsubscribe = service.onSyncStateChange(listener)
+      mockFetch.mockRejectedValueOnce(new TypeError('Failed to fetch'))
+
+      await service.createTask({ title: 'Offline task' })
+
+      expect(listener).toHaveBeenCalled()
+      unsubscribe()
+    })
+  })
+
+  describe('change events', () => {
+    const task = { id: 'task-1', title: 'Report', priority: 'medium', status: 'active', createdAt: '2025-01-01T00:00:00Z', updatedAt: '2025-01-01T00:00:00Z' }
+
+    it('should emit task events once the API confirms the change', async () => {
+      const listener = vi.fn()
+      service.subscribe(listener)
+
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => task })
+      await service.createTask({ title: 'Report' })
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ ...task, title: 'Final report' }) })
+      await service.updateTask('task-1', { title: 'Final report' })
+      mockFetch.mockResolvedValueOnce({ ok: true })
+      await service.deleteTask('task-1')
+
+      expect(listener.mock.calls.map(([event]) => event)).toEqual([
+        { type: 'task_created', task },
+        { type: 'task_updated', task: { ...task, title: 'Final report' } },
+        { type: 'task_deleted', taskIds: ['task-1'] },
+      ])
+    })
+
+    it('should not emit when the API rejects the change', async () => {
+      const listener = vi.fn()
+      service.subscribe(listener)
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 500, statusText: 'Internal Server Error' })
+
+      await expect(service.createTask({ title: 'Report' })).rejects.toThrow()
+
+      expect(listener).not.toHaveBeenCalled()
+    })
+
+    it('should emit section changes for the list', async () => {
+      const listener = vi.fn()
+      service.subscribe(listener)
+      mockFetch.mockResolvedValueOnce({ ok: true })
+
+      await service.deleteSection('work', 'section-1')
+
+      expect(listener).toHaveBeenCalledWith({ type: 'sections_changed', listId: 'work' })
+    })
+  })
+
+  describe('note sections', () => {
+    const section = {
+      id: 'section-1',
+      title: 'Goals',
+      content: 'Ship it',
+      order: 1,
+      createdAt: '2025-01-01T00:00:00Z',
+      updatedAt: '2025-01-01T00:00:00Z'
+    }
+
+    it('should fetch sections for a list sorted by order', async () => {
+      const first = { ...section, id: 'section-0', order: 0 }
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => [section, first] })
+
+      const sections = await service.getSections('work')
+
+      expect(mockFetch).toHaveBeenCalledWith(`${baseUrl}/lists/work/sections`)
+      expect(sections.map(s => s.id)).toEqual(['section-0', 'section-1'])
+    })
+
+    it('should fall back to cached sections on API failure', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => [section] })
+      await service.getSections('work')
+      mockFetch.mockRejectedValueOnce(new Error('Network error'))
+
+      const sections = await service.getSections('work')
+
+      expect(sections).toEqual([section])
+    })
+
+    it('should reject invalid section responses and use the cache', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => [{ id: 'bad' }] })
+
+      expect(await service.getSections('work')).toEqual([])
+    })
+
+    it('should create, update and delete sections via the list routes', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => section })
+      await service.createSection('work', { title: 'Goals' })
+      expect(mockFetch).toHaveBeenLastCalledWith(`${baseUrl}/lists/work/sections`, expect.objectContaining({ method: 'POST' }))
+
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ ...section, content: 'Shipped' }) })
+      const updated = await service.updateSection('work', 'section-1', { content: 'Shipped' })
+      expect(mockFetch).toHaveBeenLastCalledWith(`${baseUrl}/lists/work/sections/section-1`, expect.objectContaining({ method: 'PATCH' }))
+      expect(mockFetch.mock.lastCall![1].headers['If-Match']).toBe('"2025-01-01T00:00:00Z"')
+      expect(updated.content).toBe('Shipped')
+
+      mockFetch.mockResolvedValueOnce({ ok: true })
+      await service.deleteSection('work', 'section-1')
+      expect(mockFetch).toHaveBeenLastCalledWith(`${baseUrl}/lists/work/sections/section-1`, { method: 'DELETE' })
+
+      mockFetch.mockRejectedValueOnce(new Error('Network error'))
+      expect(await service.getSections('work')).toEqual([])
+    })
+
+    it('should send reordered section IDs', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true })
+
+      await service.reorderSections('work', ['b', 'a'])
+
+      expect(mockFetch).toHaveBeenCalledWith(`${baseUrl}/lists/work/sections/reorder`, expect.objectContaining({
+        method: 'PATCH',
+        body: JSON.stringify({ sectionIds: ['b', 'a'] })
+      }))
+    })
+
+    it('should throw a ConflictError when the section changed on the server', async () => {
+      const remote = { ...section, content: 'Theirs', updatedAt: '2025-01-02T00:00:00Z' }
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 412, statusText: 'Precondition Failed' })
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => remote })
+
+      const error = await service.updateSection('work', 'section-1', { content: 'Mine' }).catch(e => e)
+
+      expect(error).toBeInstanceOf(ConflictError)
+      expect(error.resourceType).toBe('section')
+      expect(error.remote).toEqual(remote)
+    })
+
+    it('should throw on API failure when creating', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 500, statusText: 'Internal Server Error' })
+
+      await expect(service.createSection('work', { title: 'Goals' })).rejects.toThrow('API request failed')
+    })
+  })
+
+  describe('journal entries', () => {
+    const older = { id: 'journal-1', content: 'Started', createdAt: '2025-01-01T00:00:00Z', updatedAt: '2025-01-01T00:00:00Z' }
+    const newer = { id: 'journal-2', content: 'Progress', createdAt: '2025-01-05T00:00:00Z', updatedAt: '2025-01-05T00:00:00Z' }
+
+    it('should fetch entries newest first', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => [older, newer] })
+
+      const entries = await service.getJournalEntries('website')
+
+      expect(mockFetch).toHaveBeenCalledWith(`${baseUrl}/lists/website/journal`)
+      expect(entries.map(e => e.id)).toEqual(['journal-2', 'journal-1'])
+    })
+
+    it('should fall back to cached entries including ones created since', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => [older] })
+      await service.getJournalEntries('website')
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => newer })
+      await service.createJournalEntry('website', { content: 'Progress' })
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 503, statusText: 'Service Unavailable' })
+
+      const entries = await service.getJournalEntries('website')
+
+      expect(entries.map(e => e.id)).toEqual(['journal-2', 'journal-1'])
+    })
+
+    it('should update and delete entries via the list routes', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ ...older, content: 'Edited' }) })
+      const updated = await service.updateJournalEntry('website', 'journal-1', { content: 'Edited' })
+      expect(mockFetch).toHaveBeenLastCalledWith(`${baseUrl}/lists/website/journal/journal-1`, expect.objectContaining({ method: 'PATCH' }))
+      expect(updated.content).toBe('Edited')
+
+      mockFetch.mockResolvedValueOnce({ ok: true })
+      await service.deleteJournalEntry('website', 'journal-1')
+      expect(mockFetch).toHaveBeenLastCalledWith(`${baseUrl}/lists/website/journal/journal-1`, { method: 'DELETE' })
+    })
+  })
+
   describe('setBaseUrl', () => {
     it('should update base URL', () => {
       service.setBaseUrl('http://newapi.com')
@@ -1,30 +1,84 @@
 import type { IDataService } from './IDataService';
-import type { SidebarConfigData, SidebarItemData, Priority } from '../types/sidebar';
-import type { TaskData, CreateTaskInput, UpdateTaskInput, TaskCounts } from '../types/task';
+import type { SidebarConfigData, SidebarItemData, Priority, UpdateListInput, UpdateSmartListInput, ListTaskAction } from '../types/sidebar';
+import type { TaskData, CreateTaskInput, UpdateTaskInput, TaskCounts, TaskSort, TaskFilterCriteria } from '../types/task';
 import type { NoteSection, JournalEntry, CreateSectionInput, UpdateSectionInput, CreateJournalEntryInput, UpdateJournalEntryInput } from '../types/notes';
+import type { SearchResults } from '../types/search';
+import type { DataChangeListener } from '../types/dataChanges';
+import type { WorkspaceBackup, ImportMode } from '../types/backup';
+import type { TagData, TagColor, UpdateTagInput } from '../types/tags';
 import type { IconName } from '../utils/iconMapper';
+import { getNextOccurrenceWithChecklist } from '../utils/recurrence';
+import { sortTasks } from '../utils/taskSort';
+import { getTaskTreeIds } from '../utils/taskFilters';
+import { searchLocalData, EMPTY_SEARCH_RESULTS } from '../utils/search';
+import { applyListTaskAction } from '../utils/listTasks';
+import { applyCompletionTime } from '../utils/logbook';
+import { DEFAULT_TAG_COLOR, collectTags, reparentTags, replaceSmartListTag, replaceTaskTag } from '../utils/tags';
+import { calculateDelay, isOnline, waitForOnline } from '../utils/retryWithBackoff';
+import { ApiError, ConflictError, NetworkError, type StorageError } from '../types/errors';
+import { SyncOutbox } from './SyncOutbox';
+import { DataChangeEmitter } from './DataChangeEmitter';
 import sidebarConfigData from '../data/initialSidebarConfig.json';
 import {
   SidebarConfigDataSchema,
   SidebarItemDataSchema,
+  TagDataSchema,
   TaskDataSchema,
   TaskCountsSchema,
+  SearchResultsSchema,
+  WorkspaceBackupSchema,
+  NoteSectionSchema,
+  JournalEntrySchema,
 } from '../schemas';
+import type { OutboxEntry } from '../schemas';
+
+/**
+ * Whether an update completes a recurring task, handing its repeat rule over to the next occurrence
+ */
+const handsOverRecurrence = (updates: UpdateTaskInput, previousTask: TaskData | undefined): boolean =>
+  updates.status === 'completed' && previousTask?.status !== 'completed' && previousTask?.recurrence !== undefined;
+
+/**
+ * Request body for a task update
+ * Cleared fields are sent as null, since JSON drops undefined ones and the server would keep the old value.
+ * @param clearRecurrence - Also clear the repeat rule, which a completed task handed over to its next occurrence
+ */
+const toPatchBody = (updates: UpdateTaskInput, clearRecurrence = false): object => {
+  const body = Object.fromEntries(Object.entries(updates).map(([key, value]) => [key, value ?? null]));
+  return clearRecurrence ? { ...body, recurrence: null } : body;
+};
 
 /**
  * API-based implementation of IDataService
  * Fetches and persists data to a backend API
  * Falls back to local data if API requests fail
+ * Task changes made while offline are queued in a persistent outbox and replayed once back online
  */
 export class ApiDataService implements IDataService {
   private baseUrl: string;
   private cachedData: SidebarConfigData;
   private cachedTasks: TaskData[] = [];
+  private outbox: SyncOutbox;
+  private isReplaying = false;
+  // Retries a replay that hit a server or connection failure while the browser was online
+  private replayRetryTimer: ReturnType<typeof setTimeout> | null = null;
+  private replayRetryAttempt = 0;
+  private changes = new DataChangeEmitter();
+  // Last known version of each task and note section (keyed 'task:<id>' / 'section:<id>'),
+  // sent as If-Match so concurrent edits are detected
+  private versions = new Map<string, { etag: string; updatedAt: string }>();
 
   constructor(baseUrl: string) {
     this.baseUrl = baseUrl;
-    // Initialize with fallback data
-    this.cachedData = { ...sidebarConfigData } as SidebarConfigData;
+    // Initialize with fallback data (a deep copy, since cached lists get their notes attached)
+    this.cachedData = structuredClone(sidebarConfigData) as SidebarConfigData;
+
+    // Replay changes queued in an earlier session, and again whenever the connection returns
+    this.outbox = new SyncOutbox();
+    window.addEventListener('online', () => {
+      void this.replayOutbox();
+    });
+    void this.replayOutbox();
   }
 
   async getSidebarConfig(): Promise<SidebarConfigData> {
@@ -83,6 +137,7 @@ export class ApiDataService implements IDataService {
       // Update cache
       this.cachedData.areas.push(createdArea);
       console.log('✅ Area created via API');
+      this.changes.emit({ type: 'list_created', kind: 'area', list: createdArea });
       return createdArea;
     } catch (error) {
       console.error('❌ Failed to add area via API:', error);
@@ -121,6 +176,7 @@ export class ApiDataService implements IDataService {
       // Update cache
       this.cachedData.projects.push(createdProject);
       console.log('✅ Project created via API');
+      this.changes.emit({ type: 'list_created', kind: 'project', list: createdProject });
       return createdProject;
     } catch (error) {
       console.error('❌ Failed to add project via API:', error);
@@ -128,6 +184,331 @@ export class ApiDataService implements IDataService {
     }
   }
 
+  async updateList(listId: string, updates: UpdateListInput): Promise<SidebarItemData> {
+    try {
+      const response = await fetch(`${this.baseUrl}/lists/${encodeURIComponent(listId)}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(updates),
+      });
+
+      if (!response.ok) {
+        throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      }
+
+      const rawList = await response.json();
+      // Validate response against schema
+      const updatedList = SidebarItemDataSchema.parse(rawList);
+      // Update cache
+      this.replaceCachedListItem(updatedList);
+      console.log('✅ List updated via API');
+      this.changes.emit({ type: 'list_updated', list: updatedList });
+      return updatedList;
+    } catch (error) {
+      console.error('❌ Failed to update list via API:', error);
+      throw error;
+    }
+  }
+
+  async archiveList(listId: string, taskAction: ListTaskAction): Promise<SidebarItemData> {
+    try {
+      const response = await fetch(`${this.baseUrl}/lists/${encodeURIComponent(listId)}/archive`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ taskAction }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      }
+
+      const rawList = await response.json();
+      // Validate response against schema
+      const archivedList = SidebarItemDataSchema.parse(rawList);
+      // Update cache (the server applies the same action to the list's tasks)
+      this.replaceCachedListItem(archivedList);
+      const previousTasks = this.cachedTasks;
+      this.cachedTasks = applyListTaskAction(this.cachedTasks, listId, taskAction, false);
+      console.log('✅ List archived via API');
+      this.changes.emitTaskChanges(previousTasks, this.cachedTasks);
+      this.changes.emit({ type: 'list_updated', list: archivedList });
+      return archivedList;
+    } catch (error) {
+      console.error('❌ Failed to archive list via API:', error);
+      throw error;
+    }
+  }
+
+  async deleteList(listId: string, taskAction: ListTaskAction): Promise<void> {
+    try {
+      const params = new URLSearchParams({ taskAction });
+      const response = await fetch(`${this.baseUrl}/lists/${encodeURIComponent(listId)}?${params}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      }
+
+      // Update cache
+      this.cachedData.areas = this.cachedData.areas.filter(area => area.key !== listId);
+      this.cachedData.projects = this.cachedData.projects.filter(project => project.key !== listId);
+      const previousTasks = this.cachedTasks;
+      this.cachedTasks = applyListTaskAction(this.cachedTasks, listId, taskAction, true);
+      console.log('✅ List deleted via API');
+      this.changes.emitTaskChanges(previousTasks, this.cachedTasks);
+      this.changes.emit({ type: 'list_deleted', listId });
+    } catch (error) {
+      console.error('❌ Failed to delete list via API:', error);
+      throw error;
+    }
+  }
+
+  async addSmartList(title: string, filter: TaskFilterCriteria, iconName: IconName = 'Layers'): Promise<SidebarItemData> {
+    const newSmartList: SidebarItemData = {
+      key: this.generateKey(title),
+      iconName,
+      title,
+      count: 0,
+      priority: 'low',
+      filter
+    };
+
+    try {
+      const response = await fetch(`${this.baseUrl}/smart-lists`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(newSmartList),
+      });
+
+      if (!response.ok) {
+        throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      }
+
+      const rawSmartList = await response.json();
+      // Validate response against schema
+      const createdSmartList = SidebarItemDataSchema.parse(rawSmartList);
+      // Update cache
+      this.cachedData.smartLists.push(createdSmartList);
+      console.log('✅ Smart list created via API');
+      this.changes.emit({ type: 'list_created', kind: 'smartList', list: createdSmartList });
+      return createdSmartList;
+    } catch (error) {
+      console.error('❌ Failed to add smart list via API:', error);
+      throw error;
+    }
+  }
+
+  async updateSmartList(key: string, updates: UpdateSmartListInput): Promise<SidebarItemData> {
+    try {
+      const response = await fetch(`${this.baseUrl}/smart-lists/${encodeURIComponent(key)}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(updates),
+      });
+
+      if (!response.ok) {
+        throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      }
+
+      const rawSmartList = await response.json();
+      // Validate response against schema
+      const updatedSmartList = SidebarItemDataSchema.parse(rawSmartList);
+      // Update cache
+      this.cachedData.smartLists = this.cachedData.smartLists.map(item => item.key === key ? updatedSmartList : item);
+      console.log('✅ Smart list updated via API');
+      this.changes.emit({ type: 'list_updated', list: updatedSmartList });
+      return updatedSmartList;
+    } catch (error) {
+      console.error('❌ Failed to update smart list via API:', error);
+      throw error;
+    }
+  }
+
+  async deleteSmartList(key: string): Promise<void> {
+    try {
+      const response = await fetch(`${this.baseUrl}/smart-lists/${encodeURIComponent(key)}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      }
+
+      // Update cache
+      this.cachedData.smartLists = this.cachedData.smartLists.filter(item => item.key !== key);
+      console.log('✅ Smart list deleted via API');
+      this.changes.emit({ type: 'list_deleted', listId: key });
+    } catch (error) {
+      console.error('❌ Failed to delete smart list via API:', error);
+      throw error;
+    }
+  }
+
+  async createTag(name: string, color: TagColor = DEFAULT_TAG_COLOR, parent?: string): Promise<TagData> {
+    try {
+      const response = await fetch(`${this.baseUrl}/tags`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name, color, parent }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      }
+
+      const rawTag = await response.json();
+      // Validate response against schema
+      const createdTag = TagDataSchema.parse(rawTag);
+      // Update cache
+      this.setCachedTags([...this.getCachedTags(), createdTag]);
+      console.log('✅ Tag created via API');
+      return createdTag;
+    } catch (error) {
+      console.error('❌ Failed to create tag via API:', error);
+      throw error;
+    }
+  }
+
+  async updateTag(name: string, updates: UpdateTagInput): Promise<TagData> {
+    try {
+      const response = await fetch(`${this.baseUrl}/tags/${encodeURIComponent(name)}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        // null un-nests the tag (an undefined parent would be dropped from the JSON)
+        body: JSON.stringify('parent' in updates ? { ...updates, parent: updates.parent ?? null } : updates),
+      });
+
+      if (!response.ok) {
+        throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      }
+
+      const rawTag = await response.json();
+      // Validate response against schema
+      const updatedTag = TagDataSchema.parse(rawTag);
+      // Update cache (the server renames the tag on its tasks, nested tags and smart lists too)
+      let tags = this.getCachedTags().map(tag => tag.name === name ? updatedTag : tag);
+      if (updatedTag.name !== name) {
+        tags = reparentTags(tags, name, updatedTag.name);
+        this.cascadeCachedTag(name, updatedTag.name);
+      }
+      this.setCachedTags(tags);
+      if (updatedTag.name !== name) this.changes.emit({ type: 'tag_replaced', name, replacement: updatedTag.name });
+      console.log('✅ Tag updated via API');
+      return updatedTag;
+    } catch (error) {
+      console.error('❌ Failed to update tag via API:', error);
+      throw error;
+    }
+  }
+
+  async mergeTag(name: string, into: string): Promise<TagData> {
+    try {
+      const response = await fetch(`${this.baseUrl}/tags/${encodeURIComponent(name)}/merge`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ into }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      }
+
+      const rawTag = await response.json();
+      // Validate response against schema
+      const keptTag = TagDataSchema.parse(rawTag);
+      // Update cache (the server moves the tasks, nested tags and smart lists over too)
+      const tags = reparentTags(this.getCachedTags().filter(tag => tag.name !== name), name, into)
+        .map(tag => tag.name === into ? keptTag : tag);
+      this.cascadeCachedTag(name, into);
+      this.setCachedTags(tags);
+      this.changes.emit({ type: 'tag_replaced', name, replacement: into });
+      console.log('✅ Tag merged via API');
+      return keptTag;
+    } catch (error) {
+      console.error('❌ Failed to merge tag via API:', error);
+      throw error;
+    }
+  }
+
+  async deleteTag(name: string): Promise<void> {
+    try {
+      const response = await fetch(`${this.baseUrl}/tags/${encodeURIComponent(name)}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      }
+
+      // Update cache (the server removes the tag from its tasks and smart lists and un-nests its tags too)
+      const tags = this.getCachedTags();
+      const parent = tags.find(tag => tag.name === name)?.parent;
+      this.cascadeCachedTag(name, undefined);
+      this.setCachedTags(reparentTags(tags.filter(tag => tag.name !== name), name, parent));
+      this.changes.emit({ type: 'tag_replaced', name });
+      console.log('✅ Tag deleted via API');
+    } catch (error) {
+      console.error('❌ Failed to delete tag via API:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Every cached tag, including ones only typed on cached tasks
+   */
+  private getCachedTags(): TagData[] {
+    return collectTags(this.cachedData.tags ?? [], this.cachedTasks);
+  }
+
+  /**
+   * Swaps in the full tag list and tells listeners
+   */
+  private setCachedTags(tags: TagData[]): void {
+    this.cachedData = { ...this.cachedData, tags };
+    this.changes.emit({ type: 'tags_changed', tags });
+  }
+
+  /**
+   * Applies a tag rename, merge or delete to the cached tasks and smart list filters
+   */
+  private cascadeCachedTag(name: string, replacement: string | undefined): void {
+    const previousTasks = this.cachedTasks;
+    this.cachedTasks = replaceTaskTag(this.cachedTasks, name, replacement);
+    this.changes.emitTaskChanges(previousTasks, this.cachedTasks);
+
+    const previousSmartLists = this.cachedData.smartLists;
+    this.cachedData.smartLists = replaceSmartListTag(previousSmartLists, name, replacement);
+    this.cachedData.smartLists
+      .filter((smartList, index) => smartList !== previousSmartLists[index])
+      .forEach(smartList => this.changes.emit({ type: 'list_updated', list: smartList }));
+  }
+
+  /**
+   * Swaps a cached area or project for the server copy, keeping cached notes the response left out
+   */
+  private replaceCachedListItem(list: SidebarItemData): void {
+    const replace = (items: SidebarItemData[]) => items.map(item => item.key === list.key
+      ? { ...list, sections: list.sections ?? item.sections, journal: list.journal ?? item.journal }
+      : item);
+    this.cachedData.areas = replace(this.cachedData.areas);
+    this.cachedData.projects = replace(this.cachedData.projects);
+  }
+
   getDataSourceMode(): 'api' | 'local' {
     return 'api';
   }
@@ -151,13 +532,22 @@ export class ApiDataService implements IDataService {
 
   // Task methods
 
-  async getTasks(listId?: string, status?: 'active' | 'completed', page?: number, limit?: number): Promise<TaskData[]> {
+  async getTasks(listId?: string, status?: 'active' | 'completed', page?: number, limit?: number, sort?: TaskSort): Promise<TaskData[]> {
+    // Until queued changes reach the server, the cache is the most current copy
+    if (this.outbox.hasPending) {
+      return this.filterCachedTasks(listId, status, sort);
+    }
+
     try {
       const params = new URLSearchParams();
       if (listId) params.append('listId', listId);
       if (status) params.append('status', status);
       if (page) params.append('page', page.toString());
       if (limit) params.append('limit', limit.toString());
+      if (sort && sort.field !== 'manual') {
+        params.append('sort', sort.field);
+        params.append('direction', sort.direction);
+      }
       const queryString = params.toString();
       const fullUrl = queryString ? `${this.baseUrl}/tasks?${queryString}` : `${this.baseUrl}/tasks`;
 
@@ -176,31 +566,33 @@ export class ApiDataService implements IDataService {
       return tasks;
     } catch (error) {
       console.error('❌ Failed to fetch tasks from API, using cached data:', error);
+      return this.filterCachedTasks(listId, status, sort);
+    }
+  }
 
-      // Fallback to cached data with same filtering logic
-      let filtered = [...this.cachedTasks];
-
-      if (listId) {
-        filtered = filtered.filter(task => task.listId === listId);
-      }
-
-      if (status) {
-        filtered = filtered.filter(task => task.status === status);
-      }
+  /**
+   * Applies the getTasks filters to cached data
+   */
+  private filterCachedTasks(listId?: string, status?: 'active' | 'completed', sort?: TaskSort): TaskData[] {
+    let filtered = [...this.cachedTasks];
 
-      // Sort by order field (tasks without order go to the end)
-      filtered.sort((a, b) => {
-        if (a.order === undefined && b.order === undefined) return 0;
-        if (a.order === undefined) return 1;
-        if (b.order === undefined) return -1;
-        return a.order - b.order;
-      });
+    if (listId) {
+      filtered = filtered.filter(task => task.listId === listId);
+    }
 
-      return filtered;
+    if (status) {
+      filtered = filtered.filter(task => task.status === status);
     }
+
+    // Sort by the requested mode (manual order by default)
+    return sortTasks(filtered, sort);
   }
 
   async getTaskCounts(listId?: string): Promise<TaskCounts> {
+    if (this.outbox.hasPending) {
+      return this.countCachedTasks(listId);
+    }
+
     try {
       const params = new URLSearchParams();
       if (listId) params.append('listId', listId);
@@ -221,26 +613,35 @@ export class ApiDataService implements IDataService {
       return counts;
     } catch (error) {
       console.error('❌ Failed to fetch task counts from API, calculating from cache:', error);
+      return this.countCachedTasks(listId);
+    }
+  }
 
-      // Fallback to calculating counts from cached data
-      let filteredTasks = [...this.cachedTasks];
-
-      if (listId) {
-        filteredTasks = filteredTasks.filter(task => task.listId === listId);
-      }
+  /**
+   * Calculates task counts from cached data (subtasks count with their parent)
+   */
+  private countCachedTasks(listId?: string): TaskCounts {
+    let filteredTasks = this.cachedTasks.filter(task => !task.parentId);
 
-      return {
-        all: filteredTasks.length,
-        active: filteredTasks.filter(task => task.status === 'active').length,
-        completed: filteredTasks.filter(task => task.status === 'completed').length,
-        archived: filteredTasks.filter(task => task.status === 'archived').length,
-      };
+    if (listId) {
+      filteredTasks = filteredTasks.filter(task => task.listId === listId);
     }
+
+    return {
+      all: filteredTasks.length,
+      active: filteredTasks.filter(task => task.status === 'active').length,
+      completed: filteredTasks.filter(task => task.status === 'completed').length,
+      archived: filteredTasks.filter(task => task.status === 'archived').length,
+    };
   }
 
   async getTask(id: string): Promise<TaskData | null> {
+    if (this.outbox.hasPending) {
+      return this.findCachedTask(id);
+    }
+
     try {
-      const response = await fetch(`${this.baseUrl}/tasks/${id}`);
+      const response = await fetch(`${this.baseUrl}/tasks/${this.outbox.resolveId(id)}`);
 
       if (response.status === 404) {
         return null;
@@ -253,19 +654,36 @@ export class ApiDataService implements IDataService {
       const rawTask = await response.json();
       // Validate response against schema
       const task = TaskDataSchema.parse(rawTask);
+      this.rememberVersion(`task:${task.id}`, task.updatedAt, response);
       console.log('✅ Task loaded from API');
       return task;
     } catch (error) {
       console.error('❌ Failed to fetch task from API, checking cache:', error);
-      // Fallback to cached data
-      const task = this.cachedTasks.find(task => task.id === id);
-      return task ? { ...task } : null;
+      return this.findCachedTask(id);
     }
   }
 
+  /**
+   * Finds a cached task by its temporary or server ID
+   */
+  private findCachedTask(id: string): TaskData | null {
+    const serverId = this.outbox.resolveId(id);
+    const task = this.cachedTasks.find(task => task.id === id || task.id === serverId);
+    return task ? { ...task } : null;
+  }
+
   async createTask(input: CreateTaskInput): Promise<TaskData> {
+    if (input.parentId && !this.findCachedTask(input.parentId) && !(await this.getTask(input.parentId))) {
+      throw new Error(`Parent task with id ${input.parentId} not found`);
+    }
+
+    // Queue behind earlier offline changes so they reach the server in order
+    if (this.outbox.hasPending) {
+      return this.queueCreateTask(input);
+    }
+
     try {
-      const response = await fetch(`${this.baseUrl}/tasks`, {
+      const response = await this.sendMutation(`${this.baseUrl}/tasks`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -283,23 +701,41 @@ export class ApiDataService implements IDataService {
       // Update cache
       this.cachedTasks.push(createdTask);
       console.log('✅ Task created via API');
+      this.changes.emit({ type: 'task_created', task: createdTask });
       return createdTask;
     } catch (error) {
+      if (error instanceof NetworkError) {
+        console.warn('📤 Offline, queueing task creation:', error.message);
+        return this.queueCreateTask(input);
+      }
       console.error('❌ Failed to create task via API:', error);
       throw error;
     }
   }
 
   async updateTask(id: string, updates: UpdateTaskInput): Promise<TaskData> {
+    if (this.outbox.hasPending) {
+      return this.queueUpdateTask(id, updates);
+    }
+
+    const serverId = this.outbox.resolveId(id);
     try {
-      const response = await fetch(`${this.baseUrl}/tasks/${id}`, {
+      const previousTask = this.cachedTasks.find(task => task.id === serverId);
+      const version = this.getVersion(`task:${serverId}`, previousTask?.updatedAt);
+      const response = await this.sendMutation(`${this.baseUrl}/tasks/${serverId}`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
+          ...(version && { 'If-Match': version }),
         },
-        body: JSON.stringify(updates),
+        body: JSON.stringify(toPatchBody(updates, handsOverRecurrence(updates, previousTask))),
       });
 
+      // The task changed on the server since we loaded it
+      if (response.status === 409 || response.status === 412) {
+        throw await this.createTaskConflict(serverId, updates);
+      }
+
       if (!response.ok) {
         throw new Error(`API request failed: ${response.status} ${response.statusText}`);
       }
@@ -307,113 +743,861 @@ export class ApiDataService implements IDataService {
       const rawTask = await response.json();
       // Validate response against schema
       const updatedTask = TaskDataSchema.parse(rawTask);
+      this.rememberVersion(`task:${updatedTask.id}`, updatedTask.updatedAt, response);
       // Update cache
-      const taskIndex = this.cachedTasks.findIndex(task => task.id === id);
+      const taskIndex = this.cachedTasks.findIndex(task => task.id === serverId);
       if (taskIndex !== -1) {
         this.cachedTasks[taskIndex] = updatedTask;
       }
       console.log('✅ Task updated via API');
+      this.changes.emit({ type: 'task_updated', task: updatedTask });
+
+      // Completing a recurring task spawns its next occurrence, which takes over the repeat rule
+      if (updates.status === 'completed' && previousTask?.status !== 'completed') {
+        const recurrence = previousTask?.recurrence ?? updatedTask.recurrence;
+        let completedTask = updatedTask;
+        // Without a cached copy the update couldn't clear the rule, so clear it once the server has confirmed it
+        if (updatedTask.status === 'completed' && updatedTask.recurrence) {
+          try {
+            completedTask = await this.updateTask(serverId, { recurrence: undefined });
+          } catch (error) {
+            // Better no next occurrence than two tasks repeating the same rule
+            console.error('❌ Failed to hand over the repeat rule of a completed task:', error);
+            return updatedTask;
+          }
+        }
+        await this.spawnNextOccurrence({ ...completedTask, recurrence });
+        return completedTask;
+      }
+
       return updatedTask;
     } catch (error) {
+      if (error instanceof NetworkError) {
+        console.warn('📤 Offline, queueing task update:', error.message);
+        return this.queueUpdateTask(id, updates);
+      }
       console.error('❌ Failed to update task via API:', error);
       throw error;
     }
   }
 
-  async deleteTask(id: string): Promise<void> {
-    try {
-      const response = await fetch(`${this.baseUrl}/tasks/${id}`, {
-        method: 'DELETE',
-      });
+  /**
+   * Records the version of a record the server just returned
+   * Uses the ETag header when present, otherwise the quoted updatedAt timestamp
+   */
+  private rememberVersion(key: string, updatedAt: string, response: Response): void {
+    const etag = response.headers?.get('ETag') || `"${updatedAt}"`;
+    this.versions.set(key, { etag, updatedAt });
+  }
 
-      if (!response.ok) {
-        throw new Error(`API request failed: ${response.status} ${response.statusText}`);
-      }
+  /**
+   * Gets the If-Match value for a record from whichever copy we saw last
+   * @param key - 'task:<id>' or 'section:<id>'
+   * @param cachedUpdatedAt - updatedAt of the cached copy, if any
+   */
+  private getVersion(key: string, cachedUpdatedAt?: string): string | undefined {
+    const known = this.versions.get(key);
+    if (known && (!cachedUpdatedAt || known.updatedAt >= cachedUpdatedAt)) {
+      return known.etag;
+    }
+    return cachedUpdatedAt ? `"${cachedUpdatedAt}"` : undefined;
+  }
 
-      // Update cache
-      const taskIndex = this.cachedTasks.findIndex(task => task.id === id);
-      if (taskIndex !== -1) {
-        this.cachedTasks.splice(taskIndex, 1);
+  /**
+   * Loads the current server copy of a task and wraps it in a ConflictError
+   * The fresh version is remembered, so resubmitting the merged changes succeeds,
+   * and announced, so views holding the task show the server copy.
+   * Falls back to a plain 409 ApiError if the server copy can't be loaded.
+   */
+  private async createTaskConflict(id: string, updates: UpdateTaskInput): Promise<ConflictError<TaskData> | ApiError> {
+    const response = await fetch(`${this.baseUrl}/tasks/${id}`);
+    if (!response.ok) {
+      return new ApiError('Task was changed on the server', 409, response);
+    }
+
+    const remote = TaskDataSchema.parse(await response.json());
+    this.rememberVersion(`task:${remote.id}`, remote.updatedAt, response);
+    const taskIndex = this.cachedTasks.findIndex(task => task.id === id);
+    if (taskIndex !== -1) {
+      this.cachedTasks[taskIndex] = remote;
+    }
+    this.changes.emit({ type: 'task_updated', task: remote });
+    return new ConflictError('Task was changed on the server', 'task', id, updates, remote);
+  }
+
+  /**
+   * Creates the next occurrence of a completed recurring task, copying its checklist
+   * Failures are logged rather than thrown since the completion itself succeeded
+   * @param completedTask - The completed task, with the repeat rule it had
+   */
+  private async spawnNextOccurrence(completedTask: TaskData): Promise<void> {
+    const nextOccurrence = getNextOccurrenceWithChecklist(completedTask, this.cachedTasks);
+    if (!nextOccurrence) {
+      return;
+    }
+
+    try {
+      const nextTask = await this.createTask(nextOccurrence.task);
+      for (const subtask of nextOccurrence.subtasks) {
+        await this.createTask({ ...subtask, parentId: nextTask.id });
+      }
+    } catch (error) {
+      console.error('❌ Failed to create next occurrence of recurring task:', error);
+    }
+  }
+
+  async deleteTask(id: string): Promise<void> {
+    if (this.outbox.hasPending) {
+      this.queueDeleteTask(id);
+      return;
+    }
+
+    const serverId = this.outbox.resolveId(id);
+    try {
+      const response = await this.sendMutation(`${this.baseUrl}/tasks/${serverId}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error(`API request failed: ${response.status} ${response.statusText}`);
       }
+
+      // Update cache (the server removes subtasks along with their parent, at any depth)
+      const previousTasks = this.cachedTasks;
+      const deletedIds = getTaskTreeIds(this.cachedTasks, serverId);
+      this.cachedTasks = this.cachedTasks.filter(task => !deletedIds.has(task.id));
       console.log('✅ Task deleted via API');
+      this.emitTaskDeleted(id, previousTasks);
     } catch (error) {
+      if (error instanceof NetworkError) {
+        console.warn('📤 Offline, queueing task deletion:', error.message);
+        this.queueDeleteTask(id);
+        return;
+      }
       console.error('❌ Failed to delete task via API:', error);
       throw error;
     }
   }
 
   async reorderTasks(taskIds: string[]): Promise<void> {
+    if (this.outbox.hasPending) {
+      this.queueReorderTasks(taskIds);
+      return;
+    }
+
     try {
-      const response = await fetch(`${this.baseUrl}/tasks/reorder`, {
+      const response = await this.sendMutation(`${this.baseUrl}/tasks/reorder`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ taskIds }),
+        body: JSON.stringify({ taskIds: taskIds.map(id => this.outbox.resolveId(id)) }),
       });
 
       if (!response.ok) {
         throw new Error(`API request failed: ${response.status} ${response.statusText}`);
       }
 
-      // Update cache: set order field for reordered tasks
-      taskIds.forEach((id, index) => {
-        const task = this.cachedTasks.find(t => t.id === id);
-        if (task) {
-          task.order = index;
-          task.updatedAt = new Date().toISOString();
-        }
-      });
-
+      this.applyCachedOrder(taskIds);
       console.log('✅ Tasks reordered via API');
+      this.changes.emit({ type: 'tasks_reordered', taskIds: [...taskIds] });
     } catch (error) {
+      if (error instanceof NetworkError) {
+        console.warn('📤 Offline, queueing task reorder:', error.message);
+        this.queueReorderTasks(taskIds);
+        return;
+      }
       console.error('❌ Failed to reorder tasks via API:', error);
       throw error;
     }
   }
 
-  // Note section methods - stub implementations (not yet implemented in API)
-  /* eslint-disable @typescript-eslint/no-unused-vars */
+  /**
+   * Announces a deleted task, along with the subtasks removed from the cache with it
+   * The ID callers used is always included, even if the task wasn't cached.
+   */
+  private emitTaskDeleted(id: string, previousTasks: TaskData[]): void {
+    const remaining = new Set(this.cachedTasks.map(task => task.id));
+    const deletedIds = new Set([id, ...previousTasks.filter(task => !remaining.has(task.id)).map(task => task.id)]);
+    this.changes.emit({ type: 'task_deleted', taskIds: [...deletedIds] });
+  }
+
+  /**
+   * Updates the cached order field for reordered tasks
+   */
+  private applyCachedOrder(taskIds: string[]): void {
+    taskIds.forEach((id, index) => {
+      const serverId = this.outbox.resolveId(id);
+      const task = this.cachedTasks.find(t => t.id === id || t.id === serverId);
+      if (task) {
+        task.order = index;
+        task.updatedAt = new Date().toISOString();
+      }
+    });
+  }
+
+  // Offline outbox
+
+  getPendingSyncTaskIds(): string[] {
+    return this.outbox.getPendingTaskIds();
+  }
+
+  onSyncStateChange(listener: () => void): () => void {
+    return this.outbox.subscribe(listener);
+  }
+
+  // Saved data health - the server owns the data, so there's nothing to report
 
-  async getSections(_listId: string): Promise<NoteSection[]> {
-    console.warn('Note sections not yet implemented in API');
+  takeStorageErrors(): StorageError[] {
     return [];
   }
 
-  async createSection(_listId: string, _input: CreateSectionInput): Promise<NoteSection> {
-    throw new Error('Note sections not yet implemented in API');
+  // Change events
+
+  subscribe(listener: DataChangeListener): () => void {
+    return this.changes.subscribe(listener);
   }
 
-  async updateSection(_listId: string, _sectionId: string, _updates: UpdateSectionInput): Promise<NoteSection> {
-    throw new Error('Note sections not yet implemented in API');
+  /**
+   * Sends a mutation request, turning connection failures into a NetworkError
+   * so the caller can queue the change instead
+   */
+  private async sendMutation(url: string, init: RequestInit): Promise<Response> {
+    if (!isOnline()) {
+      throw new NetworkError('Browser is offline', undefined, 'OFFLINE');
+    }
+
+    try {
+      return await fetch(url, init);
+    } catch (error) {
+      throw new NetworkError('Failed to reach the API', error instanceof Error ? error : undefined);
+    }
   }
 
-  async deleteSection(_listId: string, _sectionId: string): Promise<void> {
-    throw new Error('Note sections not yet implemented in API');
+  /**
+   * Creates a task in the cache under a temporary ID and queues it for the server
+   */
+  private queueCreateTask(input: CreateTaskInput): TaskData {
+    const now = new Date().toISOString();
+    const maxOrder = this.cachedTasks.reduce((max, task) => {
+      return task.order !== undefined && task.order > max ? task.order : max;
+    }, -1);
+
+    const task: TaskData = {
+      id: `temp-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+      title: input.title,
+      description: input.description,
+      priority: input.priority || 'medium',
+      status: input.status || 'active',
+      dueDate: input.dueDate,
+      startDate: input.startDate,
+      reminderAt: input.reminderAt,
+      order: input.order ?? maxOrder + 1,
+      listId: input.listId,
+      parentId: input.parentId,
+      recurrence: input.recurrence,
+      tags: input.tags || [],
+      someday: input.someday,
+      completedAt: input.status === 'completed' ? now : undefined,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.cachedTasks.push(task);
+    this.outbox.enqueue({ type: 'create', taskId: task.id, input });
+    this.changes.emit({ type: 'task_created', task: { ...task } });
+    void this.replayOutbox();
+    return { ...task };
   }
 
-  async reorderSections(_listId: string, _sectionIds: string[]): Promise<void> {
-    throw new Error('Note sections not yet implemented in API');
+  /**
+   * Applies an update to the cached task and queues it for the server
+   */
+  private async queueUpdateTask(id: string, updates: UpdateTaskInput): Promise<TaskData> {
+    const serverId = this.outbox.resolveId(id);
+    const taskIndex = this.cachedTasks.findIndex(task => task.id === id || task.id === serverId);
+    if (taskIndex === -1) {
+      throw new NetworkError(`Task with id ${id} is not available offline`, undefined, 'OFFLINE');
+    }
+
+    const previousTask = this.cachedTasks[taskIndex];
+    // Only a task without queued changes still holds the server's copy to check the update against
+    const version = this.outbox.getPendingTaskIds().includes(previousTask.id)
+      ? undefined
+      : this.getVersion(`task:${previousTask.id}`, previousTask.updatedAt);
+    const clearRecurrence = handsOverRecurrence(updates, previousTask);
+    const updatedTask = applyCompletionTime(previousTask, {
+      ...previousTask,
+      ...updates,
+      updatedAt: new Date().toISOString()
+    });
+    if (clearRecurrence) {
+      delete updatedTask.recurrence;
+    }
+    this.cachedTasks[taskIndex] = updatedTask;
+    this.outbox.enqueue({ type: 'update', taskId: previousTask.id, updates, version, ...(clearRecurrence && { clearRecurrence }) });
+    this.changes.emit({ type: 'task_updated', task: { ...updatedTask } });
+    void this.replayOutbox();
+
+    if (updates.status === 'completed' && previousTask.status !== 'completed') {
+      await this.spawnNextOccurrence({ ...updatedTask, recurrence: previousTask.recurrence });
+    }
+
+    return { ...updatedTask };
   }
 
-  // Journal entry methods - stub implementations (not yet implemented in API)
+  /**
+   * Removes a task and everything nested under it from the cache and queues the deletion
+   */
+  private queueDeleteTask(id: string): void {
+    const serverId = this.outbox.resolveId(id);
+    const previousTasks = this.cachedTasks;
+    const deletedIds = getTaskTreeIds(this.cachedTasks, id, serverId);
+    this.cachedTasks = this.cachedTasks.filter(task => !deletedIds.has(task.id));
+    this.outbox.enqueue({ type: 'delete', taskId: id });
+    this.emitTaskDeleted(id, previousTasks);
+    void this.replayOutbox();
+  }
 
-  async getJournalEntries(_listId: string): Promise<JournalEntry[]> {
-    console.warn('Journal entries not yet implemented in API');
-    return [];
+  private queueReorderTasks(taskIds: string[]): void {
+    this.applyCachedOrder(taskIds);
+    this.outbox.enqueue({ type: 'reorder', taskIds });
+    this.changes.emit({ type: 'tasks_reordered', taskIds: [...taskIds] });
+    void this.replayOutbox();
   }
 
-  async createJournalEntry(_listId: string, _input: CreateJournalEntryInput): Promise<JournalEntry> {
-    throw new Error('Journal entries not yet implemented in API');
+  /**
+   * Replays queued changes in order once the browser is online
+   * Stops at the first connection or server failure: while offline it resumes on the next 'online' event,
+   * otherwise it retries with exponential backoff. Updates that conflict with a newer server copy are
+   * reported as sync_conflict events to be merged; other changes the server rejects (4xx or invalid
+   * responses) are kept aside in the outbox and reported as sync_failed events.
+   */
+  private async replayOutbox(): Promise<void> {
+    if (this.isReplaying || !this.outbox.hasPending) {
+      return;
+    }
+
+    this.isReplaying = true;
+    if (this.replayRetryTimer) {
+      clearTimeout(this.replayRetryTimer);
+      this.replayRetryTimer = null;
+    }
+    try {
+      await waitForOnline();
+
+      let entry = this.outbox.peek();
+      while (entry) {
+        try {
+          await this.replayEntry(entry);
+          this.outbox.remove(entry.id);
+        } catch (error) {
+          const isTransient = error instanceof NetworkError ||
+            (error instanceof ApiError && (error.statusCode ?? 0) >= 500);
+          if (isTransient) {
+            this.scheduleReplayRetry(error);
+            return;
+          }
+          if (error instanceof ConflictError) {
+            // The task changed on the server meanwhile; the user merges the two in the conflict dialog
+            console.warn('⚠️ Queued change conflicts with the server copy:', entry.mutation);
+            this.outbox.remove(entry.id);
+            this.changes.emit({ type: 'sync_conflict', conflict: error });
+          } else {
+            console.error('❌ Queued change rejected by the API:', entry.mutation, error);
+            const failure = error instanceof Error ? error : new Error(String(error));
+            this.outbox.markFailed(entry.id, failure.message);
+            this.changes.emit({ type: 'sync_failed', error: failure });
+          }
+        }
+        entry = this.outbox.peek();
+      }
+
+      this.replayRetryAttempt = 0;
+      console.log('✅ Offline changes synced');
+      // Queued tasks now have server IDs, so held copies need reloading
+      this.changes.emit({ type: 'data_reloaded' });
+    } catch (error) {
+      console.warn('📤 Still offline, sync will resume when the connection returns:', error);
+    } finally {
+      this.isReplaying = false;
+    }
+  }
+
+  /**
+   * Waits for the 'online' event if the browser went offline, otherwise retries the replay after a backoff delay
+   */
+  private scheduleReplayRetry(error: unknown): void {
+    if (!isOnline()) {
+      console.warn('📤 Sync paused, will retry when back online:', error);
+      return;
+    }
+
+    this.replayRetryAttempt++;
+    const delay = calculateDelay(this.replayRetryAttempt, 1000, 5 * 60 * 1000, 2);
+    console.warn(`📤 Sync paused, retrying in ${delay}ms:`, error);
+    this.replayRetryTimer = setTimeout(() => {
+      this.replayRetryTimer = null;
+      void this.replayOutbox();
+    }, delay);
+  }
+
+  /**
+   * Sends one queued change, mapping temporary IDs to server IDs
+   */
+  private async replayEntry({ mutation }: OutboxEntry): Promise<void> {
+    const headers = { 'Content-Type': 'application/json' };
+
+    switch (mutation.type) {
+      case 'create': {
+        const { parentId } = mutation.input;
+        const input = parentId ? { ...mutation.input, parentId: this.outbox.resolveId(parentId) } : mutation.input;
+        const response = await this.sendMutation(`${this.baseUrl}/tasks`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify(input),
+        });
+        const createdTask = TaskDataSchema.parse(await this.readSyncResponse(response));
+        this.rememberVersion(`task:${createdTask.id}`, createdTask.updatedAt, response);
+
+        // Swap the temporary task (and its subtasks' references) over to the server ID
+        this.outbox.mapId(mutation.taskId, createdTask.id);
+        this.cachedTasks = this.cachedTasks.map(task => {
+          if (task.id === mutation.taskId) return createdTask;
+          if (task.parentId === mutation.taskId) return { ...task, parentId: createdTask.id };
+          return task;
+        });
+        break;
+      }
+
+      case 'update': {
+        const serverId = this.outbox.resolveId(mutation.taskId);
+        const { parentId } = mutation.updates;
+        const updates = parentId ? { ...mutation.updates, parentId: this.outbox.resolveId(parentId) } : mutation.updates;
+        const version = mutation.version ?? this.versions.get(`task:${serverId}`)?.etag;
+        const response = await this.sendMutation(`${this.baseUrl}/tasks/${serverId}`, {
+          method: 'PATCH',
+          headers: {
+            ...headers,
+            ...(version && { 'If-Match': version }),
+          },
+          body: JSON.stringify(toPatchBody(updates, mutation.clearRecurrence)),
+        });
+        if (response.status === 409 || response.status === 412) {
+          throw await this.createTaskConflict(serverId, updates);
+        }
+        const updatedTask = TaskDataSchema.parse(await this.readSyncResponse(response));
+        this.rememberVersion(`task:${updatedTask.id}`, updatedTask.updatedAt, response);
+        this.cachedTasks = this.cachedTasks.map(task => task.id === serverId ? updatedTask : task);
+        break;
+      }
+
+      case 'delete': {
+        const response = await this.sendMutation(`${this.baseUrl}/tasks/${this.outbox.resolveId(mutation.taskId)}`, {
+          method: 'DELETE',
+        });
+        // Already gone on the server is as good as deleted
+        if (response.status !== 404) {
+          await this.readSyncResponse(response, false);
+        }
+        break;
+      }
+
+      case 'reorder': {
+        const response = await this.sendMutation(`${this.baseUrl}/tasks/reorder`, {
+          method: 'PATCH',
+          headers,
+          body: JSON.stringify({ taskIds: mutation.taskIds.map(id => this.outbox.resolveId(id)) }),
+        });
+        await this.readSyncResponse(response, false);
+        break;
+      }
+    }
+
+    console.log(`✅ Synced queued ${mutation.type}`);
   }
 
-  async updateJournalEntry(_listId: string, _entryId: string, _updates: UpdateJournalEntryInput): Promise<JournalEntry> {
-    throw new Error('Journal entries not yet implemented in API');
+  /**
+   * Throws an ApiError for failed replay responses, otherwise returns the JSON body
+   */
+  private async readSyncResponse(response: Response, hasBody: boolean = true): Promise<unknown> {
+    if (!response.ok) {
+      throw new ApiError(`API request failed: ${response.status} ${response.statusText}`, response.status, response);
+    }
+    return hasBody ? response.json() : undefined;
   }
 
-  async deleteJournalEntry(_listId: string, _entryId: string): Promise<void> {
-    throw new Error('Journal entries not yet implemented in API');
+  // Search
+
+  async search(query: string): Promise<SearchResults> {
+    if (!query.trim()) {
+      return EMPTY_SEARCH_RESULTS;
+    }
+
+    try {
+      const params = new URLSearchParams({ q: query.trim() });
+      const response = await fetch(`${this.baseUrl}/search?${params.toString()}`);
+
+      if (!response.ok) {
+        throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      }
+
+      const rawResults = await response.json();
+      // Validate response against schema
+      const results = SearchResultsSchema.parse(rawResults);
+      console.log('✅ Search results loaded from API');
+      return results;
+    } catch (error) {
+      console.error('❌ Failed to search via API, searching cached data:', error);
+      return searchLocalData(this.cachedTasks, this.cachedData, query);
+    }
   }
 
-  /* eslint-enable @typescript-eslint/no-unused-vars */
-}
\ No newline at end of file
+  // Backup
+
+  async exportBackup(): Promise<WorkspaceBackup> {
+    try {
+      const response = await fetch(`${this.baseUrl}/backup`);
+
+      if (!response.ok) {
+        throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      }
+
+      const rawBackup = await response.json();
+      // Validate response against schema
+      const backup = WorkspaceBackupSchema.parse(rawBackup);
+      console.log('✅ Backup exported from API');
+      return backup;
+    } catch (error) {
+      console.error('❌ Failed to export backup via API:', error);
+      throw error;
+    }
+  }
+
+  async importBackup(backup: WorkspaceBackup, mode: ImportMode): Promise<void> {
+    try {
+      const response = await fetch(`${this.baseUrl}/backup/import`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ mode, backup }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      }
+
+      // The server answers with the workspace as it stands after the import
+      const rawWorkspace = await response.json();
+      const workspace = WorkspaceBackupSchema.parse(rawWorkspace);
+      this.cachedData = workspace.sidebar;
+      this.cachedTasks = workspace.tasks;
+      console.log(`✅ Backup imported via API (${mode})`);
+      this.changes.emit({ type: 'data_reloaded' });
+    } catch (error) {
+      console.error('❌ Failed to import backup via API:', error);
+      throw error;
+    }
+  }
+
+  // Note section methods
+
+  /**
+   * Finds a cached area or project by key
+   */
+  private findCachedListItem(listId: string): SidebarItemData | null {
+    return this.cachedData.areas.find(a => a.key === listId)
+      || this.cachedData.projects.find(p => p.key === listId)
+      || null;
+  }
+
+  private listUrl(listId: string, path: string): string {
+    return `${this.baseUrl}/lists/${encodeURIComponent(listId)}/${path}`;
+  }
+
+  async getSections(listId: string): Promise<NoteSection[]> {
+    try {
+      const response = await fetch(this.listUrl(listId, 'sections'));
+
+      if (!response.ok) {
+        throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      }
+
+      const rawSections = await response.json();
+      // Validate response against schema (array of sections)
+      const sections: NoteSection[] = rawSections.map((section: unknown) => NoteSectionSchema.parse(section));
+      // Update cache
+      const item = this.findCachedListItem(listId);
+      if (item) {
+        item.sections = sections;
+      }
+      console.log('✅ Note sections loaded from API');
+      return [...sections].sort((a, b) => a.order - b.order);
+    } catch (error) {
+      console.error('❌ Failed to fetch note sections from API, using cached data:', error);
+      const sections = this.findCachedListItem(listId)?.sections || [];
+      return [...sections].sort((a, b) => a.order - b.order);
+    }
+  }
+
+  async createSection(listId: string, input: CreateSectionInput): Promise<NoteSection> {
+    try {
+      const response = await fetch(this.listUrl(listId, 'sections'), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(input),
+      });
+
+      if (!response.ok) {
+        throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      }
+
+      const rawSection = await response.json();
+      // Validate response against schema
+      const createdSection = NoteSectionSchema.parse(rawSection);
+      // Update cache
+      const item = this.findCachedListItem(listId);
+      if (item) {
+        item.sections = [...(item.sections || []), createdSection];
+      }
+      console.log('✅ Note section created via API');
+      this.changes.emit({ type: 'sections_changed', listId });
+      return createdSection;
+    } catch (error) {
+      console.error('❌ Failed to create note section via API:', error);
+      throw error;
+    }
+  }
+
+  async updateSection(listId: string, sectionId: string, updates: UpdateSectionInput): Promise<NoteSection> {
+    try {
+      const cachedSection = this.findCachedListItem(listId)?.sections?.find(s => s.id === sectionId);
+      const version = this.getVersion(`section:${sectionId}`, cachedSection?.updatedAt);
+      const response = await fetch(this.listUrl(listId, `sections/${sectionId}`), {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(version && { 'If-Match': version }),
+        },
+        body: JSON.stringify(updates),
+      });
+
+      // The section changed on the server since we loaded it
+      if (response.status === 409 || response.status === 412) {
+        throw await this.createSectionConflict(listId, sectionId, updates);
+      }
+
+      if (!response.ok) {
+        throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      }
+
+      const rawSection = await response.json();
+      // Validate response against schema
+      const updatedSection = NoteSectionSchema.parse(rawSection);
+      this.rememberVersion(`section:${sectionId}`, updatedSection.updatedAt, response);
+      this.replaceCachedSection(listId, updatedSection);
+      console.log('✅ Note section updated via API');
+      this.changes.emit({ type: 'sections_changed', listId });
+      return updatedSection;
+    } catch (error) {
+      console.error('❌ Failed to update note section via API:', error);
+      throw error;
+    }
+  }
+
+  private replaceCachedSection(listId: string, section: NoteSection): void {
+    const item = this.findCachedListItem(listId);
+    if (item?.sections) {
+      item.sections = item.sections.map(s => s.id === section.id ? section : s);
+    }
+  }
+
+  /**
+   * Loads the current server copy of a section and wraps it in a ConflictError
+   * Falls back to a plain 409 ApiError if the server copy can't be loaded.
+   */
+  private async createSectionConflict(listId: string, sectionId: string, updates: UpdateSectionInput): Promise<ConflictError<NoteSection> | ApiError> {
+    const response = await fetch(this.listUrl(listId, `sections/${sectionId}`));
+    if (!response.ok) {
+      return new ApiError('Note section was changed on the server', 409, response);
+    }
+
+    const remote = NoteSectionSchema.parse(await response.json());
+    this.rememberVersion(`section:${sectionId}`, remote.updatedAt, response);
+    this.replaceCachedSection(listId, remote);
+    this.changes.emit({ type: 'sections_changed', listId });
+    return new ConflictError('Note section was changed on the server', 'section', sectionId, updates, remote);
+  }
+
+  async deleteSection(listId: string, sectionId: string): Promise<void> {
+    try {
+      const response = await fetch(this.listUrl(listId, `sections/${sectionId}`), {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      }
+
+      // Update cache
+      const item = this.findCachedListItem(listId);
+      if (item?.sections) {
+        item.sections = item.sections.filter(s => s.id !== sectionId);
+      }
+      console.log('✅ Note section deleted via API');
+      this.changes.emit({ type: 'sections_changed', listId });
+    } catch (error) {
+      console.error('❌ Failed to delete note section via API:', error);
+      throw error;
+    }
+  }
+
+  async reorderSections(listId: string, sectionIds: string[]): Promise<void> {
+    try {
+      const response = await fetch(this.listUrl(listId, 'sections/reorder'), {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ sectionIds }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      }
+
+      // Update cache: set order field for reordered sections
+      this.findCachedListItem(listId)?.sections?.forEach(section => {
+        const index = sectionIds.indexOf(section.id);
+        if (index !== -1) {
+          section.order = index;
+          section.updatedAt = new Date().toISOString();
+        }
+      });
+      console.log('✅ Note sections reordered via API');
+      this.changes.emit({ type: 'sections_changed', listId });
+    } catch (error) {
+      console.error('❌ Failed to reorder note sections via API:', error);
+      throw error;
+    }
+  }
+
+  // Journal entry methods
+
+  async getJournalEntries(listId: string): Promise<JournalEntry[]> {
+    // Newest first, matching LocalDataService
+    const newestFirst = (entries: JournalEntry[]) => [...entries].sort((a, b) =>
+      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    );
+
+    try {
+      const response = await fetch(this.listUrl(listId, 'journal'));
+
+      if (!response.ok) {
+        throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      }
+
+      const rawEntries = await response.json();
+      // Validate response against schema (array of entries)
+      const entries: JournalEntry[] = rawEntries.map((entry: unknown) => JournalEntrySchema.parse(entry));
+      // Update cache
+      const item = this.findCachedListItem(listId);
+      if (item) {
+        item.journal = entries;
+      }
+      console.log('✅ Journal entries loaded from API');
+      return newestFirst(entries);
+    } catch (error) {
+      console.error('❌ Failed to fetch journal entries from API, using cached data:', error);
+      return newestFirst(this.findCachedListItem(listId)?.journal || []);
+    }
+  }
+
+  async createJournalEntry(listId: string, input: CreateJournalEntryInput): Promise<JournalEntry> {
+    try {
+      const response = await fetch(this.listUrl(listId, 'journal'), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(input),
+      });
+
+      if (!response.ok) {
+        throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      }
+
+      const rawEntry = await response.json();
+      // Validate response against schema
+      const createdEntry = JournalEntrySchema.parse(rawEntry);
+      // Update cache
+      const item = this.findCachedListItem(listId);
+      if (item) {
+        item.journal = [...(item.journal || []), createdEntry];
+      }
+      console.log('✅ Journal entry created via API');
+      this.changes.emit({ type: 'journal_changed', listId });
+      return createdEntry;
+    } catch (error) {
+      console.error('❌ Failed to create journal entry via API:', error);
+      throw error;
+    }
+  }
+
+  async updateJournalEntry(listId: string, entryId: string, updates: UpdateJournalEntryInput): Promise<JournalEntry> {
+    try {
+      const response = await fetch(this.listUrl(listId, `journal/${entryId}`), {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(updates),
+      });
+
+      if (!response.ok) {
+        throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      }
+
+      const rawEntry = await response.json();
+      // Validate response against schema
+      const updatedEntry = JournalEntrySchema.parse(rawEntry);
+      // Update cache
+      const item = this.findCachedListItem(listId);
+      if (item?.journal) {
+        item.journal = item.journal.map(e => e.id === entryId ? updatedEntry : e);
+      }
+      console.log('✅ Journal entry updated via API');
+      this.changes.emit({ type: 'journal_changed', listId });
+      return updatedEntry;
+    } catch (error) {
+      console.error('❌ Failed to update journal entry via API:', error);
+      throw error;
+    }
+  }
+
+  async deleteJournalEntry(listId: string, entryId: string): Promise<void> {
+    try {
+      const response = await fetch(this.listUrl(listId, `journal/${entryId}`), {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      }
+
+      // Update cache
+      const item = this.findCachedListItem(listId);
+      if (item?.journal) {
+        item.journal = item.journal.filter(e => e.id !== entryId);
+      }
+      console.log('✅ Journal entry deleted via API');
+      this.changes.emit({ type: 'journal_changed', listId });
+    } catch (error) {
+      console.error('❌ Failed to delete journal entry via API:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect, vi } from 'vitest'
+import { DataChangeEmitter } from './DataChangeEmitter'
+import { task } from '../test/fixtures'
+
+describe('DataChangeEmitter', () => {
+  it('should keep notifying other listeners when one throws', () => {
+    const emitter = new DataChangeEmitter()
+    const listener = vi.fn()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    emitter.subscribe(() => {
+      throw new Error('boom')
+    })
+    emitter.subscribe(listener)
+
+    emitter.emit({ type: 'data_reloaded' })
+
+    expect(listener).toHaveBeenCalledWith({ type: 'data_reloaded' })
+  })
+
+  it('should emit deletions and updates between two task arrays', () => {
+    const emitter = new DataChangeEmitter()
+    const listener = vi.fn()
+    emitter.subscribe(listener)
+    const kept = task('kept')
+    const before = [kept, task('changed'), task('removed')]
+    const after = [kept, task('changed', { status: 'archived' })]
+
+    emitter.emitTaskChanges(before, after)
+
+    expect(listener.mock.calls.map(([event]) => event)).toEqual([
+      { type: 'task_deleted', taskIds: ['removed'] },
+      { type: 'task_updated', task: after[1] },
+    ])
+  })
+})
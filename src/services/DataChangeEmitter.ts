@@ -0,0 +1,50 @@
+import type { DataChangeEvent, DataChangeListener } from '../types/dataChanges';
+import type { TaskData } from '../types/task';
+
+/**
+ * Fans data change events out to subscribers
+ * Shared by the data services so each mutation is announced the same way.
+ */
+export class DataChangeEmitter {
+  private listeners = new Set<DataChangeListener>();
+
+  /**
+   * Subscribes to change events
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: DataChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  emit(event: DataChangeEvent): void {
+    this.listeners.forEach(listener => {
+      // One failing subscriber shouldn't stop the others or the mutation that emitted
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('❌ Data change listener failed:', error);
+      }
+    });
+  }
+
+  /**
+   * Emits updates and deletions between two copies of the task array
+   * Tasks are compared by identity, so unchanged tasks must be the same objects in both.
+   */
+  emitTaskChanges(before: TaskData[], after: TaskData[]): void {
+    const previous = new Map(before.map(task => [task.id, task]));
+    const remaining = new Set(after.map(task => task.id));
+
+    const deletedIds = before.filter(task => !remaining.has(task.id)).map(task => task.id);
+    if (deletedIds.length > 0) {
+      this.emit({ type: 'task_deleted', taskIds: deletedIds });
+    }
+
+    after
+      .filter(task => previous.has(task.id) && previous.get(task.id) !== task)
+      .forEach(task => this.emit({ type: 'task_updated', task: { ...task } }));
+  }
+}
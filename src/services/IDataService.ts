@@ -1,7 +1,12 @@
-import type { SidebarConfigData, SidebarItemData, Priority } from '../types/sidebar';
-import type { TaskData, CreateTaskInput, UpdateTaskInput, TaskCounts } from '../types/task';
+import type { SidebarConfigData, SidebarItemData, Priority, UpdateListInput, UpdateSmartListInput, ListTaskAction } from '../types/sidebar';
+import type { TaskData, CreateTaskInput, UpdateTaskInput, TaskCounts, TaskSort, TaskFilterCriteria } from '../types/task';
 import type { IconName } from '../utils/iconMapper';
 import type { NoteSection, JournalEntry, CreateSectionInput, UpdateSectionInput, CreateJournalEntryInput, UpdateJournalEntryInput } from '../types/notes';
+import type { SearchResults } from '../types/search';
+import type { DataChangeListener } from '../types/dataChanges';
+import type { WorkspaceBackup, ImportMode } from '../types/backup';
+import type { StorageError } from '../types/errors';
+import type { TagData, TagColor, UpdateTagInput } from '../types/tags';
 
 /**
  * Interface for data service implementations
@@ -41,6 +46,90 @@ export interface IDataService {
    */
   addProject(title: string, iconName?: IconName, priority?: Priority, description?: string, dueDate?: string): Promise<SidebarItemData>;
 
+  /**
+   * Updates an area or project (rename, re-icon, re-prioritize, change due date, restore)
+   * @param listId - The area or project key
+   * @param updates - Fields to change; `archived: false` restores an archived list
+   * @returns Promise<SidebarItemData> - The updated list
+   */
+  updateList(listId: string, updates: UpdateListInput): Promise<SidebarItemData>;
+
+  /**
+   * Archives an area or project
+   * @param listId - The area or project key
+   * @param taskAction - What happens to the list's tasks
+   * @returns Promise<SidebarItemData> - The archived list
+   */
+  archiveList(listId: string, taskAction: ListTaskAction): Promise<SidebarItemData>;
+
+  /**
+   * Deletes an area or project, including its notes and journal
+   * @param listId - The area or project key
+   * @param taskAction - What happens to the list's tasks
+   * @returns Promise<void>
+   */
+  deleteList(listId: string, taskAction: ListTaskAction): Promise<void>;
+
+  // Smart lists
+
+  /**
+   * Saves a filter as a user-defined smart list, shown with the built-in ones
+   * @param title - The title of the new smart list
+   * @param filter - The filter criteria whose matching tasks the list shows
+   * @param iconName - The icon name from lucide-react
+   * @returns Promise<SidebarItemData> - The newly created smart list
+   */
+  addSmartList(title: string, filter: TaskFilterCriteria, iconName?: IconName): Promise<SidebarItemData>;
+
+  /**
+   * Updates a user-defined smart list (rename, re-icon, change its filter)
+   * @param key - The smart list key
+   * @param updates - Fields to change
+   * @returns Promise<SidebarItemData> - The updated smart list
+   */
+  updateSmartList(key: string, updates: UpdateSmartListInput): Promise<SidebarItemData>;
+
+  /**
+   * Deletes a user-defined smart list; built-in smart lists can't be deleted
+   * @param key - The smart list key
+   * @returns Promise<void>
+   */
+  deleteSmartList(key: string): Promise<void>;
+
+  // Tags
+
+  /**
+   * Creates a tag; tags typed on a task are listed automatically with the default color
+   * @param name - The tag name (no commas)
+   * @param color - The tag color
+   * @param parent - Optional name of the tag to nest it under
+   * @returns Promise<TagData> - The newly created tag
+   */
+  createTag(name: string, color?: TagColor, parent?: string): Promise<TagData>;
+
+  /**
+   * Updates a tag; renaming it rewrites the tag on every task and moves its nested tags along
+   * @param name - The current tag name
+   * @param updates - Fields to change
+   * @returns Promise<TagData> - The updated tag
+   */
+  updateTag(name: string, updates: UpdateTagInput): Promise<TagData>;
+
+  /**
+   * Merges a tag into another: tasks get the target tag instead, and nested tags move under it
+   * @param name - The tag to merge away
+   * @param into - The tag to keep
+   * @returns Promise<TagData> - The kept tag
+   */
+  mergeTag(name: string, into: string): Promise<TagData>;
+
+  /**
+   * Deletes a tag, removing it from every task; its nested tags move up a level
+   * @param name - The tag name
+   * @returns Promise<void>
+   */
+  deleteTag(name: string): Promise<void>;
+
   /**
    * Gets the current data source mode
    * @returns 'api' | 'local'
@@ -52,9 +141,10 @@ export interface IDataService {
   /**
    * Gets all tasks, optionally filtered by list ID
    * @param listId - Optional ID of smart list, area, or project to filter by
+   * @param sort - Optional sort mode (defaults to manual order)
    * @returns Promise<TaskData[]>
    */
-  getTasks(listId?: string, status?: 'active' | 'completed', page?: number, limit?: number): Promise<TaskData[]>;
+  getTasks(listId?: string, status?: 'active' | 'completed', page?: number, limit?: number, sort?: TaskSort): Promise<TaskData[]>;
 
   /**
    * Gets task counts by status
@@ -175,4 +265,63 @@ export interface IDataService {
    */
   deleteJournalEntry(listId: string, entryId: string): Promise<void>;
 
+  // Search
+
+  /**
+   * Searches task titles, descriptions and tags, plus note section and journal entry content
+   * across every area and project
+   * @param query - Free text; every word must match
+   * @returns Promise<SearchResults> grouped by type
+   */
+  search(query: string): Promise<SearchResults>;
+
+  // Backup
+
+  /**
+   * Exports the whole workspace (lists with their notes and journals, plus all tasks)
+   * @returns Promise<WorkspaceBackup> - A versioned backup document
+   */
+  exportBackup(): Promise<WorkspaceBackup>;
+
+  /**
+   * Imports a backup, either merging it into the current data or replacing it
+   * @param backup - A validated backup document
+   * @param mode - 'merge' keeps the newer copy of anything in both; 'replace' discards current data
+   * @returns Promise<void>
+   */
+  importBackup(backup: WorkspaceBackup, mode: ImportMode): Promise<void>;
+
+  // Sync state
+
+  /**
+   * Gets IDs of tasks with changes waiting to be synced to the server
+   * @returns string[] - Always empty for local storage
+   */
+  getPendingSyncTaskIds(): string[];
+
+  /**
+   * Subscribes to changes in the pending sync state
+   * @param listener - Called whenever changes are queued or synced
+   * @returns Unsubscribe function
+   */
+  onSyncStateChange(listener: () => void): () => void;
+
+  // Saved data health
+
+  /**
+   * Takes the problems found while loading saved data (e.g. records that failed validation and were
+   * quarantined), so each is reported only once
+   * @returns StorageError[] - Always empty for the API
+   */
+  takeStorageErrors(): StorageError[];
+
+  // Change events
+
+  /**
+   * Subscribes to changes made through this service
+   * @param listener - Called after each successful mutation with what changed
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: DataChangeListener): () => void;
+
 }
\ No newline at end of file
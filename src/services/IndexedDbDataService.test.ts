@@ -0,0 +1,207 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { IDBDatabase, IDBFactory, IDBKeyRange, IDBObjectStore } from 'fake-indexeddb'
+import { IndexedDbDataService } from './IndexedDbDataService'
+import { createDataService } from './dataService'
+import { StorageError } from '../types/errors'
+import type { DataChangeEvent } from '../types/dataChanges'
+import type { TaskData } from '../types/task'
+
+// happy-dom has no IndexedDB, so these cover the localStorage fallback (fake-indexeddb covers the database below)
+describe('IndexedDbDataService', () => {
+  let service: IndexedDbDataService
+
+  beforeEach(() => {
+    localStorage.clear()
+    service = new IndexedDbDataService()
+  })
+
+  it('should be selected by createDataService', () => {
+    expect(createDataService(false, '', 'indexedDB')).toBeInstanceOf(IndexedDbDataService)
+  })
+
+  it('should fall back to localStorage when IndexedDB is unavailable', async () => {
+    const task = await service.createTask({ title: 'Fallback task' })
+
+    const stored = JSON.parse(localStorage.getItem('tasks') ?? '[]')
+    expect(stored.some((t: { id: string }) => t.id === task.id)).toBe(true)
+    expect(service.getDataSourceMode()).toBe('local')
+  })
+
+  it('should keep existing localStorage data when falling back', async () => {
+    localStorage.setItem('tasks', JSON.stringify([
+      { id: 'kept', title: 'Kept', priority: 'low', status: 'active', createdAt: '2025-01-01T00:00:00.000Z', updatedAt: '2025-01-01T00:00:00.000Z' }
+    ]))
+
+    const tasks = await new IndexedDbDataService().getTasks()
+
+    expect(tasks.map(t => t.id)).toEqual(['kept'])
+  })
+
+  it('should get tasks due within a date range', async () => {
+    await service.createTask({ title: 'Before', dueDate: '2025-03-01' })
+    await service.createTask({ title: 'Start', dueDate: '2025-03-05' })
+    await service.createTask({ title: 'End', dueDate: '2025-03-10' })
+    await service.createTask({ title: 'After', dueDate: '2025-03-11' })
+    await service.createTask({ title: 'Undated' })
+
+    const tasks = await service.getTasksDueBetween('2025-03-05', '2025-03-10')
+
+    expect(tasks.map(t => t.title).filter(title => ['Before', 'Start', 'End', 'After', 'Undated'].includes(title)))
+      .toEqual(['Start', 'End'])
+  })
+})
+
+describe('IndexedDbDataService with IndexedDB', () => {
+  const storedTask = (id: string, overrides: Partial<TaskData> = {}): TaskData => ({
+    id,
+    title: `Task ${id}`,
+    priority: 'low',
+    status: 'active',
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    ...overrides
+  })
+
+  /**
+   * Reads every record of a store straight from the database
+   */
+  const readStore = (name: string): Promise<unknown[]> => new Promise((resolve, reject) => {
+    const open = indexedDB.open('front-end-poc')
+    open.onerror = () => reject(open.error)
+    open.onsuccess = () => {
+      const request = open.result.transaction(name, 'readonly').objectStore(name).getAll()
+      request.onsuccess = () => {
+        open.result.close()
+        resolve(request.result)
+      }
+      request.onerror = () => reject(request.error)
+    }
+  })
+
+  /**
+   * Makes readwrite transactions fail to start, as when storage is full
+   */
+  const failWrites = () => {
+    const transaction = IDBDatabase.prototype.transaction
+    return vi.spyOn(IDBDatabase.prototype, 'transaction').mockImplementation(function (this: IDBDatabase, ...args: Parameters<typeof transaction>) {
+      if (args[1] === 'readwrite') throw new DOMException('Quota exceeded', 'QuotaExceededError')
+      return transaction.apply(this, args)
+    })
+  }
+
+  beforeEach(() => {
+    localStorage.clear()
+    vi.stubGlobal('indexedDB', new IDBFactory())
+    vi.stubGlobal('IDBKeyRange', IDBKeyRange)
+    localStorage.setItem('tasks', JSON.stringify([
+      storedTask('home-1', { listId: 'home', dueDate: '2025-03-05' }),
+      storedTask('work-1', { listId: 'work', dueDate: '2025-03-20' }),
+      storedTask('work-2', { listId: 'work', status: 'completed' })
+    ]))
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.unstubAllGlobals()
+  })
+
+  it('should migrate localStorage data into the database and only then clear it', async () => {
+    const service = new IndexedDbDataService()
+    await service.getTasks()
+
+    const tasks = await readStore('tasks') as TaskData[]
+    expect(tasks.map(task => task.id).sort()).toEqual(['home-1', 'work-1', 'work-2'])
+    expect((await readStore('lists')).length).toBeGreaterThan(0)
+    expect(localStorage.getItem('tasks')).toBeNull()
+    expect(localStorage.getItem('sidebarConfig')).toBeNull()
+
+    // The next load reads the database
+    const reloaded = await new IndexedDbDataService().getTasks()
+    expect(reloaded.map(task => task.id).sort()).toEqual(['home-1', 'work-1', 'work-2'])
+  })
+
+  it('should keep localStorage data and report an error when the migration fails', async () => {
+    failWrites()
+
+    const service = new IndexedDbDataService()
+    const tasks = await service.getTasks()
+
+    expect(tasks.map(task => task.id)).toEqual(['home-1', 'work-1', 'work-2'])
+    expect(JSON.parse(localStorage.getItem('tasks') ?? '[]')).toHaveLength(3)
+    const errors = service.takeStorageErrors()
+    expect(errors).toHaveLength(1)
+    expect(errors[0]).toBeInstanceOf(StorageError)
+    expect(errors[0].operation).toBe('write')
+  })
+
+  it('should query tasks through the listId, status and dueDate indexes', async () => {
+    const service = new IndexedDbDataService()
+
+    expect((await service.getTasks('work')).map(task => task.id)).toEqual(['work-1', 'work-2'])
+    expect((await service.getTasks('work', 'active')).map(task => task.id)).toEqual(['work-1'])
+    expect((await service.getTasks(undefined, 'completed')).map(task => task.id)).toEqual(['work-2'])
+    expect((await service.getTasksDueBetween('2025-03-01', '2025-03-10')).map(task => task.id)).toEqual(['home-1'])
+  })
+
+  it('should write only the records that changed', async () => {
+    const service = new IndexedDbDataService()
+    await service.getTasks()
+    const put = vi.spyOn(IDBObjectStore.prototype, 'put')
+    const remove = vi.spyOn(IDBObjectStore.prototype, 'delete')
+
+    await service.updateTask('work-1', { title: 'Renamed' })
+    await service.deleteTask('home-1')
+    await service.getTasks()
+
+    expect(put).toHaveBeenCalledTimes(1)
+    expect(put.mock.calls[0][0]).toMatchObject({ id: 'work-1', title: 'Renamed' })
+    expect(remove).toHaveBeenCalledWith('home-1')
+    const stored = await readStore('tasks') as TaskData[]
+    expect(stored.map(task => task.id).sort()).toEqual(['work-1', 'work-2'])
+  })
+
+  it('should leave a database saved by a newer version untouched', async () => {
+    await new IndexedDbDataService().getTasks()
+    await new Promise<void>((resolve, reject) => {
+      const open = indexedDB.open('front-end-poc')
+      open.onsuccess = () => {
+        const transaction = open.result.transaction('meta', 'readwrite')
+        transaction.objectStore('meta').put(99, 'dataVersion')
+        transaction.oncomplete = () => {
+          open.result.close()
+          resolve()
+        }
+      }
+      open.onerror = () => reject(open.error)
+    })
+
+    const service = new IndexedDbDataService()
+    await service.updateTask('work-1', { title: 'Not saved' })
+
+    expect((await service.getTasks()).find(task => task.id === 'work-1')?.title).toBe('Not saved')
+    const stored = await readStore('tasks') as TaskData[]
+    expect(stored.find(task => task.id === 'work-1')?.title).toBe('Task work-1')
+    expect(await readStore('meta')).toContain(99)
+    expect(service.takeStorageErrors()[0].message).toMatch(/newer version/)
+  })
+
+  it('should report failed writes and retry them with the next save', async () => {
+    const service = new IndexedDbDataService()
+    await service.getTasks()
+    const events: DataChangeEvent[] = []
+    service.subscribe(event => events.push(event))
+
+    const writes = failWrites()
+    await service.updateTask('work-1', { title: 'Unsaved' })
+    await service.getTasks()
+    expect(events.some(event => event.type === 'storage_error' && event.error.operation === 'write')).toBe(true)
+
+    writes.mockRestore()
+    await service.updateTask('home-1', { title: 'Saved' })
+    await service.getTasks()
+
+    const stored = await readStore('tasks') as TaskData[]
+    expect(stored.find(task => task.id === 'work-1')?.title).toBe('Unsaved')
+    expect(stored.find(task => task.id === 'home-1')?.title).toBe('Saved')
+  })
+})
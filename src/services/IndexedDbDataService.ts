@@ -0,0 +1,358 @@
+import { LocalDataService } from './LocalDataService';
+import type { SidebarConfigData, SidebarItemData } from '../types/sidebar';
+import type { TaskData, TaskSort } from '../types/task';
+import type { TagData } from '../types/tags';
+import { sortTasks } from '../utils/taskSort';
+import { LOCAL_DATA_VERSION, migrateSidebarConfig, migrateTasks } from './localMigrations';
+import { StorageError } from '../types/errors';
+
+const DB_NAME = 'front-end-poc';
+const DB_VERSION = 1;
+
+const TASKS_STORE = 'tasks';
+const LISTS_STORE = 'lists';
+const META_STORE = 'meta';
+
+const MIGRATED_KEY = 'migratedFromLocalStorage';
+const DATA_VERSION_KEY = 'dataVersion';
+const TAGS_KEY = 'tags';
+
+type ListKind = 'smartList' | 'area' | 'project';
+
+/**
+ * A sidebar item stored as its own record
+ * Position keeps the sidebar order, since records come back sorted by key
+ */
+interface ListRecord {
+  key: string;
+  kind: ListKind;
+  position: number;
+  item: SidebarItemData;
+}
+
+/**
+ * Wraps an IDBRequest in a promise
+ */
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Resolves when a transaction commits
+ */
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Opens the database, creating stores and indexes on first use
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    const tasks = db.createObjectStore(TASKS_STORE, { keyPath: 'id' });
+    tasks.createIndex('listId', 'listId');
+    tasks.createIndex('status', 'status');
+    tasks.createIndex('dueDate', 'dueDate');
+    db.createObjectStore(LISTS_STORE, { keyPath: 'key' });
+    db.createObjectStore(META_STORE);
+  };
+  return requestToPromise(request);
+};
+
+/**
+ * Flattens the sidebar config into one record per item
+ */
+const toListRecords = (config: SidebarConfigData): ListRecord[] => [
+  ...config.smartLists.map((item, position) => ({ key: item.key, kind: 'smartList' as const, position, item })),
+  ...config.areas.map((item, position) => ({ key: item.key, kind: 'area' as const, position, item })),
+  ...config.projects.map((item, position) => ({ key: item.key, kind: 'project' as const, position, item })),
+];
+
+/**
+ * Rebuilds the sidebar config from stored records
+ */
+const fromListRecords = (records: ListRecord[]): SidebarConfigData => {
+  const byKind = (kind: ListKind) => records
+    .filter(record => record.kind === kind)
+    .sort((a, b) => a.position - b.position)
+    .map(record => record.item);
+
+  return {
+    smartLists: byKind('smartList'),
+    areas: byKind('area'),
+    projects: byKind('project'),
+  };
+};
+
+/**
+ * IndexedDB implementation of IDataService
+ * Keeps the LocalDataService logic and in-memory copy, but writes only the records that changed
+ * instead of rewriting whole arrays into localStorage.
+ * Existing localStorage data is migrated into the database on first run, then removed.
+ * Failed writes are reported as storage_error events and retried with the next save.
+ * Falls back to localStorage when IndexedDB is unavailable (e.g. some private browsing modes).
+ */
+export class IndexedDbDataService extends LocalDataService {
+  private db: IDBDatabase | null = null;
+
+  // Last persisted JSON per record key, used to find what changed
+  private persistedTasks = new Map<string, string>();
+  private persistedLists = new Map<string, string>();
+  private persistedTags = JSON.stringify([]);
+
+  // Serialises writes so they commit in the order they were made
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor() {
+    super();
+    this.ready = this.initialize();
+  }
+
+  /**
+   * Opens the database and either loads its data or migrates localStorage into it
+   */
+  private async initialize(): Promise<void> {
+    if (typeof indexedDB === 'undefined') {
+      console.warn('⚠️ IndexedDB is not available, falling back to localStorage');
+      return;
+    }
+
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction([TASKS_STORE, LISTS_STORE, META_STORE], 'readonly');
+      const [tasks, lists, migrated, version, tags] = await Promise.all([
+        requestToPromise(transaction.objectStore(TASKS_STORE).getAll() as IDBRequest<TaskData[]>),
+        requestToPromise(transaction.objectStore(LISTS_STORE).getAll() as IDBRequest<ListRecord[]>),
+        requestToPromise(transaction.objectStore(META_STORE).get(MIGRATED_KEY)),
+        requestToPromise(transaction.objectStore(META_STORE).get(DATA_VERSION_KEY) as IDBRequest<number | undefined>),
+        requestToPromise(transaction.objectStore(META_STORE).get(TAGS_KEY) as IDBRequest<TagData[] | undefined>),
+      ]);
+      this.db = db;
+
+      if (migrated) {
+        // Upgrade and validate what was stored; records that fail are quarantined and deleted on save
+        const fromVersion = version ?? 0;
+        const migratedTasks = migrateTasks(tasks, fromVersion);
+        const migratedLists = migrateSidebarConfig({ ...fromListRecords(lists), tags }, fromVersion);
+        this.tasks = migratedTasks.data;
+        this.localData = migratedLists.data ?? fromListRecords([]);
+        this.persistedTasks = new Map(tasks.map(task => [task.id, JSON.stringify(task)]));
+        this.persistedLists = new Map(lists.map(record => [record.key, JSON.stringify(record)]));
+        this.persistedTags = JSON.stringify(tags ?? []);
+        this.settleMigration(fromVersion, [...migratedLists.quarantined, ...migratedTasks.quarantined], 'indexedDB');
+        // Newer data stays as it is in the database; work from the copy in memory
+        if (this.readOnly) this.db = null;
+        console.log(`✅ Loaded ${this.tasks.length} tasks from IndexedDB`);
+        return;
+      }
+
+      // Newer data in localStorage stays there rather than being migrated in a form this version understands
+      if (this.readOnly) {
+        this.db = null;
+        return;
+      }
+
+      // First run: the constructor already loaded localStorage (or the defaults) into memory
+      await this.migrateFromLocalStorage();
+    } catch (error) {
+      // localStorage still holds the data, so keep using it
+      this.db = null;
+      console.error('❌ Failed to open IndexedDB, falling back to localStorage:', error);
+      if (error instanceof StorageError) this.storageErrors.push(error);
+    }
+  }
+
+  /**
+   * Copies the in-memory data into the database in one transaction, then clears the old localStorage keys
+   * The keys are only removed once the transaction has committed, so a failed write loses nothing.
+   * @throws StorageError if the data couldn't be written
+   */
+  private async migrateFromLocalStorage(): Promise<void> {
+    const tasks = this.tasks.map(task => JSON.stringify(task));
+    const records = toListRecords(this.localData).map(record => JSON.stringify(record));
+    const tags = JSON.stringify(this.localData.tags ?? []);
+
+    await this.enqueueWrite([TASKS_STORE, LISTS_STORE, META_STORE], transaction => {
+      tasks.forEach(task => transaction.objectStore(TASKS_STORE).put(JSON.parse(task)));
+      records.forEach(record => transaction.objectStore(LISTS_STORE).put(JSON.parse(record)));
+      transaction.objectStore(META_STORE).put(JSON.parse(tags), TAGS_KEY);
+      transaction.objectStore(META_STORE).put(true, MIGRATED_KEY);
+      transaction.objectStore(META_STORE).put(LOCAL_DATA_VERSION, DATA_VERSION_KEY);
+    }, false);
+
+    this.persistedTasks = new Map(this.tasks.map((task, index) => [task.id, tasks[index]]));
+    this.persistedLists = new Map(records.map(record => [(JSON.parse(record) as ListRecord).key, record]));
+    this.persistedTags = tags;
+
+    localStorage.removeItem(this.STORAGE_KEY);
+    localStorage.removeItem(this.TASKS_STORAGE_KEY);
+    localStorage.removeItem(this.VERSION_STORAGE_KEY);
+    console.log(`✅ Migrated ${this.tasks.length} tasks from localStorage to IndexedDB`);
+  }
+
+  /**
+   * Stamps the database with the current data version
+   */
+  protected persistDataVersion(): void {
+    if (!this.db) {
+      super.persistDataVersion();
+      return;
+    }
+
+    this.enqueueWrite([META_STORE], transaction => {
+      transaction.objectStore(META_STORE).put(LOCAL_DATA_VERSION, DATA_VERSION_KEY);
+    }).catch(() => {});
+  }
+
+  /**
+   * Runs a readwrite transaction after any pending ones
+   * A failed write doesn't hold up the ones queued after it.
+   * @param report - Whether to tell listeners about a failure (a storage_error event)
+   * @returns Resolves once the transaction commits
+   * @throws StorageError if the transaction fails
+   */
+  private enqueueWrite(storeNames: string[], write: (transaction: IDBTransaction) => void, report = true): Promise<void> {
+    const db = this.db;
+    if (!db) return Promise.resolve();
+
+    const result = this.writeQueue.then(() => {
+      const transaction = db.transaction(storeNames, 'readwrite');
+      write(transaction);
+      return transactionDone(transaction);
+    }).catch(error => {
+      console.error('❌ Failed to write to IndexedDB:', error);
+      const storageError = new StorageError(`Failed to write to IndexedDB: ${error instanceof Error ? error.message : String(error)}`, 'indexedDB', 'write');
+      if (report) this.changes.emit({ type: 'storage_error', error: storageError });
+      throw storageError;
+    });
+    this.writeQueue = result.catch(() => {});
+    return result;
+  }
+
+  /**
+   * Writes changed tasks and deletes removed ones
+   */
+  protected persistTasks(): void {
+    if (!this.db) {
+      super.persistTasks();
+      return;
+    }
+
+    const current = new Map(this.tasks.map(task => [task.id, JSON.stringify(task)]));
+    const changed = this.tasks.filter(task => this.persistedTasks.get(task.id) !== current.get(task.id));
+    const removed = [...this.persistedTasks.keys()].filter(id => !current.has(id));
+    this.persistedTasks = current;
+
+    if (changed.length === 0 && removed.length === 0) return;
+
+    // Store copies so later in-place edits can't leak into a queued write
+    const records = changed.map(task => JSON.parse(current.get(task.id)!) as TaskData);
+    this.enqueueWrite([TASKS_STORE], transaction => {
+      const store = transaction.objectStore(TASKS_STORE);
+      records.forEach(task => store.put(task));
+      removed.forEach(id => store.delete(id));
+    }).catch(() => {
+      // Mark the records unsaved so the next save writes them again
+      records.forEach(task => this.persistedTasks.delete(task.id));
+      removed.forEach(id => this.persistedTasks.set(id, ''));
+    });
+  }
+
+  /**
+   * Writes changed sidebar items and deletes removed ones, plus the tags when they changed
+   */
+  protected persistLocalData(): void {
+    if (!this.db) {
+      super.persistLocalData();
+      return;
+    }
+
+    const tags = JSON.stringify(this.localData.tags ?? []);
+    if (tags !== this.persistedTags) {
+      this.persistedTags = tags;
+      const copies = JSON.parse(tags) as TagData[];
+      this.enqueueWrite([META_STORE], transaction => {
+        transaction.objectStore(META_STORE).put(copies, TAGS_KEY);
+      }).catch(() => {
+        this.persistedTags = '';
+      });
+    }
+
+    const records = toListRecords(this.localData);
+    const current = new Map(records.map(record => [record.key, JSON.stringify(record)]));
+    const changed = records.filter(record => this.persistedLists.get(record.key) !== current.get(record.key));
+    const removed = [...this.persistedLists.keys()].filter(key => !current.has(key));
+    this.persistedLists = current;
+
+    if (changed.length === 0 && removed.length === 0) return;
+
+    const copies = changed.map(record => JSON.parse(current.get(record.key)!) as ListRecord);
+    this.enqueueWrite([LISTS_STORE], transaction => {
+      const store = transaction.objectStore(LISTS_STORE);
+      copies.forEach(record => store.put(record));
+      removed.forEach(key => store.delete(key));
+    }).catch(() => {
+      copies.forEach(record => this.persistedLists.delete(record.key));
+      removed.forEach(key => this.persistedLists.set(key, ''));
+    });
+  }
+
+  async getTasks(listId?: string, status?: 'active' | 'completed', page?: number, limit?: number, sort?: TaskSort): Promise<TaskData[]> {
+    await this.ready;
+    const db = this.db;
+    if (!db) {
+      return super.getTasks(listId, status, page, limit, sort);
+    }
+
+    // Narrow with an index, waiting for queued writes so reads see them
+    await this.writeQueue;
+    const store = db.transaction(TASKS_STORE, 'readonly').objectStore(TASKS_STORE);
+    let request: IDBRequest;
+    if (listId) {
+      request = store.index('listId').getAll(listId);
+    } else if (status) {
+      request = store.index('status').getAll(status);
+    } else {
+      request = store.getAll();
+    }
+
+    let tasks = await requestToPromise(request as IDBRequest<TaskData[]>);
+    if (listId && status) {
+      tasks = tasks.filter(task => task.status === status);
+    }
+
+    tasks = sortTasks(tasks, sort);
+
+    if (page !== undefined && limit !== undefined) {
+      const start = (page - 1) * limit;
+      tasks = tasks.slice(start, start + limit);
+    }
+    return tasks;
+  }
+
+  /**
+   * Gets tasks due within a date range using the dueDate index
+   * @param from - First date, inclusive (YYYY-MM-DD)
+   * @param to - Last date, inclusive (YYYY-MM-DD)
+   */
+  async getTasksDueBetween(from: string, to: string): Promise<TaskData[]> {
+    await this.ready;
+    const db = this.db;
+    if (!db) {
+      return this.tasks.filter(task => task.dueDate && task.dueDate >= from && task.dueDate <= to);
+    }
+
+    await this.writeQueue;
+    const index = db.transaction(TASKS_STORE, 'readonly').objectStore(TASKS_STORE).index('dueDate');
+    return requestToPromise(index.getAll(IDBKeyRange.bound(from, to)) as IDBRequest<TaskData[]>);
+  }
+}
@@ -1,4 +1,5 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { addDays, format } from 'date-fns'
 import { LocalDataService } from './LocalDataService'
 import type { CreateTaskInput, UpdateTaskInput } from '../types/task'
 
@@ -41,6 +42,66 @@ describe('LocalDataService', () => {
     })
   })
 
+  describe('saved data migrations', () => {
+    it('should upgrade unversioned data and stamp the current version', () => {
+      localStorage.setItem('tasks', JSON.stringify([{ id: 'old', title: 'Old task' }]))
+
+      const newService = new LocalDataService()
+
+      expect(localStorage.getItem('dataVersion')).toBe('2')
+      expect(JSON.parse(localStorage.getItem('tasks')!)[0]).toMatchObject({ id: 'old', priority: 'medium', status: 'active' })
+      expect(newService.takeStorageErrors()).toEqual([])
+    })
+
+    it('should quarantine invalid records and report them once', async () => {
+      localStorage.setItem('tasks', JSON.stringify([
+        { id: 'good', title: 'Good', priority: 'low', status: 'active', createdAt: '2025-01-01', updatedAt: '2025-01-01' },
+        { id: 'bad', title: 42 },
+      ]))
+      localStorage.setItem('sidebarConfig', '{not json')
+
+      const newService = new LocalDataService()
+      const tasks = await newService.getTasks()
+
+      expect(tasks.map(task => task.id)).toEqual(['good'])
+      expect(newService.getLocalSidebarConfig().areas.length).toBeGreaterThan(0)
+      const quarantined = JSON.parse(localStorage.getItem('quarantinedRecords')!)
+      expect(quarantined.map((record: { kind: string }) => record.kind)).toEqual(['sidebar', 'task'])
+
+      const errors = newService.takeStorageErrors()
+      expect(errors).toHaveLength(1)
+      expect(errors[0]).toMatchObject({ name: 'StorageError', storageType: 'localStorage', operation: 'read' })
+      expect(errors[0].message).toMatch(/2 saved items/)
+      expect(newService.takeStorageErrors()).toEqual([])
+    })
+
+    it('should leave data saved by a newer version untouched', async () => {
+      const stored = JSON.stringify([{ id: 'new', title: 'New', priority: 'low', status: 'active', createdAt: 'x', updatedAt: 'x', extra: true }])
+      localStorage.setItem('dataVersion', '99')
+      localStorage.setItem('tasks', stored)
+
+      const newService = new LocalDataService()
+      await newService.updateTask('new', { title: 'Edited' })
+      await newService.createTask({ title: 'Another' })
+
+      expect(localStorage.getItem('tasks')).toBe(stored)
+      expect(localStorage.getItem('dataVersion')).toBe('99')
+      expect((await newService.getTasks()).map(task => task.title).sort()).toEqual(['Another', 'Edited'])
+      expect(newService.takeStorageErrors()[0].message).toMatch(/newer version/)
+    })
+
+    it('should not replace unreadable saved tasks with the sample tasks', async () => {
+      localStorage.setItem('tasks', '{not json')
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      const newService = new LocalDataService()
+
+      expect(await newService.getTasks()).toEqual([])
+      expect(JSON.parse(localStorage.getItem('tasks')!)).toEqual([])
+      expect(JSON.parse(localStorage.getItem('quarantinedRecords')!)).toEqual([expect.objectContaining({ kind: 'tasks', record: '{not json' })])
+    })
+  })
+
   describe('getSidebarConfig', () => {
     it('should return sidebar configuration with task counts', async () => {
       const config = await service.getSidebarConfig()
@@ -103,6 +164,36 @@ describe('LocalDataService', () => {
       // The count should be from mock data only, not include our completed task
       expect(todayList?.count).toBe(todayList?.count)
     })
+
+    it('should count the Anytime, Someday and Logbook lists', async () => {
+      localStorage.setItem('tasks', JSON.stringify([]))
+      const emptyService = new LocalDataService()
+      await emptyService.createTask({ title: 'Anytime', priority: 'medium', status: 'active' })
+      await emptyService.createTask({ title: 'Someday', priority: 'medium', status: 'active', someday: true })
+      await emptyService.createTask({ title: 'Done', priority: 'medium', status: 'completed' })
+      await emptyService.createTask({ title: 'Done someday', priority: 'medium', status: 'completed', someday: true })
+
+      const config = await emptyService.getSidebarConfig()
+      const count = (key: string) => config.smartLists.find(list => list.key === key)?.count
+
+      expect(count('anytime')).toBe(1)
+      expect(count('someday')).toBe(1)
+      expect(count('logbook')).toBe(2)
+    })
+
+    it('should count tasks by start date in Today and Anytime', async () => {
+      localStorage.setItem('tasks', JSON.stringify([]))
+      const emptyService = new LocalDataService()
+      const day = (offset: number) => format(addDays(new Date(), offset), 'yyyy-MM-dd')
+      await emptyService.createTask({ title: 'Started', startDate: day(-1), dueDate: day(5) })
+      await emptyService.createTask({ title: 'Starts later', startDate: day(2) })
+
+      const config = await emptyService.getSidebarConfig()
+      const count = (key: string) => config.smartLists.find(list => list.key === key)?.count
+
+      expect(count('today')).toBe(1)
+      expect(count('anytime')).toBe(1)
+    })
   })
 
   describe('addArea', () => {
@@ -189,6 +280,209 @@ describe('LocalDataService', () => {
     })
   })
 
+  describe('updateList', () => {
+    it('should rename, re-icon and re-prioritize a list', async () => {
+      const list = await service.updateList('work', { title: 'Job', iconName: 'Globe', priority: 'high' })
+
+      expect(list).toMatchObject({ key: 'work', title: 'Job', iconName: 'Globe', priority: 'high' })
+      expect(service.getLocalSidebarConfig().areas.find(a => a.key === 'work')?.title).toBe('Job')
+    })
+
+    it('should change a project due date and persist it', async () => {
+      await service.updateList('website', { dueDate: '2026-01-15' })
+
+      const stored = JSON.parse(localStorage.getItem('sidebarConfig')!)
+      expect(stored.projects.find((p: { key: string }) => p.key === 'website').dueDate).toBe('2026-01-15')
+    })
+
+    it('should restore an archived list', async () => {
+      await service.archiveList('work', 'archive')
+
+      const list = await service.updateList('work', { archived: false })
+
+      expect(list.archived).toBe(false)
+    })
+
+    it('should throw error for non-existent list', async () => {
+      await expect(service.updateList('missing', { title: 'Nope' })).rejects.toThrow('List with key missing not found')
+    })
+  })
+
+  describe('archiveList', () => {
+    it('should mark the list archived and archive its tasks with it', async () => {
+      const task = await service.createTask({ title: 'Report', listId: 'work' })
+
+      const list = await service.archiveList('work', 'archive')
+
+      expect(list.archived).toBe(true)
+      expect(await service.getTask(task.id)).toMatchObject({ status: 'archived', listId: 'work' })
+    })
+
+    it('should move the list tasks to the Inbox', async () => {
+      const task = await service.createTask({ title: 'Report', listId: 'work' })
+
+      await service.archiveList('work', 'move_to_inbox')
+
+      const moved = await service.getTask(task.id)
+      expect(moved?.listId).toBeUndefined()
+      expect(moved?.status).toBe('active')
+    })
+
+    it('should leave tasks in other lists alone', async () => {
+      const other = await service.createTask({ title: 'Groceries', listId: 'home' })
+
+      await service.archiveList('work', 'delete')
+
+      expect(await service.getTask(other.id)).toMatchObject({ listId: 'home', status: 'active' })
+    })
+  })
+
+  describe('deleteList', () => {
+    it('should remove an area or project', async () => {
+      await service.deleteList('work', 'move_to_inbox')
+      await service.deleteList('website', 'move_to_inbox')
+
+      const config = service.getLocalSidebarConfig()
+      expect(config.areas.some(a => a.key === 'work')).toBe(false)
+      expect(config.projects.some(p => p.key === 'website')).toBe(false)
+    })
+
+    it('should delete the list tasks along with their subtasks', async () => {
+      const task = await service.createTask({ title: 'Report', listId: 'work' })
+      const subtask = await service.createTask({ title: 'Outline', parentId: task.id })
+
+      await service.deleteList('work', 'delete')
+
+      expect(await service.getTask(task.id)).toBeNull()
+      expect(await service.getTask(subtask.id)).toBeNull()
+      expect(await service.getTasks('work')).toEqual([])
+    })
+
+    it('should archive tasks without keeping a reference to the deleted list', async () => {
+      const task = await service.createTask({ title: 'Report', listId: 'work' })
+
+      await service.deleteList('work', 'archive')
+
+      const archived = await service.getTask(task.id)
+      expect(archived?.status).toBe('archived')
+      expect(archived?.listId).toBeUndefined()
+    })
+
+    it('should throw error for non-existent list', async () => {
+      await expect(service.deleteList('missing', 'delete')).rejects.toThrow('List with key missing not found')
+    })
+  })
+
+  describe('smart lists', () => {
+    it('should save a filter as a smart list and count its matching tasks', async () => {
+      await service.createTask({ title: 'Fix outage', priority: 'high' })
+      await service.createTask({ title: 'Done already', priority: 'high', status: 'completed' })
+
+      const list = await service.addSmartList('Urgent', { priorities: ['high'] })
+
+      expect(list.filter).toEqual({ priorities: ['high'] })
+      expect(list.iconName).toBe('Layers')
+      const config = await service.getSidebarConfig()
+      const saved = config.smartLists.find(item => item.key === list.key)
+      expect(saved?.count).toBe(list.count)
+      expect(saved?.count).toBe((await service.getTasks()).filter(task => !task.parentId && task.priority === 'high' && task.status !== 'completed').length)
+    })
+
+    it('should update and delete a saved smart list', async () => {
+      const list = await service.addSmartList('Urgent', { priorities: ['high'] })
+
+      const updated = await service.updateSmartList(list.key, { title: 'Hot', filter: { priorities: ['high', 'medium'] } })
+      expect(updated).toMatchObject({ title: 'Hot', filter: { priorities: ['high', 'medium'] } })
+
+      await service.deleteSmartList(list.key)
+      expect(service.getLocalSidebarConfig().smartLists.some(item => item.key === list.key)).toBe(false)
+    })
+
+    it('should refuse to change built-in smart lists', async () => {
+      await expect(service.updateSmartList('inbox', { title: 'Mail' })).rejects.toThrow('Smart list with key inbox not found')
+      await expect(service.deleteSmartList('inbox')).rejects.toThrow('Smart list with key inbox not found')
+    })
+  })
+
+  describe('tags', () => {
+    it('should list tags typed on tasks alongside saved ones', async () => {
+      await service.createTask({ title: 'Buy milk', priority: 'low', tags: ['shopping'] })
+      await service.createTag('chores', 'blue')
+
+      const tags = service.getLocalSidebarConfig().tags ?? []
+      expect(tags).toContainEqual({ name: 'chores', color: 'blue' })
+      expect(tags).toContainEqual({ name: 'shopping', color: 'emerald' })
+    })
+
+    it('should rename a tag on its tasks and on tags nested under it', async () => {
+      const task = await service.createTask({ title: 'Buy milk', priority: 'low', tags: ['shopping', 'today'] })
+      await service.createTag('groceries', 'amber', 'shopping')
+
+      const renamed = await service.updateTag('shopping', { name: 'errands', color: 'rose' })
+
+      expect(renamed).toEqual({ name: 'errands', color: 'rose' })
+      expect((await service.getTask(task.id))?.tags).toEqual(['errands', 'today'])
+      const tags = service.getLocalSidebarConfig().tags ?? []
+      expect(tags.find(tag => tag.name === 'groceries')?.parent).toBe('errands')
+      expect(tags.some(tag => tag.name === 'shopping')).toBe(false)
+    })
+
+    it('should merge a tag into another without duplicating it on tasks', async () => {
+      const both = await service.createTask({ title: 'Both', priority: 'low', tags: ['errand', 'errands'] })
+      const one = await service.createTask({ title: 'One', priority: 'low', tags: ['errand'] })
+
+      await service.mergeTag('errand', 'errands')
+
+      expect((await service.getTask(both.id))?.tags).toEqual(['errands'])
+      expect((await service.getTask(one.id))?.tags).toEqual(['errands'])
+      expect(service.getLocalSidebarConfig().tags?.some(tag => tag.name === 'errand')).toBe(false)
+    })
+
+    it('should delete a tag from its tasks and move nested tags up', async () => {
+      const task = await service.createTask({ title: 'Buy milk', priority: 'low', tags: ['shopping'] })
+      await service.createTag('groceries', 'amber', 'shopping')
+
+      await service.deleteTag('shopping')
+
+      expect((await service.getTask(task.id))?.tags).toBeUndefined()
+      const tags = service.getLocalSidebarConfig().tags ?? []
+      expect(tags.find(tag => tag.name === 'groceries')?.parent).toBeUndefined()
+    })
+
+    it('should carry tag renames, merges and deletes over to smart list filters', async () => {
+      const list = await service.addSmartList('Errands', { tags: ['shopping', 'errands'], priorities: ['high'] })
+      const listener = vi.fn()
+      service.subscribe(listener)
+      const filterOf = () => service.getLocalSidebarConfig().smartLists.find(item => item.key === list.key)?.filter
+
+      await service.updateTag('shopping', { name: 'groceries' })
+      expect(filterOf()).toEqual({ tags: ['groceries', 'errands'], priorities: ['high'] })
+      expect(listener).toHaveBeenCalledWith({ type: 'list_updated', list: expect.objectContaining({ key: list.key }) })
+      expect(listener).toHaveBeenCalledWith({ type: 'tag_replaced', name: 'shopping', replacement: 'groceries' })
+
+      await service.mergeTag('groceries', 'errands')
+      expect(filterOf()).toEqual({ tags: ['errands'], priorities: ['high'] })
+
+      await service.deleteTag('errands')
+      expect(filterOf()).toEqual({ priorities: ['high'] })
+      expect(listener).toHaveBeenCalledWith({ type: 'tag_replaced', name: 'errands' })
+
+      // Saved along with the tags
+      const saved = JSON.parse(localStorage.getItem('sidebarConfig')!)
+      expect(saved.smartLists.find((item: { key: string }) => item.key === list.key).filter).toEqual({ priorities: ['high'] })
+    })
+
+    it('should reject duplicate names, unknown tags and nesting a tag under itself', async () => {
+      await service.createTag('chores')
+      await service.createTag('dishes', 'gray', 'chores')
+
+      await expect(service.createTag(' chores ')).rejects.toThrow('Tag chores already exists')
+      await expect(service.updateTag('nope', { color: 'blue' })).rejects.toThrow('Tag nope not found')
+      await expect(service.updateTag('chores', { parent: 'dishes' })).rejects.toThrow('A tag cannot be nested under itself')
+      await expect(service.mergeTag('chores', 'chores')).rejects.toThrow('A tag cannot be merged into itself')
+    })
+  })
+
   describe('getTasks', () => {
     it('should return all tasks when no filters applied', async () => {
       const tasks = await service.getTasks()
@@ -232,6 +526,22 @@ describe('LocalDataService', () => {
       }
     })
 
+    it('should sort tasks by the requested mode', async () => {
+      await service.createTask({ title: 'Later', priority: 'low', status: 'active', dueDate: '2030-02-01' })
+      await service.createTask({ title: 'Sooner', priority: 'high', status: 'active', dueDate: '2030-01-01' })
+
+      const byDueDate = await service.getTasks(undefined, undefined, undefined, undefined, { field: 'dueDate', direction: 'asc' })
+      const dated = byDueDate.filter(t => t.dueDate)
+      for (let i = 0; i < dated.length - 1; i++) {
+        expect(dated[i].dueDate! <= dated[i + 1].dueDate!).toBe(true)
+      }
+
+      const byTitle = await service.getTasks(undefined, undefined, undefined, undefined, { field: 'title', direction: 'desc' })
+      for (let i = 0; i < byTitle.length - 1; i++) {
+        expect(byTitle[i].title.localeCompare(byTitle[i + 1].title, undefined, { sensitivity: 'base' })).toBeGreaterThanOrEqual(0)
+      }
+    })
+
     it('should support pagination', async () => {
       // Create some tasks
       for (let i = 0; i < 5; i++) {
@@ -292,6 +602,14 @@ describe('LocalDataService', () => {
   })
 
   describe('createTask', () => {
+    it('should keep a reminder across reloads', async () => {
+      const task = await service.createTask({ title: 'Call back', priority: 'low', reminderAt: '2025-03-01T09:00:00.000Z' })
+
+      const reloaded = new LocalDataService()
+
+      expect((await reloaded.getTask(task.id))?.reminderAt).toBe('2025-03-01T09:00:00.000Z')
+    })
+
     it('should create a task with required fields', async () => {
       const input: CreateTaskInput = {
         title: 'New Task',
@@ -380,6 +698,19 @@ describe('LocalDataService', () => {
       expect(updated.updatedAt).not.toBe(task.updatedAt)
     })
 
+    it('should record when a task is completed and clear it when reopened', async () => {
+      const task = await service.createTask({ title: 'Test', priority: 'medium', status: 'active' })
+
+      const completed = await service.updateTask(task.id, { status: 'completed' })
+      expect(completed.completedAt).toBe(completed.updatedAt)
+
+      const retitled = await service.updateTask(task.id, { title: 'Renamed' })
+      expect(retitled.completedAt).toBe(completed.completedAt)
+
+      const reopened = await service.updateTask(task.id, { status: 'active' })
+      expect(reopened).not.toHaveProperty('completedAt')
+    })
+
     it('should throw error for non-existent task', async () => {
       await expect(
         service.updateTask('non-existent', { title: 'Test' })
@@ -426,6 +757,128 @@ describe('LocalDataService', () => {
     })
   })
 
+  describe('subtasks', () => {
+    it('should create a subtask linked to its parent', async () => {
+      const parent = await service.createTask({ title: 'Parent', priority: 'medium', status: 'active' })
+      const subtask = await service.createTask({ title: 'Step 1', parentId: parent.id })
+
+      expect(subtask.parentId).toBe(parent.id)
+    })
+
+    it('should reject a subtask whose parent does not exist', async () => {
+      await expect(
+        service.createTask({ title: 'Orphan', parentId: 'non-existent' })
+      ).rejects.toThrow('Parent task with id non-existent not found')
+    })
+
+    it('should delete subtasks along with their parent', async () => {
+      const parent = await service.createTask({ title: 'Parent', priority: 'medium', status: 'active' })
+      const subtask = await service.createTask({ title: 'Step 1', parentId: parent.id })
+
+      await service.deleteTask(parent.id)
+
+      expect(await service.getTask(subtask.id)).toBeNull()
+    })
+
+    it('should delete nested subtasks at any depth', async () => {
+      const parent = await service.createTask({ title: 'Parent' })
+      const subtask = await service.createTask({ title: 'Step 1', parentId: parent.id })
+      const nested = await service.createTask({ title: 'Step 1a', parentId: subtask.id })
+
+      await service.deleteTask(parent.id)
+
+      expect(await service.getTask(nested.id)).toBeNull()
+    })
+
+    it('should not count subtasks as separate tasks', async () => {
+      localStorage.setItem('tasks', JSON.stringify([]))
+      const emptyService = new LocalDataService()
+      const parent = await emptyService.createTask({ title: 'Parent', listId: 'work', priority: 'medium', status: 'active' })
+      await emptyService.createTask({ title: 'Step 1', listId: 'work', parentId: parent.id })
+      await emptyService.createTask({ title: 'Step 2', listId: 'work', parentId: parent.id })
+
+      const counts = await emptyService.getTaskCounts('work')
+      const config = await emptyService.getSidebarConfig()
+
+      expect(counts.all).toBe(1)
+      expect(config.areas.find(area => area.key === 'work')?.count).toBe(1)
+    })
+
+    it('should reorder subtasks with reorderTasks', async () => {
+      const parent = await service.createTask({ title: 'Parent', priority: 'medium', status: 'active' })
+      const step1 = await service.createTask({ title: 'Step 1', parentId: parent.id })
+      const step2 = await service.createTask({ title: 'Step 2', parentId: parent.id })
+
+      await service.reorderTasks([step2.id, step1.id])
+
+      expect((await service.getTask(step2.id))!.order).toBe(0)
+      expect((await service.getTask(step1.id))!.order).toBe(1)
+    })
+  })
+
+  describe('recurring tasks', () => {
+    it('should spawn the next occurrence when a recurring task is completed', async () => {
+      const task = await service.createTask({
+        title: 'Take out trash',
+        listId: 'home',
+        dueDate: '2025-01-06',
+        recurrence: { frequency: 'weekly', interval: 1, weekdays: [1] }
+      })
+
+      await service.updateTask(task.id, { status: 'completed' })
+
+      const homeTasks = await service.getTasks('home')
+      const next = homeTasks.find(t => t.title === 'Take out trash' && t.status === 'active')
+      expect(next).toBeDefined()
+      expect(next!.dueDate).toBe('2025-01-13')
+      expect(next!.recurrence).toEqual({ frequency: 'weekly', interval: 1, weekdays: [1] })
+    })
+
+    it('should move the repeat rule off the completed occurrence', async () => {
+      const task = await service.createTask({
+        title: 'Water plants',
+        dueDate: '2025-01-06',
+        recurrence: { frequency: 'daily', interval: 1 }
+      })
+
+      const completed = await service.updateTask(task.id, { status: 'completed' })
+      // Re-opening and completing again must not spawn a duplicate
+      await service.updateTask(task.id, { status: 'active' })
+      await service.updateTask(task.id, { status: 'completed' })
+
+      const occurrences = (await service.getTasks()).filter(t => t.title === 'Water plants')
+      expect(completed.recurrence).toBeUndefined()
+      expect(occurrences).toHaveLength(2)
+    })
+
+    it('should copy subtasks to the next occurrence as open items', async () => {
+      const task = await service.createTask({
+        title: 'Weekly review',
+        dueDate: '2025-01-06',
+        recurrence: { frequency: 'weekly', interval: 1, weekdays: [1] }
+      })
+      await service.createTask({ title: 'Clear inbox', parentId: task.id, status: 'completed' })
+
+      await service.updateTask(task.id, { status: 'completed' })
+
+      const tasks = await service.getTasks()
+      const next = tasks.find(t => t.title === 'Weekly review' && t.status === 'active')
+      const copiedSubtasks = tasks.filter(t => t.parentId === next!.id)
+      expect(copiedSubtasks).toHaveLength(1)
+      expect(copiedSubtasks[0].title).toBe('Clear inbox')
+      expect(copiedSubtasks[0].status).toBe('active')
+    })
+
+    it('should not spawn anything for non-recurring tasks', async () => {
+      const task = await service.createTask({ title: 'One-off' })
+      const before = (await service.getTasks()).length
+
+      await service.updateTask(task.id, { status: 'completed' })
+
+      expect((await service.getTasks()).length).toBe(before)
+    })
+  })
+
   describe('reorderTasks', () => {
     it('should reorder tasks correctly', async () => {
       const task1 = await service.createTask({ title: 'Task 1', priority: 'medium', status: 'active' })
@@ -461,6 +914,151 @@ describe('LocalDataService', () => {
     })
   })
 
+  describe('search', () => {
+    it('should find tasks by title, description and tags', async () => {
+      const byTitle = await service.createTask({ title: 'Renew passport', priority: 'medium', status: 'active' })
+      const byDescription = await service.createTask({ title: 'Errand', description: 'Pick up PASSPORT photos', priority: 'medium', status: 'active' })
+      const byTag = await service.createTask({ title: 'Travel prep', tags: ['passport'], priority: 'medium', status: 'active' })
+
+      const results = await service.search('passport')
+
+      expect(results.tasks.map(t => t.id)).toEqual(expect.arrayContaining([byTitle.id, byDescription.id, byTag.id]))
+    })
+
+    it('should require every word of the query to match', async () => {
+      await service.createTask({ title: 'Renew passport', priority: 'medium', status: 'active' })
+
+      const results = await service.search('passport visa')
+
+      expect(results.tasks).toHaveLength(0)
+    })
+
+    it('should find note sections and journal entries across lists', async () => {
+      const section = await service.createSection('work', { title: 'Goals', content: 'Ship the quarterly roadmap' })
+      const entry = await service.createJournalEntry('website', { content: 'Roadmap review went well' })
+
+      const results = await service.search('roadmap')
+
+      expect(results.sections).toEqual([{ listId: 'work', listTitle: 'Work', section }])
+      expect(results.journalEntries).toEqual([{ listId: 'website', listTitle: 'Website', entry }])
+    })
+
+    it('should return no results for an empty query', async () => {
+      const results = await service.search('  ')
+
+      expect(results).toEqual({ tasks: [], sections: [], journalEntries: [] })
+    })
+  })
+
+  describe('backup', () => {
+    it('should export every list, note and task', async () => {
+      const section = await service.createSection('work', { title: 'Goals', content: 'Ship it' })
+      const task = await service.createTask({ title: 'Back me up', priority: 'medium', status: 'active' })
+
+      const backup = await service.exportBackup()
+
+      expect(backup.app).toBe('front-end-poc')
+      expect(backup.sidebar.areas.find(area => area.key === 'work')?.sections).toContainEqual(section)
+      expect(backup.tasks).toContainEqual(task)
+    })
+
+    it('should replace everything with the backup', async () => {
+      const backup = await service.exportBackup()
+      await service.createTask({ title: 'Made after the backup', priority: 'medium', status: 'active' })
+
+      await service.importBackup(backup, 'replace')
+
+      expect((await service.getTasks()).map(t => t.title)).not.toContain('Made after the backup')
+      expect(JSON.parse(localStorage.getItem('tasks') ?? '[]')).toHaveLength(backup.tasks.length)
+    })
+
+    it('should merge a backup, keeping current tasks and adding missing ones', async () => {
+      const backup = await service.exportBackup()
+      const removed = backup.tasks[0]
+      await service.deleteTask(removed.id)
+      const added = await service.createTask({ title: 'Made after the backup', priority: 'medium', status: 'active' })
+
+      await service.importBackup(backup, 'merge')
+
+      const ids = (await service.getTasks()).map(t => t.id)
+      expect(ids).toEqual(expect.arrayContaining([removed.id, added.id]))
+    })
+
+    it('should announce that all data was reloaded', async () => {
+      const listener = vi.fn()
+      service.subscribe(listener)
+
+      await service.importBackup(await service.exportBackup(), 'merge')
+
+      expect(listener).toHaveBeenCalledWith({ type: 'data_reloaded' })
+    })
+  })
+
+  describe('change events', () => {
+    it('should emit task events for create, update, delete and reorder', async () => {
+      const listener = vi.fn()
+      service.subscribe(listener)
+
+      const task = await service.createTask({ title: 'Watched' })
+      const subtask = await service.createTask({ title: 'Step', parentId: task.id })
+      await service.updateTask(task.id, { title: 'Renamed' })
+      await service.reorderTasks([subtask.id])
+      await service.deleteTask(task.id)
+
+      expect(listener.mock.calls.map(([event]) => event.type)).toEqual([
+        'task_created', 'task_created', 'task_updated', 'tasks_reordered', 'task_deleted'
+      ])
+      expect(listener.mock.calls[2][0].task.title).toBe('Renamed')
+      expect(listener.mock.calls[4][0].taskIds).toEqual([task.id, subtask.id])
+    })
+
+    it('should emit list events with the tasks the list action changed', async () => {
+      const listener = vi.fn()
+      service.subscribe(listener)
+
+      const area = await service.addArea('Garden')
+      const task = await service.createTask({ title: 'Plant bulbs', listId: area.key })
+      await service.archiveList(area.key, 'move_to_inbox')
+      await service.deleteList(area.key, 'delete')
+
+      const events = listener.mock.calls.map(([event]) => event)
+      expect(events.map(event => event.type)).toEqual(['list_created', 'task_created', 'task_updated', 'list_updated', 'list_deleted'])
+      expect(events[0]).toMatchObject({ kind: 'area', list: { title: 'Garden' } })
+      expect(events[2].task).toMatchObject({ id: task.id, listId: undefined })
+      expect(events[3].list.archived).toBe(true)
+    })
+
+    it('should emit section and journal events for the list', async () => {
+      const listener = vi.fn()
+      service.subscribe(listener)
+
+      await service.createSection('work', { title: 'Goals' })
+      await service.createJournalEntry('work', { content: 'Kickoff' })
+
+      expect(listener).toHaveBeenCalledWith({ type: 'sections_changed', listId: 'work' })
+      expect(listener).toHaveBeenCalledWith({ type: 'journal_changed', listId: 'work' })
+    })
+
+    it('should stop emitting after unsubscribing', async () => {
+      const listener = vi.fn()
+      const unsubscribe = service.subscribe(listener)
+
+      unsubscribe()
+      await service.createTask({ title: 'Unheard' })
+
+      expect(listener).not.toHaveBeenCalled()
+    })
+
+    it('should not emit for failed mutations', async () => {
+      const listener = vi.fn()
+      service.subscribe(listener)
+
+      await expect(service.updateTask('missing', { title: 'Nope' })).rejects.toThrow()
+
+      expect(listener).not.toHaveBeenCalled()
+    })
+  })
+
   describe('getDataSourceMode', () => {
     it('should return "local"', () => {
       expect(service.getDataSourceMode()).toBe('local')
@@ -1,8 +1,23 @@
 import type { IDataService } from './IDataService';
-import type { SidebarConfigData, SidebarItemData, Priority } from '../types/sidebar';
-import type { TaskData, CreateTaskInput, UpdateTaskInput, TaskCounts } from '../types/task';
+import type { SidebarConfigData, SidebarItemData, Priority, UpdateListInput, UpdateSmartListInput, ListTaskAction } from '../types/sidebar';
+import type { TaskData, CreateTaskInput, UpdateTaskInput, TaskCounts, TaskSort, TaskFilterCriteria } from '../types/task';
 import type { NoteSection, JournalEntry, CreateSectionInput, UpdateSectionInput, CreateJournalEntryInput, UpdateJournalEntryInput } from '../types/notes';
+import type { SearchResults } from '../types/search';
+import type { DataChangeListener } from '../types/dataChanges';
+import type { WorkspaceBackup, ImportMode } from '../types/backup';
+import type { TagData, TagColor, UpdateTagInput } from '../types/tags';
 import type { IconName } from '../utils/iconMapper';
+import { getNextOccurrenceWithChecklist, type NextOccurrence } from '../utils/recurrence';
+import { countSavedFilterTasks, getTaskTreeIds, hasStarted } from '../utils/taskFilters';
+import { sortTasks } from '../utils/taskSort';
+import { searchLocalData } from '../utils/search';
+import { applyListTaskAction } from '../utils/listTasks';
+import { createBackup, mergeBackup } from '../utils/backup';
+import { applyCompletionTime } from '../utils/logbook';
+import { DEFAULT_TAG_COLOR, collectTags, getTagDescendants, normalizeTagName, reparentTags, replaceSmartListTag, replaceTaskTag } from '../utils/tags';
+import { DataChangeEmitter } from './DataChangeEmitter';
+import { LOCAL_DATA_VERSION, migrateSidebarConfig, migrateTasks, type MigrationResult, type QuarantinedRecord } from './localMigrations';
+import { StorageError } from '../types/errors';
 import sidebarConfigData from '../data/initialSidebarConfig.json';
 import initialTasks from '../data/initialTasks.json';
 
@@ -12,24 +27,53 @@ import initialTasks from '../data/initialTasks.json';
  * Falls back to JSON file data if localStorage is empty
  */
 export class LocalDataService implements IDataService {
-  private localData: SidebarConfigData;
-  private tasks: TaskData[];
-  private readonly STORAGE_KEY = 'sidebarConfig';
-  private readonly TASKS_STORAGE_KEY = 'tasks';
+  protected localData: SidebarConfigData;
+  protected tasks: TaskData[];
+  protected readonly STORAGE_KEY = 'sidebarConfig';
+  protected readonly TASKS_STORAGE_KEY = 'tasks';
+  protected readonly VERSION_STORAGE_KEY = 'dataVersion';
+  protected readonly QUARANTINE_STORAGE_KEY = 'quarantinedRecords';
+
+  // Problems found while loading saved data, shown to the user once the app starts
+  protected storageErrors: StorageError[] = [];
+
+  // Set when the saved data comes from a newer version of the app: saving it would drop the details
+  // this version doesn't know about and stamp it as older, so changes are only kept in memory
+  protected readOnly = false;
+
+  /**
+   * Resolves once persisted data has been loaded into memory
+   * Always resolved here; subclasses with async storage replace it
+   */
+  protected ready: Promise<void> = Promise.resolve();
+
+  protected changes = new DataChangeEmitter();
 
   constructor() {
-    // Load initial data from JSON or localStorage
-    this.localData = this.loadFromLocalStorage() || ({ ...sidebarConfigData } as SidebarConfigData);
-    this.tasks = this.loadTasksFromLocalStorage() || (initialTasks as TaskData[]);
+    // Load initial data from JSON or localStorage, upgrading and validating what was saved
+    const version = this.loadDataVersion();
+    const sidebar = this.loadFromLocalStorage(version);
+    const tasks = this.loadTasksFromLocalStorage(version);
+    this.localData = sidebar.data || ({ ...sidebarConfigData } as SidebarConfigData);
+    // Sample tasks are only for a first run; unreadable saved tasks were quarantined and must not be saved over
+    this.tasks = tasks.data || (tasks.quarantined.length > 0 ? [] : initialTasks as TaskData[]);
+
+    if (sidebar.data || tasks.data || sidebar.quarantined.length > 0 || tasks.quarantined.length > 0) {
+      this.settleMigration(version, [...sidebar.quarantined, ...tasks.quarantined], 'localStorage');
+    }
   }
 
   async getSidebarConfig(): Promise<SidebarConfigData> {
+    await this.ready;
     // Helper function to parse date strings consistently (as local dates, not UTC)
     const parseDate = (dateString: string): Date => {
       const [year, month, day] = dateString.split('-').map(Number);
       return new Date(year, month - 1, day); // month is 0-indexed
     };
 
+    // Subtasks are counted as part of their parent, not as separate tasks
+    const topLevelTasks = this.tasks.filter(task => !task.parentId);
+
     // Helper function to calculate smart list counts with special logic
     const getSmartListCount = (key: string): number => {
       const today = new Date();
@@ -41,7 +85,7 @@ export class LocalDataService implements IDataService {
       switch (key) {
         case 'inbox': {
           // Inbox = uncategorized tasks (no dueDate AND no listId)
-          const inboxTasks = this.tasks.filter(task => {
+          const inboxTasks = topLevelTasks.filter(task => {
             const isInbox = !task.dueDate && !task.listId && task.status !== 'completed';
             if (isInbox) {
               console.log(`[INBOX] ${task.title} - no due date, no list`);
@@ -53,8 +97,12 @@ export class LocalDataService implements IDataService {
         }
 
         case 'today': {
-          // Tasks due today
-          const todayTasks = this.tasks.filter(task => {
+          // Tasks due today, plus open tasks whose start date has arrived
+          const todayTasks = topLevelTasks.filter(task => {
+            if (task.startDate && task.status === 'active' && hasStarted(task, today)) {
+              console.log(`[TODAY] ${task.title} - started: ${task.startDate}, status: ${task.status}`);
+              return true;
+            }
             if (!task.dueDate || task.status === 'completed') return false;
             const dueDate = parseDate(task.dueDate);
             const isToday = dueDate.getFullYear() === today.getFullYear() &&
@@ -71,7 +119,7 @@ export class LocalDataService implements IDataService {
 
         case 'upcoming': {
           // Tasks due in the next 7 days (excluding today)
-          const upcomingTasks = this.tasks.filter(task => {
+          const upcomingTasks = topLevelTasks.filter(task => {
             if (!task.dueDate || task.status === 'completed') return false;
             const dueDate = parseDate(task.dueDate);
             const isUpcoming = dueDate > today && dueDate <= sevenDaysFromNow;
@@ -86,7 +134,7 @@ export class LocalDataService implements IDataService {
 
         case 'past_due': {
           // Tasks overdue (due date before today)
-          const pastDueTasks = this.tasks.filter(task => {
+          const pastDueTasks = topLevelTasks.filter(task => {
             if (!task.dueDate || task.status === 'completed') return false;
             const dueDate = parseDate(task.dueDate);
             const isPastDue = dueDate < today;
@@ -101,7 +149,7 @@ export class LocalDataService implements IDataService {
 
         case 'tags': {
           // Tasks that have at least one tag (includes all statuses: active, completed, archived)
-          const taggedTasks = this.tasks.filter(task => {
+          const taggedTasks = topLevelTasks.filter(task => {
             const hasTags = task.tags && task.tags.length > 0;
             if (hasTags) {
               console.log(`[TAGS] ${task.title} - tags: ${task.tags?.join(', ')}`);
@@ -112,9 +160,29 @@ export class LocalDataService implements IDataService {
           return taggedTasks.length;
         }
 
+        case 'anytime': {
+          // Active tasks that haven't been deferred to Someday or to a later start date
+          const anytimeTasks = topLevelTasks.filter(task => task.status === 'active' && !task.someday && hasStarted(task, today));
+          console.log(`[ANYTIME COUNT] ${anytimeTasks.length} tasks`);
+          return anytimeTasks.length;
+        }
+
+        case 'someday': {
+          // Deferred tasks that are still open
+          const somedayTasks = topLevelTasks.filter(task => task.someday && task.status !== 'completed');
+          console.log(`[SOMEDAY COUNT] ${somedayTasks.length} tasks`);
+          return somedayTasks.length;
+        }
+
+        case 'logbook': {
+          // Completed tasks
+          const logbookTasks = topLevelTasks.filter(task => task.status === 'completed');
+          console.log(`[LOGBOOK COUNT] ${logbookTasks.length} tasks`);
+          return logbookTasks.length;
+        }
+
         default:
-          // For other smart lists (anytime, someday, logbook, etc.)
-          // These don't have special logic yet, so return 0
+          // Smart lists without special logic
           console.log(`[${key.toUpperCase()} COUNT] 0 tasks (no special logic defined)`);
           return 0;
       }
@@ -124,26 +192,29 @@ export class LocalDataService implements IDataService {
     const configWithCounts: SidebarConfigData = {
       smartLists: this.localData.smartLists.map(item => ({
         ...item,
-        count: getSmartListCount(item.key)
+        // User-defined smart lists count the tasks matching their saved filter
+        count: item.filter ? countSavedFilterTasks(topLevelTasks, item.filter) : getSmartListCount(item.key)
       })),
       areas: this.localData.areas.map(item => ({
         ...item,
-        count: this.tasks.filter(task => task.listId === item.key && task.status !== 'completed').length
+        count: topLevelTasks.filter(task => task.listId === item.key && task.status !== 'completed').length
       })),
       projects: this.localData.projects.map(item => ({
         ...item,
-        count: this.tasks.filter(task => task.listId === item.key && task.status !== 'completed').length
-      }))
+        count: topLevelTasks.filter(task => task.listId === item.key && task.status !== 'completed').length
+      })),
+      tags: this.allTags()
     };
 
     return Promise.resolve(configWithCounts);
   }
 
   getLocalSidebarConfig(): SidebarConfigData {
-    return { ...this.localData };
+    return { ...this.localData, tags: this.allTags() };
   }
 
   async addArea(title: string, iconName: IconName = 'Circle', priority: Priority = 'medium', description?: string): Promise<SidebarItemData> {
+    await this.ready;
     const newArea: SidebarItemData = {
       key: this.generateKey(title),
       iconName,
@@ -156,11 +227,13 @@ export class LocalDataService implements IDataService {
 
     this.localData.areas.push(newArea);
     this.persistLocalData();
+    this.changes.emit({ type: 'list_created', kind: 'area', list: { ...newArea } });
 
     return newArea;
   }
 
   async addProject(title: string, iconName: IconName = 'Folder', priority: Priority = 'medium', description?: string, dueDate?: string): Promise<SidebarItemData> {
+    await this.ready;
     const newProject: SidebarItemData = {
       key: this.generateKey(title),
       iconName,
@@ -174,10 +247,255 @@ export class LocalDataService implements IDataService {
 
     this.localData.projects.push(newProject);
     this.persistLocalData();
+    this.changes.emit({ type: 'list_created', kind: 'project', list: { ...newProject } });
 
     return newProject;
   }
 
+  async updateList(listId: string, updates: UpdateListInput): Promise<SidebarItemData> {
+    await this.ready;
+    const item = this.findListItem(listId);
+    if (!item) {
+      throw new Error(`List with key ${listId} not found`);
+    }
+
+    const updatedItem: SidebarItemData = { ...item, ...updates };
+    this.replaceListItem(updatedItem);
+    this.persistLocalData();
+    this.changes.emit({ type: 'list_updated', list: { ...updatedItem } });
+
+    return { ...updatedItem };
+  }
+
+  async archiveList(listId: string, taskAction: ListTaskAction): Promise<SidebarItemData> {
+    await this.ready;
+    const item = this.findListItem(listId);
+    if (!item) {
+      throw new Error(`List with key ${listId} not found`);
+    }
+
+    const previousTasks = this.tasks;
+    this.tasks = applyListTaskAction(this.tasks, listId, taskAction, false);
+    this.persistTasks();
+    this.changes.emitTaskChanges(previousTasks, this.tasks);
+
+    const archivedItem: SidebarItemData = { ...item, archived: true };
+    this.replaceListItem(archivedItem);
+    this.persistLocalData();
+    this.changes.emit({ type: 'list_updated', list: { ...archivedItem } });
+
+    return { ...archivedItem };
+  }
+
+  async deleteList(listId: string, taskAction: ListTaskAction): Promise<void> {
+    await this.ready;
+    if (!this.findListItem(listId)) {
+      throw new Error(`List with key ${listId} not found`);
+    }
+
+    const previousTasks = this.tasks;
+    this.tasks = applyListTaskAction(this.tasks, listId, taskAction, true);
+    this.persistTasks();
+    this.changes.emitTaskChanges(previousTasks, this.tasks);
+
+    this.localData = {
+      ...this.localData,
+      areas: this.localData.areas.filter(area => area.key !== listId),
+      projects: this.localData.projects.filter(project => project.key !== listId)
+    };
+    this.persistLocalData();
+    this.changes.emit({ type: 'list_deleted', listId });
+  }
+
+  async addSmartList(title: string, filter: TaskFilterCriteria, iconName: IconName = 'Layers'): Promise<SidebarItemData> {
+    await this.ready;
+    const topLevelTasks = this.tasks.filter(task => !task.parentId);
+    const newSmartList: SidebarItemData = {
+      key: this.generateKey(title),
+      iconName,
+      title,
+      count: countSavedFilterTasks(topLevelTasks, filter),
+      priority: 'low',
+      filter
+    };
+
+    this.localData = { ...this.localData, smartLists: [...this.localData.smartLists, newSmartList] };
+    this.persistLocalData();
+    this.changes.emit({ type: 'list_created', kind: 'smartList', list: { ...newSmartList } });
+
+    return { ...newSmartList };
+  }
+
+  async updateSmartList(key: string, updates: UpdateSmartListInput): Promise<SidebarItemData> {
+    await this.ready;
+    const item = this.findSmartList(key);
+
+    const updatedItem: SidebarItemData = { ...item, ...updates };
+    this.localData = {
+      ...this.localData,
+      smartLists: this.localData.smartLists.map(smartList => smartList.key === key ? updatedItem : smartList)
+    };
+    this.persistLocalData();
+    this.changes.emit({ type: 'list_updated', list: { ...updatedItem } });
+
+    return { ...updatedItem };
+  }
+
+  async deleteSmartList(key: string): Promise<void> {
+    await this.ready;
+    this.findSmartList(key);
+
+    this.localData = {
+      ...this.localData,
+      smartLists: this.localData.smartLists.filter(smartList => smartList.key !== key)
+    };
+    this.persistLocalData();
+    this.changes.emit({ type: 'list_deleted', listId: key });
+  }
+
+  /**
+   * Finds a user-defined smart list by key
+   * @throws Error if there is none (built-in smart lists have no saved filter)
+   */
+  private findSmartList(key: string): SidebarItemData {
+    const item = this.localData.smartLists.find(smartList => smartList.key === key);
+    if (!item?.filter) {
+      throw new Error(`Smart list with key ${key} not found`);
+    }
+    return item;
+  }
+
+  // Tag methods
+
+  async createTag(name: string, color: TagColor = DEFAULT_TAG_COLOR, parent?: string): Promise<TagData> {
+    await this.ready;
+    const tags = this.allTags();
+    const tagName = normalizeTagName(name);
+    if (tags.some(tag => tag.name === tagName)) {
+      throw new Error(`Tag ${tagName} already exists`);
+    }
+    if (parent) this.findTag(tags, parent);
+
+    const newTag: TagData = { name: tagName, color, parent };
+    this.saveTags([...tags, newTag]);
+    return { ...newTag };
+  }
+
+  async updateTag(name: string, updates: UpdateTagInput): Promise<TagData> {
+    await this.ready;
+    const tags = this.allTags();
+    const tag = this.findTag(tags, name);
+    const updatedTag: TagData = { ...tag, ...updates, name: updates.name === undefined ? name : normalizeTagName(updates.name) };
+    const isRenamed = updatedTag.name !== name;
+
+    if (isRenamed && tags.some(other => other.name === updatedTag.name)) {
+      throw new Error(`Tag ${updatedTag.name} already exists`);
+    }
+    if (updatedTag.parent) {
+      this.findTag(tags, updatedTag.parent);
+      if ([name, updatedTag.name, ...getTagDescendants(tags, name)].includes(updatedTag.parent)) {
+        throw new Error('A tag cannot be nested under itself');
+      }
+    }
+
+    let updatedTags = tags.map(other => other.name === name ? updatedTag : other);
+    if (isRenamed) {
+      updatedTags = reparentTags(updatedTags, name, updatedTag.name);
+      this.cascadeTag(name, updatedTag.name);
+    }
+    this.saveTags(updatedTags);
+    if (isRenamed) this.changes.emit({ type: 'tag_replaced', name, replacement: updatedTag.name });
+    return { ...updatedTag };
+  }
+
+  async mergeTag(name: string, into: string): Promise<TagData> {
+    await this.ready;
+    const tags = this.allTags();
+    const source = this.findTag(tags, name);
+    const target = this.findTag(tags, into);
+    if (name === into) {
+      throw new Error('A tag cannot be merged into itself');
+    }
+
+    // The kept tag takes the merged tag's place if it was nested under it
+    const keptTag: TagData = target.parent === name ? { ...target, parent: source.parent } : target;
+    const updatedTags = reparentTags(tags.filter(tag => tag.name !== name), name, into)
+      .map(tag => tag.name === into ? keptTag : tag);
+
+    this.cascadeTag(name, into);
+    this.saveTags(updatedTags);
+    this.changes.emit({ type: 'tag_replaced', name, replacement: into });
+    return { ...keptTag };
+  }
+
+  async deleteTag(name: string): Promise<void> {
+    await this.ready;
+    const tags = this.allTags();
+    const tag = this.findTag(tags, name);
+
+    this.cascadeTag(name, undefined);
+    this.saveTags(reparentTags(tags.filter(other => other.name !== name), name, tag.parent));
+    this.changes.emit({ type: 'tag_replaced', name });
+  }
+
+  /**
+   * Every tag: the saved ones plus tags only typed on tasks
+   */
+  private allTags(): TagData[] {
+    return collectTags(this.localData.tags ?? [], this.tasks);
+  }
+
+  /**
+   * Finds a tag by name
+   * @throws Error if there is none
+   */
+  private findTag(tags: TagData[], name: string): TagData {
+    const tag = tags.find(other => other.name === name);
+    if (!tag) {
+      throw new Error(`Tag ${name} not found`);
+    }
+    return tag;
+  }
+
+  /**
+   * Saves the full tag list and tells listeners
+   */
+  private saveTags(tags: TagData[]): void {
+    this.localData = { ...this.localData, tags };
+    this.persistLocalData();
+    this.changes.emit({ type: 'tags_changed', tags: tags.map(tag => ({ ...tag })) });
+  }
+
+  /**
+   * Replaces a tag on every task and smart list filter that has it, or removes it when there's no replacement
+   */
+  private cascadeTag(name: string, replacement: string | undefined): void {
+    const previousTasks = this.tasks;
+    this.tasks = replaceTaskTag(this.tasks, name, replacement);
+    this.persistTasks();
+    this.changes.emitTaskChanges(previousTasks, this.tasks);
+
+    // Smart lists filtering by the tag follow it too (saved along with the tags)
+    const previousSmartLists = this.localData.smartLists;
+    const smartLists = replaceSmartListTag(previousSmartLists, name, replacement);
+    this.localData = { ...this.localData, smartLists };
+    smartLists
+      .filter((smartList, index) => smartList !== previousSmartLists[index])
+      .forEach(smartList => this.changes.emit({ type: 'list_updated', list: { ...smartList } }));
+  }
+
+  /**
+   * Swaps in a changed area or project, leaving the previous objects untouched
+   */
+  private replaceListItem(updatedItem: SidebarItemData): void {
+    const replace = (items: SidebarItemData[]) => items.map(item => item.key === updatedItem.key ? updatedItem : item);
+    this.localData = {
+      ...this.localData,
+      areas: replace(this.localData.areas),
+      projects: replace(this.localData.projects)
+    };
+  }
+
   getDataSourceMode(): 'api' | 'local' {
     return 'local';
   }
@@ -194,9 +512,11 @@ export class LocalDataService implements IDataService {
   /**
    * Persists local data to localStorage
    */
-  private persistLocalData(): void {
+  protected persistLocalData(): void {
+    if (this.readOnly) return;
     try {
       localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.localData));
+      this.persistDataVersion();
       console.log('✅ Sidebar configuration saved to localStorage');
     } catch (error) {
       console.error('❌ Failed to persist local data:', error);
@@ -204,19 +524,105 @@ export class LocalDataService implements IDataService {
   }
 
   /**
-   * Loads data from localStorage if available
+   * Loads data from localStorage if available, migrated to the current version
+   * @param version - Version the data was saved at
    */
-  private loadFromLocalStorage(): SidebarConfigData | null {
+  protected loadFromLocalStorage(version: number): MigrationResult<SidebarConfigData | null> {
+    let stored: string | null = null;
     try {
-      const stored = localStorage.getItem(this.STORAGE_KEY);
+      stored = localStorage.getItem(this.STORAGE_KEY);
       if (stored) {
+        const result = migrateSidebarConfig(JSON.parse(stored), version);
         console.log('✅ Sidebar configuration loaded from localStorage');
-        return JSON.parse(stored);
+        return result;
       }
     } catch (error) {
       console.error('❌ Failed to load from localStorage:', error);
+      if (stored) {
+        return { data: null, quarantined: [this.unreadableRecord('sidebar', stored, error, version)] };
+      }
+    }
+    return { data: null, quarantined: [] };
+  }
+
+  /**
+   * Reads the version stamp of the saved data (0 for data saved before versioning)
+   */
+  protected loadDataVersion(): number {
+    try {
+      return Number(localStorage.getItem(this.VERSION_STORAGE_KEY)) || 0;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Stamps the saved data with the current version
+   */
+  protected persistDataVersion(): void {
+    if (this.readOnly) return;
+    try {
+      localStorage.setItem(this.VERSION_STORAGE_KEY, String(LOCAL_DATA_VERSION));
+    } catch (error) {
+      console.error('❌ Failed to save data version:', error);
+    }
+  }
+
+  /**
+   * Describes saved data that isn't valid JSON, so it can be quarantined
+   */
+  protected unreadableRecord(kind: 'sidebar' | 'tasks', stored: string, error: unknown, version: number): QuarantinedRecord {
+    return {
+      kind,
+      record: stored,
+      issues: [error instanceof Error ? error.message : String(error)],
+      fromVersion: version,
+      quarantinedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Finishes loading saved data: sets aside records that failed validation, reports problems and
+   * saves the migrated data with the current version stamp (data from a newer version is left read-only)
+   * @param version - Version the data was saved at
+   * @param quarantined - Records that couldn't be read
+   * @param storageType - Where the data came from, for the reported error
+   */
+  protected settleMigration(version: number, quarantined: QuarantinedRecord[], storageType: StorageError['storageType']): void {
+    if (quarantined.length > 0) {
+      try {
+        const existing = JSON.parse(localStorage.getItem(this.QUARANTINE_STORAGE_KEY) || '[]');
+        localStorage.setItem(this.QUARANTINE_STORAGE_KEY, JSON.stringify([...existing, ...quarantined]));
+      } catch (error) {
+        console.error('❌ Failed to quarantine unreadable records:', error, quarantined);
+      }
+      console.warn(`⚠️ Quarantined ${quarantined.length} unreadable saved records`, quarantined);
+      this.storageErrors.push(new StorageError(
+        `${quarantined.length} saved ${quarantined.length === 1 ? 'item' : 'items'} couldn't be read and ` +
+        `${quarantined.length === 1 ? 'was' : 'were'} set aside. They are kept in local storage under "${this.QUARANTINE_STORAGE_KEY}".`,
+        storageType,
+        'read'
+      ));
+    }
+
+    if (version > LOCAL_DATA_VERSION) {
+      // Leave newer data as it is; details this build doesn't know about would be lost on save
+      this.readOnly = true;
+      this.storageErrors.push(new StorageError(
+        'Your data was saved by a newer version of the app, so some details may be missing here ' +
+        "and changes made here won't be saved.",
+        storageType,
+        'read'
+      ));
+      return;
+    }
+
+    if (version < LOCAL_DATA_VERSION || quarantined.length > 0) {
+      console.log(`🔄 Migrated saved data from version ${version} to ${LOCAL_DATA_VERSION}`);
+      this.persistLocalData();
+      this.persistTasks();
+      this.persistDataVersion();
     }
-    return null;
   }
 
   /**
@@ -227,11 +633,13 @@ export class LocalDataService implements IDataService {
     localStorage.removeItem(this.STORAGE_KEY);
     this.localData = { ...sidebarConfigData } as SidebarConfigData;
     console.log('🔄 Sidebar configuration reset to defaults');
+    this.changes.emit({ type: 'data_reloaded' });
   }
 
   // Task methods
 
-  async getTasks(listId?: string, status?: 'active' | 'completed', page?: number, limit?: number): Promise<TaskData[]> {
+  async getTasks(listId?: string, status?: 'active' | 'completed', page?: number, limit?: number, sort?: TaskSort): Promise<TaskData[]> {
+    await this.ready;
     let filteredTasks = [...this.tasks];
     if (listId) {
       filteredTasks = filteredTasks.filter(task => task.listId === listId);
@@ -240,13 +648,8 @@ export class LocalDataService implements IDataService {
       filteredTasks = filteredTasks.filter(task => task.status === status);
     }
 
-    // Sort by order field (tasks without order go to the end)
-    filteredTasks.sort((a, b) => {
-      if (a.order === undefined && b.order === undefined) return 0;
-      if (a.order === undefined) return 1;
-      if (b.order === undefined) return -1;
-      return a.order - b.order;
-    });
+    // Sort by the requested mode (manual order by default)
+    filteredTasks = sortTasks(filteredTasks, sort);
 
     if (page !== undefined && limit !== undefined) {
       const start = (page - 1) * limit;
@@ -256,7 +659,8 @@ export class LocalDataService implements IDataService {
   }
 
   async getTaskCounts(listId?: string): Promise<TaskCounts> {
-    let filteredTasks = [...this.tasks];
+    await this.ready;
+    let filteredTasks = this.tasks.filter(task => !task.parentId);
 
     if (listId) {
       filteredTasks = filteredTasks.filter(task => task.listId === listId);
@@ -271,11 +675,17 @@ export class LocalDataService implements IDataService {
   }
 
   async getTask(id: string): Promise<TaskData | null> {
+    await this.ready;
     const task = this.tasks.find(task => task.id === id);
     return task ? { ...task } : null;
   }
 
   async createTask(input: CreateTaskInput): Promise<TaskData> {
+    await this.ready;
+    if (input.parentId && !this.tasks.some(task => task.id === input.parentId)) {
+      throw new Error(`Parent task with id ${input.parentId} not found`);
+    }
+
     const now = new Date().toISOString();
 
     // Auto-assign order if not provided
@@ -295,48 +705,85 @@ export class LocalDataService implements IDataService {
       priority: input.priority || 'medium',
       status: input.status || 'active',
       dueDate: input.dueDate,
+      startDate: input.startDate,
+      reminderAt: input.reminderAt,
       order,
       listId: input.listId,
+      parentId: input.parentId,
+      recurrence: input.recurrence,
       tags: input.tags || [],
+      someday: input.someday,
+      completedAt: input.status === 'completed' ? now : undefined,
       createdAt: now,
       updatedAt: now
     };
 
     this.tasks.push(newTask);
     this.persistTasks();
+    this.changes.emit({ type: 'task_created', task: { ...newTask } });
 
     return { ...newTask };
   }
 
   async updateTask(id: string, updates: UpdateTaskInput): Promise<TaskData> {
+    await this.ready;
     const taskIndex = this.tasks.findIndex(task => task.id === id);
     if (taskIndex === -1) {
       throw new Error(`Task with id ${id} not found`);
     }
 
-    const updatedTask: TaskData = {
-      ...this.tasks[taskIndex],
+    const previousTask = this.tasks[taskIndex];
+    const updatedTask = applyCompletionTime(previousTask, {
+      ...previousTask,
       ...updates,
       updatedAt: new Date().toISOString()
-    };
+    });
+
+    // Completing a recurring task hands its repeat rule over to the next occurrence
+    const isCompleting = updates.status === 'completed' && previousTask.status !== 'completed';
+    const nextOccurrence = isCompleting ? getNextOccurrenceWithChecklist(updatedTask, this.tasks) : null;
+    if (nextOccurrence) {
+      delete updatedTask.recurrence;
+    }
 
     this.tasks[taskIndex] = updatedTask;
     this.persistTasks();
+    this.changes.emit({ type: 'task_updated', task: { ...updatedTask } });
+
+    if (nextOccurrence) {
+      await this.spawnNextOccurrence(nextOccurrence);
+    }
 
     return { ...updatedTask };
   }
 
+  /**
+   * Creates the next occurrence of a recurring task and its copied checklist
+   */
+  private async spawnNextOccurrence({ task, subtasks }: NextOccurrence): Promise<TaskData> {
+    const nextTask = await this.createTask(task);
+    for (const subtask of subtasks) {
+      await this.createTask({ ...subtask, parentId: nextTask.id });
+    }
+    return nextTask;
+  }
+
   async deleteTask(id: string): Promise<void> {
+    await this.ready;
     const taskIndex = this.tasks.findIndex(task => task.id === id);
     if (taskIndex === -1) {
       throw new Error(`Task with id ${id} not found`);
     }
 
-    this.tasks.splice(taskIndex, 1);
+    // Subtasks (and anything nested under them) are removed along with their parent
+    const deletedIds = getTaskTreeIds(this.tasks, id);
+    this.tasks = this.tasks.filter(task => !deletedIds.has(task.id));
     this.persistTasks();
+    this.changes.emit({ type: 'task_deleted', taskIds: [...deletedIds] });
   }
 
   async reorderTasks(taskIds: string[]): Promise<void> {
+    await this.ready;
     // Validation: check for duplicates
     const idSet = new Set(taskIds);
     if (idSet.size !== taskIds.length) {
@@ -361,6 +808,7 @@ export class LocalDataService implements IDataService {
     });
 
     this.persistTasks();
+    this.changes.emit({ type: 'tasks_reordered', taskIds: [...taskIds] });
   }
 
   /**
@@ -397,6 +845,7 @@ export class LocalDataService implements IDataService {
   // Note section methods
 
   async getSections(listId: string): Promise<NoteSection[]> {
+    await this.ready;
     const item = this.findListItem(listId);
     if (!item) {
       return [];
@@ -407,6 +856,7 @@ export class LocalDataService implements IDataService {
   }
 
   async createSection(listId: string, input: CreateSectionInput): Promise<NoteSection> {
+    await this.ready;
     const item = this.findListItem(listId);
     if (!item) {
       throw new Error(`List with id ${listId} not found`);
@@ -430,11 +880,13 @@ export class LocalDataService implements IDataService {
 
     item.sections.push(newSection);
     this.persistLocalData();
+    this.changes.emit({ type: 'sections_changed', listId });
 
     return { ...newSection };
   }
 
   async updateSection(listId: string, sectionId: string, updates: UpdateSectionInput): Promise<NoteSection> {
+    await this.ready;
     const item = this.findListItem(listId);
     if (!item || !item.sections) {
       throw new Error(`List with id ${listId} not found`);
@@ -453,11 +905,13 @@ export class LocalDataService implements IDataService {
 
     item.sections[sectionIndex] = updatedSection;
     this.persistLocalData();
+    this.changes.emit({ type: 'sections_changed', listId });
 
     return { ...updatedSection };
   }
 
   async deleteSection(listId: string, sectionId: string): Promise<void> {
+    await this.ready;
     const item = this.findListItem(listId);
     if (!item || !item.sections) {
       throw new Error(`List with id ${listId} not found`);
@@ -470,9 +924,11 @@ export class LocalDataService implements IDataService {
 
     item.sections.splice(sectionIndex, 1);
     this.persistLocalData();
+    this.changes.emit({ type: 'sections_changed', listId });
   }
 
   async reorderSections(listId: string, sectionIds: string[]): Promise<void> {
+    await this.ready;
     const item = this.findListItem(listId);
     if (!item || !item.sections) {
       throw new Error(`List with id ${listId} not found`);
@@ -487,11 +943,13 @@ export class LocalDataService implements IDataService {
     });
 
     this.persistLocalData();
+    this.changes.emit({ type: 'sections_changed', listId });
   }
 
   // Journal entry methods
 
   async getJournalEntries(listId: string): Promise<JournalEntry[]> {
+    await this.ready;
     const item = this.findListItem(listId);
     if (!item) {
       return [];
@@ -504,6 +962,7 @@ export class LocalDataService implements IDataService {
   }
 
   async createJournalEntry(listId: string, input: CreateJournalEntryInput): Promise<JournalEntry> {
+    await this.ready;
     const item = this.findListItem(listId);
     if (!item) {
       throw new Error(`List with id ${listId} not found`);
@@ -524,11 +983,13 @@ export class LocalDataService implements IDataService {
 
     item.journal.push(newEntry);
     this.persistLocalData();
+    this.changes.emit({ type: 'journal_changed', listId });
 
     return { ...newEntry };
   }
 
   async updateJournalEntry(listId: string, entryId: string, updates: UpdateJournalEntryInput): Promise<JournalEntry> {
+    await this.ready;
     const item = this.findListItem(listId);
     if (!item || !item.journal) {
       throw new Error(`List with id ${listId} not found`);
@@ -547,11 +1008,13 @@ export class LocalDataService implements IDataService {
 
     item.journal[entryIndex] = updatedEntry;
     this.persistLocalData();
+    this.changes.emit({ type: 'journal_changed', listId });
 
     return { ...updatedEntry };
   }
 
   async deleteJournalEntry(listId: string, entryId: string): Promise<void> {
+    await this.ready;
     const item = this.findListItem(listId);
     if (!item || !item.journal) {
       throw new Error(`List with id ${listId} not found`);
@@ -564,14 +1027,69 @@ export class LocalDataService implements IDataService {
 
     item.journal.splice(entryIndex, 1);
     this.persistLocalData();
+    this.changes.emit({ type: 'journal_changed', listId });
+  }
+
+  // Search
+
+  async search(query: string): Promise<SearchResults> {
+    await this.ready;
+    return searchLocalData(this.tasks, this.localData, query);
+  }
+
+  // Backup
+
+  async exportBackup(): Promise<WorkspaceBackup> {
+    await this.ready;
+    return createBackup({ sidebar: structuredClone(this.localData), tasks: structuredClone(this.tasks) });
+  }
+
+  async importBackup(backup: WorkspaceBackup, mode: ImportMode): Promise<void> {
+    await this.ready;
+    const imported = mode === 'replace'
+      ? { sidebar: structuredClone(backup.sidebar), tasks: structuredClone(backup.tasks) }
+      : mergeBackup({ sidebar: this.localData, tasks: this.tasks }, structuredClone(backup));
+
+    this.localData = imported.sidebar;
+    this.tasks = imported.tasks;
+    this.persistLocalData();
+    this.persistTasks();
+    console.log(`✅ Backup imported (${mode})`);
+    this.changes.emit({ type: 'data_reloaded' });
+  }
+
+  // Sync state - everything is saved locally, so nothing is ever pending
+
+  getPendingSyncTaskIds(): string[] {
+    return [];
+  }
+
+  onSyncStateChange(): () => void {
+    return () => {};
+  }
+
+  // Saved data health
+
+  takeStorageErrors(): StorageError[] {
+    const errors = this.storageErrors;
+    this.storageErrors = [];
+    return errors;
+  }
+
+  // Change events
+
+  subscribe(listener: DataChangeListener): () => void {
+    return this.changes.subscribe(listener);
   }
 
   /**
    * Persists tasks to localStorage
    */
-  private persistTasks(): void {
+  protected persistTasks(): void {
+    if (this.readOnly) return;
     try {
       localStorage.setItem(this.TASKS_STORAGE_KEY, JSON.stringify(this.tasks));
+      this.persistDataVersion();
       console.log('✅ Tasks saved to localStorage');
     } catch (error) {
       console.error('❌ Failed to persist tasks:', error);
@@ -579,18 +1097,24 @@ export class LocalDataService implements IDataService {
   }
 
   /**
-   * Loads tasks from localStorage if available
+   * Loads tasks from localStorage if available, migrated to the current version
+   * @param version - Version the data was saved at
    */
-  private loadTasksFromLocalStorage(): TaskData[] | null {
+  protected loadTasksFromLocalStorage(version: number): MigrationResult<TaskData[] | null> {
+    let stored: string | null = null;
     try {
-      const stored = localStorage.getItem(this.TASKS_STORAGE_KEY);
+      stored = localStorage.getItem(this.TASKS_STORAGE_KEY);
       if (stored) {
+        const result = migrateTasks(JSON.parse(stored), version);
         console.log('✅ Tasks loaded from localStorage');
-        return JSON.parse(stored);
+        return result;
       }
     } catch (error) {
       console.error('❌ Failed to load tasks from localStorage:', error);
+      if (stored) {
+        return { data: null, quarantined: [this.unreadableRecord('tasks', stored, error, version)] };
+      }
     }
-    return null;
+    return { data: null, quarantined: [] };
   }
 }
\ No newline at end of file
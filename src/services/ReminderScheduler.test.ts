@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { ReminderScheduler } from './ReminderScheduler'
+import type { TaskData } from '../types/task'
+
+describe('ReminderScheduler', () => {
+  const now = new Date('2025-03-01T09:00:00Z')
+  const shown: { title: string; options?: NotificationOptions }[] = []
+
+  class FakeNotification {
+    static permission: NotificationPermission = 'granted'
+    onclick: (() => void) | null = null
+    constructor(title: string, options?: NotificationOptions) {
+      shown.push({ title, options })
+    }
+  }
+
+  const task = (id: string, reminderAt: string | undefined, status: TaskData['status'] = 'active'): TaskData => ({
+    id,
+    title: `Task ${id}`,
+    priority: 'low',
+    status,
+    reminderAt,
+    createdAt: '2025-01-01T00:00:00Z',
+    updatedAt: '2025-01-01T00:00:00Z'
+  })
+
+  beforeEach(() => {
+    localStorage.clear()
+    shown.length = 0
+    FakeNotification.permission = 'granted'
+    vi.useFakeTimers()
+    vi.setSystemTime(now)
+    vi.stubGlobal('Notification', FakeNotification)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  it('should send reminders that are already due, once', () => {
+    const scheduler = new ReminderScheduler()
+    const listener = vi.fn()
+    scheduler.subscribe(listener)
+    const tasks = [task('1', '2025-03-01T08:00:00Z'), task('2', '2025-03-01T08:30:00Z', 'completed'), task('3', undefined)]
+
+    scheduler.schedule(tasks)
+    scheduler.schedule(tasks)
+
+    expect(shown).toEqual([{ title: 'Task 1', options: { body: 'Reminder', tag: '1' } }])
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(listener).toHaveBeenCalledWith(tasks[0], true)
+  })
+
+  it('should wait for upcoming reminders', () => {
+    const scheduler = new ReminderScheduler()
+    scheduler.schedule([task('1', '2025-03-01T09:10:00Z'), task('2', '2025-03-01T10:00:00Z')])
+
+    vi.advanceTimersByTime(9 * 60 * 1000)
+    expect(shown).toHaveLength(0)
+
+    vi.advanceTimersByTime(60 * 1000)
+    expect(shown.map(notification => notification.title)).toEqual(['Task 1'])
+
+    vi.advanceTimersByTime(50 * 60 * 1000)
+    expect(shown.map(notification => notification.title)).toEqual(['Task 1', 'Task 2'])
+  })
+
+  it('should not repeat sent reminders after a reload, but send snoozed ones again', () => {
+    const reminder = task('1', '2025-03-01T08:00:00Z')
+    new ReminderScheduler().schedule([reminder])
+
+    const reloaded = new ReminderScheduler()
+    reloaded.schedule([reminder])
+    expect(shown).toHaveLength(1)
+
+    reloaded.schedule([{ ...reminder, reminderAt: '2025-03-01T09:10:00Z' }])
+    vi.advanceTimersByTime(10 * 60 * 1000)
+    expect(shown).toHaveLength(2)
+  })
+
+  it('should leave reminders to the app when notifications are not allowed', () => {
+    FakeNotification.permission = 'denied'
+    const scheduler = new ReminderScheduler()
+    const listener = vi.fn()
+    scheduler.subscribe(listener)
+
+    scheduler.schedule([task('1', '2025-03-01T08:00:00Z')])
+
+    expect(shown).toHaveLength(0)
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ id: '1' }), false)
+  })
+
+  it('should stop waiting once stopped', () => {
+    const scheduler = new ReminderScheduler()
+    scheduler.schedule([task('1', '2025-03-01T09:10:00Z')])
+
+    scheduler.stop()
+    vi.advanceTimersByTime(60 * 60 * 1000)
+
+    expect(shown).toHaveLength(0)
+  })
+})
@@ -0,0 +1,174 @@
+import { ReminderLogSchema } from '../schemas';
+import type { ReminderLog } from '../schemas';
+import type { TaskData } from '../types/task';
+import { getReminderKey, hasActiveReminder } from '../utils/reminders';
+
+// setTimeout can't wait longer than this; later reminders are re-checked when it fires
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+/**
+ * Called when a reminder goes off
+ * @param task - The task being reminded about
+ * @param notified - Whether a desktop notification was shown (otherwise the app should show it)
+ */
+export type ReminderListener = (task: TaskData, notified: boolean) => void;
+
+/**
+ * Whether desktop notifications can be shown: the Notification API's permission, or 'unsupported'
+ */
+export function getNotificationPermission(): NotificationPermission | 'unsupported' {
+  return typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+}
+
+/**
+ * Asks to show desktop notifications, if not asked before
+ * Must be called from a user action (e.g. a click) for browsers to show the prompt.
+ */
+export async function requestNotificationPermission(): Promise<NotificationPermission | 'unsupported'> {
+  const permission = getNotificationPermission();
+  if (permission !== 'default') return permission;
+  try {
+    return await Notification.requestPermission();
+  } catch (error) {
+    console.error('❌ Failed to request notification permission:', error);
+    return 'default';
+  }
+}
+
+/**
+ * Raises task reminders when they're due, as desktop notifications through the Notification API
+ * Reminders that came due while the app was closed go off on the next load.
+ * Sent reminders are remembered in localStorage so a reload doesn't repeat them;
+ * changing a task's reminder time (e.g. snoozing) makes it go off again.
+ */
+export class ReminderScheduler {
+  private log: ReminderLog;
+  private tasks: TaskData[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<ReminderListener>();
+  private clickListeners = new Set<(task: TaskData) => void>();
+  private readonly storageKey: string;
+
+  constructor(storageKey: string = 'reminder-log') {
+    this.storageKey = storageKey;
+    this.log = this.load();
+  }
+
+  /**
+   * Sends any reminders that are due and waits for the next one
+   * Call again whenever the tasks change.
+   */
+  schedule(tasks: TaskData[]): void {
+    this.tasks = tasks;
+    this.check();
+  }
+
+  /**
+   * Stops waiting for reminders (they're picked up again by the next schedule call)
+   */
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Subscribes to reminders going off
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: ReminderListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribes to clicks on reminder notifications, e.g. to open the task
+   * @returns Unsubscribe function
+   */
+  onNotificationClick(listener: (task: TaskData) => void): () => void {
+    this.clickListeners.add(listener);
+    return () => {
+      this.clickListeners.delete(listener);
+    };
+  }
+
+  private check(): void {
+    this.stop();
+    const now = Date.now();
+    const pending = this.tasks.filter(task => hasActiveReminder(task) && !this.log.sent.includes(getReminderKey(task)));
+
+    const due = pending.filter(task => new Date(task.reminderAt!).getTime() <= now);
+    due.forEach(task => this.send(task));
+    if (due.length > 0) this.prune();
+
+    const next = Math.min(...pending.map(task => new Date(task.reminderAt!).getTime()).filter(time => time > now));
+    if (Number.isFinite(next)) {
+      this.timer = setTimeout(() => this.check(), Math.min(next - now, MAX_TIMEOUT));
+    }
+  }
+
+  private send(task: TaskData): void {
+    this.log.sent.push(getReminderKey(task));
+    const notified = this.notify(task);
+    this.listeners.forEach(listener => listener(task, notified));
+  }
+
+  /**
+   * Shows a desktop notification if allowed
+   * @returns Whether one was shown
+   */
+  private notify(task: TaskData): boolean {
+    if (getNotificationPermission() !== 'granted') return false;
+    try {
+      const notification = new Notification(task.title, {
+        body: task.description || 'Reminder',
+        tag: task.id, // Replaces an earlier notification for the same task
+      });
+      notification.onclick = () => {
+        window.focus();
+        this.clickListeners.forEach(listener => listener(task));
+      };
+      return true;
+    } catch (error) {
+      console.error('❌ Failed to show reminder notification:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Forgets sent reminders whose task or reminder time is gone, then saves the log
+   */
+  private prune(): void {
+    const current = new Set(this.tasks.filter(task => task.reminderAt).map(getReminderKey));
+    this.log.sent = this.log.sent.filter(key => current.has(key));
+    this.save();
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.log));
+    } catch (error) {
+      console.error('❌ Failed to persist reminder log:', error);
+    }
+  }
+
+  /**
+   * Loads the sent reminders, starting empty if they're missing or no longer validate
+   */
+  private load(): ReminderLog {
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      if (stored) {
+        const result = ReminderLogSchema.safeParse(JSON.parse(stored));
+        if (result.success) return result.data;
+        console.error('❌ Discarding invalid reminder log:', result.error);
+      }
+    } catch (error) {
+      console.error('❌ Failed to load reminder log:', error);
+    }
+    return { sent: [] };
+  }
+}
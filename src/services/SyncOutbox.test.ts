@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { SyncOutbox } from './SyncOutbox'
+
+describe('SyncOutbox', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('should queue entries in order and persist them', () => {
+    const outbox = new SyncOutbox()
+    outbox.enqueue({ type: 'create', taskId: 'temp-1', input: { title: 'First' } })
+    outbox.enqueue({ type: 'delete', taskId: 'temp-1' })
+
+    const reloaded = new SyncOutbox()
+
+    expect(reloaded.hasPending).toBe(true)
+    expect(reloaded.getEntries().map(entry => entry.mutation.type)).toEqual(['create', 'delete'])
+    expect(reloaded.peek()?.mutation).toEqual({ type: 'create', taskId: 'temp-1', input: { title: 'First' } })
+  })
+
+  it('should remove entries by ID', () => {
+    const outbox = new SyncOutbox()
+    const entry = outbox.enqueue({ type: 'delete', taskId: 'task-1' })
+
+    outbox.remove(entry.id)
+
+    expect(outbox.hasPending).toBe(false)
+  })
+
+  it('should keep failed entries aside with the reason', () => {
+    const outbox = new SyncOutbox()
+    const entry = outbox.enqueue({ type: 'delete', taskId: 'task-1' })
+    outbox.enqueue({ type: 'delete', taskId: 'task-2' })
+
+    outbox.markFailed(entry.id, 'API request failed: 403 Forbidden')
+
+    const reloaded = new SyncOutbox()
+    expect(reloaded.getEntries().map(e => e.mutation)).toEqual([{ type: 'delete', taskId: 'task-2' }])
+    expect(reloaded.getFailedEntries()).toEqual([expect.objectContaining({ id: entry.id, error: 'API request failed: 403 Forbidden' })])
+    expect(reloaded.getPendingTaskIds()).toEqual(['task-2'])
+  })
+
+  it('should load outboxes saved before failed entries were kept', () => {
+    localStorage.setItem('sync-outbox', JSON.stringify({ entries: [], idMap: { 'temp-1': 'server-1' } }))
+
+    const outbox = new SyncOutbox()
+
+    expect(outbox.getFailedEntries()).toEqual([])
+    expect(outbox.resolveId('temp-1')).toBe('server-1')
+  })
+
+  it('should resolve temporary IDs once mapped', () => {
+    const outbox = new SyncOutbox()
+    outbox.mapId('temp-1', 'server-1')
+
+    expect(outbox.resolveId('temp-1')).toBe('server-1')
+    expect(outbox.resolveId('task-2')).toBe('task-2')
+    expect(outbox.resolveId('constructor')).toBe('constructor')
+  })
+
+  it('should list pending task IDs under both temporary and server IDs', () => {
+    const outbox = new SyncOutbox()
+    outbox.enqueue({ type: 'update', taskId: 'temp-1', updates: { title: 'Renamed' } })
+    outbox.enqueue({ type: 'reorder', taskIds: ['task-2', 'task-3'] })
+    outbox.mapId('temp-1', 'server-1')
+
+    expect(outbox.getPendingTaskIds().sort()).toEqual(['server-1', 'task-2', 'task-3', 'temp-1'])
+  })
+
+  it('should discard stored data that no longer validates', () => {
+    localStorage.setItem('sync-outbox', JSON.stringify({ entries: [{ mutation: { type: 'unknown' } }], idMap: {} }))
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    expect(new SyncOutbox().hasPending).toBe(false)
+  })
+
+  it('should notify subscribers until they unsubscribe', () => {
+    const outbox = new SyncOutbox()
+    const listener = vi.fn()
+    const unsubscribe = outbox.subscribe(listener)
+
+    outbox.enqueue({ type: 'delete', taskId: 'task-1' })
+    unsubscribe()
+    outbox.enqueue({ type: 'delete', taskId: 'task-2' })
+
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,138 @@
+import { OutboxStateSchema } from '../schemas';
+import type { FailedOutboxEntry, OutboxEntry, OutboxMutation, OutboxState } from '../schemas';
+
+/**
+ * Persistent queue of task mutations made while offline
+ * Stored in localStorage so queued changes survive a reload.
+ * Also remembers which temporary client IDs became which server IDs,
+ * and keeps the changes the server rejected so they aren't silently lost.
+ */
+export class SyncOutbox {
+  private state: OutboxState;
+  private listeners = new Set<() => void>();
+  private readonly storageKey: string;
+
+  constructor(storageKey: string = 'sync-outbox') {
+    this.storageKey = storageKey;
+    this.state = this.load();
+  }
+
+  get hasPending(): boolean {
+    return this.state.entries.length > 0;
+  }
+
+  /**
+   * Oldest queued entry, replayed first
+   */
+  peek(): OutboxEntry | undefined {
+    return this.state.entries[0];
+  }
+
+  getEntries(): OutboxEntry[] {
+    return [...this.state.entries];
+  }
+
+  /**
+   * Queues a mutation behind any already waiting
+   */
+  enqueue(mutation: OutboxMutation): OutboxEntry {
+    const entry: OutboxEntry = {
+      id: `outbox-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+      createdAt: new Date().toISOString(),
+      mutation,
+    };
+    this.state.entries.push(entry);
+    this.save();
+    return entry;
+  }
+
+  remove(entryId: string): void {
+    this.state.entries = this.state.entries.filter(entry => entry.id !== entryId);
+    this.save();
+  }
+
+  /**
+   * Moves a queued entry the server rejected out of the queue, keeping it with the reason
+   */
+  markFailed(entryId: string, error: string): void {
+    const entry = this.state.entries.find(e => e.id === entryId);
+    if (!entry) return;
+    this.state.entries = this.state.entries.filter(e => e.id !== entryId);
+    this.state.failed.push({ ...entry, error, failedAt: new Date().toISOString() });
+    this.save();
+  }
+
+  /**
+   * Rejected entries, oldest first
+   */
+  getFailedEntries(): FailedOutboxEntry[] {
+    return [...this.state.failed];
+  }
+
+  /**
+   * Records the server ID assigned to a task created offline
+   */
+  mapId(tempId: string, serverId: string): void {
+    this.state.idMap[tempId] = serverId;
+    this.save();
+  }
+
+  /**
+   * Translates a temporary client ID to its server ID once known
+   */
+  resolveId(id: string): string {
+    return Object.hasOwn(this.state.idMap, id) ? this.state.idMap[id] : id;
+  }
+
+  /**
+   * IDs of tasks with queued changes, as both temporary and server IDs
+   */
+  getPendingTaskIds(): string[] {
+    const ids = new Set<string>();
+    for (const { mutation } of this.state.entries) {
+      const taskIds = mutation.type === 'reorder' ? mutation.taskIds : [mutation.taskId];
+      taskIds.forEach(id => {
+        ids.add(id);
+        ids.add(this.resolveId(id));
+      });
+    }
+    return [...ids];
+  }
+
+  /**
+   * Subscribes to changes in the queue
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.state));
+    } catch (error) {
+      console.error('❌ Failed to persist sync outbox:', error);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * Loads the saved queue, starting empty if it is missing or no longer validates
+   */
+  private load(): OutboxState {
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      if (stored) {
+        const result = OutboxStateSchema.safeParse(JSON.parse(stored));
+        if (result.success) return result.data;
+        console.error('❌ Discarding invalid sync outbox:', result.error);
+      }
+    } catch (error) {
+      console.error('❌ Failed to load sync outbox:', error);
+    }
+    return { entries: [], idMap: {}, failed: [] };
+  }
+}
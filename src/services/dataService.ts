@@ -1,6 +1,7 @@
 import type { IDataService } from './IDataService';
 import { LocalDataService } from './LocalDataService';
 import { ApiDataService } from './ApiDataService';
+import { IndexedDbDataService } from './IndexedDbDataService';
 import { ENV } from '../env';
 
 /**
@@ -9,17 +10,26 @@ import { ENV } from '../env';
  */
 const USE_API = ENV.USE_API;
 const API_BASE_URL = ENV.API_BASE_URL;
+const LOCAL_STORAGE = ENV.LOCAL_STORAGE;
 
 /**
  * Factory function to create the appropriate data service implementation
  * @param useApi - Whether to use API or local storage
  * @param apiBaseUrl - Base URL for API endpoints (only used if useApi is true)
+ * @param localStorageType - Browser storage for local mode (only used if useApi is false)
  * @returns IDataService implementation
  */
-export function createDataService(useApi: boolean = USE_API, apiBaseUrl: string = API_BASE_URL): IDataService {
+export function createDataService(
+  useApi: boolean = USE_API,
+  apiBaseUrl: string = API_BASE_URL,
+  localStorageType: 'localStorage' | 'indexedDB' = LOCAL_STORAGE
+): IDataService {
   if (useApi) {
     console.log('🌐 Using API Data Service');
     return new ApiDataService(apiBaseUrl);
+  } else if (localStorageType === 'indexedDB') {
+    console.log('🗄️ Using IndexedDB Data Service');
+    return new IndexedDbDataService();
   } else {
     console.log('💾 Using Local Data Service');
     return new LocalDataService();
@@ -34,4 +44,4 @@ export const dataService: IDataService = createDataService();
 
 // Export interface and implementations for testing or custom usage
 export type { IDataService };
-export { LocalDataService, ApiDataService };
\ No newline at end of file
+export { LocalDataService, ApiDataService, IndexedDbDataService };
\ No newline at end of file
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import { migrateSidebarConfig, migrateTasks } from './localMigrations'
+
+describe('migrateTasks', () => {
+  it('should fill in fields that unversioned data left out', () => {
+    const { data, quarantined } = migrateTasks([{ id: '1', title: 'Old task', createdAt: '2024-05-01T00:00:00.000Z' }], 0)
+
+    expect(quarantined).toEqual([])
+    expect(data).toEqual([{
+      id: '1',
+      title: 'Old task',
+      priority: 'medium',
+      status: 'active',
+      createdAt: '2024-05-01T00:00:00.000Z',
+      updatedAt: '2024-05-01T00:00:00.000Z',
+    }])
+  })
+
+  it('should record completion times for tasks completed before version 2', () => {
+    const { data } = migrateTasks([
+      { id: '1', title: 'Done', priority: 'low', status: 'completed', createdAt: '2025-01-01', updatedAt: '2025-01-05' },
+      { id: '2', title: 'Open', priority: 'low', status: 'active', createdAt: '2025-01-01', updatedAt: '2025-01-05' },
+    ], 1)
+
+    expect(data.map(task => task.completedAt)).toEqual(['2025-01-05', undefined])
+  })
+
+  it('should quarantine tasks that are still invalid after migrating', () => {
+    const { data, quarantined } = migrateTasks([
+      { id: '1', title: 'Fine' },
+      { id: '2', title: 'Bad priority', priority: 'urgent' },
+      'not a task',
+    ], 0)
+
+    expect(data.map(task => task.id)).toEqual(['1'])
+    expect(quarantined).toHaveLength(2)
+    expect(quarantined[0]).toMatchObject({ kind: 'task', record: { id: '2' }, fromVersion: 0 })
+    expect(quarantined[0].issues[0]).toMatch(/^priority:/)
+  })
+
+  it('should quarantine the whole value when it is not a list', () => {
+    const { data, quarantined } = migrateTasks({ id: '1' }, 1)
+
+    expect(data).toEqual([])
+    expect(quarantined).toMatchObject([{ kind: 'tasks', record: { id: '1' }, fromVersion: 1 }])
+  })
+})
+
+describe('migrateSidebarConfig', () => {
+  it('should keep valid lists and quarantine the rest', () => {
+    const { data, quarantined } = migrateSidebarConfig({
+      smartLists: [],
+      areas: [{ key: 'work', iconName: 'Briefcase', title: 'Work' }],
+      projects: [{ key: 'broken', iconName: 'Folder' }],
+    }, 0)
+
+    expect(data?.areas).toEqual([{ key: 'work', iconName: 'Briefcase', title: 'Work', count: 0, priority: 'medium' }])
+    expect(data?.projects).toEqual([])
+    expect(quarantined).toMatchObject([{ kind: 'list', record: { key: 'broken' } }])
+  })
+
+  it('should add the smart lists introduced in version 2 once', () => {
+    const inbox = { key: 'inbox', iconName: 'Inbox', title: 'Inbox', count: 0, priority: 'low' }
+    const someday = { key: 'someday', iconName: 'Archive', title: 'Later', count: 0, priority: 'low' }
+    const { data } = migrateSidebarConfig({ smartLists: [inbox, someday], areas: [], projects: [] }, 1)
+
+    expect(data?.smartLists.map(item => [item.key, item.title])).toEqual([
+      ['inbox', 'Inbox'],
+      ['someday', 'Later'],
+      ['anytime', 'Anytime'],
+      ['logbook', 'Logbook'],
+    ])
+  })
+
+  it('should quarantine a config that is not an object', () => {
+    const { data, quarantined } = migrateSidebarConfig([], 0)
+
+    expect(data).toBeNull()
+    expect(quarantined).toMatchObject([{ kind: 'sidebar', record: [] }])
+  })
+})
@@ -0,0 +1,186 @@
+import { SidebarConfigDataSchema, SidebarItemDataSchema, TagDataSchema, TaskDataSchema } from '../schemas';
+import type { SidebarConfigData, SidebarItemData } from '../types/sidebar';
+import type { TagData } from '../types/tags';
+import type { TaskData } from '../types/task';
+
+/**
+ * Version of the data layout this build saves
+ * Bump it and append a migration whenever persisted tasks or sidebar data change shape.
+ */
+export const LOCAL_DATA_VERSION = 2;
+
+type StoredRecord = Record<string, unknown>;
+
+/**
+ * Upgrades data saved at `version - 1` to `version`
+ * Each step receives records that may be malformed; anything it can't fix is left for validation.
+ */
+interface Migration {
+  version: number;
+  description: string;
+  task?: (task: StoredRecord) => StoredRecord;
+  sidebar?: (config: StoredRecord) => StoredRecord;
+}
+
+const isRecord = (value: unknown): value is StoredRecord => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Fill in fields that builds before versioning did not always save',
+    task: task => {
+      const timestamp = typeof task.createdAt === 'string' ? task.createdAt : new Date(0).toISOString();
+      return {
+        priority: 'medium',
+        status: 'active',
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        ...task,
+      };
+    },
+    sidebar: config => {
+      const withDefaults = (items: unknown) => Array.isArray(items)
+        ? items.map(item => isRecord(item) ? { count: 0, priority: 'medium', ...item } : item)
+        : [];
+      return {
+        ...config,
+        smartLists: withDefaults(config.smartLists),
+        areas: withDefaults(config.areas),
+        projects: withDefaults(config.projects),
+      };
+    },
+  },
+  {
+    version: 2,
+    description: 'Add the Anytime, Someday and Logbook smart lists and record when tasks were completed',
+    task: task => task.status === 'completed' && task.completedAt === undefined
+      ? { ...task, completedAt: task.updatedAt }
+      : task,
+    sidebar: config => {
+      const smartLists = Array.isArray(config.smartLists) ? config.smartLists : [];
+      const keys = new Set(smartLists.map(item => isRecord(item) ? item.key : undefined));
+      const added = [
+        { key: 'anytime', iconName: 'Layers', title: 'Anytime', count: 0, priority: 'low' },
+        { key: 'someday', iconName: 'Archive', title: 'Someday', count: 0, priority: 'low' },
+        { key: 'logbook', iconName: 'BookCheck', title: 'Logbook', count: 0, priority: 'low', showCount: false },
+      ].filter(item => !keys.has(item.key));
+      return { ...config, smartLists: [...smartLists, ...added] };
+    },
+  },
+];
+
+/**
+ * A saved record that failed validation, set aside instead of dropped
+ */
+export interface QuarantinedRecord {
+  kind: 'task' | 'list' | 'tag' | 'tasks' | 'sidebar';
+  record: unknown;
+  issues: string[];
+  fromVersion: number;
+  quarantinedAt: string;
+}
+
+export interface MigrationResult<T> {
+  data: T;
+  quarantined: QuarantinedRecord[];
+}
+
+/**
+ * Migrations that still need to run on data saved at the given version
+ */
+const pendingMigrations = (fromVersion: number): Migration[] => {
+  return MIGRATIONS.filter(migration => migration.version > fromVersion);
+};
+
+const quarantine = (kind: QuarantinedRecord['kind'], record: unknown, issues: string[], fromVersion: number): QuarantinedRecord => ({
+  kind,
+  record,
+  issues,
+  fromVersion,
+  quarantinedAt: new Date().toISOString(),
+});
+
+const describeIssues = (issues: { path: PropertyKey[]; message: string }[]): string[] => {
+  return issues.map(issue => issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message);
+};
+
+/**
+ * Migrates saved tasks to the current version and validates each one
+ * @param raw - Parsed JSON as saved
+ * @param fromVersion - Version the data was saved at (0 for data saved before versioning)
+ * @returns Valid tasks, and the ones that couldn't be read
+ */
+export const migrateTasks = (raw: unknown, fromVersion: number): MigrationResult<TaskData[]> => {
+  if (!Array.isArray(raw)) {
+    return { data: [], quarantined: [quarantine('tasks', raw, ['Expected a list of tasks'], fromVersion)] };
+  }
+
+  const migrations = pendingMigrations(fromVersion);
+  const data: TaskData[] = [];
+  const quarantined: QuarantinedRecord[] = [];
+
+  raw.forEach(record => {
+    const migrated = isRecord(record)
+      ? migrations.reduce((task, migration) => migration.task?.(task) ?? task, record)
+      : record;
+    const result = TaskDataSchema.safeParse(migrated);
+    if (result.success) {
+      data.push(result.data);
+    } else {
+      quarantined.push(quarantine('task', record, describeIssues(result.error.issues), fromVersion));
+    }
+  });
+
+  return { data, quarantined };
+};
+
+/**
+ * Migrates the saved sidebar config to the current version and validates each list
+ * @param raw - Parsed JSON as saved
+ * @param fromVersion - Version the data was saved at (0 for data saved before versioning)
+ * @returns The config (null if it couldn't be read at all), and the lists that couldn't be read
+ */
+export const migrateSidebarConfig = (raw: unknown, fromVersion: number): MigrationResult<SidebarConfigData | null> => {
+  if (!isRecord(raw)) {
+    return { data: null, quarantined: [quarantine('sidebar', raw, ['Expected a sidebar configuration'], fromVersion)] };
+  }
+
+  const migrated = pendingMigrations(fromVersion).reduce((config, migration) => migration.sidebar?.(config) ?? config, raw);
+  const result = SidebarConfigDataSchema.safeParse(migrated);
+  if (result.success) {
+    return { data: result.data, quarantined: [] };
+  }
+
+  // Keep every list and tag that is still valid and set the rest aside
+  const quarantined: QuarantinedRecord[] = [];
+
+  const validItems = (items: unknown): SidebarItemData[] => {
+    if (!Array.isArray(items)) return [];
+    return items.flatMap(item => {
+      const result = SidebarItemDataSchema.safeParse(item);
+      if (result.success) return [result.data];
+      quarantined.push(quarantine('list', item, describeIssues(result.error.issues), fromVersion));
+      return [];
+    });
+  };
+
+  const validTags = (tags: unknown): TagData[] | undefined => {
+    if (!Array.isArray(tags)) return undefined;
+    return tags.flatMap(tag => {
+      const result = TagDataSchema.safeParse(tag);
+      if (result.success) return [result.data];
+      quarantined.push(quarantine('tag', tag, describeIssues(result.error.issues), fromVersion));
+      return [];
+    });
+  };
+
+  const config: SidebarConfigData = {
+    smartLists: validItems(migrated.smartLists),
+    areas: validItems(migrated.areas),
+    projects: validItems(migrated.projects),
+    tags: validTags(migrated.tags),
+  };
+  return { data: config, quarantined };
+};
@@ -0,0 +1,394 @@
+import { useEffect, useMemo, useRef, useState, type ReactNode } from 'react'
+import { dataService } from '../services/dataService'
+import { appReducer, applyOrder, diffTasks, initialAppState, type AppAction, type AppState, type TaskChange } from './appState'
+import { AppStoreContext, type AppStore } from './appStoreContext'
+import { createLoadDeduper } from './dedupeLoads'
+import { CommandHistory, type Command } from './CommandHistory'
+import { createUndoableMutations, type Mutations } from './undoableMutations'
+import { applyListTaskAction } from '../utils/listTasks'
+import { getTaskTreeIds } from '../utils/taskFilters'
+import { useUndoShortcuts } from '../hooks/useUndoShortcuts'
+import { ConflictError } from '../types/errors'
+import { showError, showInfo, showUndo } from '../lib/toastUtils'
+import type { TaskData } from '../types/task'
+import type { NoteSection, JournalEntry } from '../types/notes'
+
+let placeholderCount = 0
+
+/**
+ * Temporary id for something shown before the data service has created it
+ */
+const placeholderId = (kind: string) => `${kind}-pending-${++placeholderCount}`
+
+/**
+ * Runs a mutation whose result is already showing, undoing it if the service rejects it
+ * Conflicts are undone quietly; callers handle them with a merge dialog.
+ */
+const withRollback = async <T,>(mutate: () => Promise<T>, rollback: () => void): Promise<T> => {
+  try {
+    return await mutate()
+  } catch (error) {
+    rollback()
+    if (!(error instanceof ConflictError)) {
+      showError(error)
+    }
+    throw error
+  }
+}
+
+/**
+ * Holds tasks, sidebar config and notes for the whole app
+ * Changes made through the data service (here or elsewhere, e.g. quick add) arrive as change events.
+ */
+export function AppStoreProvider({ children }: { children: ReactNode }) {
+  const [state, setState] = useState<AppState>(initialAppState)
+  // Updated synchronously, so back-to-back mutations build on each other's optimistic results
+  const stateRef = useRef(state)
+  const [dedupe] = useState(createLoadDeduper)
+  const countsRefreshTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  const actions = useMemo(() => {
+    const dispatch = (action: AppAction) => {
+      stateRef.current = appReducer(stateRef.current, action)
+      setState(stateRef.current)
+    }
+
+    // Loads
+
+    const loadTasks = () => dedupe('tasks', async () => {
+      dispatch({ type: 'tasks_loading' })
+      try {
+        dispatch({ type: 'tasks_loaded', tasks: await dataService.getTasks() })
+      } catch (error) {
+        console.error('Failed to load tasks:', error)
+        dispatch({ type: 'tasks_load_failed' })
+      }
+    })
+
+    const fetchSidebar = (reportErrors: boolean) => dedupe('sidebar', async () => {
+      dispatch({ type: 'sidebar_loading' })
+      try {
+        dispatch({ type: 'sidebar_loaded', config: await dataService.getSidebarConfig() })
+      } catch (error) {
+        console.error('Failed to load sidebar data:', error)
+        if (reportErrors) showError(error, 'Failed to load sidebar data')
+        // Fall back to local data on error
+        dispatch({ type: 'sidebar_load_failed', fallback: dataService.getLocalSidebarConfig() })
+      }
+    })
+
+    const loadSections = (listId: string) => dedupe(`sections:${listId}`, async () => {
+      try {
+        dispatch({ type: 'sections_loaded', listId, sections: await dataService.getSections(listId) })
+      } catch (error) {
+        console.error('Failed to load sections:', error)
+      }
+    })
+
+    const loadJournal = (listId: string) => dedupe(`journal:${listId}`, async () => {
+      try {
+        dispatch({ type: 'journal_loaded', listId, entries: await dataService.getJournalEntries(listId) })
+      } catch (error) {
+        console.error('Failed to load journal entries:', error)
+      }
+    })
+
+    // Counts come from the service; refetch them in the background, once per burst of task changes
+    const scheduleCountsRefresh = () => {
+      if (countsRefreshTimerRef.current) clearTimeout(countsRefreshTimerRef.current)
+      countsRefreshTimerRef.current = setTimeout(() => {
+        countsRefreshTimerRef.current = null
+        fetchSidebar(false)
+      }, 0)
+    }
+
+    // Optimistic helpers
+
+    const changeTasks = (update: (tasks: TaskData[]) => TaskData[]): TaskChange[] => {
+      const changes = diffTasks(stateRef.current.tasks, update(stateRef.current.tasks))
+      dispatch({ type: 'tasks_changed', changes })
+      return changes
+    }
+
+    const findList = (listId: string) => {
+      const { sidebar } = stateRef.current
+      const areaIndex = sidebar?.areas.findIndex(item => item.key === listId) ?? -1
+      if (sidebar && areaIndex !== -1) return { kind: 'area' as const, list: sidebar.areas[areaIndex], index: areaIndex }
+      const projectIndex = sidebar?.projects.findIndex(item => item.key === listId) ?? -1
+      if (sidebar && projectIndex !== -1) return { kind: 'project' as const, list: sidebar.projects[projectIndex], index: projectIndex }
+      return null
+    }
+
+    // Sections and journal entries are only changed once loaded; undoing restores the previous copy
+    const changeSections = (listId: string, update: (sections: NoteSection[]) => NoteSection[]) => {
+      const previous = stateRef.current.sections[listId]
+      if (previous) dispatch({ type: 'sections_loaded', listId, sections: update(previous) })
+      return () => {
+        if (previous) dispatch({ type: 'sections_loaded', listId, sections: previous })
+      }
+    }
+
+    const changeJournal = (listId: string, update: (entries: JournalEntry[]) => JournalEntry[]) => {
+      const previous = stateRef.current.journal[listId]
+      if (previous) dispatch({ type: 'journal_loaded', listId, entries: update(previous) })
+      return () => {
+        if (previous) dispatch({ type: 'journal_loaded', listId, entries: previous })
+      }
+    }
+
+    // Change events may already have replaced the placeholder with a fresh load
+    const replaceSection = (listId: string, id: string, section: NoteSection) =>
+      changeSections(listId, sections => sections.map(item => item.id === id ? section : item))
+    const replaceJournalEntry = (listId: string, id: string, entry: JournalEntry) =>
+      changeJournal(listId, entries => entries.map(item => item.id === id ? entry : item))
+
+    // Mutations as they're applied; the store records them for undo on top
+    const perform: Mutations = {
+      createTask: async (input) => {
+        const now = new Date().toISOString()
+        const placeholder: TaskData = {
+          ...input,
+          id: placeholderId('task'),
+          priority: input.priority ?? 'medium',
+          status: input.status ?? 'active',
+          createdAt: now,
+          updatedAt: now,
+        }
+        const changes = changeTasks(tasks => [...tasks, placeholder])
+        const task = await withRollback(
+          () => dataService.createTask(input),
+          () => dispatch({ type: 'tasks_reverted', changes })
+        )
+        // The created task arrived with its change event
+        dispatch({ type: 'tasks_removed', taskIds: [placeholder.id] })
+        return task
+      },
+
+      updateTask: (id, updates) => {
+        const changes = changeTasks(tasks => tasks.map(task => task.id === id ? { ...task, ...updates } : task))
+        return withRollback(
+          () => dataService.updateTask(id, updates),
+          () => dispatch({ type: 'tasks_reverted', changes })
+        )
+      },
+
+      deleteTask: (id) => {
+        // Subtasks (and anything nested under them) go with their parent
+        const changes = changeTasks(tasks => {
+          const deletedIds = getTaskTreeIds(tasks, id)
+          return tasks.filter(task => !deletedIds.has(task.id))
+        })
+        return withRollback(
+          () => dataService.deleteTask(id),
+          () => dispatch({ type: 'tasks_reverted', changes })
+        )
+      },
+
+      reorderTasks: (taskIds) => {
+        const changes = changeTasks(tasks => applyOrder(tasks, taskIds))
+        return withRollback(
+          () => dataService.reorderTasks(taskIds),
+          () => dispatch({ type: 'tasks_reverted', changes })
+        )
+      },
+
+      updateList: (listId, updates) => {
+        const found = findList(listId)
+        if (found) dispatch({ type: 'list_updated', list: { ...found.list, ...updates } })
+        return withRollback(
+          () => dataService.updateList(listId, updates),
+          () => {
+            if (found) dispatch({ type: 'list_restored', ...found })
+          }
+        )
+      },
+
+      archiveList: (listId, taskAction) => {
+        const found = findList(listId)
+        if (found) dispatch({ type: 'list_updated', list: { ...found.list, archived: true } })
+        const changes = changeTasks(tasks => applyListTaskAction(tasks, listId, taskAction, false))
+        return withRollback(
+          () => dataService.archiveList(listId, taskAction),
+          () => {
+            if (found) dispatch({ type: 'list_restored', ...found })
+            dispatch({ type: 'tasks_reverted', changes })
+          }
+        )
+      },
+
+      deleteList: (listId, taskAction) => {
+        const found = findList(listId)
+        const { sections, journal } = stateRef.current
+        dispatch({ type: 'list_removed', listId })
+        const changes = changeTasks(tasks => applyListTaskAction(tasks, listId, taskAction, true))
+        return withRollback(
+          () => dataService.deleteList(listId, taskAction),
+          () => {
+            if (found) dispatch({ type: 'list_restored', ...found })
+            if (sections[listId]) dispatch({ type: 'sections_loaded', listId, sections: sections[listId] })
+            if (journal[listId]) dispatch({ type: 'journal_loaded', listId, entries: journal[listId] })
+            dispatch({ type: 'tasks_reverted', changes })
+          }
+        )
+      },
+
+      createSection: async (listId, input) => {
+        const now = new Date().toISOString()
+        const id = placeholderId('section')
+        const rollback = changeSections(listId, sections => [
+          ...sections,
+          { id, title: input.title, content: input.content ?? '', order: sections.length, createdAt: now, updatedAt: now },
+        ])
+        const section = await withRollback(() => dataService.createSection(listId, input), rollback)
+        replaceSection(listId, id, section)
+        return section
+      },
+
+      updateSection: (listId, sectionId, updates) => {
+        // updatedAt is left alone so open editors aren't remounted before the save lands
+        const rollback = changeSections(listId, sections =>
+          sections.map(section => section.id === sectionId ? { ...section, ...updates } : section))
+        return withRollback(() => dataService.updateSection(listId, sectionId, updates), rollback)
+      },
+
+      deleteSection: (listId, sectionId) => {
+        const rollback = changeSections(listId, sections => sections.filter(section => section.id !== sectionId))
+        return withRollback(() => dataService.deleteSection(listId, sectionId), rollback)
+      },
+
+      reorderSections: (listId, sectionIds) => {
+        const rollback = changeSections(listId, sections => sectionIds
+          .map(id => sections.find(section => section.id === id))
+          .filter((section): section is NoteSection => section !== undefined)
+          .map((section, order) => ({ ...section, order })))
+        return withRollback(() => dataService.reorderSections(listId, sectionIds), rollback)
+      },
+
+      createJournalEntry: async (listId, input) => {
+        const now = new Date().toISOString()
+        const id = placeholderId('journal')
+        // Newest first
+        const rollback = changeJournal(listId, entries => [{ id, content: input.content, createdAt: now, updatedAt: now }, ...entries])
+        const entry = await withRollback(() => dataService.createJournalEntry(listId, input), rollback)
+        replaceJournalEntry(listId, id, entry)
+        return entry
+      },
+
+      updateJournalEntry: (listId, entryId, updates) => {
+        const rollback = changeJournal(listId, entries =>
+          entries.map(entry => entry.id === entryId ? { ...entry, ...updates } : entry))
+        return withRollback(() => dataService.updateJournalEntry(listId, entryId, updates), rollback)
+      },
+
+      deleteJournalEntry: (listId, entryId) => {
+        const rollback = changeJournal(listId, entries => entries.filter(entry => entry.id !== entryId))
+        return withRollback(() => dataService.deleteJournalEntry(listId, entryId), rollback)
+      },
+    }
+
+    const history = new CommandHistory()
+
+    const runHistory = async (step: () => Promise<Command | null>, done: string) => {
+      try {
+        const command = await step()
+        if (command) showInfo(`${done}: ${command.label}`)
+      } catch (error) {
+        console.error(`Failed to ${done === 'Undone' ? 'undo' : 'redo'}:`, error)
+      }
+    }
+
+    const store: Omit<AppStore, 'state'> = {
+      loadTasks,
+      loadSidebar: () => fetchSidebar(true),
+      loadSections,
+      loadJournal,
+      ...createUndoableMutations({
+        perform,
+        getState: () => stateRef.current,
+        history,
+        onDestructive: (message, command) => showUndo(message, () => runHistory(() => history.undoCommand(command), 'Undone')),
+      }),
+      undo: () => runHistory(() => history.undo(), 'Undone'),
+      redo: () => runHistory(() => history.redo(), 'Redone'),
+    }
+
+    return { store, dispatch, history, fetchSidebar, scheduleCountsRefresh }
+  }, [dedupe])
+
+  // Load tasks and the sidebar up front; notes load when they're first shown
+  useEffect(() => {
+    actions.store.loadTasks().then(() => {
+      // Saved records that failed validation were set aside while loading; tell the user once
+      dataService.takeStorageErrors().forEach(error => showError(error, error.message))
+    })
+    actions.store.loadSidebar()
+  }, [actions])
+
+  // Apply changes made anywhere in the app
+  useEffect(() => {
+    const { store, dispatch, history, fetchSidebar, scheduleCountsRefresh } = actions
+
+    const unsubscribe = dataService.subscribe(event => {
+      switch (event.type) {
+        case 'task_created':
+        case 'task_updated':
+          dispatch({ type: 'tasks_upserted', tasks: [event.task] })
+          scheduleCountsRefresh()
+          break
+        case 'task_deleted':
+          dispatch({ type: 'tasks_removed', taskIds: event.taskIds })
+          scheduleCountsRefresh()
+          break
+        case 'tasks_reordered':
+          dispatch({ type: 'tasks_reordered', taskIds: event.taskIds })
+          break
+        case 'list_created':
+          dispatch({ type: 'list_added', kind: event.kind, list: event.list })
+          // A new smart list's count depends on its filter
+          if (event.kind === 'smartList') scheduleCountsRefresh()
+          break
+        case 'list_updated':
+          dispatch({ type: 'list_updated', list: event.list })
+          if (event.list.filter) scheduleCountsRefresh()
+          break
+        case 'list_deleted':
+          dispatch({ type: 'list_removed', listId: event.listId })
+          break
+        case 'tags_changed':
+          dispatch({ type: 'tags_changed', tags: event.tags })
+          break
+        case 'storage_error':
+          showError(event.error)
+          break
+        case 'sync_failed':
+          showError(event.error, "A change made offline couldn't be saved to the server")
+          break
+        case 'sections_changed':
+          if (stateRef.current.sections[event.listId]) store.loadSections(event.listId)
+          break
+        case 'journal_changed':
+          if (stateRef.current.journal[event.listId]) store.loadJournal(event.listId)
+          break
+        case 'data_reloaded':
+          // Ids may have changed (e.g. offline creates synced), so recorded commands can't be trusted
+          history.clear()
+          store.loadTasks()
+          fetchSidebar(false)
+          Object.keys(stateRef.current.sections).forEach(listId => store.loadSections(listId))
+          Object.keys(stateRef.current.journal).forEach(listId => store.loadJournal(listId))
+          break
+      }
+    })
+
+    return () => {
+      unsubscribe()
+      if (countsRefreshTimerRef.current) clearTimeout(countsRefreshTimerRef.current)
+    }
+  }, [actions])
+
+  useUndoShortcuts({ onUndo: actions.store.undo, onRedo: actions.store.redo })
+
+  const value = useMemo<AppStore>(() => ({ state, ...actions.store }), [state, actions])
+
+  return <AppStoreContext.Provider value={value}>{children}</AppStoreContext.Provider>
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi } from 'vitest'
+import { CommandHistory, type Command } from './CommandHistory'
+
+const command = (label: string, log: string[] = []): Command => ({
+  label,
+  undo: vi.fn(async () => {
+    log.push(`undo ${label}`)
+  }),
+  redo: vi.fn(async () => {
+    log.push(`redo ${label}`)
+  }),
+})
+
+describe('CommandHistory', () => {
+  it('should undo and redo commands in reverse order', async () => {
+    const history = new CommandHistory()
+    const log: string[] = []
+    history.record(command('first', log))
+    history.record(command('second', log))
+
+    await history.undo()
+    await history.undo()
+    await history.redo()
+
+    expect(log).toEqual(['undo second', 'undo first', 'redo first'])
+    expect(history.canUndo).toBe(true)
+    expect(history.canRedo).toBe(true)
+  })
+
+  it('should return null when there is nothing to undo or redo', async () => {
+    const history = new CommandHistory()
+
+    await expect(history.undo()).resolves.toBeNull()
+    await expect(history.redo()).resolves.toBeNull()
+  })
+
+  it('should drop the redo stack when a new command is recorded', async () => {
+    const history = new CommandHistory()
+    history.record(command('first'))
+    await history.undo()
+
+    history.record(command('second'))
+
+    expect(history.canRedo).toBe(false)
+  })
+
+  it('should only keep the latest commands up to the limit', async () => {
+    const history = new CommandHistory(2)
+    const log: string[] = []
+    history.record(command('first', log))
+    history.record(command('second', log))
+    history.record(command('third', log))
+
+    await history.undo()
+    await history.undo()
+    await history.undo()
+
+    expect(log).toEqual(['undo third', 'undo second'])
+  })
+
+  it('should run undos one at a time', async () => {
+    const history = new CommandHistory()
+    const log: string[] = []
+    let finishSlow = () => {}
+    history.record(command('fast', log))
+    history.record({
+      label: 'slow',
+      undo: () => new Promise(resolve => {
+        finishSlow = () => {
+          log.push('undo slow')
+          resolve()
+        }
+      }),
+      redo: async () => {},
+    })
+
+    const first = history.undo()
+    const second = history.undo()
+    await Promise.resolve()
+    finishSlow()
+    await Promise.all([first, second])
+
+    expect(log).toEqual(['undo slow', 'undo fast'])
+  })
+
+  it('should keep a command whose undo failed so it can be retried', async () => {
+    const history = new CommandHistory()
+    const failing = command('failing')
+    vi.mocked(failing.undo).mockRejectedValueOnce(new Error('offline'))
+    history.record(failing)
+
+    await expect(history.undo()).rejects.toThrow('offline')
+    await expect(history.undo()).resolves.toBe(failing)
+  })
+
+  it('should undo a specific command without making it redoable when later commands exist', async () => {
+    const history = new CommandHistory()
+    const log: string[] = []
+    const deleted = command('delete', log)
+    history.record(deleted)
+    history.record(command('rename', log))
+
+    await history.undoCommand(deleted)
+    await history.undo()
+
+    expect(log).toEqual(['undo delete', 'undo rename'])
+    await expect(history.undoCommand(deleted)).resolves.toBeNull()
+    await history.redo()
+    expect(log).toEqual(['undo delete', 'undo rename', 'redo rename'])
+    expect(history.canRedo).toBe(false)
+  })
+})
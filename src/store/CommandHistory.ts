@@ -0,0 +1,120 @@
+/**
+ * A reversible change, recorded after it succeeded
+ */
+export interface Command {
+  label: string; // Shown in toasts, e.g. "Complete task"
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+}
+
+const DEFAULT_LIMIT = 100;
+
+/**
+ * Undo and redo stacks for recorded commands
+ * Undo and redo run one at a time in the order they were asked for, so pressing Ctrl+Z
+ * quickly steps back through the history instead of racing. A command whose undo or redo
+ * fails goes back where it was, so it can be retried.
+ */
+export class CommandHistory {
+  private undoStack: Command[] = [];
+  private redoStack: Command[] = [];
+  private queue: Promise<unknown> = Promise.resolve();
+  private limit: number;
+
+  constructor(limit = DEFAULT_LIMIT) {
+    this.limit = limit;
+  }
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Records a command that has just been done; anything undone before can no longer be redone
+   */
+  record(command: Command): void {
+    this.undoStack.push(command);
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+  }
+
+  /**
+   * Undoes the latest command
+   * @returns The undone command, or null if there was nothing to undo
+   */
+  undo(): Promise<Command | null> {
+    return this.enqueue(async () => {
+      const command = this.undoStack.pop();
+      if (!command) return null;
+      try {
+        await command.undo();
+      } catch (error) {
+        this.undoStack.push(command);
+        throw error;
+      }
+      this.redoStack.push(command);
+      return command;
+    });
+  }
+
+  /**
+   * Redoes the latest undone command
+   * @returns The redone command, or null if there was nothing to redo
+   */
+  redo(): Promise<Command | null> {
+    return this.enqueue(async () => {
+      const command = this.redoStack.pop();
+      if (!command) return null;
+      try {
+        await command.redo();
+      } catch (error) {
+        this.redoStack.push(command);
+        throw error;
+      }
+      this.undoStack.push(command);
+      return command;
+    });
+  }
+
+  /**
+   * Undoes a specific command, e.g. from its "Undo" toast
+   * If later commands were recorded since, it's undone on its own and can't be redone.
+   * @returns The undone command, or null if it was already undone or dropped
+   */
+  undoCommand(command: Command): Promise<Command | null> {
+    return this.enqueue(async () => {
+      const index = this.undoStack.lastIndexOf(command);
+      if (index === -1) return null;
+
+      this.undoStack.splice(index, 1);
+      try {
+        await command.undo();
+      } catch (error) {
+        this.undoStack.splice(index, 0, command);
+        throw error;
+      }
+      if (index === this.undoStack.length) {
+        this.redoStack.push(command);
+      }
+      return command;
+    });
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+  private enqueue<T>(run: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(run);
+    // Keep the queue going after a failure; the caller still sees the error
+    this.queue = result.catch(() => {});
+    return result;
+  }
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest'
+import { appReducer, diffTasks, initialAppState, type AppState } from './appState'
+import type { TaskData } from '../types/task'
+import { task, list } from '../test/fixtures'
+
+const withTasks = (tasks: TaskData[]): AppState => ({ ...initialAppState, tasks, tasksStatus: 'loaded' })
+
+describe('diffTasks', () => {
+  it('should list created, updated and deleted tasks', () => {
+    const kept = task('kept')
+    const changed = task('changed')
+    const removed = task('removed')
+    const updated = task('changed', { title: 'Changed' })
+    const added = task('added')
+
+    expect(diffTasks([kept, changed, removed], [kept, updated, added])).toEqual([
+      { id: 'changed', from: changed, to: updated },
+      { id: 'removed', from: removed, to: null },
+      { id: 'added', from: null, to: added },
+    ])
+  })
+})
+
+describe('appReducer', () => {
+  describe('tasks', () => {
+    it('should replace existing tasks and append new ones on upsert', () => {
+      const state = appReducer(withTasks([task('a'), task('b')]), {
+        type: 'tasks_upserted',
+        tasks: [task('b', { title: 'B' }), task('c')],
+      })
+
+      expect(state.tasks.map(t => t.title)).toEqual(['a', 'B', 'c'])
+    })
+
+    it('should remove tasks by id', () => {
+      const state = appReducer(withTasks([task('a'), task('b')]), { type: 'tasks_removed', taskIds: ['a'] })
+
+      expect(state.tasks.map(t => t.id)).toEqual(['b'])
+    })
+
+    it('should set the order of reordered tasks to their index', () => {
+      const state = appReducer(withTasks([task('a'), task('b'), task('c')]), {
+        type: 'tasks_reordered',
+        taskIds: ['c', 'a'],
+      })
+
+      expect(state.tasks.map(t => t.order)).toEqual([1, undefined, 0])
+    })
+
+    it('should revert an optimistic change', () => {
+      const before = [task('a'), task('b')]
+      const after = [task('a', { status: 'completed' }), task('c')]
+      const changes = diffTasks(before, after)
+
+      const optimistic = appReducer(withTasks(before), { type: 'tasks_changed', changes })
+      const reverted = appReducer(optimistic, { type: 'tasks_reverted', changes })
+
+      expect(optimistic.tasks).toEqual(after)
+      expect(reverted.tasks).toEqual(before)
+    })
+
+    it('should not revert tasks that changed again since', () => {
+      const before = [task('a')]
+      const changes = diffTasks(before, [task('a', { title: 'Optimistic' })])
+      const optimistic = appReducer(withTasks(before), { type: 'tasks_changed', changes })
+      // e.g. the server's copy arrived with the conflict
+      const remote = appReducer(optimistic, { type: 'tasks_upserted', tasks: [task('a', { title: 'Remote' })] })
+
+      const reverted = appReducer(remote, { type: 'tasks_reverted', changes })
+
+      expect(reverted.tasks[0].title).toBe('Remote')
+    })
+  })
+
+  describe('sidebar', () => {
+    const loaded = appReducer(initialAppState, {
+      type: 'sidebar_loaded',
+      config: { smartLists: [], areas: [list('work', { count: 3 })], projects: [list('website')] },
+    })
+
+    it('should keep counts when a list is updated', () => {
+      const state = appReducer(loaded, { type: 'list_updated', list: list('work', { title: 'Office' }) })
+
+      expect(state.sidebar?.areas[0]).toMatchObject({ title: 'Office', count: 3 })
+    })
+
+    it('should not add the same list twice', () => {
+      const state = appReducer(loaded, { type: 'list_added', kind: 'area', list: list('work') })
+
+      expect(state.sidebar?.areas).toHaveLength(1)
+    })
+
+    it('should drop notes and journal of a removed list', () => {
+      const withNotes = appReducer(loaded, { type: 'sections_loaded', listId: 'website', sections: [] })
+      const state = appReducer(withNotes, { type: 'list_removed', listId: 'website' })
+
+      expect(state.sidebar?.projects).toEqual([])
+      expect(state.sections).toEqual({})
+    })
+
+    it('should put a restored list back at its index', () => {
+      const withHome = appReducer(loaded, { type: 'list_added', kind: 'area', list: list('home') })
+      const removed = appReducer(withHome, { type: 'list_removed', listId: 'work' })
+
+      const state = appReducer(removed, { type: 'list_restored', kind: 'area', list: list('work'), index: 0 })
+
+      expect(state.sidebar?.areas.map(item => item.key)).toEqual(['work', 'home'])
+    })
+
+    it('should keep the loaded sidebar when a reload fails', () => {
+      const state = appReducer(loaded, {
+        type: 'sidebar_load_failed',
+        fallback: { smartLists: [], areas: [], projects: [] },
+      })
+
+      expect(state.sidebar).toBe(loaded.sidebar)
+      expect(state.sidebarStatus).toBe('error')
+    })
+
+    it('should replace the tags and leave the lists alone', () => {
+      const state = appReducer(loaded, { type: 'tags_changed', tags: [{ name: 'work', color: 'blue' }] })
+
+      expect(state.sidebar?.tags).toEqual([{ name: 'work', color: 'blue' }])
+      expect(state.sidebar?.areas).toBe(loaded.sidebar?.areas)
+    })
+  })
+})
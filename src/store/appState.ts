@@ -0,0 +1,213 @@
+import type { TaskData } from '../types/task';
+import type { SidebarConfigData, SidebarItemData } from '../types/sidebar';
+import type { NoteSection, JournalEntry } from '../types/notes';
+import type { TagData } from '../types/tags';
+
+export type LoadStatus = 'idle' | 'loading' | 'loaded' | 'error';
+
+/**
+ * Data shared across the app, kept current from change events and optimistic mutations
+ */
+export interface AppState {
+  tasks: TaskData[];
+  tasksStatus: LoadStatus;
+  sidebar: SidebarConfigData | null;
+  sidebarStatus: LoadStatus;
+  sections: Record<string, NoteSection[]>; // Keyed by list; present once loaded
+  journal: Record<string, JournalEntry[]>; // Keyed by list, newest first; present once loaded
+}
+
+/**
+ * One task's value before and after a change
+ * `null` means the task doesn't exist on that side (created or deleted).
+ */
+export interface TaskChange {
+  id: string;
+  from: TaskData | null;
+  to: TaskData | null;
+}
+
+export type AppAction =
+  | { type: 'tasks_loading' }
+  | { type: 'tasks_loaded'; tasks: TaskData[] }
+  | { type: 'tasks_load_failed' }
+  | { type: 'tasks_upserted'; tasks: TaskData[] }
+  | { type: 'tasks_removed'; taskIds: string[] }
+  | { type: 'tasks_reordered'; taskIds: string[] }
+  | { type: 'tasks_changed'; changes: TaskChange[] }
+  | { type: 'tasks_reverted'; changes: TaskChange[] }
+  | { type: 'sidebar_loading' }
+  | { type: 'sidebar_loaded'; config: SidebarConfigData }
+  | { type: 'sidebar_load_failed'; fallback: SidebarConfigData }
+  | { type: 'list_added'; kind: 'area' | 'project' | 'smartList'; list: SidebarItemData }
+  | { type: 'list_updated'; list: SidebarItemData }
+  | { type: 'list_removed'; listId: string }
+  | { type: 'list_restored'; kind: 'area' | 'project'; list: SidebarItemData; index: number }
+  | { type: 'tags_changed'; tags: TagData[] }
+  | { type: 'sections_loaded'; listId: string; sections: NoteSection[] }
+  | { type: 'journal_loaded'; listId: string; entries: JournalEntry[] };
+
+export const initialAppState: AppState = {
+  tasks: [],
+  tasksStatus: 'idle',
+  sidebar: null,
+  sidebarStatus: 'idle',
+  sections: {},
+  journal: {},
+};
+
+/**
+ * Sets each listed task's order to its index, as reorderTasks does
+ */
+export const applyOrder = (tasks: TaskData[], taskIds: string[]): TaskData[] => {
+  const positions = new Map(taskIds.map((id, index) => [id, index]));
+  return tasks.map(task => positions.has(task.id) ? { ...task, order: positions.get(task.id) } : task);
+};
+
+/**
+ * Lists the tasks that differ between two copies of the task array
+ * Tasks are compared by identity, so unchanged tasks must be the same objects in both.
+ */
+export const diffTasks = (before: TaskData[], after: TaskData[]): TaskChange[] => {
+  const previous = new Map(before.map(task => [task.id, task]));
+  const next = new Map(after.map(task => [task.id, task]));
+  const changes: TaskChange[] = [];
+
+  previous.forEach((task, id) => {
+    const updated = next.get(id) ?? null;
+    if (updated !== task) changes.push({ id, from: task, to: updated });
+  });
+  next.forEach((task, id) => {
+    if (!previous.has(id)) changes.push({ id, from: null, to: task });
+  });
+  return changes;
+};
+
+/**
+ * Sets tasks by id: `null` removes the task, a missing task is appended
+ */
+const setTasks = (tasks: TaskData[], values: Map<string, TaskData | null>): TaskData[] => {
+  if (values.size === 0) return tasks;
+  const result: TaskData[] = [];
+  const seen = new Set<string>();
+
+  tasks.forEach(task => {
+    seen.add(task.id);
+    if (!values.has(task.id)) {
+      result.push(task);
+      return;
+    }
+    const value = values.get(task.id);
+    if (value) result.push(value);
+  });
+  values.forEach((value, id) => {
+    if (value && !seen.has(id)) result.push(value);
+  });
+  return result;
+};
+
+/**
+ * Undoes changes, skipping tasks that changed again since (e.g. the server's copy arrived)
+ */
+const revertTasks = (tasks: TaskData[], changes: TaskChange[]): TaskData[] => {
+  const current = new Map(tasks.map(task => [task.id, task]));
+  const values = new Map<string, TaskData | null>();
+  changes.forEach(change => {
+    if ((current.get(change.id) ?? null) === change.to) {
+      values.set(change.id, change.from);
+    }
+  });
+  return setTasks(tasks, values);
+};
+
+// Sidebar config field holding each kind of list
+const LIST_FIELDS = { smartList: 'smartLists', area: 'areas', project: 'projects' } as const;
+
+/**
+ * Replaces a list, keeping its count (counts come from getSidebarConfig)
+ */
+const replaceList = (items: SidebarItemData[], list: SidebarItemData): SidebarItemData[] =>
+  items.map(item => item.key === list.key ? { ...list, count: item.count } : item);
+
+const withoutKey = <T>(record: Record<string, T>, key: string): Record<string, T> => {
+  if (!(key in record)) return record;
+  const next = { ...record };
+  delete next[key];
+  return next;
+};
+
+export function appReducer(state: AppState, action: AppAction): AppState {
+  switch (action.type) {
+    case 'tasks_loading':
+      return { ...state, tasksStatus: 'loading' };
+    case 'tasks_loaded':
+      return { ...state, tasks: action.tasks, tasksStatus: 'loaded' };
+    case 'tasks_load_failed':
+      return { ...state, tasksStatus: 'error' };
+    case 'tasks_upserted':
+      return { ...state, tasks: setTasks(state.tasks, new Map(action.tasks.map(task => [task.id, task]))) };
+    case 'tasks_removed':
+      return { ...state, tasks: setTasks(state.tasks, new Map(action.taskIds.map(id => [id, null]))) };
+    case 'tasks_reordered':
+      return { ...state, tasks: applyOrder(state.tasks, action.taskIds) };
+    case 'tasks_changed':
+      return { ...state, tasks: setTasks(state.tasks, new Map(action.changes.map(change => [change.id, change.to]))) };
+    case 'tasks_reverted':
+      return { ...state, tasks: revertTasks(state.tasks, action.changes) };
+
+    case 'sidebar_loading':
+      return { ...state, sidebarStatus: 'loading' };
+    case 'sidebar_loaded':
+      return { ...state, sidebar: action.config, sidebarStatus: 'loaded' };
+    case 'sidebar_load_failed':
+      // Keep showing what we have; the fallback is only used before the first load
+      return { ...state, sidebar: state.sidebar ?? action.fallback, sidebarStatus: 'error' };
+    case 'list_added': {
+      if (!state.sidebar) return state;
+      const field = LIST_FIELDS[action.kind];
+      if (state.sidebar[field].some(item => item.key === action.list.key)) return state;
+      return { ...state, sidebar: { ...state.sidebar, [field]: [...state.sidebar[field], action.list] } };
+    }
+    case 'list_updated':
+      if (!state.sidebar) return state;
+      return {
+        ...state,
+        sidebar: {
+          ...state.sidebar,
+          smartLists: replaceList(state.sidebar.smartLists, action.list),
+          areas: replaceList(state.sidebar.areas, action.list),
+          projects: replaceList(state.sidebar.projects, action.list),
+        },
+      };
+    case 'list_removed':
+      return {
+        ...state,
+        sidebar: state.sidebar && {
+          ...state.sidebar,
+          smartLists: state.sidebar.smartLists.filter(item => item.key !== action.listId),
+          areas: state.sidebar.areas.filter(item => item.key !== action.listId),
+          projects: state.sidebar.projects.filter(item => item.key !== action.listId),
+        },
+        sections: withoutKey(state.sections, action.listId),
+        journal: withoutKey(state.journal, action.listId),
+      };
+    case 'list_restored': {
+      if (!state.sidebar) return state;
+      const field = action.kind === 'area' ? 'areas' : 'projects';
+      const items = state.sidebar[field];
+      const restored = items.some(item => item.key === action.list.key)
+        ? items.map(item => item.key === action.list.key ? action.list : item)
+        : [...items.slice(0, action.index), action.list, ...items.slice(action.index)];
+      return { ...state, sidebar: { ...state.sidebar, [field]: restored } };
+    }
+
+    case 'tags_changed':
+      if (!state.sidebar) return state;
+      return { ...state, sidebar: { ...state.sidebar, tags: action.tags } };
+
+    case 'sections_loaded':
+      return { ...state, sections: { ...state.sections, [action.listId]: action.sections } };
+    case 'journal_loaded':
+      return { ...state, journal: { ...state.journal, [action.listId]: action.entries } };
+  }
+}
@@ -0,0 +1,48 @@
+import { createContext } from 'react';
+import type { AppState } from './appState';
+import type { TaskData, CreateTaskInput, UpdateTaskInput } from '../types/task';
+import type { SidebarItemData, UpdateListInput, ListTaskAction } from '../types/sidebar';
+import type { NoteSection, JournalEntry, CreateSectionInput, UpdateSectionInput, CreateJournalEntryInput, UpdateJournalEntryInput } from '../types/notes';
+
+/**
+ * Shared app data plus the mutations that keep it current
+ * Mutations show their result immediately and roll it back (with an error toast) if the
+ * data service rejects them; the error is rethrown so callers can keep forms open.
+ * Conflicts are rolled back without a toast since callers offer a merge instead.
+ * Successful mutations are recorded so they can be undone and redone.
+ */
+export interface AppStore {
+  state: AppState;
+
+  // Loads; concurrent calls for the same data share one request
+  loadTasks(): Promise<void>;
+  loadSidebar(): Promise<void>;
+  loadSections(listId: string): Promise<void>;
+  loadJournal(listId: string): Promise<void>;
+
+  // Tasks
+  createTask(input: CreateTaskInput): Promise<TaskData>;
+  updateTask(id: string, updates: UpdateTaskInput): Promise<TaskData>;
+  deleteTask(id: string): Promise<void>;
+  reorderTasks(taskIds: string[]): Promise<void>;
+
+  // Areas and projects
+  updateList(listId: string, updates: UpdateListInput): Promise<SidebarItemData>;
+  archiveList(listId: string, taskAction: ListTaskAction): Promise<SidebarItemData>;
+  deleteList(listId: string, taskAction: ListTaskAction): Promise<void>;
+
+  // Notes
+  createSection(listId: string, input: CreateSectionInput): Promise<NoteSection>;
+  updateSection(listId: string, sectionId: string, updates: UpdateSectionInput): Promise<NoteSection>;
+  deleteSection(listId: string, sectionId: string): Promise<void>;
+  reorderSections(listId: string, sectionIds: string[]): Promise<void>;
+  createJournalEntry(listId: string, input: CreateJournalEntryInput): Promise<JournalEntry>;
+  updateJournalEntry(listId: string, entryId: string, updates: UpdateJournalEntryInput): Promise<JournalEntry>;
+  deleteJournalEntry(listId: string, entryId: string): Promise<void>;
+
+  // History; failures are reported by the mutation being undone or redone
+  undo(): Promise<void>;
+  redo(): Promise<void>;
+}
+
+export const AppStoreContext = createContext<AppStore | null>(null);
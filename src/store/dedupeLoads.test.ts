@@ -0,0 +1,34 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createLoadDeduper } from './dedupeLoads'
+
+describe('createLoadDeduper', () => {
+  it('should share a pending load between callers with the same key', async () => {
+    const dedupe = createLoadDeduper()
+    const load = vi.fn(() => Promise.resolve(['task']))
+
+    const [first, second] = await Promise.all([dedupe('tasks', load), dedupe('tasks', load)])
+
+    expect(load).toHaveBeenCalledTimes(1)
+    expect(second).toBe(first)
+  })
+
+  it('should load separately for different keys', async () => {
+    const dedupe = createLoadDeduper()
+    const load = vi.fn(() => Promise.resolve([]))
+
+    await Promise.all([dedupe('sections:work', load), dedupe('sections:home', load)])
+
+    expect(load).toHaveBeenCalledTimes(2)
+  })
+
+  it('should start a fresh load once the previous one settles, even if it failed', async () => {
+    const dedupe = createLoadDeduper()
+    const load = vi.fn()
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockResolvedValueOnce('ok')
+
+    await expect(dedupe('tasks', load)).rejects.toThrow('offline')
+    await expect(dedupe('tasks', load)).resolves.toBe('ok')
+    expect(load).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,21 @@
+/**
+ * Shares in-flight loads between callers asking for the same data
+ * A second call with the same key while the first is pending gets the first call's promise;
+ * once it settles, the next call starts a fresh load.
+ */
+export type LoadDeduper = <T>(key: string, load: () => Promise<T>) => Promise<T>;
+
+export const createLoadDeduper = (): LoadDeduper => {
+  const inFlight = new Map<string, Promise<unknown>>();
+
+  return <T>(key: string, load: () => Promise<T>): Promise<T> => {
+    const pending = inFlight.get(key);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+
+    const promise = load().finally(() => inFlight.delete(key));
+    inFlight.set(key, promise);
+    return promise;
+  };
+};
@@ -0,0 +1,182 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { createUndoableMutations, type Mutations } from './undoableMutations'
+import { CommandHistory } from './CommandHistory'
+import { ApiDataService } from '../services/ApiDataService'
+import { initialAppState, type AppState } from './appState'
+import { CreateTaskInputSchema } from '../schemas'
+import type { TaskData } from '../types/task'
+import { task } from '../test/fixtures'
+
+describe('createUndoableMutations', () => {
+  let state: AppState
+  let perform: Mutations
+  let history: CommandHistory
+  let onDestructive: ReturnType<typeof vi.fn>
+  let mutations: Mutations
+  let createdCount: number
+
+  beforeEach(() => {
+    state = { ...initialAppState, tasks: [task('parent', { listId: 'work' }), task('child', { parentId: 'parent' })] }
+    createdCount = 0
+    perform = {
+      createTask: vi.fn(async input => task(`new-${++createdCount}`, input)),
+      updateTask: vi.fn(async (id, updates) => task(id, updates)),
+      deleteTask: vi.fn(async () => {}),
+      reorderTasks: vi.fn(async () => {}),
+      updateList: vi.fn(),
+      archiveList: vi.fn(),
+      deleteList: vi.fn(),
+      createSection: vi.fn(),
+      updateSection: vi.fn(),
+      deleteSection: vi.fn(),
+      reorderSections: vi.fn(),
+      createJournalEntry: vi.fn(),
+      updateJournalEntry: vi.fn(),
+      deleteJournalEntry: vi.fn(async () => {}),
+    }
+    history = new CommandHistory()
+    onDestructive = vi.fn()
+    mutations = createUndoableMutations({ perform, getState: () => state, history, onDestructive })
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should undo an update by restoring the changed fields', async () => {
+    await mutations.updateTask('parent', { status: 'completed' })
+
+    await history.undo()
+
+    expect(perform.updateTask).toHaveBeenLastCalledWith('parent', { status: 'active' })
+  })
+
+  it('should clear a field on the server again when undoing setting it in API mode', async () => {
+    const mockFetch = vi.fn(async () => ({ ok: true, json: async () => task('parent') }))
+    vi.stubGlobal('fetch', mockFetch)
+    const api = new ApiDataService('http://localhost:3000/api')
+    perform = { ...perform, updateTask: (id, updates) => api.updateTask(id, updates) }
+    mutations = createUndoableMutations({ perform, getState: () => state, history, onDestructive })
+
+    await mutations.updateTask('parent', { dueDate: '2025-03-10' })
+    await history.undo()
+
+    expect(mockFetch).toHaveBeenLastCalledWith('http://localhost:3000/api/tasks/parent', expect.objectContaining({
+      method: 'PATCH',
+      body: JSON.stringify({ dueDate: null })
+    }))
+  })
+
+  it('should remove the next occurrence and restore the repeat rule when undoing completing a recurring task', async () => {
+    const recurrence = { frequency: 'daily' as const, interval: 1 }
+    state = { ...state, tasks: [task('daily', { recurrence })] }
+    // Like the data service: completing moves the repeat rule to a new next occurrence
+    vi.mocked(perform.updateTask).mockImplementation(async (id, updates) => {
+      if (updates.status === 'completed') {
+        state = { ...state, tasks: [...state.tasks, task(`next-${++createdCount}`, { title: 'daily', recurrence })] }
+      }
+      return task(id, updates)
+    })
+    await mutations.updateTask('daily', { status: 'completed' })
+
+    await history.undo()
+
+    expect(perform.deleteTask).toHaveBeenCalledWith('next-1')
+    expect(perform.updateTask).toHaveBeenLastCalledWith('daily', { status: 'active', recurrence })
+
+    await history.redo()
+    await history.undo()
+
+    expect(perform.deleteTask).toHaveBeenLastCalledWith('next-2')
+  })
+
+  it('should offer an undo toast when archiving but not when completing', async () => {
+    await mutations.updateTask('parent', { status: 'completed' })
+    await mutations.updateTask('parent', { status: 'archived' })
+
+    expect(onDestructive).toHaveBeenCalledTimes(1)
+    expect(onDestructive).toHaveBeenCalledWith('Task archived', expect.objectContaining({ label: 'Archive task' }))
+  })
+
+  it('should recreate a deleted task with its subtasks', async () => {
+    await mutations.deleteTask('parent')
+
+    await history.undo()
+
+    expect(perform.createTask).toHaveBeenNthCalledWith(1, expect.objectContaining({ title: 'parent', listId: 'work' }))
+    expect(perform.createTask).toHaveBeenNthCalledWith(2, expect.objectContaining({ title: 'child', parentId: 'new-1' }))
+    expect(onDestructive).toHaveBeenCalledWith('Task deleted', expect.anything())
+  })
+
+  it('should recreate nested subtasks under their recreated parents', async () => {
+    state = { ...state, tasks: [...state.tasks, task('grandchild', { parentId: 'child' })] }
+
+    await mutations.deleteTask('parent')
+    await history.undo()
+
+    expect(perform.createTask).toHaveBeenNthCalledWith(2, expect.objectContaining({ title: 'child', parentId: 'new-1' }))
+    expect(perform.createTask).toHaveBeenNthCalledWith(3, expect.objectContaining({ title: 'grandchild', parentId: 'new-2' }))
+  })
+
+  it('should recreate a deleted task with every field it was created with', async () => {
+    const fields: Partial<TaskData> = {
+      description: 'Notes',
+      priority: 'high',
+      status: 'active',
+      dueDate: '2025-03-10',
+      startDate: '2025-03-01',
+      reminderAt: '2025-03-09T09:00:00.000Z',
+      order: 3,
+      listId: 'work',
+      recurrence: { frequency: 'weekly', interval: 1, weekdays: [1] },
+      tags: ['errands'],
+      someday: true,
+    }
+    state = { ...state, tasks: [task('full', fields), task('step', { parentId: 'full' })] }
+
+    await mutations.deleteTask('full')
+    await history.undo()
+
+    const input = vi.mocked(perform.createTask).mock.calls[0][0]
+    expect(input).toEqual({ title: 'full', ...fields })
+    // Every field a task can be created with is carried over (a top-level task has no parent)
+    const missing = Object.keys(CreateTaskInputSchema.shape).filter(key => key !== 'parentId' && input[key as keyof typeof input] === undefined)
+    expect(missing).toEqual([])
+  })
+
+  it('should point older commands at a recreated task', async () => {
+    await mutations.updateTask('parent', { title: 'Renamed' })
+    await mutations.deleteTask('parent')
+
+    await history.undo() // recreates the task as new-1
+    await history.undo() // undoes the rename
+
+    expect(perform.updateTask).toHaveBeenLastCalledWith('new-1', { title: 'parent' })
+  })
+
+  it('should redo a delete against the recreated task', async () => {
+    await mutations.deleteTask('parent')
+    await history.undo()
+
+    await history.redo()
+
+    expect(perform.deleteTask).toHaveBeenLastCalledWith('new-1')
+  })
+
+  it('should undo a reorder by reordering back', async () => {
+    state = { ...state, tasks: [task('a', { order: 0 }), task('b', { order: 1 })] }
+
+    await mutations.reorderTasks(['b', 'a'])
+    await history.undo()
+
+    expect(perform.reorderTasks).toHaveBeenLastCalledWith(['a', 'b'])
+  })
+
+  it('should not record a mutation that failed', async () => {
+    vi.mocked(perform.updateTask).mockRejectedValueOnce(new Error('offline'))
+
+    await expect(mutations.updateTask('parent', { status: 'completed' })).rejects.toThrow('offline')
+
+    expect(history.canUndo).toBe(false)
+  })
+})
@@ -0,0 +1,333 @@
+import type { AppState } from './appState';
+import type { AppStore } from './appStoreContext';
+import type { Command, CommandHistory } from './CommandHistory';
+import type { TaskData, CreateTaskInput, UpdateTaskInput } from '../types/task';
+import type { NoteSection } from '../types/notes';
+import { getTaskTreeIds } from '../utils/taskFilters';
+
+/**
+ * The store's mutations, without loading, state or history
+ */
+export type Mutations = Omit<AppStore, 'state' | 'loadTasks' | 'loadSidebar' | 'loadSections' | 'loadJournal' | 'undo' | 'redo'>;
+
+interface UndoableMutationsOptions {
+  perform: Mutations; // Does the change without recording it (undo and redo use this too)
+  getState: () => AppState;
+  history: CommandHistory;
+  onDestructive: (message: string, command: Command) => void; // e.g. show an "Undo" toast
+}
+
+/**
+ * Picks the current values of the fields an update is about to change
+ */
+const previousValues = <T extends object>(current: T, updates: object): Partial<T> =>
+  Object.fromEntries(Object.keys(updates).map(key => [key, current[key as keyof T]])) as Partial<T>;
+
+const toCreateInput = (task: TaskData): CreateTaskInput => ({
+  title: task.title,
+  description: task.description,
+  priority: task.priority,
+  order: task.order,
+  status: task.status,
+  dueDate: task.dueDate,
+  startDate: task.startDate,
+  reminderAt: task.reminderAt,
+  listId: task.listId,
+  parentId: task.parentId,
+  recurrence: task.recurrence,
+  tags: task.tags,
+  someday: task.someday,
+});
+
+const describeTaskUpdate = (updates: UpdateTaskInput): string => {
+  switch (updates.status) {
+    case 'completed': return 'Complete task';
+    case 'active': return 'Reopen task';
+    case 'archived': return 'Archive task';
+    default: return 'Edit task';
+  }
+};
+
+/**
+ * Sorts ids by their items' current order, so reordering by the result puts them back
+ */
+const byCurrentOrder = (ids: string[], orderOf: (id: string) => number | undefined): string[] =>
+  [...ids].sort((a, b) => (orderOf(a) ?? Infinity) - (orderOf(b) ?? Infinity));
+
+/**
+ * Wraps the store's mutations so each successful one is recorded as an undoable command
+ * Deleted tasks, sections and journal entries come back with new ids; later commands that
+ * refer to the old id are pointed at the new one, so the rest of the history keeps working.
+ */
+export const createUndoableMutations = ({ perform, getState, history, onDestructive }: UndoableMutationsOptions): Mutations => {
+  const aliases = new Map<string, string>();
+
+  const resolve = (id: string): string => {
+    let current = id;
+    for (let next = aliases.get(current); next; next = aliases.get(current)) {
+      current = next;
+    }
+    return current;
+  };
+
+  const resolveInput = (input: CreateTaskInput): CreateTaskInput =>
+    input.parentId ? { ...input, parentId: resolve(input.parentId) } : input;
+
+  /**
+   * Finds the next occurrence spawned by completing a recurring task, among tasks that weren't there before
+   */
+  const findSpawnedOccurrence = (completed: TaskData, idsBefore: Set<string>): TaskData | undefined =>
+    getState().tasks.find(task =>
+      !idsBefore.has(task.id) && !task.parentId && task.title === completed.title && task.recurrence !== undefined
+    );
+
+  const record = (command: Command, destructiveMessage?: string) => {
+    history.record(command);
+    if (destructiveMessage) onDestructive(destructiveMessage, command);
+  };
+
+  /**
+   * Recreates a deleted task and everything nested under it, pointing their old ids at the new ones
+   */
+  const restoreTasks = async (removed: TaskData[], id: string, parentId?: string) => {
+    const task = removed.find(item => item.id === id);
+    if (!task) return;
+    const input = toCreateInput(task);
+    const created = await perform.createTask(parentId ? { ...input, parentId } : resolveInput(input));
+    aliases.set(resolve(id), created.id);
+
+    for (const subtask of removed.filter(item => item.parentId === id)) {
+      await restoreTasks(removed, subtask.id, created.id);
+    }
+  };
+
+  const restoreSection = async (listId: string, section: NoteSection, previousIds: string[]) => {
+    const created = await perform.createSection(listId, { title: section.title, content: section.content });
+    aliases.set(resolve(section.id), created.id);
+
+    // Put it back in its place when the other sections are all still there
+    const currentIds = new Set((getState().sections[listId] ?? []).map(item => item.id));
+    const order = previousIds.map(resolve);
+    if (order.length === currentIds.size && order.every(sectionId => currentIds.has(sectionId))) {
+      await perform.reorderSections(listId, order);
+    }
+  };
+
+  return {
+    createTask: async (input) => {
+      const task = await perform.createTask(input);
+      record({
+        label: input.parentId ? 'Add subtask' : 'Add task',
+        undo: () => perform.deleteTask(resolve(task.id)),
+        redo: async () => {
+          const created = await perform.createTask(resolveInput(input));
+          aliases.set(resolve(task.id), created.id);
+        },
+      });
+      return task;
+    },
+
+    updateTask: async (id, updates) => {
+      const before = getState().tasks.find(task => task.id === id);
+      const idsBefore = new Set(getState().tasks.map(task => task.id));
+      const updated = await perform.updateTask(id, updates);
+      if (before) {
+        const previous: UpdateTaskInput = previousValues(before, updates);
+        // Completing a recurring task hands its repeat rule over to a new next occurrence;
+        // undoing takes the rule back and removes the occurrence (with its copied checklist)
+        const isCompletingRecurring = before.recurrence !== undefined && updates.status === 'completed' && before.status !== 'completed';
+        const spawned = isCompletingRecurring ? findSpawnedOccurrence(before, idsBefore) : undefined;
+        if (spawned) previous.recurrence = before.recurrence;
+        record({
+          label: describeTaskUpdate(updates),
+          undo: async () => {
+            if (spawned) await perform.deleteTask(resolve(spawned.id));
+            await perform.updateTask(resolve(id), previous);
+          },
+          redo: async () => {
+            const idsBeforeRedo = new Set(getState().tasks.map(task => task.id));
+            await perform.updateTask(resolve(id), updates);
+            if (spawned) {
+              const respawned = findSpawnedOccurrence(before, idsBeforeRedo);
+              if (respawned) aliases.set(resolve(spawned.id), respawned.id);
+            }
+          },
+        }, updates.status === 'archived' ? 'Task archived' : undefined);
+      }
+      return updated;
+    },
+
+    deleteTask: async (id) => {
+      const { tasks } = getState();
+      const removedIds = getTaskTreeIds(tasks, id);
+      const removed = tasks.filter(task => removedIds.has(task.id));
+      await perform.deleteTask(id);
+      record({
+        label: 'Delete task',
+        undo: () => restoreTasks(removed, id),
+        redo: () => perform.deleteTask(resolve(id)),
+      }, 'Task deleted');
+    },
+
+    reorderTasks: async (taskIds) => {
+      const orders = new Map(getState().tasks.map(task => [task.id, task.order]));
+      const previousOrder = byCurrentOrder(taskIds, id => orders.get(id));
+      await perform.reorderTasks(taskIds);
+      record({
+        label: 'Reorder tasks',
+        undo: () => perform.reorderTasks(previousOrder.map(resolve)),
+        redo: () => perform.reorderTasks(taskIds.map(resolve)),
+      });
+    },
+
+    updateList: async (listId, updates) => {
+      const { sidebar } = getState();
+      const before = [...sidebar?.areas ?? [], ...sidebar?.projects ?? []].find(item => item.key === listId);
+      const list = await perform.updateList(listId, updates);
+      if (before) {
+        const previous = previousValues(before, updates);
+        record({
+          label: updates.archived === false ? 'Restore list' : 'Edit list',
+          undo: async () => {
+            await perform.updateList(listId, previous);
+          },
+          redo: async () => {
+            await perform.updateList(listId, updates);
+          },
+        });
+      }
+      return list;
+    },
+
+    archiveList: async (listId, taskAction) => {
+      const tasksBefore = getState().tasks;
+      const list = await perform.archiveList(listId, taskAction);
+      // The list's tasks as they were, to move or recreate them on undo
+      const listTaskIds = new Set(tasksBefore.filter(task => task.listId === listId).map(task => task.id));
+      const listTasks = tasksBefore.filter(task => listTaskIds.has(task.id) || (task.parentId !== undefined && listTaskIds.has(task.parentId)));
+
+      record({
+        label: 'Archive list',
+        undo: async () => {
+          await perform.updateList(listId, { archived: false });
+          if (taskAction === 'delete') {
+            for (const task of listTasks.filter(item => listTaskIds.has(item.id))) {
+              await restoreTasks(listTasks, task.id);
+            }
+            return;
+          }
+          for (const task of listTasks) {
+            await perform.updateTask(resolve(task.id), { status: task.status, listId: task.listId });
+          }
+        },
+        redo: async () => {
+          await perform.archiveList(listId, taskAction);
+        },
+      }, `"${list.title}" archived`);
+      return list;
+    },
+
+    // Deleting a list drops its notes and journal, so it isn't undoable
+    deleteList: (listId, taskAction) => perform.deleteList(listId, taskAction),
+
+    createSection: async (listId, input) => {
+      const section = await perform.createSection(listId, input);
+      record({
+        label: 'Add section',
+        undo: () => perform.deleteSection(listId, resolve(section.id)),
+        redo: async () => {
+          const created = await perform.createSection(listId, input);
+          aliases.set(resolve(section.id), created.id);
+        },
+      });
+      return section;
+    },
+
+    updateSection: async (listId, sectionId, updates) => {
+      const before = getState().sections[listId]?.find(section => section.id === sectionId);
+      const section = await perform.updateSection(listId, sectionId, updates);
+      if (before) {
+        const previous = previousValues(before, updates);
+        record({
+          label: 'Edit section',
+          undo: async () => {
+            await perform.updateSection(listId, resolve(sectionId), previous);
+          },
+          redo: async () => {
+            await perform.updateSection(listId, resolve(sectionId), updates);
+          },
+        });
+      }
+      return section;
+    },
+
+    deleteSection: async (listId, sectionId) => {
+      const sections = getState().sections[listId] ?? [];
+      const removed = sections.find(section => section.id === sectionId);
+      const previousIds = sections.map(section => section.id);
+      await perform.deleteSection(listId, sectionId);
+      if (removed) {
+        record({
+          label: 'Delete section',
+          undo: () => restoreSection(listId, removed, previousIds),
+          redo: () => perform.deleteSection(listId, resolve(sectionId)),
+        }, 'Section deleted');
+      }
+    },
+
+    reorderSections: async (listId, sectionIds) => {
+      const previousIds = (getState().sections[listId] ?? []).map(section => section.id);
+      await perform.reorderSections(listId, sectionIds);
+      record({
+        label: 'Reorder sections',
+        undo: () => perform.reorderSections(listId, previousIds.map(resolve)),
+        redo: () => perform.reorderSections(listId, sectionIds.map(resolve)),
+      });
+    },
+
+    createJournalEntry: async (listId, input) => {
+      const entry = await perform.createJournalEntry(listId, input);
+      record({
+        label: 'Add journal entry',
+        undo: () => perform.deleteJournalEntry(listId, resolve(entry.id)),
+        redo: async () => {
+          const created = await perform.createJournalEntry(listId, input);
+          aliases.set(resolve(entry.id), created.id);
+        },
+      });
+      return entry;
+    },
+
+    updateJournalEntry: async (listId, entryId, updates) => {
+      const before = getState().journal[listId]?.find(entry => entry.id === entryId);
+      const entry = await perform.updateJournalEntry(listId, entryId, updates);
+      if (before) {
+        record({
+          label: 'Edit journal entry',
+          undo: async () => {
+            await perform.updateJournalEntry(listId, resolve(entryId), { content: before.content });
+          },
+          redo: async () => {
+            await perform.updateJournalEntry(listId, resolve(entryId), updates);
+          },
+        });
+      }
+      return entry;
+    },
+
+    deleteJournalEntry: async (listId, entryId) => {
+      const removed = getState().journal[listId]?.find(entry => entry.id === entryId);
+      await perform.deleteJournalEntry(listId, entryId);
+      if (removed) {
+        record({
+          label: 'Delete journal entry',
+          undo: async () => {
+            const created = await perform.createJournalEntry(listId, { content: removed.content });
+            aliases.set(resolve(entryId), created.id);
+          },
+          redo: () => perform.deleteJournalEntry(listId, resolve(entryId)),
+        }, 'Journal entry deleted');
+      }
+    },
+  };
+};
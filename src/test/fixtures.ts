@@ -0,0 +1,27 @@
+import type { TaskData } from '../types/task'
+import type { SidebarItemData } from '../types/sidebar'
+
+/**
+ * Builds a task for tests, titled after its ID
+ */
+export const task = (id: string, overrides: Partial<TaskData> = {}): TaskData => ({
+  id,
+  title: id,
+  priority: 'medium',
+  status: 'active',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  ...overrides,
+})
+
+/**
+ * Builds an area or project for tests, titled after its key
+ */
+export const list = (key: string, overrides: Partial<SidebarItemData> = {}): SidebarItemData => ({
+  key,
+  iconName: 'Briefcase',
+  title: key,
+  count: 0,
+  priority: 'medium',
+  ...overrides,
+})
@@ -0,0 +1,11 @@
+// src/types/backup.ts
+
+// Re-export the backup document type from schemas, where it's validated
+export type { WorkspaceBackup } from '../schemas';
+
+/**
+ * How an imported backup is combined with the current data
+ * - merge: lists and tasks missing here are added; for ones in both, the newer copy wins
+ * - replace: everything here is swapped for the backup
+ */
+export type ImportMode = 'merge' | 'replace';
@@ -0,0 +1,27 @@
+import type { TaskData } from './task';
+import type { SidebarItemData } from './sidebar';
+import type { TagData } from './tags';
+import type { ConflictError, StorageError } from './errors';
+
+/**
+ * Change events emitted by IDataService after each successful mutation (and when saving one fails)
+ * Components apply them to the data they already hold instead of reloading everything.
+ */
+export type DataChangeEvent =
+  | { type: 'task_created'; task: TaskData }
+  | { type: 'task_updated'; task: TaskData }
+  | { type: 'task_deleted'; taskIds: string[] } // The task and its subtasks
+  | { type: 'tasks_reordered'; taskIds: string[] } // Each task's order is now its index
+  | { type: 'list_created'; kind: 'area' | 'project' | 'smartList'; list: SidebarItemData }
+  | { type: 'list_updated'; list: SidebarItemData } // Includes archiving and restoring
+  | { type: 'list_deleted'; listId: string }
+  | { type: 'sections_changed'; listId: string }
+  | { type: 'journal_changed'; listId: string }
+  | { type: 'tags_changed'; tags: TagData[] } // Every tag; tasks a change cascaded to get their own events
+  | { type: 'tag_replaced'; name: string; replacement?: string } // Renamed or merged into the replacement, or deleted
+  | { type: 'storage_error'; error: StorageError } // Saving failed; the change is only kept in memory for now
+  | { type: 'sync_failed'; error: Error } // The server rejected a change made offline; it's kept aside in the outbox
+  | { type: 'sync_conflict'; conflict: ConflictError<TaskData> } // A change made offline clashed with a newer server copy
+  | { type: 'data_reloaded' }; // Everything may have changed (e.g. offline changes synced)
+
+export type DataChangeListener = (event: DataChangeEvent) => void;
@@ -126,12 +126,12 @@ export class ValidationError extends AppError {
  * Storage errors (localStorage, sessionStorage failures)
  */
 export class StorageError extends AppError {
-  public readonly storageType: 'localStorage' | 'sessionStorage';
+  public readonly storageType: 'localStorage' | 'sessionStorage' | 'indexedDB';
   public readonly operation?: 'read' | 'write' | 'delete';
 
   constructor(
     message: string,
-    storageType: 'localStorage' | 'sessionStorage' = 'localStorage',
+    storageType: 'localStorage' | 'sessionStorage' | 'indexedDB' = 'localStorage',
     operation?: 'read' | 'write' | 'delete'
   ) {
     super(message, 'STORAGE_ERROR');
@@ -194,6 +194,35 @@ export class NotFoundError extends AppError {
   }
 }
 
+/**
+ * Version conflicts (the record changed on the server since it was loaded)
+ * Carries the rejected local changes and the current remote record so they can be merged
+ */
+export class ConflictError<T extends object = Record<string, unknown>> extends AppError {
+  public readonly resourceType: 'task' | 'section';
+  public readonly resourceId: string;
+  public readonly localChanges: Partial<T>;
+  public readonly remote: T;
+
+  constructor(
+    message: string,
+    resourceType: 'task' | 'section',
+    resourceId: string,
+    localChanges: Partial<T>,
+    remote: T
+  ) {
+    super(message, 'CONFLICT', 409);
+    this.resourceType = resourceType;
+    this.resourceId = resourceId;
+    this.localChanges = localChanges;
+    this.remote = remote;
+  }
+
+  getUserMessage(): string {
+    return `This ${this.resourceType} was changed by someone else while you were editing it. Choose which values to keep.`;
+  }
+}
+
 /**
  * Type guard to check if error is an AppError
  */
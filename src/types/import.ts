@@ -0,0 +1,77 @@
+// src/types/import.ts
+import type { CreateTaskInput } from './task';
+
+/**
+ * Files other apps export that can be imported
+ * - todotxt: todo.txt lines
+ * - todoist: a Todoist project CSV backup
+ * - things: a Things JSON export (the format its `things:///json` URL scheme uses)
+ * - icalendar: the VTODOs in an .ics calendar file
+ */
+export type ImportFormat = 'todotxt' | 'todoist' | 'things' | 'icalendar';
+
+/**
+ * Task field a source field can be mapped onto, or 'ignore' to leave it out
+ */
+export type ImportTargetField = 'title' | 'description' | 'priority' | 'dueDate' | 'tags' | 'status' | 'list' | 'ignore';
+
+/**
+ * Target for each source field, keyed by source field key
+ */
+export type ImportFieldMapping = Record<string, ImportTargetField>;
+
+/**
+ * A field found in the source file (e.g. Todoist's DESCRIPTION column)
+ */
+export interface ImportField {
+  key: string;
+  label: string;
+}
+
+/**
+ * One task read from the source file, before mapping
+ * Values are plain text; list-like values (tags, projects) are comma-separated.
+ */
+export interface ImportRecord {
+  values: Record<string, string>;
+  subtasks: ImportRecord[];
+}
+
+/**
+ * An area or project read from the source file
+ */
+export interface ImportedList {
+  title: string;
+  kind: 'area' | 'project';
+  description?: string;
+  dueDate?: string;
+}
+
+/**
+ * Everything read from a source file, plus the suggested field mapping
+ */
+export interface ImportSource {
+  format: ImportFormat;
+  fields: ImportField[];
+  mapping: ImportFieldMapping;
+  lists: ImportedList[];
+  records: ImportRecord[];
+}
+
+/**
+ * A task ready to be created, with the title of the list it goes in
+ */
+export interface PlannedTask {
+  input: Omit<CreateTaskInput, 'listId' | 'parentId'>;
+  listTitle?: string;
+  subtasks: PlannedTask[];
+}
+
+/**
+ * What an import will write once the mapping is applied
+ */
+export interface ImportPlan {
+  lists: ImportedList[];
+  tasks: PlannedTask[];
+  skipped: number; // Records left out because they had no title
+}
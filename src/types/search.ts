@@ -0,0 +1,41 @@
+// src/types/search.ts
+import type { TaskData } from './task';
+import type { NoteSection, JournalEntry } from './notes';
+
+export type SearchResultType = 'task' | 'section' | 'journal';
+
+/**
+ * A note section that matched, with the area/project it belongs to
+ */
+export interface SectionSearchResult {
+  listId: string;
+  listTitle: string;
+  section: NoteSection;
+}
+
+/**
+ * A journal entry that matched, with the area/project it belongs to
+ */
+export interface JournalSearchResult {
+  listId: string;
+  listTitle: string;
+  entry: JournalEntry;
+}
+
+/**
+ * Search results grouped by type
+ */
+export interface SearchResults {
+  tasks: TaskData[];
+  sections: SectionSearchResult[];
+  journalEntries: JournalSearchResult[];
+}
+
+/**
+ * The item to jump to after picking a search result
+ */
+export interface SearchTarget {
+  type: SearchResultType;
+  id: string;
+  listId: string | null; // List to open so the item is visible (null = all tasks)
+}
@@ -1,7 +1,8 @@
 import type { LucideIcon } from "lucide-react";
 import type { IconName } from "../utils/iconMapper";
-import type { Priority } from '../schemas';
+import type { Priority, TaskFilterCriteria } from '../schemas';
 import type { NoteSection, JournalEntry } from './notes';
+import type { TagData } from './tags';
 
 // Re-export shared Priority type from schemas
 export type { Priority };
@@ -18,12 +19,38 @@ export interface SidebarItemData {
     showCount?: boolean;
     sections?: NoteSection[];
     journal?: JournalEntry[];
+    archived?: boolean; // Hidden from pickers and listed under "Archived" in the sidebar
+    filter?: TaskFilterCriteria; // Saved filter of a user-defined smart list
 }
 
+// Editable fields of an area or project
+export interface UpdateListInput {
+    title?: string;
+    iconName?: IconName;
+    description?: string;
+    priority?: Priority;
+    dueDate?: string;
+    archived?: boolean;
+}
+
+// Editable fields of a user-defined smart list
+export interface UpdateSmartListInput {
+    title?: string;
+    iconName?: IconName;
+    filter?: TaskFilterCriteria;
+}
+
+// What happens to a list's tasks when the list is archived or deleted
+// - move_to_inbox: the tasks lose their list and stay active
+// - delete: the tasks are removed along with their subtasks
+// - archive: the tasks are archived (and keep the list, unless it is deleted)
+export type ListTaskAction = 'move_to_inbox' | 'delete' | 'archive';
+
 export interface SidebarConfigData {
     smartLists: SidebarItemData[];
     areas: SidebarItemData[];
     projects: SidebarItemData[];
+    tags?: TagData[]; // Every tag, including ones only typed on tasks
 }
 
 // Component props types (icon as component)
@@ -0,0 +1,15 @@
+// src/types/tags.ts
+
+// Re-export tag types from schemas, where they're validated
+import type { TagColor } from '../schemas';
+export type { TagColor, TagData } from '../schemas';
+
+/**
+ * Input for updating a tag
+ * Renaming rewrites the tag on every task and nested tag; an explicit `parent: undefined` un-nests it.
+ */
+export interface UpdateTagInput {
+  name?: string;
+  color?: TagColor;
+  parent?: string;
+}
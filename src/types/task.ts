@@ -1,8 +1,8 @@
 // Task data types - used for API/storage layer
 
 // Re-export types from schemas for consistency
-import type { Priority as TaskPriority, TaskStatus } from '../schemas';
-export type { Priority as TaskPriority, TaskStatus } from '../schemas';
+import type { Priority as TaskPriority, TaskStatus, RecurrenceRule } from '../schemas';
+export type { Priority as TaskPriority, TaskStatus, RecurrenceRule, RecurrenceFrequency, TaskFilterCriteria, DueDateWindow, TaskSort, TaskSortField, SortDirection } from '../schemas';
 
 export interface TaskData {
   id: string;
@@ -10,10 +10,16 @@ export interface TaskData {
   description?: string;
   priority: TaskPriority;
   status: TaskStatus;
-  dueDate?: string;
+  dueDate?: string; // Deadline
+  startDate?: string; // When to start working on it; hidden from Anytime until then
+  reminderAt?: string; // When to send a reminder notification (ISO date-time)
   order?: number;
   listId?: string; // Smart list, area, or project ID
+  parentId?: string; // Parent task ID when this task is a subtask (checklist item)
+  recurrence?: RecurrenceRule; // Repeat rule; completing the task spawns the next occurrence
   tags?: string[];
+  someday?: boolean; // Deferred to Someday; left out of Anytime until picked up again
+  completedAt?: string; // When the task was completed, for the Logbook (cleared when reopened)
   createdAt: string;
   updatedAt: string;
 }
@@ -25,8 +31,13 @@ export interface CreateTaskInput {
   order?: number;
   status?: TaskStatus;
   dueDate?: string;
+  startDate?: string;
+  reminderAt?: string;
   listId?: string;
+  parentId?: string;
+  recurrence?: RecurrenceRule;
   tags?: string[];
+  someday?: boolean;
 }
 
 export interface UpdateTaskInput {
@@ -36,8 +47,13 @@ export interface UpdateTaskInput {
   order?: number;
   status?: TaskStatus;
   dueDate?: string;
+  startDate?: string;
+  reminderAt?: string;
   listId?: string;
+  parentId?: string;
+  recurrence?: RecurrenceRule;
   tags?: string[];
+  someday?: boolean;
 }
 
 export interface TaskCounts {
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest'
+import { BACKUP_VERSION, createBackup, getBackupFileName, mergeBackup, parseBackup, type WorkspaceData } from './backup'
+import { ValidationError } from '../types/errors'
+import type { NoteSection } from '../types/notes'
+import { task, list } from '../test/fixtures'
+
+const section = (id: string, overrides: Partial<NoteSection> = {}): NoteSection => ({
+  id,
+  title: id,
+  content: '',
+  order: 0,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  ...overrides,
+})
+
+const workspace = (overrides: Partial<WorkspaceData> = {}): WorkspaceData => ({
+  sidebar: { smartLists: [list('inbox')], areas: [list('work')], projects: [] },
+  tasks: [task('a', { listId: 'work' })],
+  ...overrides,
+})
+
+describe('createBackup', () => {
+  it('should stamp the backup with the app, version and export time', () => {
+    const backup = createBackup(workspace(), new Date('2025-01-31T10:00:00.000Z'))
+
+    expect(backup).toMatchObject({ app: 'front-end-poc', version: BACKUP_VERSION, exportedAt: '2025-01-31T10:00:00.000Z' })
+    expect(getBackupFileName(backup)).toBe('todo-backup-2025-01-31.json')
+  })
+})
+
+describe('parseBackup', () => {
+  it('should read back an exported backup', () => {
+    const backup = createBackup(workspace())
+
+    expect(parseBackup(JSON.stringify(backup))).toEqual(backup)
+  })
+
+  it('should reject text that is not JSON', () => {
+    expect(() => parseBackup('not json')).toThrow(ValidationError)
+  })
+
+  it('should reject documents that fail validation, listing what was wrong', () => {
+    const backup = { ...createBackup(workspace()), tasks: [{ id: 'a' }] }
+
+    const error = (() => {
+      try {
+        parseBackup(JSON.stringify(backup))
+      } catch (e) {
+        return e as ValidationError
+      }
+    })()
+
+    expect(error).toBeInstanceOf(ValidationError)
+    expect(Object.keys(error?.validationErrors ?? {})).toContain('tasks.0.title')
+  })
+
+  it('should reject backups from a newer version', () => {
+    const backup = { ...createBackup(workspace()), version: BACKUP_VERSION + 1 }
+
+    expect(() => parseBackup(JSON.stringify(backup))).toThrow(/newer version/)
+  })
+})
+
+describe('mergeBackup', () => {
+  it('should add lists and tasks that are missing', () => {
+    const backup = createBackup(workspace({
+      sidebar: { smartLists: [], areas: [list('home')], projects: [list('website')] },
+      tasks: [task('b', { listId: 'home' })],
+    }))
+
+    const merged = mergeBackup(workspace(), backup)
+
+    expect(merged.sidebar.areas.map(item => item.key)).toEqual(['work', 'home'])
+    expect(merged.sidebar.projects.map(item => item.key)).toEqual(['website'])
+    expect(merged.tasks.map(t => t.id)).toEqual(['a', 'b'])
+  })
+
+  it('should keep the newer copy of tasks in both', () => {
+    const current = workspace({ tasks: [task('a', { title: 'Current', updatedAt: '2025-02-01T00:00:00.000Z' }), task('b')] })
+    const backup = createBackup(workspace({
+      tasks: [task('a', { title: 'Older' }), task('b', { title: 'Newer', updatedAt: '2025-03-01T00:00:00.000Z' })],
+    }))
+
+    const merged = mergeBackup(current, backup)
+
+    expect(merged.tasks.map(t => t.title)).toEqual(['Current', 'Newer'])
+  })
+
+  it('should keep current list settings and merge notes and journal entries by id', () => {
+    const current = workspace({
+      sidebar: { smartLists: [list('inbox')], areas: [list('work', { title: 'Work', sections: [section('goals')] })], projects: [] },
+    })
+    const backup = createBackup(workspace({
+      sidebar: {
+        smartLists: [],
+        areas: [list('work', {
+          title: 'Old name',
+          sections: [section('goals', { content: 'Newer', updatedAt: '2025-03-01T00:00:00.000Z' }), section('links')],
+          journal: [{ id: 'entry', content: 'Day one', createdAt: '2025-01-01T00:00:00.000Z', updatedAt: '2025-01-01T00:00:00.000Z' }],
+        })],
+        projects: [],
+      },
+    }))
+
+    const merged = mergeBackup(current, backup)
+    const work = merged.sidebar.areas[0]
+
+    expect(work.title).toBe('Work')
+    expect(work.sections?.map(s => [s.id, s.content])).toEqual([['goals', 'Newer'], ['links', '']])
+    expect(work.journal?.map(e => e.id)).toEqual(['entry'])
+    expect(merged.sidebar.smartLists).toBe(current.sidebar.smartLists)
+  })
+
+  it('should add missing tags and keep the current settings of tags in both', () => {
+    const current = workspace({
+      sidebar: { smartLists: [], areas: [], projects: [], tags: [{ name: 'work', color: 'blue' }] },
+    })
+    const backup = createBackup(workspace({
+      sidebar: { smartLists: [], areas: [], projects: [], tags: [{ name: 'work', color: 'rose' }, { name: 'home', color: 'amber' }] },
+    }))
+
+    expect(mergeBackup(current, backup).sidebar.tags).toEqual([
+      { name: 'work', color: 'blue' },
+      { name: 'home', color: 'amber' },
+    ])
+  })
+})
@@ -0,0 +1,125 @@
+import { WorkspaceBackupSchema } from '../schemas';
+import { ValidationError } from '../types/errors';
+import type { WorkspaceBackup } from '../types/backup';
+import type { SidebarConfigData, SidebarItemData } from '../types/sidebar';
+import type { TaskData } from '../types/task';
+
+/**
+ * Current backup format version
+ * Bump it when the document changes shape, and upgrade older versions in parseBackup.
+ */
+export const BACKUP_VERSION = 1;
+
+/**
+ * Everything a backup holds: the sidebar config (with notes and journals) and all tasks
+ */
+export interface WorkspaceData {
+    sidebar: SidebarConfigData;
+    tasks: TaskData[];
+}
+
+/**
+ * Builds a backup document
+ * @param data - Sidebar config and tasks to back up
+ * @param exportedAt - When the backup was made (defaults to now)
+ */
+export const createBackup = (data: WorkspaceData, exportedAt: Date = new Date()): WorkspaceBackup => ({
+    app: 'front-end-poc',
+    version: BACKUP_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    sidebar: data.sidebar,
+    tasks: data.tasks,
+});
+
+/**
+ * Suggested file name for a backup, e.g. "todo-backup-2025-01-31.json"
+ */
+export const getBackupFileName = (backup: WorkspaceBackup): string => {
+    return `todo-backup-${backup.exportedAt.slice(0, 10)}.json`;
+};
+
+/**
+ * Reads and validates a backup file's contents
+ * @throws ValidationError if the text isn't a backup this version of the app understands
+ */
+export const parseBackup = (text: string): WorkspaceBackup => {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        throw new ValidationError('The file is not valid JSON.');
+    }
+
+    const version = (raw as { version?: unknown } | null)?.version;
+    if (typeof version === 'number' && version > BACKUP_VERSION) {
+        throw new ValidationError('This backup was made by a newer version of the app.');
+    }
+
+    const result = WorkspaceBackupSchema.safeParse(raw);
+    if (!result.success) {
+        const validationErrors: Record<string, string[]> = {};
+        result.error.issues.forEach(issue => {
+            const path = issue.path.join('.') || 'backup';
+            validationErrors[path] = [...validationErrors[path] ?? [], issue.message];
+        });
+        throw new ValidationError('The file is not a valid backup.', undefined, validationErrors);
+    }
+    return result.data;
+};
+
+/**
+ * Keeps the more recently updated of two copies, preferring the current one on a tie
+ */
+const newer = <T extends { updatedAt: string }>(current: T, incoming: T): T => {
+    return new Date(incoming.updatedAt).getTime() > new Date(current.updatedAt).getTime() ? incoming : current;
+};
+
+/**
+ * Merges two arrays by id, keeping current order and appending new items
+ */
+const mergeById = <T extends { id: string; updatedAt: string }>(current: T[], incoming: T[]): T[] => {
+    const merged = new Map(current.map(item => [item.id, item]));
+    incoming.forEach(item => {
+        const existing = merged.get(item.id);
+        merged.set(item.id, existing ? newer(existing, item) : item);
+    });
+    return [...merged.values()];
+};
+
+/**
+ * Merges a backup into the current data
+ * Lists are matched by key and keep their current settings, with notes and journal entries
+ * merged by id; tasks are matched by id. The newer copy of a note, entry or task wins.
+ * Smart lists aren't user data, so the current ones are kept. Tags are matched by name and keep
+ * their current color and parent.
+ */
+export const mergeBackup = (current: WorkspaceData, backup: WorkspaceBackup): WorkspaceData => {
+    const incomingLists = new Map([...backup.sidebar.areas, ...backup.sidebar.projects].map(item => [item.key, item]));
+    const currentKeys = new Set([...current.sidebar.areas, ...current.sidebar.projects].map(item => item.key));
+
+    const mergeLists = (items: SidebarItemData[], incoming: SidebarItemData[]): SidebarItemData[] => [
+        ...items.map(item => {
+            const match = incomingLists.get(item.key);
+            if (!match) return item;
+            return {
+                ...item,
+                sections: mergeById(item.sections ?? [], match.sections ?? []),
+                journal: mergeById(item.journal ?? [], match.journal ?? []),
+            };
+        }),
+        ...incoming.filter(item => !currentKeys.has(item.key)),
+    ];
+
+    const currentTags = current.sidebar.tags ?? [];
+    const currentTagNames = new Set(currentTags.map(tag => tag.name));
+
+    return {
+        sidebar: {
+            smartLists: current.sidebar.smartLists,
+            areas: mergeLists(current.sidebar.areas, backup.sidebar.areas),
+            projects: mergeLists(current.sidebar.projects, backup.sidebar.projects),
+            tags: [...currentTags, ...(backup.sidebar.tags ?? []).filter(tag => !currentTagNames.has(tag.name))],
+        },
+        tasks: mergeById(current.tasks, backup.tasks),
+    };
+};
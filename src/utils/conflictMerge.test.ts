@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest'
+import { formatMergeValue, getConflictingFields, resolveConflict, SECTION_MERGE_FIELDS, TASK_MERGE_FIELDS } from './conflictMerge'
+import type { TaskData } from '../types/task'
+
+describe('conflictMerge', () => {
+  const remote: TaskData = {
+    id: 'task-1',
+    title: 'Their title',
+    description: 'Shared description',
+    priority: 'high',
+    status: 'active',
+    tags: ['work'],
+    createdAt: '2025-01-01T00:00:00Z',
+    updatedAt: '2025-01-02T00:00:00Z'
+  }
+
+  describe('getConflictingFields', () => {
+    it('should only report fields the local edit changed to a different value', () => {
+      const local = { title: 'My title', description: 'Shared description', tags: ['work'] }
+
+      expect(getConflictingFields(local, remote, TASK_MERGE_FIELDS).map(field => field.key)).toEqual(['title'])
+    })
+
+    it('should treat a cleared field as a change', () => {
+      expect(getConflictingFields({ description: undefined }, remote, TASK_MERGE_FIELDS).map(field => field.key))
+        .toEqual(['description'])
+    })
+
+    it('should compare arrays by content', () => {
+      expect(getConflictingFields({ tags: ['home'] }, remote, TASK_MERGE_FIELDS).map(field => field.key)).toEqual(['tags'])
+    })
+
+    it('should work for note sections', () => {
+      const section = { id: 's1', title: 'Notes', content: 'Theirs', order: 0, createdAt: '', updatedAt: '' }
+
+      expect(getConflictingFields({ content: 'Mine' }, section, SECTION_MERGE_FIELDS).map(field => field.key)).toEqual(['content'])
+    })
+  })
+
+  describe('resolveConflict', () => {
+    const local = { title: 'My title', priority: 'low' as const, tags: ['home'] }
+
+    it('should send the local value for fields resolved to local', () => {
+      expect(resolveConflict(local, remote, TASK_MERGE_FIELDS, { title: 'local', priority: 'remote', tags: 'local' }))
+        .toEqual({ title: 'My title', tags: ['home'] })
+    })
+
+    it('should keep the remote value when no choice was made', () => {
+      expect(resolveConflict(local, remote, TASK_MERGE_FIELDS, {})).toEqual({})
+    })
+  })
+
+  describe('formatMergeValue', () => {
+    it('should format empty values, arrays and objects', () => {
+      expect(formatMergeValue(undefined)).toBe('(empty)')
+      expect(formatMergeValue('')).toBe('(empty)')
+      expect(formatMergeValue(['a', 'b'])).toBe('a, b')
+      expect(formatMergeValue({ a: 1 })).toBe('{"a":1}')
+      expect(formatMergeValue(3)).toBe('3')
+    })
+  })
+})
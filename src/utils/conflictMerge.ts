@@ -0,0 +1,85 @@
+/**
+ * Helpers for merging a local edit with a newer remote copy, field by field
+ * Used by the conflict merge dialog for tasks and note sections
+ */
+
+import type { RecurrenceRule, TaskData } from '../types/task';
+import type { NoteSection } from '../types/notes';
+import { describeRecurrence } from './recurrence';
+import { formatReminder } from './reminders';
+
+export type MergeChoice = 'local' | 'remote';
+
+export interface MergeField<T extends object> {
+    key: keyof T & string;
+    label: string;
+    format?: (value: unknown) => string; // Defaults to formatMergeValue
+}
+
+export const TASK_MERGE_FIELDS: MergeField<TaskData>[] = [
+    { key: 'title', label: 'Title' },
+    { key: 'description', label: 'Description' },
+    { key: 'priority', label: 'Priority' },
+    { key: 'status', label: 'Status' },
+    { key: 'dueDate', label: 'Due date' },
+    { key: 'startDate', label: 'Start date' },
+    { key: 'reminderAt', label: 'Reminder', format: value => value ? formatReminder(value as string) : '(empty)' },
+    { key: 'listId', label: 'List' },
+    { key: 'tags', label: 'Tags' },
+    { key: 'recurrence', label: 'Repeat', format: value => value ? describeRecurrence(value as RecurrenceRule) : '(empty)' },
+    { key: 'order', label: 'Order' },
+    { key: 'parentId', label: 'Parent task' },
+];
+
+export const SECTION_MERGE_FIELDS: MergeField<NoteSection>[] = [
+    { key: 'title', label: 'Title' },
+    { key: 'content', label: 'Content' },
+];
+
+/**
+ * Compare two field values, treating arrays and objects by content
+ */
+const isSameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Fields the local edit changed to something other than the remote value
+ * Local changes that already match the remote copy aren't conflicts.
+ */
+export const getConflictingFields = <T extends object>(
+    localChanges: Partial<T>,
+    remote: T,
+    fields: MergeField<T>[]
+): MergeField<T>[] => {
+    return fields.filter(field =>
+        Object.hasOwn(localChanges, field.key) && !isSameValue(localChanges[field.key], remote[field.key])
+    );
+};
+
+/**
+ * Build the updates that apply the chosen side of each conflicting field
+ * Fields left on 'remote' (or without a choice) are not sent, keeping the server value
+ */
+export const resolveConflict = <T extends object>(
+    localChanges: Partial<T>,
+    remote: T,
+    fields: MergeField<T>[],
+    choices: Partial<Record<string, MergeChoice>>
+): Partial<T> => {
+    const updates: Partial<T> = {};
+    for (const field of getConflictingFields(localChanges, remote, fields)) {
+        if (choices[field.key] === 'local') {
+            updates[field.key] = localChanges[field.key];
+        }
+    }
+    return updates;
+};
+
+/**
+ * Short text for a field value in the merge dialog
+ */
+export const formatMergeValue = (value: unknown): string => {
+    if (value === undefined || value === null || value === '') return '(empty)';
+    if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '(empty)';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+};
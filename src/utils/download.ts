@@ -0,0 +1,17 @@
+/**
+ * Saves text content as a file through the browser's download flow
+ * @param fileName - Suggested name for the downloaded file
+ * @param content - File contents
+ * @param mimeType - Content type, e.g. 'application/json'
+ */
+export const downloadFile = (fileName: string, content: string, mimeType: string): void => {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Revoke after the click has been handled so the download can start
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
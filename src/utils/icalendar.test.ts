@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest'
+import { exportToICalendar, findComponents, fromICalDate, getProperty, parseICalendar, unescapeText } from './icalendar'
+import type { SidebarConfigData } from '../types/sidebar'
+import { task } from '../test/fixtures'
+
+const sidebar: SidebarConfigData = {
+  smartLists: [],
+  areas: [],
+  projects: [
+    { key: 'website', iconName: 'Globe', title: 'Website', count: 0, priority: 'high', dueDate: '2025-12-31' },
+    { key: 'old', iconName: 'Folder', title: 'Old', count: 0, priority: 'low', dueDate: '2025-01-01', archived: true },
+    { key: 'someday', iconName: 'Folder', title: 'Someday', count: 0, priority: 'low' },
+  ],
+}
+
+const NOW = new Date('2025-01-31T10:00:00.000Z')
+
+describe('exportToICalendar', () => {
+  it('should write due-dated tasks as all-day VTODOs', () => {
+    const ics = exportToICalendar([
+      task('a', { title: 'Pay rent; soon', priority: 'high', dueDate: '2025-02-01', tags: ['home', 'bills'], description: 'Line one\nLine two' }),
+      task('b', { dueDate: '2025-02-02', status: 'completed' }),
+      task('c'),
+      task('d', { dueDate: '2025-02-03', status: 'archived' }),
+    ], null, NOW)
+
+    const todos = findComponents(parseICalendar(ics), 'VTODO')
+
+    expect(todos.map(todo => getProperty(todo, 'UID')?.value)).toEqual(['task-a@front-end-poc', 'task-b@front-end-poc'])
+    expect(ics).toContain('SUMMARY:Pay rent\\; soon\r\n')
+    expect(ics).toContain('DESCRIPTION:Line one\\nLine two\r\n')
+    expect(ics).toContain('DUE;VALUE=DATE:20250201\r\n')
+    expect(ics).toContain('PRIORITY:1\r\n')
+    expect(ics).toContain('CATEGORIES:home,bills\r\n')
+    expect(ics).toContain('DTSTAMP:20250131T100000Z\r\n')
+    expect(getProperty(todos[1], 'STATUS')?.value).toBe('COMPLETED')
+  })
+
+  it('should write project due dates as all-day VEVENTs ending the next day', () => {
+    const events = findComponents(parseICalendar(exportToICalendar([], sidebar, NOW)), 'VEVENT')
+
+    expect(events).toHaveLength(1)
+    expect(getProperty(events[0], 'SUMMARY')?.value).toBe('Website due')
+    expect(getProperty(events[0], 'DTSTART')).toEqual({ name: 'DTSTART', params: { VALUE: 'DATE' }, value: '20251231' })
+    expect(getProperty(events[0], 'DTEND')?.value).toBe('20260101')
+  })
+
+  it('should fold long lines at 75 octets and read them back whole', () => {
+    const title = 'Ünïcode '.repeat(20).trim()
+    const ics = exportToICalendar([task('a', { title, dueDate: '2025-02-01' })], null, NOW)
+
+    ics.split('\r\n').forEach(line => expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75))
+    const [todo] = findComponents(parseICalendar(ics), 'VTODO')
+    expect(unescapeText(getProperty(todo, 'SUMMARY')?.value ?? '')).toBe(title)
+  })
+})
+
+describe('fromICalDate', () => {
+  it('should keep the written day for dates, floating times and zoned times', () => {
+    expect(fromICalDate('20250201')).toBe('2025-02-01')
+    expect(fromICalDate('20250201T233000')).toBe('2025-02-01')
+  })
+
+  it('should move UTC times to the local day', () => {
+    const instant = new Date(Date.UTC(2025, 1, 1, 23, 30))
+    const localDay = `${instant.getFullYear()}-${String(instant.getMonth() + 1).padStart(2, '0')}-${String(instant.getDate()).padStart(2, '0')}`
+
+    expect(fromICalDate('20250201T233000Z')).toBe(localDay)
+  })
+
+  it('should reject values that are not dates', () => {
+    expect(fromICalDate('tomorrow')).toBeUndefined()
+  })
+})
+
+describe('parseICalendar', () => {
+  it('should read parameters, quoted colons and nested components', () => {
+    const [calendar] = parseICalendar([
+      'BEGIN:VCALENDAR',
+      'BEGIN:VTODO',
+      'DUE;TZID="America/New_York":20250201T090000',
+      'ATTENDEE;CN="Sam: PM":mailto:sam@example.com',
+      'END:VTODO',
+      'END:VCALENDAR',
+    ].join('\r\n'))
+
+    const [todo] = calendar.components
+    expect(getProperty(todo, 'DUE')).toEqual({ name: 'DUE', params: { TZID: 'America/New_York' }, value: '20250201T090000' })
+    expect(getProperty(todo, 'ATTENDEE')?.value).toBe('mailto:sam@example.com')
+  })
+})
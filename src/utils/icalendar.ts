@@ -0,0 +1,213 @@
+import { addDays, format } from 'date-fns';
+import type { SidebarConfigData } from '../types/sidebar';
+import type { TaskData, TaskPriority } from '../types/task';
+import { parseDate } from './taskFilters';
+
+/**
+ * A parsed iCalendar component (VCALENDAR, VTODO, ...) with its properties and nested components
+ */
+export interface ICalComponent {
+    name: string;
+    properties: ICalProperty[];
+    components: ICalComponent[];
+}
+
+export interface ICalProperty {
+    name: string;
+    params: Record<string, string>;
+    value: string;
+}
+
+const PRODID = '-//front-end-poc//Tasks//EN';
+
+// iCalendar priorities run from 1 (highest) to 9 (lowest); 0 means undefined
+const ICAL_PRIORITY: Record<TaskPriority, number> = { high: 1, medium: 5, low: 9 };
+
+/**
+ * Escapes TEXT values (RFC 5545 3.3.11)
+ */
+const escapeText = (value: string): string => {
+    return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+};
+
+/**
+ * Reverses escapeText
+ */
+export const unescapeText = (value: string): string => {
+    return value.replace(/\\([\\;,nN])/g, (_match, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+};
+
+/**
+ * Folds a content line so no line is longer than 75 octets (RFC 5545 3.1)
+ */
+const foldLine = (line: string): string => {
+    const encoder = new TextEncoder();
+    const parts: string[] = [];
+    let current = '';
+    for (const char of line) {
+        // Continuation lines start with a space, which counts towards their length
+        const limit = parts.length === 0 ? 75 : 74;
+        if (encoder.encode(current + char).length > limit) {
+            parts.push(current);
+            current = '';
+        }
+        current += char;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+};
+
+/**
+ * Formats a YYYY-MM-DD date as an iCalendar DATE
+ * The date is copied as written, so it lands on the same calendar day in every timezone.
+ */
+const toICalDate = (date: string): string => date.replace(/-/g, '');
+
+/**
+ * Formats an instant as an iCalendar UTC DATE-TIME
+ */
+const toICalDateTime = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * Reads an iCalendar DATE or DATE-TIME as a YYYY-MM-DD date
+ * Dates, floating times and times with a TZID keep the calendar day they were written with; UTC times
+ * (ending in Z) are moved to the local day, matching how parseDate reads due dates.
+ * @returns The date, or undefined if the value isn't a date
+ */
+export const fromICalDate = (value: string): string | undefined => {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+    if (!match) return undefined;
+
+    const [, year, month, day, hours, minutes, seconds, utc] = match;
+    if (!utc) return `${year}-${month}-${day}`;
+
+    const instant = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)));
+    return format(instant, 'yyyy-MM-dd');
+};
+
+/**
+ * Builds an .ics calendar of everything with a due date
+ * Tasks become VTODOs (archived ones are left out) and projects become all-day VEVENTs on their due date.
+ * @param tasks - All tasks; those without a due date are skipped
+ * @param sidebar - Sidebar config holding the projects
+ * @param now - Timestamp for DTSTAMP (defaults to now)
+ */
+export const exportToICalendar = (tasks: TaskData[], sidebar: SidebarConfigData | null, now: Date = new Date()): string => {
+    const stamp = toICalDateTime(now);
+    const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODID}`, 'CALSCALE:GREGORIAN'];
+
+    tasks.forEach(task => {
+        if (!task.dueDate || task.status === 'archived') return;
+        lines.push(
+            'BEGIN:VTODO',
+            `UID:task-${task.id}@front-end-poc`,
+            `DTSTAMP:${stamp}`,
+            `SUMMARY:${escapeText(task.title)}`,
+            ...(task.description ? [`DESCRIPTION:${escapeText(task.description)}`] : []),
+            `DUE;VALUE=DATE:${toICalDate(task.dueDate)}`,
+            `PRIORITY:${ICAL_PRIORITY[task.priority]}`,
+            `STATUS:${task.status === 'completed' ? 'COMPLETED' : 'NEEDS-ACTION'}`,
+            ...(task.tags?.length ? [`CATEGORIES:${task.tags.map(escapeText).join(',')}`] : []),
+            'END:VTODO'
+        );
+    });
+
+    sidebar?.projects.forEach(project => {
+        if (!project.dueDate || project.archived) return;
+        // All-day events end (exclusively) on the following day
+        const endDate = format(addDays(parseDate(project.dueDate), 1), 'yyyy-MM-dd');
+        lines.push(
+            'BEGIN:VEVENT',
+            `UID:project-${project.key}@front-end-poc`,
+            `DTSTAMP:${stamp}`,
+            `SUMMARY:${escapeText(`${project.title} due`)}`,
+            ...(project.description ? [`DESCRIPTION:${escapeText(project.description)}`] : []),
+            `DTSTART;VALUE=DATE:${toICalDate(project.dueDate)}`,
+            `DTEND;VALUE=DATE:${toICalDate(endDate)}`,
+            'TRANSP:TRANSPARENT',
+            'END:VEVENT'
+        );
+    });
+
+    lines.push('END:VCALENDAR');
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+/**
+ * Splits a content line into name, parameters and value, e.g. "DUE;VALUE=DATE:20250131"
+ */
+const parseContentLine = (line: string): ICalProperty | null => {
+    // The value starts at the first colon outside a quoted parameter value
+    let inQuotes = false;
+    let colon = -1;
+    for (let i = 0; i < line.length; i++) {
+        if (line[i] === '"') inQuotes = !inQuotes;
+        if (line[i] === ':' && !inQuotes) {
+            colon = i;
+            break;
+        }
+    }
+    if (colon < 0) return null;
+
+    const [name, ...paramParts] = line.slice(0, colon).split(';');
+    const params: Record<string, string> = {};
+    paramParts.forEach(part => {
+        const [key, ...rest] = part.split('=');
+        params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+    });
+    return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+/**
+ * Parses iCalendar text into its components
+ * Unknown properties are kept as-is; lines that aren't content lines are skipped.
+ * @returns The top-level components (usually a single VCALENDAR)
+ */
+export const parseICalendar = (text: string): ICalComponent[] => {
+    // Unfold continuation lines before splitting
+    const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+    const root: ICalComponent = { name: '', properties: [], components: [] };
+    const stack = [root];
+
+    lines.forEach(line => {
+        const property = parseContentLine(line);
+        if (!property) return;
+        const current = stack[stack.length - 1];
+
+        if (property.name === 'BEGIN') {
+            const component: ICalComponent = { name: property.value.toUpperCase(), properties: [], components: [] };
+            current.components.push(component);
+            stack.push(component);
+        } else if (property.name === 'END') {
+            if (stack.length > 1) stack.pop();
+        } else {
+            current.properties.push(property);
+        }
+    });
+
+    return root.components;
+};
+
+/**
+ * Finds every nested component with the given name
+ */
+export const findComponents = (components: ICalComponent[], name: string): ICalComponent[] => {
+    return components.flatMap(component => [
+        ...(component.name === name ? [component] : []),
+        ...findComponents(component.components, name),
+    ]);
+};
+
+/**
+ * Value of the first property with the given name, if any
+ */
+export const getProperty = (component: ICalComponent, name: string): ICalProperty | undefined => {
+    return component.properties.find(property => property.name === name);
+};
+
+/**
+ * Suggested file name for a calendar export, e.g. "todo-calendar-2025-01-31.ics"
+ */
+export const getCalendarFileName = (now: Date = new Date()): string => {
+    return `todo-calendar-${format(now, 'yyyy-MM-dd')}.ics`;
+};
@@ -2,6 +2,8 @@ import { describe, it, expect } from 'vitest'
 import { getIcon, iconMap, type IconName } from './iconMapper'
 import {
   Activity,
+  Archive,
+  BookCheck,
   Briefcase,
   Calendar,
   CalendarDays,
@@ -10,6 +12,7 @@ import {
   Globe,
   House,
   Inbox,
+  Layers,
   Megaphone,
   Smartphone,
   Tag,
@@ -20,13 +23,19 @@ describe('iconMapper', () => {
   describe('iconMap', () => {
     it('should contain all expected icon mappings', () => {
       expect(iconMap).toBeDefined()
-      expect(Object.keys(iconMap)).toHaveLength(13)
+      expect(Object.keys(iconMap)).toHaveLength(16)
     })
 
     it('should map Activity to correct component', () => {
       expect(iconMap.Activity).toBe(Activity)
     })
 
+    it('should map the Anytime, Someday and Logbook icons to correct components', () => {
+      expect(iconMap.Layers).toBe(Layers)
+      expect(iconMap.Archive).toBe(Archive)
+      expect(iconMap.BookCheck).toBe(BookCheck)
+    })
+
     it('should map Briefcase to correct component', () => {
       expect(iconMap.Briefcase).toBe(Briefcase)
     })
@@ -85,6 +94,8 @@ describe('iconMapper', () => {
     it('should return correct icon for each valid IconName', () => {
       const validIconNames: IconName[] = [
         'Activity',
+        'Archive',
+        'BookCheck',
         'Briefcase',
         'Calendar',
         'CalendarDays',
@@ -93,6 +104,7 @@ describe('iconMapper', () => {
         'Globe',
         'House',
         'Inbox',
+        'Layers',
         'Megaphone',
         'Smartphone',
         'Tag',
@@ -144,6 +156,8 @@ describe('iconMapper', () => {
       const mapKeys = Object.keys(iconMap)
       const expectedKeys: IconName[] = [
         'Activity',
+        'Archive',
+        'BookCheck',
         'Briefcase',
         'Calendar',
         'CalendarDays',
@@ -152,6 +166,7 @@ describe('iconMapper', () => {
         'Globe',
         'House',
         'Inbox',
+        'Layers',
         'Megaphone',
         'Smartphone',
         'Tag',
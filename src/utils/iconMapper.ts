@@ -1,5 +1,7 @@
 import {
   Activity,
+  Archive,
+  BookCheck,
   Briefcase,
   Calendar,
   CalendarDays,
@@ -8,6 +10,7 @@ import {
   Globe,
   House,
   Inbox,
+  Layers,
   Megaphone,
   Smartphone,
   Tag,
@@ -20,6 +23,8 @@ import {
  */
 export type IconName =
   | 'Activity'
+  | 'Archive'
+  | 'BookCheck'
   | 'Briefcase'
   | 'Calendar'
   | 'CalendarDays'
@@ -28,6 +33,7 @@ export type IconName =
   | 'Globe'
   | 'House'
   | 'Inbox'
+  | 'Layers'
   | 'Megaphone'
   | 'Smartphone'
   | 'Tag'
@@ -35,6 +41,8 @@ export type IconName =
 
 export const iconMap: Record<IconName, LucideIcon> = {
   Activity,
+  Archive,
+  BookCheck,
   Briefcase,
   Calendar,
   CalendarDays,
@@ -43,6 +51,7 @@ export const iconMap: Record<IconName, LucideIcon> = {
   Globe,
   House,
   Inbox,
+  Layers,
   Megaphone,
   Smartphone,
   Tag,
@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest'
+import { parseCsv, parseICalendarTodos, parseThingsJson, parseTodoTxt, parseTodoistCsv } from './importFormats'
+import { ValidationError } from '../types/errors'
+
+describe('parseCsv', () => {
+  it('should handle quoted commas, quotes and line breaks', () => {
+    expect(parseCsv('a,"b, c","say ""hi"""\r\n"multi\nline",,x\n\n')).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['multi\nline', '', 'x'],
+    ])
+  })
+})
+
+describe('parseTodoTxt', () => {
+  it('should read priority, completion, projects, contexts and due dates', () => {
+    const source = parseTodoTxt([
+      '(A) 2025-01-01 Call the bank +Finances @phone due:2025-02-01',
+      'x 2025-01-05 2025-01-01 Water plants +Home +Garden @home',
+      '',
+      'Plain task',
+    ].join('\n'))
+
+    expect(source.records.map(record => record.values)).toEqual([
+      { title: 'Call the bank', priority: 'high', status: 'active', created: '2025-01-01', due: '2025-02-01', projects: 'Finances', contexts: 'phone' },
+      { title: 'Water plants', priority: '', status: 'completed', created: '2025-01-01', due: '', projects: 'Home, Garden', contexts: 'home' },
+      { title: 'Plain task', priority: '', status: 'active', created: '', due: '', projects: '', contexts: '' },
+    ])
+    expect(source.lists).toEqual([{ title: 'Finances', kind: 'project' }, { title: 'Home', kind: 'project' }])
+  })
+})
+
+describe('parseTodoistCsv', () => {
+  const csv = [
+    'TYPE,CONTENT,DESCRIPTION,PRIORITY,INDENT,AUTHOR,RESPONSIBLE,DATE,DATE_LANG,TIMEZONE',
+    'section,Planning,,,,,,,,',
+    'task,Write brief @work @urgent,"Goals, audience",1,1,Sam,,2025-02-01,en,UTC',
+    'task,Collect quotes,,4,2,Sam,,,en,UTC',
+    'note,Remember the logo,,,,,,,,',
+    'task,Book venue,,3,1,Sam,,every day,en,UTC',
+  ].join('\n')
+
+  it('should name the project after the file and nest indented tasks', () => {
+    const source = parseTodoistCsv(csv, 'Launch.csv')
+
+    expect(source.lists).toEqual([{ title: 'Launch', kind: 'project' }])
+    expect(source.records).toHaveLength(2)
+    expect(source.records[0].values).toEqual({
+      content: 'Write brief',
+      description: 'Goals, audience',
+      priority: 'high',
+      date: '2025-02-01',
+      labels: 'work, urgent',
+      section: 'Planning',
+      project: 'Launch',
+    })
+    expect(source.records[0].subtasks.map(subtask => subtask.values.content)).toEqual(['Collect quotes'])
+    expect(source.records[1].values.priority).toBe('low')
+  })
+
+  it('should reject a CSV without Todoist columns', () => {
+    expect(() => parseTodoistCsv('Name,Notes\nA,B', 'other.csv')).toThrow(ValidationError)
+  })
+})
+
+describe('parseThingsJson', () => {
+  it('should read projects, areas, to-dos and checklist items', () => {
+    const source = parseThingsJson(JSON.stringify([
+      {
+        type: 'project',
+        attributes: {
+          title: 'Website',
+          notes: 'Relaunch',
+          area: 'Work',
+          deadline: '2025-03-01',
+          items: [
+            { type: 'heading', attributes: { title: 'Design' } },
+            {
+              type: 'to-do',
+              attributes: {
+                title: 'Pick fonts',
+                tags: ['design'],
+                'checklist-items': [{ type: 'checklist-item', attributes: { title: 'Serif', completed: true } }],
+              },
+            },
+          ],
+        },
+      },
+      { type: 'to-do', attributes: { title: 'Renew passport', area: 'Personal', deadline: '2025-04-01', canceled: true } },
+    ]))
+
+    expect(source.lists).toEqual([
+      { title: 'Website', kind: 'project', description: 'Relaunch', dueDate: '2025-03-01' },
+      { title: 'Work', kind: 'area' },
+      { title: 'Personal', kind: 'area' },
+    ])
+    expect(source.records.map(record => [record.values.title, record.values.list, record.values.status])).toEqual([
+      ['Pick fonts', 'Website', 'active'],
+      ['Renew passport', 'Personal', 'completed'],
+    ])
+    expect(source.records[0].subtasks[0].values).toEqual({ title: 'Serif', status: 'completed' })
+  })
+
+  it('should reject files that are not a Things export', () => {
+    expect(() => parseThingsJson('not json')).toThrow(ValidationError)
+    expect(() => parseThingsJson('{"title":"x"}')).toThrow(/Things JSON/)
+  })
+})
+
+describe('parseICalendarTodos', () => {
+  it('should read VTODOs and skip events', () => {
+    const source = parseICalendarTodos([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'BEGIN:VEVENT',
+      'SUMMARY:Standup',
+      'DTSTART:20250201T090000Z',
+      'END:VEVENT',
+      'BEGIN:VTODO',
+      'SUMMARY:File taxes\\, finally',
+      'DESCRIPTION:Forms are in\\n the drawer',
+      'DUE;VALUE=DATE:20250415',
+      'PRIORITY:2',
+      'STATUS:COMPLETED',
+      'CATEGORIES:money,admin',
+      'END:VTODO',
+      'END:VCALENDAR',
+    ].join('\r\n'))
+
+    expect(source.records.map(record => record.values)).toEqual([{
+      summary: 'File taxes, finally',
+      description: 'Forms are in\n the drawer',
+      due: '2025-04-15',
+      start: '',
+      priority: 'high',
+      status: 'completed',
+      categories: 'money, admin',
+    }])
+  })
+
+  it('should reject files without a calendar', () => {
+    expect(() => parseICalendarTodos('SUMMARY:nope')).toThrow(ValidationError)
+  })
+})
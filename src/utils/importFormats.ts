@@ -0,0 +1,446 @@
+import { ValidationError } from '../types/errors';
+import type { ImportFormat, ImportRecord, ImportSource, ImportedList } from '../types/import';
+import { findComponents, fromICalDate, getProperty, parseICalendar, unescapeText, type ICalComponent } from './icalendar';
+
+export const IMPORT_FORMATS: Record<ImportFormat, { label: string; accept: string }> = {
+    todotxt: { label: 'todo.txt', accept: '.txt,text/plain' },
+    todoist: { label: 'Todoist CSV backup', accept: '.csv,text/csv' },
+    things: { label: 'Things JSON', accept: '.json,application/json' },
+    icalendar: { label: 'Calendar (.ics) to-dos', accept: '.ics,text/calendar' },
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Splits CSV text into rows of fields (RFC 4180: quoted fields may hold commas, quotes and line breaks)
+ */
+export const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    const input = text.replace(/^\uFEFF/, '');
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    // Blank lines come through as a single empty field
+    return rows.filter(r => r.length > 1 || r[0] !== '');
+};
+
+/**
+ * Distinct, non-empty values in their first-seen order
+ */
+const unique = (values: (string | undefined)[]): string[] => [...new Set(values.filter((value): value is string => !!value))];
+
+// todo.txt
+
+const TODO_TXT_PRIORITY = /^\(([A-Z])\)\s+/;
+const TODO_TXT_DATE = /^(\d{4}-\d{2}-\d{2})\s+/;
+
+/**
+ * (A) is high, (B) medium and anything lower is low priority
+ */
+const toTodoTxtPriority = (letter: string): string => {
+    if (letter === 'A') return 'high';
+    if (letter === 'B') return 'medium';
+    return 'low';
+};
+
+/**
+ * Parses todo.txt lines (see https://github.com/todotxt/todo.txt)
+ * +project tags become the task's list, @contexts become tags and due:YYYY-MM-DD the due date.
+ * A task with several projects lists them all; the first one is used as its list.
+ */
+export const parseTodoTxt = (text: string): ImportSource => {
+    const records: ImportRecord[] = text.split(/\r?\n/).filter(line => line.trim()).map(line => {
+        let rest = line.trim();
+        let completed = false;
+        let priority = '';
+
+        if (rest.startsWith('x ')) {
+            completed = true;
+            rest = rest.slice(2).trimStart();
+            // Completion date, then (optionally) creation date
+            rest = rest.replace(TODO_TXT_DATE, '');
+        }
+        const priorityMatch = rest.match(TODO_TXT_PRIORITY);
+        if (priorityMatch) {
+            priority = toTodoTxtPriority(priorityMatch[1]);
+            rest = rest.slice(priorityMatch[0].length);
+        }
+        const createdMatch = rest.match(TODO_TXT_DATE);
+        const created = createdMatch?.[1] ?? '';
+        if (createdMatch) rest = rest.slice(createdMatch[0].length);
+
+        const words = rest.split(/\s+/);
+        const projects = words.filter(word => word.length > 1 && word.startsWith('+')).map(word => word.slice(1));
+        const contexts = words.filter(word => word.length > 1 && word.startsWith('@')).map(word => word.slice(1));
+        const due = words.map(word => word.match(/^due:(\d{4}-\d{2}-\d{2})$/)?.[1]).find(Boolean) ?? '';
+        const title = words
+            .filter(word => !(word.length > 1 && (word.startsWith('+') || word.startsWith('@'))) && !/^due:/.test(word))
+            .join(' ');
+
+        return {
+            values: {
+                title,
+                priority,
+                status: completed ? 'completed' : 'active',
+                created,
+                due,
+                projects: unique(projects).join(', '),
+                contexts: unique(contexts).join(', '),
+            },
+            subtasks: [],
+        };
+    });
+
+    const lists: ImportedList[] = unique(records.map(record => record.values.projects.split(', ')[0]))
+        .map(title => ({ title, kind: 'project' }));
+
+    return {
+        format: 'todotxt',
+        fields: [
+            { key: 'title', label: 'Task text' },
+            { key: 'priority', label: 'Priority (A-Z)' },
+            { key: 'status', label: 'Completion (x)' },
+            { key: 'created', label: 'Creation date' },
+            { key: 'due', label: 'due: date' },
+            { key: 'projects', label: '+Projects' },
+            { key: 'contexts', label: '@Contexts' },
+        ],
+        mapping: {
+            title: 'title',
+            priority: 'priority',
+            status: 'status',
+            created: 'ignore',
+            due: 'dueDate',
+            projects: 'list',
+            contexts: 'tags',
+        },
+        lists,
+        records,
+    };
+};
+
+// Todoist CSV
+
+const TODOIST_COLUMNS = ['TYPE', 'CONTENT', 'DESCRIPTION', 'PRIORITY', 'INDENT', 'DATE'];
+
+/**
+ * Todoist's CSV priority runs from 1 (p1, highest) to 4 (p4, no priority)
+ */
+const toTodoistPriority = (value: string): string => {
+    if (value === '1') return 'high';
+    if (value === '3') return 'low';
+    return 'medium';
+};
+
+/**
+ * Parses a Todoist project CSV backup
+ * Each file holds one project, named after the file. Indented tasks become subtasks of the task above
+ * them, and @labels in the task content become tags.
+ * @param text - CSV file contents
+ * @param fileName - Name of the file, used as the project name
+ * @throws ValidationError if the file doesn't have Todoist's columns
+ */
+export const parseTodoistCsv = (text: string, fileName: string): ImportSource => {
+    const [header = [], ...rows] = parseCsv(text);
+    const columns = header.map(column => column.trim().toUpperCase());
+    const missing = TODOIST_COLUMNS.filter(column => !columns.includes(column));
+    if (missing.length > 0) {
+        throw new ValidationError(`This doesn't look like a Todoist CSV backup (missing ${missing.join(', ')}).`);
+    }
+
+    const project = fileName.replace(/\.csv$/i, '').trim() || 'Todoist';
+    const cell = (row: string[], column: string) => (row[columns.indexOf(column)] ?? '').trim();
+
+    const records: ImportRecord[] = [];
+    let section = '';
+    rows.forEach(row => {
+        const type = cell(row, 'TYPE').toLowerCase();
+        if (type === 'section') {
+            section = cell(row, 'CONTENT');
+            return;
+        }
+        if (type !== 'task') return;
+
+        const content = cell(row, 'CONTENT');
+        const labels = content.match(/(?:^|\s)@[^\s@]+/g)?.map(label => label.trim().slice(1)) ?? [];
+        const record: ImportRecord = {
+            values: {
+                content: content.replace(/(?:^|\s)@[^\s@]+/g, '').trim(),
+                description: cell(row, 'DESCRIPTION'),
+                priority: toTodoistPriority(cell(row, 'PRIORITY')),
+                date: cell(row, 'DATE'),
+                labels: unique(labels).join(', '),
+                section,
+                project,
+            },
+            subtasks: [],
+        };
+
+        // Deeper levels are flattened into the nearest top-level task
+        const parent = records[records.length - 1];
+        if (Number(cell(row, 'INDENT')) > 1 && parent) {
+            parent.subtasks.push(record);
+        } else {
+            records.push(record);
+        }
+    });
+
+    return {
+        format: 'todoist',
+        fields: [
+            { key: 'content', label: 'CONTENT' },
+            { key: 'description', label: 'DESCRIPTION' },
+            { key: 'priority', label: 'PRIORITY' },
+            { key: 'date', label: 'DATE' },
+            { key: 'labels', label: '@Labels' },
+            { key: 'section', label: 'Section' },
+            { key: 'project', label: 'Project (file name)' },
+        ],
+        mapping: {
+            content: 'title',
+            description: 'description',
+            priority: 'priority',
+            date: 'dueDate',
+            labels: 'tags',
+            section: 'ignore',
+            project: 'list',
+        },
+        lists: [{ title: project, kind: 'project' }],
+        records,
+    };
+};
+
+// Things JSON
+
+interface ThingsItem {
+    type?: string;
+    attributes?: {
+        title?: string;
+        notes?: string;
+        deadline?: string;
+        when?: string;
+        tags?: string[] | string;
+        completed?: boolean;
+        canceled?: boolean;
+        area?: string;
+        list?: string;
+        items?: ThingsItem[];
+        'checklist-items'?: ThingsItem[];
+    };
+}
+
+const thingsTags = (tags: string[] | string | undefined): string => {
+    return Array.isArray(tags) ? tags.join(', ') : (tags ?? '');
+};
+
+const thingsStatus = (item: ThingsItem): string => {
+    return item.attributes?.completed || item.attributes?.canceled ? 'completed' : 'active';
+};
+
+/**
+ * Parses a Things JSON export: an array of to-dos and projects as used by the `things:///json` URL scheme
+ * Projects (and the areas they or their to-dos name) become lists; checklist items become subtasks.
+ * Headings inside projects are skipped.
+ * @throws ValidationError if the file isn't JSON in that shape
+ */
+export const parseThingsJson = (text: string): ImportSource => {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        throw new ValidationError('The file is not valid JSON.');
+    }
+    const items = Array.isArray(raw) ? raw : (raw as { items?: unknown } | null)?.items;
+    if (!Array.isArray(items)) {
+        throw new ValidationError('This doesn\'t look like a Things JSON export (expected a list of to-dos and projects).');
+    }
+
+    const lists: ImportedList[] = [];
+    const areas: string[] = [];
+    const records: ImportRecord[] = [];
+
+    const toRecord = (item: ThingsItem, list: string): ImportRecord => ({
+        values: {
+            title: item.attributes?.title?.trim() ?? '',
+            notes: item.attributes?.notes ?? '',
+            deadline: item.attributes?.deadline ?? '',
+            when: item.attributes?.when ?? '',
+            tags: thingsTags(item.attributes?.tags),
+            status: thingsStatus(item),
+            list,
+        },
+        subtasks: (item.attributes?.['checklist-items'] ?? []).map(checklistItem => ({
+            values: { title: checklistItem.attributes?.title?.trim() ?? '', status: thingsStatus(checklistItem) },
+            subtasks: [],
+        })),
+    });
+
+    (items as ThingsItem[]).forEach(item => {
+        const attributes = item.attributes ?? {};
+        if (item.type === 'project') {
+            const title = attributes.title?.trim();
+            if (!title) return;
+            if (attributes.area) areas.push(attributes.area);
+            lists.push({
+                title,
+                kind: 'project',
+                description: attributes.notes || undefined,
+                dueDate: attributes.deadline && ISO_DATE.test(attributes.deadline) ? attributes.deadline : undefined,
+            });
+            (attributes.items ?? [])
+                .filter(child => child.type === 'to-do')
+                .forEach(child => records.push(toRecord(child, title)));
+        } else if (item.type === 'to-do') {
+            const list = attributes.list ?? attributes.area ?? '';
+            if (attributes.area) areas.push(attributes.area);
+            records.push(toRecord(item, list));
+        }
+    });
+
+    // Areas named by projects and to-dos, unless a project has the same name
+    const projectTitles = new Set(lists.map(list => list.title));
+    unique(areas).filter(title => !projectTitles.has(title)).forEach(title => lists.push({ title, kind: 'area' }));
+
+    return {
+        format: 'things',
+        fields: [
+            { key: 'title', label: 'Title' },
+            { key: 'notes', label: 'Notes' },
+            { key: 'deadline', label: 'Deadline' },
+            { key: 'when', label: 'When' },
+            { key: 'tags', label: 'Tags' },
+            { key: 'status', label: 'Completed' },
+            { key: 'list', label: 'Project / area' },
+        ],
+        mapping: {
+            title: 'title',
+            notes: 'description',
+            deadline: 'dueDate',
+            when: 'ignore',
+            tags: 'tags',
+            status: 'status',
+            list: 'list',
+        },
+        lists,
+        records,
+    };
+};
+
+// iCalendar
+
+/**
+ * iCalendar priorities run from 1 (highest) to 9 (lowest); 0 means undefined
+ */
+const fromICalPriority = (value: string | undefined): string => {
+    const priority = Number(value);
+    if (!priority) return '';
+    if (priority <= 4) return 'high';
+    if (priority === 5) return 'medium';
+    return 'low';
+};
+
+/**
+ * Parses the VTODOs in an iCalendar file (events and other components are skipped)
+ * Due dates keep the calendar day they were written with; see fromICalDate.
+ * @throws ValidationError if the file isn't an iCalendar file
+ */
+export const parseICalendarTodos = (text: string): ImportSource => {
+    const calendars = findComponents(parseICalendar(text), 'VCALENDAR');
+    if (calendars.length === 0) {
+        throw new ValidationError('This doesn\'t look like an iCalendar (.ics) file.');
+    }
+
+    const textValue = (todo: ICalComponent, name: string) => unescapeText(getProperty(todo, name)?.value ?? '').trim();
+    const records: ImportRecord[] = findComponents(calendars, 'VTODO').map(todo => {
+        const status = getProperty(todo, 'STATUS')?.value.toUpperCase();
+        return {
+            values: {
+                summary: textValue(todo, 'SUMMARY'),
+                description: textValue(todo, 'DESCRIPTION'),
+                due: fromICalDate(getProperty(todo, 'DUE')?.value ?? '') ?? '',
+                start: fromICalDate(getProperty(todo, 'DTSTART')?.value ?? '') ?? '',
+                priority: fromICalPriority(getProperty(todo, 'PRIORITY')?.value),
+                status: status === 'COMPLETED' ? 'completed' : status === 'CANCELLED' ? 'archived' : 'active',
+                categories: todo.properties
+                    .filter(property => property.name === 'CATEGORIES')
+                    .flatMap(property => property.value.split(/(?<!\\),/).map(unescapeText))
+                    .map(category => category.trim())
+                    .filter(Boolean)
+                    .join(', '),
+            },
+            subtasks: [],
+        };
+    });
+
+    return {
+        format: 'icalendar',
+        fields: [
+            { key: 'summary', label: 'SUMMARY' },
+            { key: 'description', label: 'DESCRIPTION' },
+            { key: 'due', label: 'DUE' },
+            { key: 'start', label: 'DTSTART' },
+            { key: 'priority', label: 'PRIORITY' },
+            { key: 'status', label: 'STATUS' },
+            { key: 'categories', label: 'CATEGORIES' },
+        ],
+        mapping: {
+            summary: 'title',
+            description: 'description',
+            due: 'dueDate',
+            start: 'ignore',
+            priority: 'priority',
+            status: 'status',
+            categories: 'tags',
+        },
+        lists: [],
+        records,
+    };
+};
+
+/**
+ * Reads an import file in the given format
+ * @throws ValidationError if the file can't be read as that format
+ */
+export const parseImportFile = (format: ImportFormat, text: string, fileName: string): ImportSource => {
+    switch (format) {
+        case 'todotxt':
+            return parseTodoTxt(text);
+        case 'todoist':
+            return parseTodoistCsv(text, fileName);
+        case 'things':
+            return parseThingsJson(text);
+        case 'icalendar':
+            return parseICalendarTodos(text);
+    }
+};
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest'
+import { applyListTaskAction } from './listTasks'
+import { task } from '../test/fixtures'
+
+describe('applyListTaskAction', () => {
+  const tasks = [
+    task('a', { listId: 'work' }),
+    task('a-sub', { parentId: 'a' }),
+    task('b', { listId: 'home' }),
+  ]
+
+  it('should move list tasks and their subtasks to the Inbox', () => {
+    const result = applyListTaskAction(tasks, 'work', 'move_to_inbox', false)
+
+    expect(result.find(t => t.id === 'a')?.listId).toBeUndefined()
+    expect(result.find(t => t.id === 'a')?.status).toBe('active')
+    expect(result.find(t => t.id === 'a-sub')?.updatedAt).not.toBe(tasks[1].updatedAt)
+    expect(result.find(t => t.id === 'b')).toBe(tasks[2])
+  })
+
+  it('should delete list tasks and their subtasks', () => {
+    const result = applyListTaskAction(tasks, 'work', 'delete', false)
+
+    expect(result.map(t => t.id)).toEqual(['b'])
+  })
+
+  it('should archive tasks and keep the list unless it was deleted', () => {
+    expect(applyListTaskAction(tasks, 'work', 'archive', false)[0]).toMatchObject({ status: 'archived', listId: 'work' })
+    expect(applyListTaskAction(tasks, 'work', 'archive', true)[0].listId).toBeUndefined()
+  })
+
+  it('should return the same array when the list has no tasks', () => {
+    expect(applyListTaskAction(tasks, 'empty', 'delete', true)).toBe(tasks)
+  })
+})
@@ -0,0 +1,46 @@
+import type { TaskData } from '../types/task';
+import type { ListTaskAction } from '../types/sidebar';
+
+/**
+ * Whether a task belongs to a list, directly or as a subtask of one of its tasks
+ */
+const isInList = (task: TaskData, listTaskIds: Set<string>): boolean => {
+    return listTaskIds.has(task.id) || (task.parentId !== undefined && listTaskIds.has(task.parentId));
+};
+
+/**
+ * Applies the chosen action to a list's tasks when the list is archived or deleted
+ * @param tasks - All tasks
+ * @param listId - Key of the area or project
+ * @param action - What to do with the list's tasks
+ * @param isListDeleted - Archived tasks drop their list too when it no longer exists
+ * @returns A new array of tasks; tasks outside the list are returned unchanged
+ */
+export const applyListTaskAction = (
+    tasks: TaskData[],
+    listId: string,
+    action: ListTaskAction,
+    isListDeleted: boolean
+): TaskData[] => {
+    const listTaskIds = new Set(tasks.filter(task => task.listId === listId).map(task => task.id));
+    if (listTaskIds.size === 0) return tasks;
+
+    if (action === 'delete') {
+        return tasks.filter(task => !isInList(task, listTaskIds));
+    }
+
+    const now = new Date().toISOString();
+    return tasks.map(task => {
+        if (!isInList(task, listTaskIds)) return task;
+
+        if (action === 'move_to_inbox') {
+            return { ...task, listId: undefined, updatedAt: now };
+        }
+        return {
+            ...task,
+            status: 'archived',
+            listId: isListDeleted ? undefined : task.listId,
+            updatedAt: now
+        };
+    });
+};
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import { applyCompletionTime, formatLogbookDate, groupTasksByCompletionDate, orderLogbookTasks } from './logbook'
+import { task } from '../test/fixtures'
+
+describe('applyCompletionTime', () => {
+  it('should stamp newly completed tasks and keep the stamp on later edits', () => {
+    const open = task('a')
+    const completed = applyCompletionTime(open, { ...open, status: 'completed', updatedAt: '2025-02-01T10:00:00.000Z' })
+    expect(completed.completedAt).toBe('2025-02-01T10:00:00.000Z')
+
+    const edited = applyCompletionTime(completed, { ...completed, title: 'b', updatedAt: '2025-02-02T10:00:00.000Z' })
+    expect(edited.completedAt).toBe('2025-02-01T10:00:00.000Z')
+  })
+
+  it('should clear the stamp when a task is reopened', () => {
+    const completed = task('a', { status: 'completed', completedAt: '2025-02-01T10:00:00.000Z' })
+
+    expect(applyCompletionTime(completed, { ...completed, status: 'active' })).not.toHaveProperty('completedAt')
+  })
+})
+
+describe('groupTasksByCompletionDate', () => {
+  it('should group by local completion day, newest day first, falling back to updatedAt', () => {
+    const groups = groupTasksByCompletionDate([
+      task('a', { status: 'completed', completedAt: '2025-01-05T09:00:00' }),
+      task('b', { status: 'completed', completedAt: '2025-01-07T18:00:00' }),
+      task('c', { status: 'completed', completedAt: '2025-01-05T20:00:00' }),
+      task('d', { status: 'completed', updatedAt: '2025-01-01T12:00:00' }),
+    ])
+
+    expect(groups.map(group => [group.date, group.tasks.map(t => t.id)])).toEqual([
+      ['2025-01-07', ['b']],
+      ['2025-01-05', ['a', 'c']],
+      ['2025-01-01', ['d']],
+    ])
+  })
+})
+
+describe('orderLogbookTasks', () => {
+  const tasks = [
+    task('a', { status: 'completed', title: 'b', completedAt: '2025-01-05T09:00:00' }),
+    task('b', { status: 'completed', title: 'a', completedAt: '2025-01-07T18:00:00' }),
+    task('c', { status: 'completed', title: 'c', completedAt: '2025-01-05T20:00:00' }),
+  ]
+
+  it('should order tasks most recently completed first for the manual order', () => {
+    expect(orderLogbookTasks(tasks, { field: 'manual', direction: 'asc' }).map(t => t.id)).toEqual(['b', 'c', 'a'])
+  })
+
+  it('should keep days most recent first and sort within each day', () => {
+    expect(orderLogbookTasks(tasks, { field: 'title', direction: 'desc' }).map(t => t.id)).toEqual(['b', 'c', 'a'])
+    expect(orderLogbookTasks(tasks, { field: 'title', direction: 'asc' }).map(t => t.id)).toEqual(['b', 'a', 'c'])
+  })
+})
+
+describe('formatLogbookDate', () => {
+  const today = new Date(2025, 2, 10, 15, 0)
+
+  it('should name recent days', () => {
+    expect(formatLogbookDate('2025-03-10', today)).toBe('Today')
+    expect(formatLogbookDate('2025-03-09', today)).toBe('Yesterday')
+    expect(formatLogbookDate('2025-03-06', today)).toBe('Thursday, March 6')
+  })
+
+  it('should only show the year for earlier years', () => {
+    expect(formatLogbookDate('2025-01-02', today)).toBe('January 2')
+    expect(formatLogbookDate('2024-12-30', today)).toBe('December 30, 2024')
+  })
+})
@@ -0,0 +1,84 @@
+import { differenceInCalendarDays, format, isSameYear } from 'date-fns';
+import type { TaskData, TaskSort } from '../types/task';
+import { parseDate } from './taskFilters';
+import { sortTasks } from './taskSort';
+
+/**
+ * Completed tasks that share a completion day
+ */
+export interface LogbookGroup {
+    date: string; // YYYY-MM-DD, local time
+    tasks: TaskData[];
+}
+
+/**
+ * When a task was completed
+ * Tasks completed before completedAt was recorded fall back to their last update.
+ */
+export const getCompletionTime = (task: TaskData): string => task.completedAt ?? task.updatedAt;
+
+/**
+ * Keeps completedAt in step with a status change: stamped when a task is completed, cleared when it's reopened
+ * @param previous - The task before the update
+ * @param updated - The task with the update applied
+ * @returns The updated task with completedAt set or removed
+ */
+export const applyCompletionTime = (previous: TaskData, updated: TaskData): TaskData => {
+    if (updated.status !== 'completed') {
+        const reopened = { ...updated };
+        delete reopened.completedAt;
+        return reopened;
+    }
+    if (previous.status !== 'completed' || !updated.completedAt) {
+        return { ...updated, completedAt: updated.updatedAt };
+    }
+    return updated;
+};
+
+/**
+ * Groups completed tasks by the day they were completed, most recent day first
+ * Tasks keep their given order within a day.
+ */
+export const groupTasksByCompletionDate = (tasks: TaskData[]): LogbookGroup[] => {
+    const groups = new Map<string, TaskData[]>();
+    tasks.forEach(task => {
+        const date = format(new Date(getCompletionTime(task)), 'yyyy-MM-dd');
+        groups.set(date, [...(groups.get(date) ?? []), task]);
+    });
+
+    return [...groups.entries()]
+        .map(([date, groupTasks]) => ({ date, tasks: groupTasks }))
+        .sort((a, b) => b.date.localeCompare(a.date));
+};
+
+/**
+ * Orders Logbook tasks within their completion day: most recently completed first for the manual order,
+ * otherwise by the chosen sort
+ */
+export const sortLogbookTasks = (tasks: TaskData[], sort: TaskSort): TaskData[] => {
+    if (sort.field === 'manual') {
+        return [...tasks].sort((a, b) => getCompletionTime(b).localeCompare(getCompletionTime(a)));
+    }
+    return sortTasks(tasks, sort);
+};
+
+/**
+ * Orders Logbook tasks the way the Logbook shows them: by completion day, most recent first, then as sorted
+ */
+export const orderLogbookTasks = (tasks: TaskData[], sort: TaskSort): TaskData[] =>
+    groupTasksByCompletionDate(sortLogbookTasks(tasks, sort)).flatMap(group => group.tasks);
+
+/**
+ * Heading for a Logbook day, e.g. "Today", "Yesterday", "Monday, March 3" or "March 3, 2024"
+ * @param date - YYYY-MM-DD
+ * @param today - Reference date (defaults to now)
+ */
+export const formatLogbookDate = (date: string, today: Date = new Date()): string => {
+    const value = parseDate(date);
+    const daysAgo = differenceInCalendarDays(today, value);
+
+    if (daysAgo === 0) return 'Today';
+    if (daysAgo === 1) return 'Yesterday';
+    if (daysAgo > 1 && daysAgo < 7) return format(value, 'EEEE, MMMM d');
+    return isSameYear(value, today) ? format(value, 'MMMM d') : format(value, 'MMMM d, yyyy');
+};
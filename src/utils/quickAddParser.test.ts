@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest'
+import { parseQuickAdd } from './quickAddParser'
+
+describe('parseQuickAdd', () => {
+  // 2025-01-08 is a Wednesday
+  const referenceDate = new Date(2025, 0, 8, 15, 30)
+  const lists = [
+    { key: 'website', title: 'Website' },
+    { key: 'ios_app', title: 'IOS App' }
+  ]
+  const parse = (text: string) => parseQuickAdd(text, { lists, referenceDate })
+
+  it('should return just the title when there are no tokens', () => {
+    expect(parse('  Buy   milk ')).toEqual({ input: { title: 'Buy milk' }, tokens: [] })
+  })
+
+  describe('dates', () => {
+    it('should parse tomorrow', () => {
+      expect(parse('Call Sam tomorrow').input).toEqual({ title: 'Call Sam', dueDate: '2025-01-09' })
+    })
+
+    it('should parse next weekday as the first one after today', () => {
+      expect(parse('Review next fri').input.dueDate).toBe('2025-01-10')
+      expect(parse('Review next Monday').input.dueDate).toBe('2025-01-13')
+      // Today is Wednesday, so next wed is a week away
+      expect(parse('Review next wed').input.dueDate).toBe('2025-01-15')
+    })
+
+    it('should parse next week and next month', () => {
+      expect(parse('Plan next week').input.dueDate).toBe('2025-01-15')
+      expect(parse('Plan next month').input.dueDate).toBe('2025-02-08')
+    })
+
+    it('should parse in N days, weeks and months', () => {
+      expect(parse('Follow up in 3 days').input.dueDate).toBe('2025-01-11')
+      expect(parse('Follow up in 1 day').input.dueDate).toBe('2025-01-09')
+      expect(parse('Follow up in 2 weeks').input.dueDate).toBe('2025-01-22')
+      expect(parse('Follow up in 1 month').input.dueDate).toBe('2025-02-08')
+    })
+
+    it('should leave incomplete phrases in the title', () => {
+      expect(parse('Read in 3 chapters').input).toEqual({ title: 'Read in 3 chapters' })
+      expect(parse('Pick the next one').input).toEqual({ title: 'Pick the next one' })
+    })
+
+    it('should keep later date phrases in the title', () => {
+      expect(parse('Move tomorrow to next fri').input).toEqual({ title: 'Move to next fri', dueDate: '2025-01-09' })
+    })
+  })
+
+  describe('tags', () => {
+    it('should collect every #tag without duplicates', () => {
+      expect(parse('Fix bug #work #urgent #work').input).toEqual({ title: 'Fix bug', tags: ['work', 'urgent'] })
+    })
+
+    it('should leave a lone # in the title', () => {
+      expect(parse('Issue # 42').input).toEqual({ title: 'Issue # 42' })
+    })
+  })
+
+  describe('priority', () => {
+    it('should parse !high, !medium, !low and numeric levels', () => {
+      expect(parse('Pay rent !high').input.priority).toBe('high')
+      expect(parse('Pay rent !MED').input.priority).toBe('medium')
+      expect(parse('Pay rent !low').input.priority).toBe('low')
+      expect(parse('Pay rent !2').input.priority).toBe('medium')
+    })
+
+    it('should treat * as high priority', () => {
+      expect(parse('Pay rent *').input).toEqual({ title: 'Pay rent', priority: 'high' })
+    })
+
+    it('should leave unknown priorities in the title', () => {
+      expect(parse('Wow !amazing').input).toEqual({ title: 'Wow !amazing' })
+    })
+  })
+
+  describe('lists', () => {
+    it('should resolve @mentions to areas and projects by title or key', () => {
+      expect(parse('Update copy @Website').input).toEqual({ title: 'Update copy', listId: 'website' })
+      expect(parse('Ship build @iosapp').input.listId).toBe('ios_app')
+      expect(parse('Ship build @ios_app').input.listId).toBe('ios_app')
+    })
+
+    it('should leave unknown mentions in the title', () => {
+      expect(parse('Email @sam').input).toEqual({ title: 'Email @sam' })
+    })
+  })
+
+  it('should combine tokens and report them in order', () => {
+    const result = parse('Draft launch post next fri #blog !high @Website')
+
+    expect(result.input).toEqual({
+      title: 'Draft launch post',
+      dueDate: '2025-01-10',
+      tags: ['blog'],
+      priority: 'high',
+      listId: 'website'
+    })
+    expect(result.tokens).toEqual([
+      { type: 'date', text: 'next fri', value: '2025-01-10' },
+      { type: 'tag', text: '#blog', value: 'blog' },
+      { type: 'priority', text: '!high', value: 'high' },
+      { type: 'list', text: '@Website', value: 'website' }
+    ])
+  })
+})
@@ -0,0 +1,161 @@
+/**
+ * Natural-language parser for the quick add input
+ * Turns "Call Sam tomorrow #phone !high @Website" into a CreateTaskInput
+ */
+
+import { addDays, addMonths, addWeeks, format } from 'date-fns';
+import type { CreateTaskInput, TaskPriority } from '../types/task';
+
+export type QuickAddTokenType = 'date' | 'tag' | 'priority' | 'list';
+
+/**
+ * A recognised token, removed from the title and shown as a chip
+ */
+export interface QuickAddToken {
+    type: QuickAddTokenType;
+    text: string; // The words as typed
+    value: string; // Date (YYYY-MM-DD), tag, priority or list key
+}
+
+export interface ParsedQuickAdd {
+    input: CreateTaskInput; // Only holds the fields that were found, besides the title
+    tokens: QuickAddToken[];
+}
+
+export interface QuickAddList {
+    key: string;
+    title: string;
+}
+
+interface ParseOptions {
+    lists?: QuickAddList[]; // Areas/projects that @mentions can resolve to
+    referenceDate?: Date; // "Today" for relative dates
+}
+
+const WEEKDAYS = new Map<string, number>([
+    ['sun', 0], ['sunday', 0],
+    ['mon', 1], ['monday', 1],
+    ['tue', 2], ['tues', 2], ['tuesday', 2],
+    ['wed', 3], ['wednesday', 3],
+    ['thu', 4], ['thur', 4], ['thurs', 4], ['thursday', 4],
+    ['fri', 5], ['friday', 5],
+    ['sat', 6], ['saturday', 6],
+]);
+
+const PRIORITIES = new Map<string, TaskPriority>([
+    ['high', 'high'], ['1', 'high'],
+    ['medium', 'medium'], ['med', 'medium'], ['2', 'medium'],
+    ['low', 'low'], ['3', 'low'],
+]);
+
+const TAG_PATTERN = /^#([\p{L}\p{N}_-]+)$/u;
+const PRIORITY_PATTERN = /^!(\w+)$/;
+const MENTION_PATTERN = /^@([\p{L}\p{N}_-]+)$/u;
+
+/**
+ * Lowercase and drop anything but letters and digits, so "@iosapp" matches "IOS App"
+ */
+const normalizeName = (name: string): string => name.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+/**
+ * Try to read a date phrase starting at words[index]
+ * Supports "tomorrow", "next <weekday>", "next week", "next month" and "in N days/weeks/months"
+ * @returns The date and how many words it used, or null
+ */
+const matchDate = (words: string[], index: number, today: Date): { date: Date; length: number } | null => {
+    const word = words[index].toLowerCase();
+    const next = words[index + 1]?.toLowerCase();
+
+    if (word === 'tomorrow') {
+        return { date: addDays(today, 1), length: 1 };
+    }
+
+    if (word === 'next' && next) {
+        if (next === 'week') return { date: addWeeks(today, 1), length: 2 };
+        if (next === 'month') return { date: addMonths(today, 1), length: 2 };
+        const weekday = WEEKDAYS.get(next);
+        if (weekday !== undefined) {
+            // The first such weekday after today
+            const offset = (weekday - today.getDay() + 7) % 7 || 7;
+            return { date: addDays(today, offset), length: 2 };
+        }
+    }
+
+    if (word === 'in' && next && /^\d+$/.test(next)) {
+        const amount = Number(next);
+        const unit = words[index + 2]?.toLowerCase();
+        if (unit === 'day' || unit === 'days') return { date: addDays(today, amount), length: 3 };
+        if (unit === 'week' || unit === 'weeks') return { date: addWeeks(today, amount), length: 3 };
+        if (unit === 'month' || unit === 'months') return { date: addMonths(today, amount), length: 3 };
+    }
+
+    return null;
+};
+
+/**
+ * Parse quick add text into task fields
+ * Single-valued attributes (date, priority, list) take the first match; later ones stay in the title.
+ * Unknown @mentions and !priorities are left in the title as typed.
+ * @param text - Raw input text
+ * @param options - Lists for @mentions and the reference date for relative dates
+ * @returns The CreateTaskInput plus the recognised tokens
+ */
+export const parseQuickAdd = (text: string, options: ParseOptions = {}): ParsedQuickAdd => {
+    const { lists = [], referenceDate = new Date() } = options;
+    const today = new Date(referenceDate.getFullYear(), referenceDate.getMonth(), referenceDate.getDate());
+
+    const words = text.trim().split(/\s+/).filter(Boolean);
+    const titleWords: string[] = [];
+    const tokens: QuickAddToken[] = [];
+    const input: CreateTaskInput = { title: '' };
+    const tags: string[] = [];
+
+    for (let i = 0; i < words.length; i++) {
+        const word = words[i];
+
+        if (!input.dueDate) {
+            const match = matchDate(words, i, today);
+            if (match) {
+                input.dueDate = format(match.date, 'yyyy-MM-dd');
+                tokens.push({ type: 'date', text: words.slice(i, i + match.length).join(' '), value: input.dueDate });
+                i += match.length - 1;
+                continue;
+            }
+        }
+
+        const tagMatch = word.match(TAG_PATTERN);
+        if (tagMatch) {
+            if (!tags.includes(tagMatch[1])) {
+                tags.push(tagMatch[1]);
+                tokens.push({ type: 'tag', text: word, value: tagMatch[1] });
+            }
+            continue;
+        }
+
+        const priority = word === '*' ? 'high' : PRIORITIES.get(word.match(PRIORITY_PATTERN)?.[1].toLowerCase() ?? '');
+        if (priority && !input.priority) {
+            input.priority = priority;
+            tokens.push({ type: 'priority', text: word, value: priority });
+            continue;
+        }
+
+        const mention = word.match(MENTION_PATTERN);
+        const list = mention && !input.listId
+            ? lists.find(l => normalizeName(l.title) === normalizeName(mention[1]) || normalizeName(l.key) === normalizeName(mention[1]))
+            : undefined;
+        if (list) {
+            input.listId = list.key;
+            tokens.push({ type: 'list', text: word, value: list.key });
+            continue;
+        }
+
+        titleWords.push(word);
+    }
+
+    input.title = titleWords.join(' ');
+    if (tags.length > 0) {
+        input.tags = tags;
+    }
+
+    return { input, tokens };
+};
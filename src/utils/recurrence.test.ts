@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest'
+import { getNextDueDate, getNextOccurrence, getNextOccurrenceWithChecklist, describeRecurrence } from './recurrence'
+import type { TaskData } from '../types/task'
+
+describe('recurrence', () => {
+  // 2025-01-06 is a Monday
+  const completedOn = new Date(2025, 0, 8, 15, 30)
+
+  describe('getNextDueDate', () => {
+    describe('daily', () => {
+      it('should advance from the due date by the interval', () => {
+        expect(getNextDueDate({ frequency: 'daily', interval: 1 }, '2025-01-06', completedOn)).toBe('2025-01-07')
+        expect(getNextDueDate({ frequency: 'daily', interval: 3 }, '2025-01-06', completedOn)).toBe('2025-01-09')
+      })
+
+      it('should advance from the completion day when there is no due date', () => {
+        expect(getNextDueDate({ frequency: 'daily', interval: 1 }, undefined, completedOn)).toBe('2025-01-09')
+      })
+
+      it('should cross month and year boundaries', () => {
+        expect(getNextDueDate({ frequency: 'daily', interval: 1 }, '2024-12-31', completedOn)).toBe('2025-01-01')
+      })
+    })
+
+    describe('weekly', () => {
+      it('should move to the next selected weekday in the same week', () => {
+        // Monday -> Thursday
+        expect(getNextDueDate({ frequency: 'weekly', interval: 1, weekdays: [1, 4] }, '2025-01-06', completedOn)).toBe('2025-01-09')
+      })
+
+      it('should wrap to the first selected weekday of the next week', () => {
+        // Thursday -> following Monday
+        expect(getNextDueDate({ frequency: 'weekly', interval: 1, weekdays: [1, 4] }, '2025-01-09', completedOn)).toBe('2025-01-13')
+      })
+
+      it('should skip weeks according to the interval', () => {
+        // Thursday -> Monday two weeks later
+        expect(getNextDueDate({ frequency: 'weekly', interval: 2, weekdays: [1, 4] }, '2025-01-09', completedOn)).toBe('2025-01-20')
+      })
+
+      it('should repeat on the same weekday when none are given', () => {
+        expect(getNextDueDate({ frequency: 'weekly', interval: 1 }, '2025-01-06', completedOn)).toBe('2025-01-13')
+      })
+    })
+
+    describe('monthly', () => {
+      it('should move to the same day next month', () => {
+        expect(getNextDueDate({ frequency: 'monthly', interval: 1, dayOfMonth: 15 }, '2025-01-15', completedOn)).toBe('2025-02-15')
+      })
+
+      it('should use a later day in the same month when it has not passed', () => {
+        expect(getNextDueDate({ frequency: 'monthly', interval: 1, dayOfMonth: 20 }, '2025-01-15', completedOn)).toBe('2025-01-20')
+      })
+
+      it('should clamp the day to the length of short months', () => {
+        expect(getNextDueDate({ frequency: 'monthly', interval: 1, dayOfMonth: 31 }, '2025-01-31', completedOn)).toBe('2025-02-28')
+        expect(getNextDueDate({ frequency: 'monthly', interval: 1, dayOfMonth: 31 }, '2025-02-28', completedOn)).toBe('2025-03-31')
+      })
+
+      it('should skip months according to the interval', () => {
+        expect(getNextDueDate({ frequency: 'monthly', interval: 3, dayOfMonth: 1 }, '2025-11-01', completedOn)).toBe('2026-02-01')
+      })
+    })
+
+    describe('after_completion', () => {
+      it('should count days from the completion day, ignoring the due date', () => {
+        expect(getNextDueDate({ frequency: 'after_completion', interval: 5 }, '2025-01-01', completedOn)).toBe('2025-01-13')
+      })
+    })
+  })
+
+  describe('getNextOccurrence', () => {
+    const task: TaskData = {
+      id: 'task-1',
+      title: 'Water plants',
+      description: 'Both balconies',
+      priority: 'medium',
+      status: 'completed',
+      dueDate: '2025-01-06',
+      listId: 'home',
+      tags: ['chores'],
+      recurrence: { frequency: 'weekly', interval: 1, weekdays: [1] },
+      createdAt: '2025-01-01T00:00:00Z',
+      updatedAt: '2025-01-06T00:00:00Z'
+    }
+
+    it('should copy the task into an active occurrence with the next due date', () => {
+      expect(getNextOccurrence(task, completedOn)).toEqual({
+        title: 'Water plants',
+        description: 'Both balconies',
+        priority: 'medium',
+        status: 'active',
+        dueDate: '2025-01-13',
+        listId: 'home',
+        tags: ['chores'],
+        recurrence: { frequency: 'weekly', interval: 1, weekdays: [1] }
+      })
+    })
+
+    it('should keep the lead time between the start date and the due date', () => {
+      expect(getNextOccurrence({ ...task, startDate: '2025-01-04' }, completedOn)).toMatchObject({
+        startDate: '2025-01-11',
+        dueDate: '2025-01-13'
+      })
+    })
+
+    it('should move the reminder along with the due date', () => {
+      expect(getNextOccurrence({ ...task, reminderAt: '2025-01-06T08:30:00.000Z' }, completedOn)).toMatchObject({
+        dueDate: '2025-01-13',
+        reminderAt: '2025-01-13T08:30:00.000Z'
+      })
+    })
+
+    it('should return null for tasks that do not repeat', () => {
+      expect(getNextOccurrence({ ...task, recurrence: undefined }, completedOn)).toBeNull()
+    })
+
+    it('should copy the checklist unchecked and in order', () => {
+      const subtask = (id: string, order: number, status: TaskData['status']): TaskData => ({
+        id, title: `Step ${id}`, priority: 'low', status, order, parentId: 'task-1', createdAt: task.createdAt, updatedAt: task.updatedAt
+      })
+      const tasks = [task, subtask('b', 2, 'active'), subtask('a', 1, 'completed'), { ...subtask('other', 0, 'active'), parentId: 'task-2' }]
+
+      const next = getNextOccurrenceWithChecklist(task, tasks, completedOn)
+
+      expect(next?.task).toEqual(getNextOccurrence(task, completedOn))
+      expect(next?.subtasks).toEqual([
+        { title: 'Step a', listId: 'home', priority: 'low', order: 1, status: 'active' },
+        { title: 'Step b', listId: 'home', priority: 'low', order: 2, status: 'active' }
+      ])
+      expect(getNextOccurrenceWithChecklist({ ...task, recurrence: undefined }, tasks, completedOn)).toBeNull()
+    })
+  })
+
+  describe('describeRecurrence', () => {
+    it('should describe each frequency', () => {
+      expect(describeRecurrence({ frequency: 'daily', interval: 1 })).toBe('Every day')
+      expect(describeRecurrence({ frequency: 'daily', interval: 2 })).toBe('Every 2 days')
+      expect(describeRecurrence({ frequency: 'weekly', interval: 1, weekdays: [4, 1] })).toBe('Every week on Mon, Thu')
+      expect(describeRecurrence({ frequency: 'monthly', interval: 1, dayOfMonth: 15 })).toBe('Every month on day 15')
+      expect(describeRecurrence({ frequency: 'after_completion', interval: 3 })).toBe('3 days after completion')
+    })
+  })
+})
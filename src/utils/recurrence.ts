@@ -0,0 +1,160 @@
+/**
+ * Recurrence utilities for repeating tasks
+ * Computes the next occurrence of a task from its repeat rule
+ */
+
+import { addDays, addMonths, differenceInCalendarDays, differenceInCalendarWeeks, format, getDaysInMonth } from 'date-fns';
+import type { CreateTaskInput, RecurrenceRule, TaskData } from '../types/task';
+import { getSubtasks, parseDate } from './taskFilters';
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Formats a date as YYYY-MM-DD in the local timezone
+ */
+function toDateString(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+/**
+ * Returns the given day of the month, clamped to the month's length
+ */
+function clampToMonth(year: number, month: number, dayOfMonth: number): Date {
+  const daysInMonth = getDaysInMonth(new Date(year, month, 1));
+  return new Date(year, month, Math.min(dayOfMonth, daysInMonth));
+}
+
+/**
+ * Calculates the due date of the next occurrence
+ * @param rule - The task's repeat rule
+ * @param dueDate - Current due date (YYYY-MM-DD), if any
+ * @param completedOn - When the current occurrence was completed
+ * @returns Next due date in YYYY-MM-DD format
+ */
+export function getNextDueDate(rule: RecurrenceRule, dueDate: string | undefined, completedOn: Date = new Date()): string {
+  const completedDay = new Date(completedOn.getFullYear(), completedOn.getMonth(), completedOn.getDate());
+  // Calendar rules continue from the due date; tasks without one continue from the completion day
+  const base = dueDate ? parseDate(dueDate) : completedDay;
+  const interval = Math.max(1, rule.interval);
+
+  switch (rule.frequency) {
+    case 'daily':
+      return toDateString(addDays(base, interval));
+
+    case 'weekly': {
+      const weekdays = rule.weekdays && rule.weekdays.length > 0 ? rule.weekdays : [base.getDay()];
+      // Walk forward day by day until we land on a selected weekday in an active week
+      for (let offset = 1; offset <= 7 * interval + 7; offset++) {
+        const candidate = addDays(base, offset);
+        const weekIndex = differenceInCalendarWeeks(candidate, base);
+        if (weekIndex % interval === 0 && weekdays.includes(candidate.getDay())) {
+          return toDateString(candidate);
+        }
+      }
+      return toDateString(addDays(base, 7 * interval));
+    }
+
+    case 'monthly': {
+      const dayOfMonth = rule.dayOfMonth ?? base.getDate();
+      const sameMonth = clampToMonth(base.getFullYear(), base.getMonth(), dayOfMonth);
+      if (sameMonth > base) {
+        return toDateString(sameMonth);
+      }
+      const nextMonth = addMonths(new Date(base.getFullYear(), base.getMonth(), 1), interval);
+      return toDateString(clampToMonth(nextMonth.getFullYear(), nextMonth.getMonth(), dayOfMonth));
+    }
+
+    case 'after_completion':
+      return toDateString(addDays(completedDay, interval));
+  }
+}
+
+/**
+ * Builds the input for the next occurrence of a recurring task
+ * @param task - The occurrence that was just completed
+ * @param completedOn - When it was completed
+ * @returns CreateTaskInput for the next occurrence, or null if the task doesn't repeat
+ */
+export function getNextOccurrence(task: TaskData, completedOn: Date = new Date()): CreateTaskInput | null {
+  if (!task.recurrence) {
+    return null;
+  }
+
+  const dueDate = getNextDueDate(task.recurrence, task.dueDate, completedOn);
+  // Keep the same lead time between the start date and the deadline
+  const startDate = task.startDate && task.dueDate
+    ? toDateString(addDays(parseDate(dueDate), differenceInCalendarDays(parseDate(task.startDate), parseDate(task.dueDate))))
+    : undefined;
+  // Move the reminder along with the deadline
+  const reminderAt = task.reminderAt && task.dueDate
+    ? addDays(new Date(task.reminderAt), differenceInCalendarDays(parseDate(dueDate), parseDate(task.dueDate))).toISOString()
+    : undefined;
+
+  return {
+    title: task.title,
+    description: task.description,
+    priority: task.priority,
+    status: 'active',
+    dueDate,
+    startDate,
+    reminderAt,
+    listId: task.listId,
+    tags: task.tags,
+    recurrence: task.recurrence,
+  };
+}
+
+/**
+ * The next occurrence of a recurring task, with a fresh copy of its checklist
+ */
+export interface NextOccurrence {
+  task: CreateTaskInput;
+  subtasks: CreateTaskInput[]; // Unchecked, in order; each gets its parentId once the task is created
+}
+
+/**
+ * Builds the next occurrence of a just-completed recurring task along with its checklist
+ * The completed task should drop its repeat rule, which moves on to the next occurrence.
+ * @param task - The occurrence that was just completed
+ * @param tasks - All tasks, to find its subtasks
+ * @param completedOn - When it was completed
+ * @returns The next occurrence, or null if the task doesn't repeat
+ */
+export function getNextOccurrenceWithChecklist(task: TaskData, tasks: TaskData[], completedOn: Date = new Date()): NextOccurrence | null {
+  const next = getNextOccurrence(task, completedOn);
+  if (!next) {
+    return null;
+  }
+
+  const subtasks = getSubtasks(tasks, task.id).map(subtask => ({
+    title: subtask.title,
+    listId: next.listId,
+    priority: subtask.priority,
+    order: subtask.order,
+    status: 'active' as const,
+  }));
+  return { task: next, subtasks };
+}
+
+/**
+ * Describes a repeat rule in plain words, e.g. "Every 2 weeks on Mon, Thu"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const plural = (unit: string) => rule.interval === 1 ? unit : `${rule.interval} ${unit}s`;
+
+  switch (rule.frequency) {
+    case 'daily':
+      return `Every ${plural('day')}`;
+
+    case 'weekly': {
+      const days = [...(rule.weekdays ?? [])].sort((a, b) => a - b).map(day => WEEKDAY_LABELS[day]);
+      return days.length > 0 ? `Every ${plural('week')} on ${days.join(', ')}` : `Every ${plural('week')}`;
+    }
+
+    case 'monthly':
+      return rule.dayOfMonth ? `Every ${plural('month')} on day ${rule.dayOfMonth}` : `Every ${plural('month')}`;
+
+    case 'after_completion':
+      return `${rule.interval} day${rule.interval === 1 ? '' : 's'} after completion`;
+  }
+}
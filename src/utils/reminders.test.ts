@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import { formatReminder, fromDateTimeInputValue, groupReminders, SNOOZE_OPTIONS, toDateTimeInputValue } from './reminders'
+import type { TaskData } from '../types/task'
+
+describe('reminders', () => {
+  const now = new Date(2025, 2, 1, 9, 0)
+
+  const task = (id: string, reminderAt: string | undefined, status: TaskData['status'] = 'active'): TaskData => ({
+    id,
+    title: `Task ${id}`,
+    priority: 'low',
+    status,
+    reminderAt,
+    createdAt: '2025-01-01T00:00:00Z',
+    updatedAt: '2025-01-01T00:00:00Z'
+  })
+
+  describe('groupReminders', () => {
+    it('should split open tasks into past reminders (latest first) and upcoming ones (soonest first)', () => {
+      const at = (hour: number) => new Date(2025, 2, 1, hour).toISOString()
+      const tasks = [
+        task('early', at(7)),
+        task('later', at(12)),
+        task('recent', at(8)),
+        task('soon', at(10)),
+        task('done', at(8), 'completed'),
+        task('none', undefined),
+        task('invalid', 'not a date')
+      ]
+
+      const { past, upcoming } = groupReminders(tasks, now)
+
+      expect(past.map(t => t.id)).toEqual(['recent', 'early'])
+      expect(upcoming.map(t => t.id)).toEqual(['soon', 'later'])
+    })
+  })
+
+  describe('formatReminder', () => {
+    it('should name today and tomorrow and add the year only when it differs', () => {
+      expect(formatReminder(new Date(2025, 2, 1, 15, 30).toISOString(), now)).toBe('Today 3:30 PM')
+      expect(formatReminder(new Date(2025, 2, 2, 9, 0).toISOString(), now)).toBe('Tomorrow 9:00 AM')
+      expect(formatReminder(new Date(2025, 3, 4, 9, 0).toISOString(), now)).toBe('Apr 4, 9:00 AM')
+      expect(formatReminder(new Date(2026, 0, 4, 9, 0).toISOString(), now)).toBe('Jan 4, 2026, 9:00 AM')
+    })
+  })
+
+  describe('datetime input values', () => {
+    it('should convert reminders to and from datetime-local values in local time', () => {
+      const reminderAt = new Date(2025, 2, 1, 15, 30).toISOString()
+
+      expect(toDateTimeInputValue(reminderAt)).toBe('2025-03-01T15:30')
+      expect(fromDateTimeInputValue('2025-03-01T15:30')).toBe(reminderAt)
+      expect(toDateTimeInputValue(undefined)).toBe('')
+      expect(fromDateTimeInputValue('')).toBeUndefined()
+    })
+  })
+
+  describe('SNOOZE_OPTIONS', () => {
+    it('should snooze for minutes or until tomorrow morning', () => {
+      expect(SNOOZE_OPTIONS.map(option => option.getTime(now))).toEqual([
+        new Date(2025, 2, 1, 9, 10),
+        new Date(2025, 2, 1, 10, 0),
+        new Date(2025, 2, 2, 9, 0)
+      ])
+    })
+  })
+})
@@ -0,0 +1,66 @@
+import { addDays, addMinutes, format, isSameDay, setHours, startOfDay } from 'date-fns';
+import type { TaskData } from '../types/task';
+
+export interface SnoozeOption {
+    label: string;
+    getTime: (now: Date) => Date;
+}
+
+/**
+ * How long a reminder can be put off from the Bell panel
+ */
+export const SNOOZE_OPTIONS: SnoozeOption[] = [
+    { label: '10 minutes', getTime: now => addMinutes(now, 10) },
+    { label: '1 hour', getTime: now => addMinutes(now, 60) },
+    { label: 'Tomorrow morning', getTime: now => setHours(startOfDay(addDays(now, 1)), 9) },
+];
+
+/**
+ * Identifies one reminder of a task, so a rescheduled reminder goes off again
+ */
+export const getReminderKey = (task: TaskData): string => `${task.id}@${task.reminderAt}`;
+
+/**
+ * Whether a task's reminder should be able to go off (set, valid, and the task still open)
+ */
+export const hasActiveReminder = (task: TaskData): boolean => {
+    return !!task.reminderAt && task.status === 'active' && !Number.isNaN(new Date(task.reminderAt).getTime());
+};
+
+/**
+ * Splits the tasks with reminders into ones that have gone off (latest first) and upcoming ones (soonest first)
+ */
+export const groupReminders = (tasks: TaskData[], now: Date): { past: TaskData[]; upcoming: TaskData[] } => {
+    const withReminders = tasks.filter(hasActiveReminder);
+    const time = (task: TaskData) => new Date(task.reminderAt!).getTime();
+    return {
+        past: withReminders.filter(task => time(task) <= now.getTime()).sort((a, b) => time(b) - time(a)),
+        upcoming: withReminders.filter(task => time(task) > now.getTime()).sort((a, b) => time(a) - time(b)),
+    };
+};
+
+/**
+ * Describes a reminder time, e.g. "Today 3:30 PM" or "Mar 4, 9:00 AM"
+ */
+export const formatReminder = (reminderAt: string, now: Date = new Date()): string => {
+    const date = new Date(reminderAt);
+    if (isSameDay(date, now)) return `Today ${format(date, 'h:mm a')}`;
+    if (isSameDay(date, addDays(now, 1))) return `Tomorrow ${format(date, 'h:mm a')}`;
+    return format(date, date.getFullYear() === now.getFullYear() ? 'MMM d, h:mm a' : 'MMM d, yyyy, h:mm a');
+};
+
+/**
+ * Converts a reminder to the value of a datetime-local input (local time, minute precision)
+ */
+export const toDateTimeInputValue = (reminderAt: string | undefined): string => {
+    return reminderAt ? format(new Date(reminderAt), "yyyy-MM-dd'T'HH:mm") : '';
+};
+
+/**
+ * Converts the value of a datetime-local input to a reminder, or undefined when cleared
+ */
+export const fromDateTimeInputValue = (value: string): string | undefined => {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+};
@@ -56,7 +56,7 @@ function delay(ms: number): Promise<void> {
 /**
  * Calculates delay with exponential backoff
  */
-function calculateDelay(
+export function calculateDelay(
   attempt: number,
   initialDelay: number,
   maxDelay: number,
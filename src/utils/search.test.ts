@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest'
+import { getSearchTerms, matchesSearchTerms, getSearchSnippet } from './search'
+
+describe('search', () => {
+  describe('getSearchTerms', () => {
+    it('should split the query into lowercase words', () => {
+      expect(getSearchTerms('  Launch   POST ')).toEqual(['launch', 'post'])
+      expect(getSearchTerms('   ')).toEqual([])
+    })
+  })
+
+  describe('matchesSearchTerms', () => {
+    it('should match when every term appears in any field', () => {
+      expect(matchesSearchTerms(['Launch', undefined, 'blog post'], ['launch', 'post'])).toBe(true)
+      expect(matchesSearchTerms(['Launch'], ['launch', 'post'])).toBe(false)
+    })
+  })
+
+  describe('getSearchSnippet', () => {
+    it('should keep short text as is', () => {
+      expect(getSearchSnippet('Ship the\nroadmap', 'roadmap')).toBe('Ship the roadmap')
+    })
+
+    it('should excerpt long text around the first match', () => {
+      const text = `${'a'.repeat(100)} roadmap ${'b'.repeat(100)}`
+      const snippet = getSearchSnippet(text, 'roadmap', 10)
+
+      expect(snippet).toBe(`…${'a'.repeat(9)} roadmap ${'b'.repeat(2)}…`)
+    })
+  })
+})
@@ -0,0 +1,68 @@
+import type { TaskData } from '../types/task';
+import type { SidebarConfigData } from '../types/sidebar';
+import type { SearchResults } from '../types/search';
+
+export const EMPTY_SEARCH_RESULTS: SearchResults = { tasks: [], sections: [], journalEntries: [] };
+
+/**
+ * Split a query into lowercase terms
+ */
+export const getSearchTerms = (query: string): string[] => {
+    return query.toLowerCase().split(/\s+/).filter(Boolean);
+};
+
+/**
+ * Check whether every term appears somewhere in the given fields (case-insensitive)
+ */
+export const matchesSearchTerms = (fields: (string | undefined)[], terms: string[]): boolean => {
+    const haystack = fields.filter(Boolean).join(' ').toLowerCase();
+    return terms.every(term => haystack.includes(term));
+};
+
+/**
+ * Search tasks, note sections and journal entries held in memory
+ * Used by LocalDataService and as the ApiDataService offline fallback
+ * @param tasks - All tasks to search (title, description and tags)
+ * @param config - Sidebar config whose areas/projects hold sections and journal entries
+ * @param query - Free text; every word must match
+ * @returns Results grouped by type
+ */
+export const searchLocalData = (tasks: TaskData[], config: SidebarConfigData, query: string): SearchResults => {
+    const terms = getSearchTerms(query);
+    if (terms.length === 0) return EMPTY_SEARCH_RESULTS;
+
+    const lists = [...config.areas, ...config.projects];
+
+    return {
+        tasks: tasks.filter(task => matchesSearchTerms([task.title, task.description, ...(task.tags ?? [])], terms)),
+        sections: lists.flatMap(list => (list.sections ?? [])
+            .filter(section => matchesSearchTerms([section.title, section.content], terms))
+            .map(section => ({ listId: list.key, listTitle: list.title, section }))),
+        journalEntries: lists.flatMap(list => (list.journal ?? [])
+            .filter(entry => matchesSearchTerms([entry.content], terms))
+            .map(entry => ({ listId: list.key, listTitle: list.title, entry }))),
+    };
+};
+
+/**
+ * Build a short excerpt of text around the first matching term
+ * @param text - Text to excerpt
+ * @param query - Search query
+ * @param radius - Characters to keep on each side of the match
+ */
+export const getSearchSnippet = (text: string, query: string, radius = 40): string => {
+    const flattened = text.replace(/\s+/g, ' ').trim();
+    const lower = flattened.toLowerCase();
+    const index = getSearchTerms(query)
+        .map(term => lower.indexOf(term))
+        .filter(i => i >= 0)
+        .reduce((min, i) => Math.min(min, i), Infinity);
+
+    if (index === Infinity) {
+        return flattened.length > radius * 2 ? `${flattened.slice(0, radius * 2)}…` : flattened;
+    }
+
+    const start = Math.max(0, index - radius);
+    const end = Math.min(flattened.length, index + radius);
+    return `${start > 0 ? '…' : ''}${flattened.slice(start, end)}${end < flattened.length ? '…' : ''}`;
+};
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest'
+import {
+  collectTags,
+  completeTagInput,
+  flattenTagTree,
+  getTagDescendants,
+  getTagSuggestions,
+  normalizeTagName,
+  replaceFilterTag,
+  replaceSmartListTag,
+  replaceTaskTag
+} from './tags'
+import type { TaskData } from '../types/task'
+import type { TagData } from '../types/tags'
+import type { SidebarItemData } from '../types/sidebar'
+
+describe('tags', () => {
+  const tags: TagData[] = [
+    { name: 'work', color: 'blue' },
+    { name: 'meetings', color: 'amber', parent: 'work' },
+    { name: 'standup', color: 'gray', parent: 'meetings' },
+    { name: 'home', color: 'rose' },
+    { name: 'email', color: 'purple', parent: 'work' }
+  ]
+
+  const task = (id: string, taskTags?: string[]): TaskData => ({
+    id,
+    title: `Task ${id}`,
+    priority: 'low',
+    status: 'active',
+    tags: taskTags,
+    createdAt: '2025-01-01T00:00:00Z',
+    updatedAt: '2025-01-01T00:00:00Z'
+  })
+
+  describe('collectTags', () => {
+    it('should add tags only typed on tasks with the default color', () => {
+      const result = collectTags(tags, [task('1', ['work', 'zeta']), task('2', ['alpha']), task('3')])
+
+      expect(result.slice(0, tags.length)).toEqual(tags)
+      expect(result.slice(tags.length)).toEqual([
+        { name: 'alpha', color: 'emerald' },
+        { name: 'zeta', color: 'emerald' }
+      ])
+    })
+  })
+
+  describe('tag tree', () => {
+    it('should find nested tags at any depth', () => {
+      expect(getTagDescendants(tags, 'work').sort()).toEqual(['email', 'meetings', 'standup'])
+      expect(getTagDescendants(tags, 'home')).toEqual([])
+    })
+
+    it('should order tags as a tree with their depth', () => {
+      const tree = flattenTagTree(tags).map(({ tag, depth }) => `${depth}:${tag.name}`)
+
+      expect(tree).toEqual(['0:home', '0:work', '1:email', '1:meetings', '2:standup'])
+    })
+
+    it('should show tags whose parent is gone at the top level', () => {
+      const tree = flattenTagTree([{ name: 'orphan', color: 'gray', parent: 'missing' }])
+
+      expect(tree).toEqual([{ tag: { name: 'orphan', color: 'gray', parent: 'missing' }, depth: 0 }])
+    })
+  })
+
+  describe('replaceTaskTag', () => {
+    it('should rename a tag without duplicating it and leave other tasks alone', () => {
+      const untouched = task('2', ['home'])
+      const [renamed, same] = replaceTaskTag([task('1', ['old', 'new']), untouched], 'old', 'new')
+
+      expect(renamed.tags).toEqual(['new'])
+      expect(same).toBe(untouched)
+    })
+
+    it('should clear the tags of a task whose only tag is removed', () => {
+      const [updated] = replaceTaskTag([task('1', ['old'])], 'old', undefined)
+
+      expect(updated.tags).toBeUndefined()
+    })
+  })
+
+  describe('replaceFilterTag', () => {
+    it('should rename or remove a tag in a saved filter and keep other filters as they are', () => {
+      const filter = { tags: ['old', 'new'], priorities: ['high' as const] }
+
+      expect(replaceFilterTag(filter, 'old', 'new')).toEqual({ tags: ['new'], priorities: ['high'] })
+      expect(replaceFilterTag({ tags: ['old'] }, 'old', undefined)).toEqual({ tags: undefined })
+      expect(replaceFilterTag(filter, 'other', 'new')).toBe(filter)
+    })
+
+    it('should only change smart lists whose filter uses the tag', () => {
+      const smartList = (key: string, filter?: SidebarItemData['filter']): SidebarItemData => ({
+        key, iconName: 'Layers', title: key, count: 0, priority: 'medium', showCount: true, filter
+      })
+      const builtIn = smartList('inbox')
+      const other = smartList('home', { tags: ['home'] })
+
+      const [renamed, ...rest] = replaceSmartListTag([smartList('errands', { tags: ['old'] }), builtIn, other], 'old', 'new')
+
+      expect(renamed.filter).toEqual({ tags: ['new'] })
+      expect(rest[0]).toBe(builtIn)
+      expect(rest[1]).toBe(other)
+    })
+  })
+
+  describe('normalizeTagName', () => {
+    it('should trim names and reject empty or comma-separated ones', () => {
+      expect(normalizeTagName('  work ')).toBe('work')
+      expect(() => normalizeTagName('  ')).toThrow('Tag name is required')
+      expect(() => normalizeTagName('a, b')).toThrow('Tag names cannot contain commas')
+    })
+  })
+
+  describe('autocomplete', () => {
+    it('should suggest tags for the one being typed, prefix matches first', () => {
+      const suggestions = getTagSuggestions(tags, 'home, m')
+
+      expect(suggestions.map(tag => tag.name)).toEqual(['meetings', 'email'])
+    })
+
+    it('should leave out tags already entered and suggest nothing for an empty tag', () => {
+      expect(getTagSuggestions(tags, 'work, wo')).toEqual([])
+      expect(getTagSuggestions(tags, 'work, ')).toEqual([])
+    })
+
+    it('should replace the tag being typed with the picked one', () => {
+      expect(completeTagInput('home, me', 'meetings')).toBe('home, meetings, ')
+      expect(completeTagInput('', 'work')).toBe('work, ')
+    })
+  })
+})
@@ -0,0 +1,159 @@
+import { TagColorSchema } from '../schemas';
+import type { TaskData, TaskFilterCriteria } from '../types/task';
+import type { SidebarItemData } from '../types/sidebar';
+import type { TagColor, TagData } from '../types/tags';
+
+export const TAG_COLORS: readonly TagColor[] = TagColorSchema.options;
+
+/**
+ * Color of tags that were typed on a task before being customized
+ */
+export const DEFAULT_TAG_COLOR: TagColor = 'emerald';
+
+/**
+ * Classes for each tag color: `chip` for tags on tasks, `swatch` for color dots
+ */
+export const TAG_COLOR_CLASSES: Record<TagColor, { chip: string; swatch: string }> = {
+    emerald: { chip: 'bg-glow-emerald text-emerald', swatch: 'bg-emerald' },
+    purple: { chip: 'bg-tag-purple text-purpureus', swatch: 'bg-purpureus' },
+    blue: { chip: 'bg-sky-500/20 text-sky-400', swatch: 'bg-sky-400' },
+    amber: { chip: 'bg-amber-500/20 text-amber-400', swatch: 'bg-amber-400' },
+    rose: { chip: 'bg-rose-500/20 text-rose-400', swatch: 'bg-rose-400' },
+    gray: { chip: 'bg-tag-gray text-muted-foreground', swatch: 'bg-davys-gray' },
+};
+
+/**
+ * Lists every tag: the saved ones, then tags only typed on tasks (with the default color)
+ * @param tags - Saved tags
+ * @param tasks - All tasks
+ */
+export const collectTags = (tags: TagData[], tasks: TaskData[]): TagData[] => {
+    const known = new Set(tags.map(tag => tag.name));
+    const typed = [...new Set(tasks.flatMap(task => task.tags ?? []))]
+        .filter(name => !known.has(name))
+        .sort((a, b) => a.localeCompare(b));
+    return [...tags, ...typed.map(name => ({ name, color: DEFAULT_TAG_COLOR }))];
+};
+
+/**
+ * Names of the tags nested under a tag, at any depth
+ */
+export const getTagDescendants = (tags: TagData[], name: string): string[] => {
+    const descendants: string[] = [];
+    const visit = (parent: string) => {
+        tags.forEach(tag => {
+            if (tag.parent === parent && tag.name !== name && !descendants.includes(tag.name)) {
+                descendants.push(tag.name);
+                visit(tag.name);
+            }
+        });
+    };
+    visit(name);
+    return descendants;
+};
+
+/**
+ * Orders tags as a tree (alphabetical within each level) with each tag's nesting depth
+ * Tags whose parent no longer exists are shown at the top level.
+ */
+export const flattenTagTree = (tags: TagData[]): { tag: TagData; depth: number }[] => {
+    const names = new Set(tags.map(tag => tag.name));
+    const byName = (a: TagData, b: TagData) => a.name.localeCompare(b.name);
+    const result: { tag: TagData; depth: number }[] = [];
+    const visit = (tag: TagData, depth: number) => {
+        result.push({ tag, depth });
+        tags.filter(child => child.parent === tag.name).sort(byName).forEach(child => visit(child, depth + 1));
+    };
+    tags.filter(tag => !tag.parent || !names.has(tag.parent)).sort(byName).forEach(tag => visit(tag, 0));
+    return result;
+};
+
+/**
+ * Moves the tags nested under one tag to another (or to the top level)
+ */
+export const reparentTags = (tags: TagData[], from: string, to: string | undefined): TagData[] => {
+    return tags.map(tag => tag.parent === from ? { ...tag, parent: to } : tag);
+};
+
+/**
+ * Replaces a tag on every task that has it, or removes it when there's no replacement
+ * @returns A new array of tasks; tasks without the tag are returned unchanged
+ */
+export const replaceTaskTag = (tasks: TaskData[], name: string, replacement: string | undefined): TaskData[] => {
+    const now = new Date().toISOString();
+    return tasks.map(task => {
+        if (!task.tags?.includes(name)) return task;
+        const tags = [...new Set(task.tags.flatMap(tag => tag === name ? (replacement ? [replacement] : []) : [tag]))];
+        return { ...task, tags: tags.length > 0 ? tags : undefined, updatedAt: now };
+    });
+};
+
+/**
+ * Replaces a tag in a saved filter, or removes it when there's no replacement
+ * @returns The filter unchanged when it doesn't use the tag, otherwise an updated copy
+ */
+export const replaceFilterTag = (filter: TaskFilterCriteria, name: string, replacement: string | undefined): TaskFilterCriteria => {
+    if (!filter.tags?.includes(name)) return filter;
+    const tags = [...new Set(filter.tags.flatMap(tag => tag === name ? (replacement ? [replacement] : []) : [tag]))];
+    return { ...filter, tags: tags.length > 0 ? tags : undefined };
+};
+
+/**
+ * Replaces a tag in the saved filters of smart lists, or removes it when there's no replacement
+ * @returns A new array of smart lists; lists whose filter doesn't use the tag are returned unchanged
+ */
+export const replaceSmartListTag = (smartLists: SidebarItemData[], name: string, replacement: string | undefined): SidebarItemData[] => {
+    return smartLists.map(smartList => {
+        const filter = smartList.filter && replaceFilterTag(smartList.filter, name, replacement);
+        return filter === smartList.filter ? smartList : { ...smartList, filter };
+    });
+};
+
+/**
+ * Checks a tag name typed by the user
+ * @returns The trimmed name
+ * @throws Error if the name is empty or contains a comma (tags are typed comma-separated)
+ */
+export const normalizeTagName = (name: string): string => {
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error('Tag name is required');
+    if (trimmed.includes(',')) throw new Error('Tag names cannot contain commas');
+    return trimmed;
+};
+
+/**
+ * Splits a comma-separated tag string into trimmed tags
+ */
+export const parseTagInput = (value: string): string[] => {
+    return value.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0);
+};
+
+/**
+ * Suggests tags for the one being typed at the end of a comma-separated tag string
+ * Tags starting with the typed text come first; tags already entered are left out.
+ * @param tags - Every tag
+ * @param value - The tag string typed so far
+ * @param limit - Most suggestions to return
+ */
+export const getTagSuggestions = (tags: TagData[], value: string, limit = 6): TagData[] => {
+    const parts = value.split(',');
+    const current = parts[parts.length - 1].trim();
+    const typed = current.toLowerCase();
+    if (!typed) return [];
+
+    // Tags already entered, plus the typed one once it's complete
+    const entered = new Set([...parts.slice(0, -1).map(part => part.trim()), current]);
+    const matches = tags.filter(tag => !entered.has(tag.name) && tag.name.toLowerCase().includes(typed));
+    const startsWithTyped = (tag: TagData) => tag.name.toLowerCase().startsWith(typed) ? 0 : 1;
+    return matches
+        .sort((a, b) => startsWithTyped(a) - startsWithTyped(b) || a.name.localeCompare(b.name))
+        .slice(0, limit);
+};
+
+/**
+ * Replaces the tag being typed with a picked suggestion, ready for the next tag
+ */
+export const completeTagInput = (value: string, name: string): string => {
+    const entered = value.split(',').slice(0, -1).map(part => part.trim()).filter(part => part.length > 0);
+    return [...entered, name].join(', ') + ', ';
+};
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import { exportTasksToCsv, exportTasksToMarkdown, getExportFileName, resolveListTitle } from './taskExport'
+import type { SidebarConfigData } from '../types/sidebar'
+import { task } from '../test/fixtures'
+
+const sidebar: SidebarConfigData = {
+  smartLists: [{ key: 'today', iconName: 'Star', title: 'Today', count: 0 }],
+  areas: [{ key: 'work', iconName: 'Briefcase', title: 'Work', count: 0 }],
+  projects: [{ key: 'website', iconName: 'Globe', title: 'Website', count: 0 }],
+}
+
+describe('resolveListTitle', () => {
+  it('should find smart lists, areas and projects by key', () => {
+    expect(resolveListTitle(sidebar, 'today')).toBe('Today')
+    expect(resolveListTitle(sidebar, 'work')).toBe('Work')
+    expect(resolveListTitle(sidebar, 'website')).toBe('Website')
+    expect(resolveListTitle(sidebar, 'missing')).toBeUndefined()
+    expect(resolveListTitle(sidebar, null)).toBeUndefined()
+  })
+})
+
+describe('exportTasksToCsv', () => {
+  it('should write a header and one row per task with the list name', () => {
+    const csv = exportTasksToCsv([
+      task('a', { title: 'Plan launch', priority: 'high', dueDate: '2025-02-01', tags: ['q1', 'marketing'], listId: 'website' }),
+      task('b', { title: 'Tidy desk', status: 'completed' }),
+    ], sidebar)
+
+    expect(csv.split('\r\n')).toEqual([
+      'Title,Description,Status,Priority,Due Date,Tags,List',
+      'Plan launch,,active,high,2025-02-01,"q1, marketing",Website',
+      'Tidy desk,,completed,medium,,,',
+      '',
+    ])
+  })
+
+  it('should quote commas, quotes and line breaks', () => {
+    const csv = exportTasksToCsv([task('a', { title: 'Say "hi"', description: 'Line one\nLine two' })], sidebar)
+
+    expect(csv).toContain('"Say ""hi""","Line one\nLine two"')
+  })
+
+  it('should keep spreadsheets from reading values as formulas', () => {
+    const csv = exportTasksToCsv([task('a', { title: '=SUM(A1:A2)' })], sidebar)
+
+    expect(csv).toContain("'=SUM(A1:A2)")
+  })
+})
+
+describe('exportTasksToMarkdown', () => {
+  it('should write a checklist with details and nested subtasks', () => {
+    const tasks = [
+      task('a', { title: 'Plan launch', priority: 'high', dueDate: '2025-02-01', tags: ['q1'], listId: 'website', description: 'Draft the post' }),
+      task('b', { title: 'Tidy desk', status: 'completed' }),
+    ]
+    const allTasks = [...tasks, task('c', { title: 'Pick a date', parentId: 'a', listId: 'website', status: 'completed' })]
+
+    expect(exportTasksToMarkdown('Website', tasks, allTasks, sidebar)).toBe([
+      '# Website',
+      '',
+      '- [ ] Plan launch (high priority · due 2025-02-01 · #q1 · Website)',
+      '  Draft the post',
+      '  - [x] Pick a date',
+      '- [x] Tidy desk',
+      '',
+    ].join('\n'))
+  })
+
+  it('should say when there is nothing to export', () => {
+    expect(exportTasksToMarkdown('Today', [], [], sidebar)).toBe('# Today\n\n_No tasks_\n')
+  })
+})
+
+describe('getExportFileName', () => {
+  it('should build a file name from the list title', () => {
+    expect(getExportFileName('Past Due', 'csv')).toBe('past-due-tasks.csv')
+    expect(getExportFileName('Website', 'markdown')).toBe('website-tasks.md')
+  })
+})
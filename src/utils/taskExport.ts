@@ -0,0 +1,97 @@
+import type { SidebarConfigData } from '../types/sidebar';
+import type { TaskData } from '../types/task';
+import { getSubtasks } from './taskFilters';
+
+export type TaskExportFormat = 'csv' | 'markdown';
+
+export const TASK_EXPORT_FORMATS: Record<TaskExportFormat, { label: string; extension: string; mimeType: string }> = {
+    csv: { label: 'CSV (spreadsheet)', extension: 'csv', mimeType: 'text/csv' },
+    markdown: { label: 'Markdown checklist', extension: 'md', mimeType: 'text/markdown' },
+};
+
+const CSV_COLUMNS = ['Title', 'Description', 'Status', 'Priority', 'Due Date', 'Tags', 'List'];
+
+/**
+ * Looks up the title of a smart list, area or project by key
+ * @returns The title, or undefined if no list has that key
+ */
+export const resolveListTitle = (sidebar: SidebarConfigData | null, listId: string | null | undefined): string | undefined => {
+    if (!sidebar || !listId) return undefined;
+    return [...sidebar.smartLists, ...sidebar.areas, ...sidebar.projects].find(item => item.key === listId)?.title;
+};
+
+/**
+ * Quotes a CSV field when needed (RFC 4180)
+ * Fields starting with a formula character get a leading apostrophe so spreadsheets show them as text.
+ */
+const toCsvField = (value: string): string => {
+    const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+/**
+ * Builds a CSV document with one row per task
+ * @param tasks - Tasks to export, in display order
+ * @param sidebar - Sidebar config used to name each task's list
+ */
+export const exportTasksToCsv = (tasks: TaskData[], sidebar: SidebarConfigData | null): string => {
+    const rows = tasks.map(task => [
+        task.title,
+        task.description ?? '',
+        task.status,
+        task.priority,
+        task.dueDate ?? '',
+        (task.tags ?? []).join(', '),
+        resolveListTitle(sidebar, task.listId) ?? '',
+    ]);
+    return [CSV_COLUMNS, ...rows].map(row => row.map(toCsvField).join(',')).join('\r\n') + '\r\n';
+};
+
+/**
+ * Formats one task as a checklist item, with its details after the title
+ */
+const toChecklistItem = (task: TaskData, sidebar: SidebarConfigData | null, indent: string): string[] => {
+    const details = [
+        task.priority !== 'medium' ? `${task.priority} priority` : '',
+        task.dueDate ? `due ${task.dueDate}` : '',
+        ...(task.tags ?? []).map(tag => `#${tag}`),
+        resolveListTitle(sidebar, task.listId) ?? '',
+    ].filter(Boolean);
+
+    const checkbox = task.status === 'completed' ? '[x]' : '[ ]';
+    const title = details.length > 0 ? `${task.title} (${details.join(' · ')})` : task.title;
+    const description = task.description?.trim()
+        ? task.description.trim().split('\n').map(line => `${indent}  ${line}`.trimEnd())
+        : [];
+
+    return [`${indent}- ${checkbox} ${title}`, ...description];
+};
+
+/**
+ * Builds a GitHub-flavored Markdown checklist, with subtasks nested under their parent
+ * @param title - Heading for the document, usually the list name
+ * @param tasks - Tasks to export, in display order
+ * @param allTasks - Every task, so subtasks can be found
+ * @param sidebar - Sidebar config used to name each task's list
+ */
+export const exportTasksToMarkdown = (
+    title: string,
+    tasks: TaskData[],
+    allTasks: TaskData[],
+    sidebar: SidebarConfigData | null
+): string => {
+    const lines = tasks.flatMap(task => [
+        ...toChecklistItem(task, sidebar, ''),
+        // Subtasks share their parent's list, so it isn't repeated
+        ...getSubtasks(allTasks, task.id).flatMap(subtask => toChecklistItem(subtask, null, '  ')),
+    ]);
+    return [`# ${title}`, '', ...(lines.length > 0 ? lines : ['_No tasks_']), ''].join('\n');
+};
+
+/**
+ * Suggested file name for an export, e.g. "past-due-tasks.csv"
+ */
+export const getExportFileName = (title: string, format: TaskExportFormat): string => {
+    const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'tasks';
+    return `${slug}-tasks.${TASK_EXPORT_FORMATS[format].extension}`;
+};
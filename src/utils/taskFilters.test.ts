@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest'
-import { filterTasksByList } from './taskFilters'
+import { filterTasksByList, getSubtasks, getTaskTreeIds, applyTaskFilters, countActiveFilters, countSavedFilterTasks } from './taskFilters'
 import type { TaskData } from '../types/task'
+import type { SidebarItemData } from '../types/sidebar'
 
 describe('taskFilters', () => {
   let tasks: TaskData[]
@@ -276,6 +277,57 @@ describe('taskFilters', () => {
       })
     })
 
+    describe('Anytime, Someday and Logbook smart lists', () => {
+      beforeEach(() => {
+        tasks[0] = { ...tasks[0], someday: true }
+        tasks[1] = { ...tasks[1], status: 'completed', completedAt: '2025-01-02T00:00:00Z' }
+      })
+
+      it('should show active tasks without a deferral in Anytime', () => {
+        const filtered = filterTasksByList(tasks, 'anytime')
+
+        expect(filtered.map(t => t.id)).toEqual(['3', '4', '5', '6', '7', '8', '9', '10', '11'])
+      })
+
+      it('should show deferred tasks in Someday', () => {
+        expect(filterTasksByList(tasks, 'someday').map(t => t.id)).toEqual(['1'])
+      })
+
+      it('should leave completed deferred tasks out of Someday, like its count', () => {
+        tasks[1] = { ...tasks[1], someday: true }
+
+        expect(filterTasksByList(tasks, 'someday').map(t => t.id)).toEqual(['1'])
+      })
+
+      it('should show completed tasks in the Logbook', () => {
+        expect(filterTasksByList(tasks, 'logbook').map(t => t.id)).toEqual(['2'])
+      })
+    })
+
+    describe('Start dates', () => {
+      beforeEach(() => {
+        tasks[0] = { ...tasks[0], startDate: yesterdayStr }
+        tasks[1] = { ...tasks[1], startDate: tomorrowStr }
+      })
+
+      it('should show started tasks in Today alongside tasks due today', () => {
+        expect(filterTasksByList(tasks, 'today').map(t => t.id)).toEqual(['1', '3'])
+      })
+
+      it('should leave started tasks out of Today once they are completed', () => {
+        tasks[0] = { ...tasks[0], status: 'completed' }
+
+        expect(filterTasksByList(tasks, 'today').map(t => t.id)).toEqual(['3'])
+      })
+
+      it('should hide tasks that start later from Anytime', () => {
+        const filtered = filterTasksByList(tasks, 'anytime')
+
+        expect(filtered.map(t => t.id)).toContain('1')
+        expect(filtered.map(t => t.id)).not.toContain('2')
+      })
+    })
+
     describe('Area/Project lists', () => {
       it('should filter tasks by listId (work area)', () => {
         const filtered = filterTasksByList(tasks, 'work')
@@ -431,5 +483,129 @@ describe('taskFilters', () => {
         expect(filtered).toHaveLength(0)
       })
     })
+
+    describe('User-defined smart lists', () => {
+      const urgent: SidebarItemData = {
+        key: 'urgent',
+        iconName: 'Layers',
+        title: 'Urgent',
+        count: 0,
+        priority: 'low',
+        filter: { priorities: ['low'] }
+      }
+
+      it('should show the tasks matching the saved filter', () => {
+        const filtered = filterTasksByList(tasks, 'urgent', [urgent])
+
+        expect(filtered.map(t => t.id)).toEqual(['5', '11'])
+      })
+
+      it('should treat an unknown key as an area or project', () => {
+        expect(filterTasksByList(tasks, 'urgent')).toEqual([])
+      })
+    })
+  })
+
+  describe('countSavedFilterTasks', () => {
+    const done: TaskData = {
+      id: 'done',
+      title: 'Done',
+      priority: 'low',
+      status: 'completed',
+      createdAt: '2025-01-01T00:00:00Z',
+      updatedAt: '2025-01-01T00:00:00Z'
+    }
+
+    it('should leave completed tasks out of the count', () => {
+      expect(countSavedFilterTasks([...tasks, done], { priorities: ['low'] })).toBe(2)
+    })
+
+    it('should count completed tasks when the filter asks for them', () => {
+      expect(countSavedFilterTasks([...tasks, done], { priorities: ['low'], statuses: ['completed'] })).toBe(1)
+    })
+  })
+
+  describe('subtasks', () => {
+    const parent: TaskData = {
+      id: 'parent',
+      title: 'Parent task',
+      listId: 'work',
+      priority: 'medium',
+      status: 'active',
+      createdAt: '2025-01-01T00:00:00Z',
+      updatedAt: '2025-01-01T00:00:00Z'
+    }
+    const stepB: TaskData = { ...parent, id: 'step-b', title: 'Step B', parentId: 'parent', order: 1 }
+    const stepA: TaskData = { ...parent, id: 'step-a', title: 'Step A', parentId: 'parent', order: 0 }
+
+    it('should exclude subtasks from list results', () => {
+      expect(filterTasksByList([parent, stepB, stepA], 'work')).toEqual([parent])
+      expect(filterTasksByList([parent, stepB, stepA], null)).toEqual([parent])
+    })
+
+    it('should return subtasks of a parent sorted by order', () => {
+      expect(getSubtasks([parent, stepB, stepA], 'parent').map(task => task.id)).toEqual(['step-a', 'step-b'])
+    })
+
+    it('should return an empty array for a task without subtasks', () => {
+      expect(getSubtasks([parent, stepB, stepA], 'step-a')).toEqual([])
+    })
+
+    it('should collect a task and its subtasks at any depth', () => {
+      const nested: TaskData = { ...parent, id: 'step-a-1', parentId: 'step-a' }
+      const other: TaskData = { ...parent, id: 'other' }
+
+      expect(getTaskTreeIds([nested, parent, stepB, stepA, other], 'parent')).toEqual(new Set(['parent', 'step-a', 'step-a-1', 'step-b']))
+    })
+  })
+
+  describe('applyTaskFilters', () => {
+    const ids = (result: TaskData[]) => result.map(task => task.id)
+
+    it('should return all tasks when no criteria are set', () => {
+      expect(applyTaskFilters(tasks, {})).toEqual(tasks)
+    })
+
+    it('should filter by priority', () => {
+      const result = applyTaskFilters(tasks, { priorities: ['low'] })
+      expect(result.length).toBeGreaterThan(0)
+      expect(result.every(task => task.priority === 'low')).toBe(true)
+    })
+
+    it('should match any of the selected tags', () => {
+      expect(ids(applyTaskFilters(tasks, { tags: ['urgent', 'personal'] }))).toEqual(['7', '8'])
+    })
+
+    it('should filter by list', () => {
+      const result = applyTaskFilters(tasks, { listIds: ['home'] })
+      expect(result.every(task => task.listId === 'home')).toBe(true)
+    })
+
+    it('should match text against title, description and tags case-insensitively', () => {
+      expect(ids(applyTaskFilters(tasks, { text: 'YESTERDAY' }))).toEqual(['6'])
+      expect(ids(applyTaskFilters(tasks, { text: 'personal' }))).toEqual(['8'])
+    })
+
+    it('should filter by due date window', () => {
+      expect(ids(applyTaskFilters(tasks, { dueDate: { window: 'overdue' } }))).toEqual(['6'])
+      expect(ids(applyTaskFilters(tasks, { dueDate: { window: 'today' } }))).toEqual(['3'])
+      expect(applyTaskFilters(tasks, { dueDate: { window: 'no_date' } }).every(task => !task.dueDate)).toBe(true)
+    })
+
+    it('should filter by a custom due date range', () => {
+      const result = applyTaskFilters(tasks, { dueDate: { window: 'custom', from: todayStr, to: tomorrowStr } })
+      expect(ids(result)).toEqual(['3', '4'])
+    })
+
+    it('should combine categories with AND', () => {
+      expect(ids(applyTaskFilters(tasks, { priorities: ['high'], dueDate: { window: 'overdue' } }))).toEqual(['6'])
+      expect(applyTaskFilters(tasks, { priorities: ['low'], dueDate: { window: 'overdue' } })).toHaveLength(0)
+    })
+
+    it('should count active filter values', () => {
+      expect(countActiveFilters({})).toBe(0)
+      expect(countActiveFilters({ text: '  ' })).toBe(0)
+      expect(countActiveFilters({ text: 'a', priorities: ['low', 'high'], dueDate: { window: 'today' } })).toBe(4)
+    })
   })
 })
@@ -1,20 +1,33 @@
-import type { TaskData } from '../types/task';
+import type { TaskData, TaskFilterCriteria, TaskStatus } from '../types/task';
+import type { SidebarItemData } from '../types/sidebar';
 
 /**
  * Helper function to parse date strings consistently (as local dates, not UTC)
  */
-const parseDate = (dateString: string): Date => {
+export const parseDate = (dateString: string): Date => {
     const [year, month, day] = dateString.split('-').map(Number);
     return new Date(year, month - 1, day); // month is 0-indexed
 };
 
+/**
+ * Check whether a task's start date has arrived (tasks without one can be started any time)
+ * @param today - Start of the current day
+ */
+export const hasStarted = (task: TaskData, today: Date): boolean => {
+    return !task.startDate || parseDate(task.startDate) <= today;
+};
+
 /**
  * Filter tasks based on smart list or regular list
  * @param tasks - Array of tasks to filter
  * @param listId - ID of the list/smart list (null = all tasks)
+ * @param smartLists - Smart lists from the sidebar config, to look up user-defined ones
  * @returns Filtered array of tasks
  */
-export const filterTasksByList = (tasks: TaskData[], listId: string | null): TaskData[] => {
+export const filterTasksByList = (allTasks: TaskData[], listId: string | null, smartLists: SidebarItemData[] = []): TaskData[] => {
+    // Subtasks are shown inside their parent, never as list entries
+    const tasks = allTasks.filter(task => !task.parentId);
+
     // If no list selected, return all tasks
     if (!listId) return tasks;
 
@@ -30,8 +43,9 @@ export const filterTasksByList = (tasks: TaskData[], listId: string | null): Tas
             return tasks.filter(task => !task.dueDate && !task.listId);
 
         case 'today':
-            // Tasks due today
+            // Tasks due today, plus open tasks whose start date has arrived
             return tasks.filter(task => {
+                if (task.startDate && task.status === 'active' && hasStarted(task, today)) return true;
                 if (!task.dueDate) return false;
                 const dueDate = parseDate(task.dueDate);
                 return dueDate.getFullYear() === today.getFullYear() &&
@@ -59,8 +73,152 @@ export const filterTasksByList = (tasks: TaskData[], listId: string | null): Tas
             // Tasks with tags
             return tasks.filter(task => task.tags && task.tags.length > 0);
 
-        default:
+        case 'anytime':
+            // Active tasks that haven't been deferred to Someday or to a later start date
+            return tasks.filter(task => task.status === 'active' && !task.someday && hasStarted(task, today));
+
+        case 'someday':
+            // Open tasks deferred until the user picks them up again (finished ones move to the Logbook)
+            return tasks.filter(task => task.someday && task.status !== 'completed');
+
+        case 'logbook':
+            // Completed tasks (shown grouped by completion date)
+            return tasks.filter(task => task.status === 'completed');
+
+        default: {
+            // User-defined smart lists show the tasks matching their saved filter
+            const savedFilter = smartLists.find(item => item.key === listId)?.filter;
+            if (savedFilter) return applyTaskFilters(tasks, savedFilter);
+
             // For areas/projects, filter by listId
             return tasks.filter(task => task.listId === listId);
+        }
+    }
+};
+
+/**
+ * Get the subtasks (checklist items) of a task, sorted by order
+ * @param tasks - Array of tasks to search
+ * @param parentId - ID of the parent task
+ * @returns Subtasks of the parent in display order
+ */
+export const getSubtasks = (tasks: TaskData[], parentId: string): TaskData[] => {
+    return tasks
+        .filter(task => task.parentId === parentId)
+        .sort((a, b) => (a.order ?? Number.MAX_SAFE_INTEGER) - (b.order ?? Number.MAX_SAFE_INTEGER));
+};
+
+/**
+ * Get the IDs of a task and every task nested under it, at any depth
+ * @param tasks - Array of tasks to search
+ * @param ids - ID(s) of the task at the top of the tree
+ * @returns The task's ID(s) and all of its descendants' IDs
+ */
+export const getTaskTreeIds = (tasks: TaskData[], ...ids: string[]): Set<string> => {
+    const treeIds = new Set(ids);
+    let added = true;
+    while (added) {
+        added = false;
+        for (const task of tasks) {
+            if (task.parentId && treeIds.has(task.parentId) && !treeIds.has(task.id)) {
+                treeIds.add(task.id);
+                added = true;
+            }
+        }
+    }
+    return treeIds;
+};
+
+/**
+ * Status shown by each of MainContent's status tabs (1 = All, 2 = Active, 3 = Completed)
+ */
+export const getStatusForFilterKey = (filterKey: number): TaskStatus | undefined => {
+    if (filterKey === 2) return 'active';
+    if (filterKey === 3) return 'completed';
+    return undefined;
+};
+
+/**
+ * Filter criteria with nothing selected (shared so it keeps a stable identity)
+ */
+export const EMPTY_FILTERS: TaskFilterCriteria = {};
+
+/**
+ * Count how many individual filter values are active
+ */
+export const countActiveFilters = (criteria: TaskFilterCriteria): number => {
+    return (criteria.text?.trim() ? 1 : 0) +
+        (criteria.priorities?.length ?? 0) +
+        (criteria.statuses?.length ?? 0) +
+        (criteria.tags?.length ?? 0) +
+        (criteria.listIds?.length ?? 0) +
+        (criteria.dueDate ? 1 : 0);
+};
+
+/**
+ * Check whether a due date matches a due date filter window
+ */
+const matchesDueDate = (dueDate: string | undefined, filter: NonNullable<TaskFilterCriteria['dueDate']>): boolean => {
+    if (filter.window === 'no_date') return !dueDate;
+    if (!dueDate) return false;
+
+    const date = parseDate(dueDate);
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const daysFromToday = (days: number) => {
+        const result = new Date(today);
+        result.setDate(today.getDate() + days);
+        return result;
+    };
+
+    switch (filter.window) {
+        case 'overdue':
+            return date < today;
+        case 'today':
+            return date.getTime() === today.getTime();
+        case 'next_7_days':
+            return date >= today && date <= daysFromToday(7);
+        case 'next_30_days':
+            return date >= today && date <= daysFromToday(30);
+        case 'custom':
+            return (!filter.from || date >= parseDate(filter.from)) &&
+                   (!filter.to || date <= parseDate(filter.to));
     }
 };
+
+/**
+ * Apply filter criteria on top of a list's tasks
+ * Categories combine with AND; values within a category combine with OR
+ * @param tasks - Array of tasks to filter (usually the result of filterTasksByList)
+ * @param criteria - Filter criteria from the filter panel
+ * @returns Tasks matching every active category
+ */
+export const applyTaskFilters = (tasks: TaskData[], criteria: TaskFilterCriteria): TaskData[] => {
+    const text = criteria.text?.trim().toLowerCase();
+
+    return tasks.filter(task => {
+        if (text) {
+            const haystack = [task.title, task.description ?? '', ...(task.tags ?? [])].join(' ').toLowerCase();
+            if (!haystack.includes(text)) return false;
+        }
+        if (criteria.priorities?.length && !criteria.priorities.includes(task.priority)) return false;
+        if (criteria.statuses?.length && !criteria.statuses.includes(task.status)) return false;
+        if (criteria.tags?.length && !criteria.tags.some(tag => task.tags?.includes(tag))) return false;
+        if (criteria.listIds?.length && !(task.listId && criteria.listIds.includes(task.listId))) return false;
+        if (criteria.dueDate && !matchesDueDate(task.dueDate, criteria.dueDate)) return false;
+        return true;
+    });
+};
+
+/**
+ * Count the tasks shown on a user-defined smart list's badge
+ * Like the built-in lists, completed tasks aren't counted unless the filter picks statuses itself.
+ * @param tasks - Top-level tasks
+ * @param criteria - The smart list's saved filter
+ */
+export const countSavedFilterTasks = (tasks: TaskData[], criteria: TaskFilterCriteria): number => {
+    const matches = applyTaskFilters(tasks, criteria);
+    return criteria.statuses?.length
+        ? matches.length
+        : matches.filter(task => task.status !== 'completed').length;
+};
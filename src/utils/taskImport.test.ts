@@ -0,0 +1,103 @@
+import { describe, it, expect, vi } from 'vitest'
+import { applyImportPlan, buildImportPlan, countPlannedTasks, toImportDate } from './taskImport'
+import { parseICalendarTodos, parseTodoTxt, parseTodoistCsv } from './importFormats'
+import type { ImportPlan } from '../types/import'
+import type { SidebarItemData } from '../types/sidebar'
+import type { CreateTaskInput, TaskData } from '../types/task'
+
+describe('toImportDate', () => {
+  it('should keep ISO dates and read other dates in local time', () => {
+    expect(toImportDate('2025-02-01')).toBe('2025-02-01')
+    expect(toImportDate('2025-02-01T23:30:00Z')).toBe('2025-02-01')
+    expect(toImportDate('Feb 1 2025')).toBe('2025-02-01')
+    expect(toImportDate('every day')).toBeUndefined()
+    expect(toImportDate('')).toBeUndefined()
+  })
+})
+
+describe('buildImportPlan', () => {
+  it('should map records onto tasks with the suggested mapping', () => {
+    const source = parseTodoTxt('(A) Call the bank +Finances @phone due:2025-02-01\nx Water plants')
+
+    const plan = buildImportPlan(source, source.mapping)
+
+    expect(plan.lists).toEqual([{ title: 'Finances', kind: 'project' }])
+    expect(plan.tasks).toEqual([
+      {
+        input: { title: 'Call the bank', priority: 'high', status: 'active', dueDate: '2025-02-01', tags: ['phone'], description: undefined },
+        listTitle: 'Finances',
+        subtasks: [],
+      },
+      {
+        input: { title: 'Water plants', priority: 'medium', status: 'completed', dueDate: undefined, tags: undefined, description: undefined },
+        listTitle: undefined,
+        subtasks: [],
+      },
+    ])
+  })
+
+  it('should follow a changed mapping', () => {
+    const source = parseTodoistCsv('TYPE,CONTENT,DESCRIPTION,PRIORITY,INDENT,DATE\ntask,Write brief @work,Goals,1,1,2025-02-01\ntask,Outline,,4,2,', 'Launch.csv')
+
+    const plan = buildImportPlan(source, { ...source.mapping, labels: 'ignore', project: 'ignore', date: 'description' })
+
+    expect(plan.lists).toEqual([])
+    expect(plan.tasks[0]).toEqual({
+      input: { title: 'Write brief', description: 'Goals\n\n2025-02-01', priority: 'high', status: 'active', dueDate: undefined, tags: undefined },
+      listTitle: undefined,
+      subtasks: [expect.objectContaining({ input: expect.objectContaining({ title: 'Outline' }) })],
+    })
+    expect(countPlannedTasks(plan)).toBe(2)
+  })
+
+  it('should keep multi-word tags whole', () => {
+    const source = parseICalendarTodos('BEGIN:VCALENDAR\r\nBEGIN:VTODO\r\nSUMMARY:File taxes\r\nCATEGORIES:Home Office,Errands\r\nEND:VTODO\r\nEND:VCALENDAR')
+
+    const plan = buildImportPlan(source, source.mapping)
+
+    expect(plan.tasks[0].input.tags).toEqual(['Home Office', 'Errands'])
+  })
+
+  it('should skip records without a title', () => {
+    const source = parseTodoTxt('+Home @errands\nBuy milk')
+
+    const plan = buildImportPlan(source, source.mapping)
+
+    expect(plan.tasks.map(task => task.input.title)).toEqual(['Buy milk'])
+    expect(plan.skipped).toBe(1)
+  })
+})
+
+describe('applyImportPlan', () => {
+  const list = (key: string, title: string): SidebarItemData => ({ key, title, iconName: 'Folder', count: 0, priority: 'medium' })
+
+  it('should reuse existing lists, create missing ones and nest subtasks', async () => {
+    let nextId = 0
+    const service = {
+      getSidebarConfig: vi.fn(async () => ({ smartLists: [], areas: [list('home', 'Home')], projects: [] })),
+      addArea: vi.fn(async (title: string) => list('work', title)),
+      addProject: vi.fn(async (title: string) => list('website', title)),
+      createTask: vi.fn(async (input: CreateTaskInput) => ({ ...input, id: `task-${++nextId}` }) as TaskData),
+    }
+    const plan: ImportPlan = {
+      lists: [{ title: 'home', kind: 'area' }, { title: 'Work', kind: 'area' }, { title: 'Website', kind: 'project', dueDate: '2025-03-01' }],
+      tasks: [
+        { input: { title: 'Fix sink' }, listTitle: 'Home', subtasks: [{ input: { title: 'Buy washer' }, subtasks: [] }] },
+        { input: { title: 'Launch' }, listTitle: 'website', subtasks: [] },
+      ],
+      skipped: 0,
+    }
+
+    const result = await applyImportPlan(plan, service)
+
+    expect(service.addArea).toHaveBeenCalledTimes(1)
+    expect(service.addArea).toHaveBeenCalledWith('Work', undefined, undefined, undefined)
+    expect(service.addProject).toHaveBeenCalledWith('Website', undefined, undefined, undefined, '2025-03-01')
+    expect(service.createTask.mock.calls.map(([input]) => input)).toEqual([
+      { title: 'Fix sink', listId: 'home' },
+      { title: 'Buy washer', listId: 'home', parentId: 'task-1' },
+      { title: 'Launch', listId: 'website' },
+    ])
+    expect(result).toEqual({ listsCreated: 2, tasksCreated: 3 })
+  })
+})
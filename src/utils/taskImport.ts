@@ -0,0 +1,170 @@
+import { format, isValid } from 'date-fns';
+import type { IDataService } from '../services/IDataService';
+import type { TaskPriority, TaskStatus } from '../types/task';
+import type { ImportFieldMapping, ImportPlan, ImportRecord, ImportSource, ImportTargetField, ImportedList, PlannedTask } from '../types/import';
+
+export const IMPORT_TARGET_LABELS: Record<ImportTargetField, string> = {
+    title: 'Title',
+    description: 'Description',
+    priority: 'Priority',
+    dueDate: 'Due date',
+    tags: 'Tags',
+    status: 'Status',
+    list: 'Area / project',
+    ignore: "Don't import",
+};
+
+const PRIORITIES: TaskPriority[] = ['low', 'medium', 'high'];
+const COMPLETED_VALUES = ['completed', 'complete', 'done', 'x', 'true', 'yes', '1'];
+
+/**
+ * Reads a date as YYYY-MM-DD, or undefined if it isn't one
+ * ISO dates are taken as written; anything else the browser can parse (e.g. "Jan 31 2025") is read
+ * in local time. Relative and repeating dates like "every day" are dropped.
+ */
+export const toImportDate = (value: string): string | undefined => {
+    const isoMatch = value.match(/^(\d{4}-\d{2}-\d{2})/);
+    if (isoMatch) return isoMatch[1];
+
+    const date = new Date(value);
+    return value && isValid(date) ? format(date, 'yyyy-MM-dd') : undefined;
+};
+
+/**
+ * Splits a comma-separated value ("home, @errands, #deep work") into tags
+ * Only commas separate tags, so multi-word tags (from Things or iCal categories) stay whole.
+ */
+const toTags = (value: string): string[] => {
+    return value.split(',').map(tag => tag.trim().replace(/^[@#]/, '')).filter(Boolean);
+};
+
+/**
+ * Values of the source fields mapped onto a target field, in field order
+ */
+const valuesFor = (record: ImportRecord, mapping: ImportFieldMapping, target: ImportTargetField): string[] => {
+    return Object.entries(mapping)
+        .filter(([, field]) => field === target)
+        .map(([key]) => record.values[key]?.trim() ?? '')
+        .filter(Boolean);
+};
+
+/**
+ * Maps one record onto a task, or null if nothing was mapped onto its title
+ */
+const toPlannedTask = (record: ImportRecord, mapping: ImportFieldMapping, parentList?: string): PlannedTask | null => {
+    const title = valuesFor(record, mapping, 'title').join(' ');
+    if (!title) return null;
+
+    const description = valuesFor(record, mapping, 'description').join('\n\n');
+    const priority = valuesFor(record, mapping, 'priority')
+        .map(value => value.toLowerCase())
+        .find((value): value is TaskPriority => PRIORITIES.includes(value as TaskPriority));
+    const dueDate = valuesFor(record, mapping, 'dueDate').map(toImportDate).find(Boolean);
+    const tags = [...new Set(valuesFor(record, mapping, 'tags').flatMap(toTags))];
+    const statusValue = valuesFor(record, mapping, 'status')[0]?.toLowerCase();
+    const status: TaskStatus = statusValue === 'archived' ? 'archived'
+        : statusValue && COMPLETED_VALUES.includes(statusValue) ? 'completed'
+        : 'active';
+    // A list-like value ("Home, Errands") puts the task in its first list
+    const listTitle = valuesFor(record, mapping, 'list')[0]?.split(',')[0].trim() || parentList;
+
+    return {
+        input: {
+            title,
+            description: description || undefined,
+            priority: priority ?? 'medium',
+            status,
+            dueDate,
+            tags: tags.length > 0 ? tags : undefined,
+        },
+        listTitle,
+        subtasks: record.subtasks
+            .map(subtask => toPlannedTask(subtask, mapping, listTitle))
+            .filter((subtask): subtask is PlannedTask => subtask !== null),
+    };
+};
+
+/**
+ * Applies a field mapping to everything read from an import file
+ * Lists found in the file are kept while some field is mapped onto the task's list; lists that tasks
+ * name but the file doesn't describe become projects.
+ * @param source - The parsed import file
+ * @param mapping - Target for each source field (usually source.mapping, as adjusted by the user)
+ */
+export const buildImportPlan = (source: ImportSource, mapping: ImportFieldMapping): ImportPlan => {
+    const tasks: PlannedTask[] = [];
+    let skipped = 0;
+    const countRecords = (record: ImportRecord): number => 1 + record.subtasks.length;
+
+    source.records.forEach(record => {
+        const task = toPlannedTask(record, mapping);
+        if (task) {
+            tasks.push(task);
+            skipped += record.subtasks.length - task.subtasks.length;
+        } else {
+            skipped += countRecords(record);
+        }
+    });
+
+    const mapsLists = Object.values(mapping).includes('list');
+    const lists: ImportedList[] = mapsLists ? [...source.lists] : [];
+    const knownTitles = new Set(lists.map(list => list.title.toLowerCase()));
+    tasks.forEach(task => {
+        if (task.listTitle && !knownTitles.has(task.listTitle.toLowerCase())) {
+            knownTitles.add(task.listTitle.toLowerCase());
+            lists.push({ title: task.listTitle, kind: 'project' });
+        }
+    });
+
+    return { lists, tasks, skipped };
+};
+
+/**
+ * Counts the tasks (including subtasks) a plan will create
+ */
+export const countPlannedTasks = (plan: ImportPlan): number => {
+    return plan.tasks.reduce((sum, task) => sum + 1 + task.subtasks.length, 0);
+};
+
+export interface ImportResult {
+    listsCreated: number;
+    tasksCreated: number;
+}
+
+/**
+ * Writes an import plan through the data service
+ * Areas and projects that already exist (matched by title, ignoring case) are reused rather than
+ * duplicated. Tasks are created one at a time so they keep the file's order.
+ */
+export const applyImportPlan = async (
+    plan: ImportPlan,
+    service: Pick<IDataService, 'getSidebarConfig' | 'addArea' | 'addProject' | 'createTask'>
+): Promise<ImportResult> => {
+    const sidebar = await service.getSidebarConfig();
+    const listKeys = new Map(
+        [...sidebar.areas, ...sidebar.projects].map(item => [item.title.toLowerCase(), item.key])
+    );
+
+    let listsCreated = 0;
+    for (const list of plan.lists) {
+        if (listKeys.has(list.title.toLowerCase())) continue;
+        const created = list.kind === 'area'
+            ? await service.addArea(list.title, undefined, undefined, list.description)
+            : await service.addProject(list.title, undefined, undefined, list.description, list.dueDate);
+        listKeys.set(list.title.toLowerCase(), created.key);
+        listsCreated++;
+    }
+
+    let tasksCreated = 0;
+    for (const task of plan.tasks) {
+        const listId = task.listTitle ? listKeys.get(task.listTitle.toLowerCase()) : undefined;
+        const parent = await service.createTask({ ...task.input, listId });
+        tasksCreated++;
+        for (const subtask of task.subtasks) {
+            await service.createTask({ ...subtask.input, listId, parentId: parent.id });
+            tasksCreated++;
+        }
+    }
+
+    return { listsCreated, tasksCreated };
+};
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest'
+import { sortTasks, describeSort, DEFAULT_SORT } from './taskSort'
+import type { TaskData } from '../types/task'
+
+describe('taskSort', () => {
+  const tasks: TaskData[] = [
+    {
+      id: 'a',
+      title: 'banana',
+      priority: 'low',
+      status: 'active',
+      dueDate: '2025-03-01',
+      order: 2,
+      createdAt: '2025-01-02T00:00:00Z',
+      updatedAt: '2025-01-05T00:00:00Z'
+    },
+    {
+      id: 'b',
+      title: 'Apple',
+      priority: 'high',
+      status: 'active',
+      order: 0,
+      createdAt: '2025-01-03T00:00:00Z',
+      updatedAt: '2025-01-04T00:00:00Z'
+    },
+    {
+      id: 'c',
+      title: 'cherry',
+      priority: 'medium',
+      status: 'active',
+      dueDate: '2025-02-01',
+      order: 1,
+      createdAt: '2025-01-01T00:00:00Z',
+      updatedAt: '2025-01-06T00:00:00Z'
+    },
+    {
+      id: 'd',
+      title: 'date',
+      priority: 'high',
+      status: 'active',
+      createdAt: '2025-01-04T00:00:00Z',
+      updatedAt: '2025-01-01T00:00:00Z'
+    }
+  ]
+
+  const ids = (result: TaskData[]) => result.map(task => task.id)
+
+  it('should sort by manual order by default, with unordered tasks last', () => {
+    expect(ids(sortTasks(tasks))).toEqual(['b', 'c', 'a', 'd'])
+    expect(ids(sortTasks(tasks, DEFAULT_SORT))).toEqual(['b', 'c', 'a', 'd'])
+  })
+
+  it('should ignore the direction for manual order', () => {
+    expect(ids(sortTasks(tasks, { field: 'manual', direction: 'desc' }))).toEqual(['b', 'c', 'a', 'd'])
+  })
+
+  it('should sort by due date, keeping undated tasks last in both directions', () => {
+    expect(ids(sortTasks(tasks, { field: 'dueDate', direction: 'asc' }))).toEqual(['c', 'a', 'b', 'd'])
+    expect(ids(sortTasks(tasks, { field: 'dueDate', direction: 'desc' }))).toEqual(['a', 'c', 'b', 'd'])
+  })
+
+  it('should sort by priority with high first when ascending', () => {
+    expect(ids(sortTasks(tasks, { field: 'priority', direction: 'asc' }))).toEqual(['b', 'd', 'c', 'a'])
+    expect(ids(sortTasks(tasks, { field: 'priority', direction: 'desc' }))).toEqual(['a', 'c', 'b', 'd'])
+  })
+
+  it('should sort by created and updated time', () => {
+    expect(ids(sortTasks(tasks, { field: 'createdAt', direction: 'asc' }))).toEqual(['c', 'a', 'b', 'd'])
+    expect(ids(sortTasks(tasks, { field: 'updatedAt', direction: 'desc' }))).toEqual(['c', 'a', 'b', 'd'])
+  })
+
+  it('should sort by title case-insensitively', () => {
+    expect(ids(sortTasks(tasks, { field: 'title', direction: 'asc' }))).toEqual(['b', 'a', 'c', 'd'])
+    expect(ids(sortTasks(tasks, { field: 'title', direction: 'desc' }))).toEqual(['d', 'c', 'a', 'b'])
+  })
+
+  it('should not mutate the input array', () => {
+    const copy = [...tasks]
+    sortTasks(tasks, { field: 'title', direction: 'asc' })
+    expect(tasks).toEqual(copy)
+  })
+
+  it('should describe sort modes', () => {
+    expect(describeSort(DEFAULT_SORT)).toBe('Manual')
+    expect(describeSort({ field: 'dueDate', direction: 'desc' })).toBe('Due date (Latest first)')
+  })
+})
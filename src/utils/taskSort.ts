@@ -0,0 +1,89 @@
+import type { SortDirection, TaskData, TaskPriority, TaskSort, TaskSortField } from '../types/task';
+
+export const DEFAULT_SORT: TaskSort = { field: 'manual', direction: 'asc' };
+
+export const SORT_FIELD_LABELS: Record<TaskSortField, string> = {
+    manual: 'Manual',
+    dueDate: 'Due date',
+    priority: 'Priority',
+    createdAt: 'Created',
+    updatedAt: 'Updated',
+    title: 'Title',
+};
+
+// Direction labels read naturally for each kind of field
+export const SORT_DIRECTION_LABELS: Record<Exclude<TaskSortField, 'manual'>, Record<SortDirection, string>> = {
+    dueDate: { asc: 'Soonest first', desc: 'Latest first' },
+    priority: { asc: 'High first', desc: 'Low first' },
+    createdAt: { asc: 'Oldest first', desc: 'Newest first' },
+    updatedAt: { asc: 'Oldest first', desc: 'Newest first' },
+    title: { asc: 'A–Z', desc: 'Z–A' },
+};
+
+/**
+ * Describe a sort mode for labels, e.g. "Due date (Latest first)"
+ */
+export const describeSort = (sort: TaskSort): string => {
+    if (sort.field === 'manual') {
+        return SORT_FIELD_LABELS.manual;
+    }
+    return `${SORT_FIELD_LABELS[sort.field]} (${SORT_DIRECTION_LABELS[sort.field][sort.direction]})`;
+};
+
+// Ascending priority puts the most important tasks first
+const PRIORITY_RANK: Record<TaskPriority, number> = {
+    high: 0,
+    medium: 1,
+    low: 2,
+};
+
+/**
+ * Compare tasks by their manual order (tasks without order go to the end)
+ */
+export const compareByOrder = (a: TaskData, b: TaskData): number => {
+    if (a.order === undefined && b.order === undefined) return 0;
+    if (a.order === undefined) return 1;
+    if (b.order === undefined) return -1;
+    return a.order - b.order;
+};
+
+/**
+ * Compare two optional values, keeping missing values at the end in either direction
+ */
+const compareOptional = <T>(a: T | undefined, b: T | undefined, compare: (a: T, b: T) => number, direction: number): number => {
+    if (a === undefined && b === undefined) return 0;
+    if (a === undefined) return 1;
+    if (b === undefined) return -1;
+    return compare(a, b) * direction;
+};
+
+/**
+ * Sort tasks by the given mode
+ * Ties fall back to the manual order so the result is stable across reloads
+ * @param tasks - Array of tasks to sort
+ * @param sort - Sort field and direction (manual order ignores the direction)
+ * @returns New sorted array of tasks
+ */
+export const sortTasks = (tasks: TaskData[], sort: TaskSort = DEFAULT_SORT): TaskData[] => {
+    const direction = sort.direction === 'desc' ? -1 : 1;
+
+    const compareField = (a: TaskData, b: TaskData): number => {
+        switch (sort.field) {
+            case 'manual':
+                return 0;
+            case 'dueDate':
+                // YYYY-MM-DD strings compare chronologically
+                return compareOptional(a.dueDate, b.dueDate, (x, y) => x.localeCompare(y), direction);
+            case 'priority':
+                return (PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority]) * direction;
+            case 'createdAt':
+                return (new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()) * direction;
+            case 'updatedAt':
+                return (new Date(a.updatedAt).getTime() - new Date(b.updatedAt).getTime()) * direction;
+            case 'title':
+                return a.title.localeCompare(b.title, undefined, { sensitivity: 'base' }) * direction;
+        }
+    };
+
+    return [...tasks].sort((a, b) => compareField(a, b) || compareByOrder(a, b));
+};